@@ -269,12 +269,19 @@ BEGIN
       );
       
       -- Add participants
-      INSERT INTO public.conversation_participants (conversation_id, user_id, joined_at, last_read_at)
+      INSERT INTO public.conversation_participants (conversation_id, user_id, joined_at)
       VALUES 
-        (conversation_id, auth_user_id, now() - (random() * interval '30 days'), 
-         CASE WHEN random() < 0.8 THEN now() - (random() * interval '1 day') ELSE NULL END),
-        (conversation_id, test_user_id, now() - (random() * interval '30 days'),
-         CASE WHEN random() < 0.6 THEN now() - (random() * interval '2 days') ELSE NULL END);
+        (conversation_id, auth_user_id, now() - (random() * interval '30 days')),
+        (conversation_id, test_user_id, now() - (random() * interval '30 days'));
+
+      -- Mark most conversations as read up to some point
+      INSERT INTO public.conversation_reads (conversation_id, user_id, last_read_at)
+      SELECT conversation_id, reader.user_id, reader.last_read_at
+      FROM (VALUES
+        (auth_user_id, CASE WHEN random() < 0.8 THEN now() - (random() * interval '1 day') ELSE NULL END),
+        (test_user_id, CASE WHEN random() < 0.6 THEN now() - (random() * interval '2 days') ELSE NULL END)
+      ) AS reader (user_id, last_read_at)
+      WHERE reader.last_read_at IS NOT NULL;
       
       conversation_count := conversation_count + 1;
       
@@ -6,6 +6,7 @@
  */
 
 import type { Activity, CreateActivityData, UpdateActivityData } from '@/types/activities';
+import type { ItineraryRole } from '@/types/itineraries';
 import { extractCapitalizedWords, findMostCommon } from '@/utils';
 import { geocodeAndTimezone } from '@/utils/geocode';
 import { supabase } from '@/utils/supabase';
@@ -223,17 +224,32 @@ async function enrichActivityData(
 }
 
 /**
- * Verifies that the user owns the itinerary
+ * Roles that are allowed to create, update, and delete activities
  */
-async function verifyItineraryOwnership(itineraryId: string, userId: string): Promise<boolean> {
+const EDITOR_ROLES: ItineraryRole[] = ['owner', 'editor'];
+
+/**
+ * Verifies that the user is an accepted member of the itinerary,
+ * optionally restricted to a set of roles
+ */
+async function verifyItineraryAccess(
+  itineraryId: string,
+  userId: string,
+  allowedRoles?: ItineraryRole[]
+): Promise<boolean> {
   const { data, error } = await supabase
-    .from('itineraries')
-    .select('id')
-    .eq('id', itineraryId)
-    .eq('created_by', userId)
+    .from('itinerary_members')
+    .select('role')
+    .eq('itinerary_id', itineraryId)
+    .eq('user_id', userId)
+    .eq('status', 'accepted')
     .single();
 
-  return !error && !!data;
+  if (error || !data) {
+    return false;
+  }
+
+  return !allowedRoles || allowedRoles.includes(data.role as ItineraryRole);
 }
 
 /**
@@ -243,8 +259,8 @@ export async function getActivitiesForItinerary(itineraryId: string): Promise<Ac
   const { data: { user } } = await supabase.auth.getUser();
   if (!user) throw new Error('User not authenticated');
 
-  // Verify user owns the itinerary
-  const hasAccess = await verifyItineraryOwnership(itineraryId, user.id);
+  // Verify user is a member of the itinerary
+  const hasAccess = await verifyItineraryAccess(itineraryId, user.id);
   if (!hasAccess) {
     throw new Error('You do not have permission to view activities for this itinerary');
   }
@@ -286,7 +302,7 @@ export async function getActivity(id: string): Promise<Activity | null> {
 
   // Verify user has access to this activity
   if (data) {
-    const hasAccess = await verifyItineraryOwnership(data.itinerary_id, user.id);
+    const hasAccess = await verifyItineraryAccess(data.itinerary_id, user.id);
     if (!hasAccess) {
       throw new Error('You do not have permission to view this activity');
     }
@@ -305,8 +321,8 @@ export async function createActivity(activityData: CreateActivityData): Promise<
   // Validate input
   validateActivityData(activityData);
 
-  // Verify user owns the itinerary
-  const hasAccess = await verifyItineraryOwnership(activityData.itinerary_id, user.id);
+  // Verify user can edit the itinerary
+  const hasAccess = await verifyItineraryAccess(activityData.itinerary_id, user.id, EDITOR_ROLES);
   if (!hasAccess) {
     throw new Error('You do not have permission to add activities to this itinerary');
   }
@@ -342,12 +358,17 @@ export async function updateActivity(id: string, updates: UpdateActivityData): P
   // Validate input
   validateActivityData(updates);
 
-  // First, get the activity to verify ownership
+  // First, get the activity to verify access
   const existingActivity = await getActivity(id);
   if (!existingActivity) {
     throw new Error('Activity not found');
   }
 
+  const canEdit = await verifyItineraryAccess(existingActivity.itinerary_id, user.id, EDITOR_ROLES);
+  if (!canEdit) {
+    throw new Error('You do not have permission to edit activities in this itinerary');
+  }
+
   // Enrich activity data with GPS coordinates and weather
   const enrichedData = await enrichActivityData(updates, existingActivity.itinerary_id);
 
@@ -373,12 +394,17 @@ export async function deleteActivity(id: string): Promise<void> {
   const { data: { user } } = await supabase.auth.getUser();
   if (!user) throw new Error('User not authenticated');
 
-  // First, get the activity to verify ownership
+  // First, get the activity to verify access
   const existingActivity = await getActivity(id);
   if (!existingActivity) {
     throw new Error('Activity not found');
   }
 
+  const canEdit = await verifyItineraryAccess(existingActivity.itinerary_id, user.id, EDITOR_ROLES);
+  if (!canEdit) {
+    throw new Error('You do not have permission to delete activities from this itinerary');
+  }
+
   const { error } = await supabase
     .from('activities')
     .delete()
@@ -3,9 +3,40 @@
  * It provides functions for interacting with OpenAI endpoints.
  */
 
+import type { AIQuotaErrorBody, AIRequestType, AIUsageSummary } from '@/types/aiUsage';
+import type { AssistantMessage, AssistantReply } from '@/types/assistant';
+import type { CommunitySources } from '@/types/retrieval';
 import type { Activity } from './activities';
 import type { Itinerary } from './itineraries';
 import { supabase } from '@/utils/supabase';
+import { fetch as streamingFetch } from 'expo/fetch';
+
+/**
+ * Error thrown when a streamed AI request is cancelled by the caller
+ */
+export class AIRequestCancelledError extends Error {
+  constructor() {
+    super('AI request was cancelled');
+    this.name = 'AIRequestCancelledError';
+  }
+}
+
+/**
+ * Error thrown when the user has used up their daily quota for an AI feature
+ */
+export class AIQuotaError extends Error {
+  public type: AIRequestType;
+  public limit: number;
+  public retryAfter: number;
+
+  constructor(body: AIQuotaErrorBody) {
+    super(body.error);
+    this.name = 'AIQuotaError';
+    this.type = body.type;
+    this.limit = body.limit;
+    this.retryAfter = body.retryAfter;
+  }
+}
 
 /**
  * Interface for AI activity suggestions
@@ -26,6 +57,8 @@ export interface ActivityData {
   description: string;
   location: string;
   tags: string[];
+  /** Other travelers' content the suggestion was grounded in */
+  sources?: CommunitySources;
 }
 
 /**
@@ -54,6 +87,46 @@ export interface ItineraryDataWithActivities {
     start_time?: string;
     end_time?: string;
   }[];
+  /** Other travelers' content the itinerary was grounded in */
+  sources?: CommunitySources;
+}
+
+/**
+ * Activity as generated for a new itinerary
+ */
+export type GeneratedActivity = ItineraryDataWithActivities['activities'][number];
+
+/**
+ * Callbacks for incremental itinerary generation
+ */
+export interface ItineraryStreamHandlers {
+  /** Called with each itinerary field (title, description, dates) as soon as it is generated */
+  onItinerary?: (fields: Partial<Omit<ItineraryDataWithActivities, 'activities'>>) => void;
+  /** Called with each activity as soon as it is generated */
+  onActivity?: (activity: GeneratedActivity, index: number) => void;
+  /** Called before generation starts with the community content the itinerary is grounded in */
+  onSources?: (sources: CommunitySources) => void;
+}
+
+/**
+ * Most recent assistant conversation messages sent with each request
+ */
+const ASSISTANT_HISTORY_LIMIT = 40;
+
+/**
+ * Builds the error for a failed AI request from its JSON error body
+ * @param response - The failed response
+ * @param fallback - Message used when the body has none
+ */
+async function toRequestError(
+  response: { status: number; json(): Promise<any> },
+  fallback: string
+): Promise<Error> {
+  const body = await response.json().catch(() => ({}));
+  if (response.status === 429 && body.code === 'quota_exceeded') {
+    return new AIQuotaError(body);
+  }
+  return new Error(body.error || fallback);
 }
 
 /**
@@ -87,8 +160,7 @@ export async function fillActivityDataWithAI(
     });
 
     if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || 'Failed to get AI suggestions');
+      throw await toRequestError(response, 'Failed to get AI suggestions');
     }
 
     const data = await response.json();
@@ -130,8 +202,7 @@ export async function generateActivityImageWithAI(
     });
 
     if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || 'Failed to generate AI image');
+      throw await toRequestError(response, 'Failed to generate AI image');
     }
 
     const data = await response.json();
@@ -173,12 +244,11 @@ export async function createActivityFromPrompt(
     });
 
     if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || 'Failed to create activity from prompt');
+      throw await toRequestError(response, 'Failed to create activity from prompt');
     }
 
     const data = await response.json();
-    return data.activity;
+    return { ...data.activity, sources: data.sources };
   } catch (error) {
     console.error('Error creating activity from prompt:', error);
     throw error;
@@ -213,8 +283,7 @@ export async function fillItineraryDataWithAI(
     });
 
     if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || 'Failed to get AI suggestions');
+      throw await toRequestError(response, 'Failed to get AI suggestions');
     }
 
     const data = await response.json();
@@ -253,8 +322,7 @@ export async function generateItineraryImageWithAI(
     });
 
     if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || 'Failed to generate AI image');
+      throw await toRequestError(response, 'Failed to generate AI image');
     }
 
     const data = await response.json();
@@ -293,15 +361,244 @@ export async function createItineraryFromPrompt(
     });
 
     if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || 'Failed to create itinerary from prompt');
+      throw await toRequestError(response, 'Failed to create itinerary from prompt');
     }
 
     const data = await response.json();
-    return data.itinerary;
+    return { ...data.itinerary, sources: data.sources };
   } catch (error) {
     console.error('Error creating itinerary from prompt:', error);
     throw error;
   }
 }
 
+/**
+ * Creates a new itinerary with activities from a user prompt, reporting each part as it is generated
+ * @param prompt - User's description of the desired trip
+ * @param handlers - Callbacks for the itinerary fields and activities as they arrive
+ * @param signal - Aborts generation; the returned promise then rejects with `AIRequestCancelledError`
+ * @returns Complete itinerary data with activities
+ */
+export async function streamItineraryFromPrompt(
+  prompt: string,
+  handlers: ItineraryStreamHandlers = {},
+  signal?: AbortSignal
+): Promise<ItineraryDataWithActivities> {
+  try {
+    // Get the current user's auth token
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      throw new Error('No authenticated session');
+    }
+
+    // expo/fetch exposes the response body as a stream, but unlike the global fetch it does not
+    // resolve relative URLs against the dev server, so resolve it here
+    const response = await streamingFetch(new URL('/server/ai/openai-request', window.location?.origin).toString(), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`
+      },
+      body: JSON.stringify({
+        type: 'create-itinerary-from-prompt',
+        prompt,
+        stream: true
+      }),
+      signal
+    });
+
+    if (!response.ok) {
+      throw await toRequestError(response, 'Failed to create itinerary from prompt');
+    }
+    if (!response.body) {
+      throw new Error('Streaming is not supported');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let sources: CommunitySources | undefined;
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      // Server-sent events are separated by a blank line
+      const blocks = buffer.split('\n\n');
+      buffer = blocks.pop() || '';
+
+      for (const block of blocks) {
+        const event = block.match(/^event: (.*)$/m)?.[1];
+        const data = JSON.parse(block.match(/^data: (.*)$/m)?.[1] || '{}');
+
+        switch (event) {
+          case 'sources':
+            sources = data.sources;
+            handlers.onSources?.(data.sources);
+            break;
+          case 'itinerary':
+            handlers.onItinerary?.(data);
+            break;
+          case 'activity':
+            handlers.onActivity?.(data.activity, data.index);
+            break;
+          case 'done':
+            return { ...data.itinerary, sources };
+          case 'error':
+            throw new Error(data.error || 'Failed to create itinerary from prompt');
+        }
+      }
+    }
+
+    throw new Error('Itinerary stream ended unexpectedly');
+  } catch (error) {
+    if (signal?.aborted) {
+      throw new AIRequestCancelledError();
+    }
+    console.error('Error streaming itinerary from prompt:', error);
+    throw error;
+  }
+}
+
+/**
+ * Gets the trip assistant's next turn for a conversation
+ * @param history - The conversation so far, oldest first; every tool call must already have a result
+ * @returns The assistant's reply text and any tool calls it wants to make
+ */
+export async function requestAssistantReply(history: AssistantMessage[]): Promise<AssistantReply> {
+  try {
+    // Get the current user's auth token
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      throw new Error('No authenticated session');
+    }
+
+    // Start the window at a user message so tool results are never sent without their tool call
+    let start = Math.max(0, history.length - ASSISTANT_HISTORY_LIMIT);
+    while (start > 0 && history[start].role !== 'user') start--;
+
+    // Drop tool calls left without a result, e.g. by a failed save, since the request would be rejected
+    const recent = history.slice(start);
+    const answered = new Set(recent.filter(message => message.role === 'tool').map(message => message.toolCallId));
+
+    const messages = recent.map(message => {
+      switch (message.role) {
+        case 'assistant': {
+          const toolCalls = (message.toolCalls || []).filter(call => answered.has(call.id));
+          return {
+            role: 'assistant',
+            content: message.content || (toolCalls.length > 0 ? null : ''),
+            ...(toolCalls.length > 0 && {
+              tool_calls: toolCalls.map(call => ({
+                id: call.id,
+                type: 'function',
+                function: { name: call.name, arguments: call.arguments }
+              }))
+            })
+          };
+        }
+        case 'tool':
+          return { role: 'tool', tool_call_id: message.toolCallId, content: message.content || '' };
+        default:
+          return { role: 'user', content: message.content || '' };
+      }
+    });
+
+    const response = await fetch('/server/ai/openai-request', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`
+      },
+      body: JSON.stringify({
+        type: 'assistant-chat',
+        messages,
+        now: new Date().toISOString(),
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone
+      })
+    });
+
+    if (!response.ok) {
+      throw await toRequestError(response, 'Failed to get a reply from the assistant');
+    }
+
+    const data = await response.json();
+    return data.reply;
+  } catch (error) {
+    console.error('Error requesting assistant reply:', error);
+    throw error;
+  }
+}
+
+/**
+ * Generates a social media caption for a photo
+ * @param imageBase64 - The photo as base64-encoded JPEG
+ * @returns The generated caption
+ */
+export async function generateImageCaptionWithAI(imageBase64: string): Promise<string> {
+  try {
+    // Get the current user's auth token
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      throw new Error('No authenticated session');
+    }
+
+    const response = await fetch('/server/ai/openai-request', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`
+      },
+      body: JSON.stringify({
+        type: 'generate-image-caption',
+        image: imageBase64
+      })
+    });
+
+    if (!response.ok) {
+      throw await toRequestError(response, 'Failed to generate caption');
+    }
+
+    const data = await response.json();
+    return data.caption;
+  } catch (error) {
+    console.error('Error generating image caption with AI:', error);
+    throw error;
+  }
+}
+
+/**
+ * Gets the current user's AI usage today against their daily quotas
+ * @returns Usage per AI feature and the estimated cost over the last 30 days
+ */
+export async function getAIUsageSummary(): Promise<AIUsageSummary> {
+  try {
+    // Get the current user's auth token
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      throw new Error('No authenticated session');
+    }
+
+    const response = await fetch('/server/ai/openai-request', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`
+      },
+      body: JSON.stringify({
+        type: 'get-usage'
+      })
+    });
+
+    if (!response.ok) {
+      throw await toRequestError(response, 'Failed to load AI usage');
+    }
+
+    const data = await response.json();
+    return data.usage;
+  } catch (error) {
+    console.error('Error getting AI usage summary:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,348 @@
+/**
+ * @file This file contains API functions for the AI trip assistant.
+ * It provides functions for storing the assistant conversation and for running the assistant's
+ * tool calls against the user's itineraries and activities.
+ */
+
+import type { Activity, UpdateActivityData } from '@/types/activities';
+import type {
+  AssistantAction,
+  AssistantActionChange,
+  AssistantMessage,
+  AssistantMutatingToolName,
+  AssistantToolCall,
+  CreateAssistantMessageData,
+  UpdateAssistantMessageData,
+} from '@/types/assistant';
+import type { UpdateItineraryData } from '@/types/itineraries';
+import { isMutatingTool } from '@/utils/assistantTools';
+import { supabase } from '@/utils/supabase';
+import { createActivity, deleteActivity, getActivitiesForItinerary, getActivity, updateActivity } from './activities';
+import { getItineraries, getItinerary, updateItinerary } from './itineraries';
+
+/**
+ * Activity fields the assistant may change, with their display labels
+ */
+const ACTIVITY_FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  description: 'Description',
+  location: 'Location',
+  start_time: 'Starts',
+  end_time: 'Ends',
+  tags: 'Tags',
+};
+
+/**
+ * Itinerary fields the assistant may change, with their display labels
+ */
+const ITINERARY_FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  description: 'Description',
+  start_time: 'Starts',
+  end_time: 'Ends',
+};
+
+/**
+ * Maps a database row to an assistant message
+ */
+function toAssistantMessage(row: any): AssistantMessage {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    role: row.role,
+    content: row.content,
+    toolCalls: row.tool_calls,
+    toolCallId: row.tool_call_id,
+    action: row.action,
+    actionStatus: row.action_status,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Fetches the current user's assistant conversation, oldest first
+ */
+export async function getAssistantMessages(): Promise<AssistantMessage[]> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  const { data, error } = await supabase
+    .from('assistant_messages')
+    .select('*')
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching assistant messages:', error);
+    throw error;
+  }
+
+  return (data || []).map(toAssistantMessage);
+}
+
+/**
+ * Adds a message to the current user's assistant conversation
+ */
+export async function createAssistantMessage(messageData: CreateAssistantMessageData): Promise<AssistantMessage> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  const { data, error } = await supabase
+    .from('assistant_messages')
+    .insert({
+      user_id: user.id,
+      role: messageData.role,
+      content: messageData.content ?? null,
+      tool_calls: messageData.toolCalls ?? null,
+      tool_call_id: messageData.toolCallId ?? null,
+      action: messageData.action ?? null,
+      action_status: messageData.actionStatus ?? null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating assistant message:', error);
+    throw error;
+  }
+
+  return toAssistantMessage(data);
+}
+
+/**
+ * Records the result of a tool message, e.g. once a proposed change is confirmed or declined
+ */
+export async function updateAssistantMessage(id: string, updates: UpdateAssistantMessageData): Promise<AssistantMessage> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  const row: Record<string, unknown> = {};
+  if (updates.content !== undefined) row.content = updates.content;
+  if (updates.actionStatus !== undefined) row.action_status = updates.actionStatus;
+
+  const { data, error } = await supabase
+    .from('assistant_messages')
+    .update(row)
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error updating assistant message:', error);
+    throw error;
+  }
+
+  return toAssistantMessage(data);
+}
+
+/**
+ * Deletes the current user's whole assistant conversation
+ */
+export async function clearAssistantMessages(): Promise<void> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  const { error } = await supabase
+    .from('assistant_messages')
+    .delete()
+    .eq('user_id', user.id);
+
+  if (error) {
+    console.error('Error clearing assistant messages:', error);
+    throw error;
+  }
+}
+
+// --- TOOLS ---
+
+/**
+ * Parses a tool call's JSON arguments, treating malformed output as no arguments
+ */
+export function parseToolArguments(call: AssistantToolCall): Record<string, any> {
+  try {
+    const args = JSON.parse(call.arguments || '{}');
+    return args && typeof args === 'object' ? args : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Runs a tool that only reads data
+ *
+ * @returns The JSON result to send back to the assistant
+ */
+export async function runAssistantReadTool(name: string, args: Record<string, any>): Promise<string> {
+  switch (name) {
+    case 'list_itineraries': {
+      const itineraries = await getItineraries();
+      return JSON.stringify(itineraries.map(itinerary => ({
+        id: itinerary.id,
+        title: itinerary.title,
+        description: itinerary.description,
+        start_time: itinerary.start_time,
+        end_time: itinerary.end_time,
+        role: itinerary.role,
+      })));
+    }
+    case 'get_itinerary_activities': {
+      const activities = await getActivitiesForItinerary(requireString(args, 'itinerary_id'));
+      return JSON.stringify(activities.map(activity => ({
+        id: activity.id,
+        title: activity.title,
+        description: activity.description,
+        location: activity.location,
+        start_time: activity.start_time,
+        end_time: activity.end_time,
+        timezone: activity.timezone,
+        tags: activity.tags,
+      })));
+    }
+    default:
+      throw new Error(`Unknown tool: ${name}`);
+  }
+}
+
+/**
+ * Turns a mutating tool call into a change for the user to confirm, describing each field
+ * as it is now and as it would become
+ */
+export async function prepareAssistantAction(name: string, args: Record<string, any>): Promise<AssistantAction> {
+  if (!isMutatingTool(name)) {
+    throw new Error(`Unknown tool: ${name}`);
+  }
+
+  switch (name) {
+    case 'create_activity': {
+      const itinerary = await getItinerary(requireString(args, 'itinerary_id'));
+      if (!itinerary) throw new Error('Itinerary not found');
+      return {
+        tool: name,
+        args,
+        summary: `Add "${args.title}" to ${itinerary.title}`,
+        itineraryId: itinerary.id,
+        changes: describeChanges(ACTIVITY_FIELD_LABELS, {}, args),
+      };
+    }
+    case 'update_activity':
+    case 'delete_activity': {
+      const activity = await getActivity(requireString(args, 'activity_id'));
+      if (!activity) throw new Error('Activity not found');
+      const isDelete = name === 'delete_activity';
+      return {
+        tool: name,
+        args,
+        summary: isDelete ? `Remove "${activity.title}"` : `Update "${activity.title}"`,
+        itineraryId: activity.itinerary_id,
+        changes: isDelete ? [] : describeChanges(ACTIVITY_FIELD_LABELS, activity, args),
+      };
+    }
+    case 'update_itinerary': {
+      const itinerary = await getItinerary(requireString(args, 'itinerary_id'));
+      if (!itinerary) throw new Error('Itinerary not found');
+      return {
+        tool: name,
+        args,
+        summary: `Update "${itinerary.title}"`,
+        itineraryId: itinerary.id,
+        changes: describeChanges(ITINERARY_FIELD_LABELS, itinerary, args),
+      };
+    }
+  }
+}
+
+/**
+ * Applies a confirmed change through the itinerary and activity APIs
+ *
+ * @returns The JSON result to send back to the assistant
+ */
+export async function applyAssistantAction(action: AssistantAction): Promise<string> {
+  const { args } = action;
+  const tool: AssistantMutatingToolName = action.tool;
+
+  switch (tool) {
+    case 'create_activity': {
+      const activity = await createActivity({
+        itinerary_id: requireString(args, 'itinerary_id'),
+        title: requireString(args, 'title'),
+        description: args.description ?? undefined,
+        location: args.location ?? undefined,
+        start_time: args.start_time ?? undefined,
+        end_time: args.end_time ?? undefined,
+        tags: args.tags,
+      });
+      return JSON.stringify({ status: 'created', activity: summarizeActivity(activity) });
+    }
+    case 'update_activity': {
+      const activity = await updateActivity(requireString(args, 'activity_id'), pickFields(args, ACTIVITY_FIELD_LABELS) as UpdateActivityData);
+      return JSON.stringify({ status: 'updated', activity: summarizeActivity(activity) });
+    }
+    case 'delete_activity': {
+      await deleteActivity(requireString(args, 'activity_id'));
+      return JSON.stringify({ status: 'deleted' });
+    }
+    case 'update_itinerary': {
+      const itinerary = await updateItinerary(requireString(args, 'itinerary_id'), pickFields(args, ITINERARY_FIELD_LABELS) as UpdateItineraryData);
+      return JSON.stringify({ status: 'updated', itinerary: { id: itinerary.id, title: itinerary.title } });
+    }
+  }
+}
+
+// --- HELPERS ---
+
+function requireString(args: Record<string, any>, key: string): string {
+  const value = args[key];
+  if (typeof value !== 'string' || !value) {
+    throw new Error(`Missing required argument: ${key}`);
+  }
+  return value;
+}
+
+/**
+ * Keeps only the arguments that name a known field
+ */
+function pickFields(args: Record<string, any>, labels: Record<string, string>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(args).filter(([key]) => key in labels));
+}
+
+function describeChanges(
+  labels: Record<string, string>,
+  current: Record<string, any>,
+  args: Record<string, any>
+): AssistantActionChange[] {
+  return Object.entries(pickFields(args, labels))
+    .map(([key, value]) => ({
+      label: labels[key],
+      from: formatFieldValue(key, current[key]),
+      to: formatFieldValue(key, value),
+    }))
+    .filter(change => change.from !== change.to);
+}
+
+function formatFieldValue(key: string, value: unknown): string | null {
+  if (value === null || value === undefined || value === '') return null;
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : null;
+  if (key.endsWith('_time')) {
+    const date = new Date(String(value));
+    if (isNaN(date.getTime())) return String(value);
+    return date.toLocaleString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+  }
+  return String(value);
+}
+
+function summarizeActivity(activity: Activity) {
+  return {
+    id: activity.id,
+    title: activity.title,
+    location: activity.location,
+    start_time: activity.start_time,
+    end_time: activity.end_time,
+  };
+}
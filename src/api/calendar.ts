@@ -0,0 +1,55 @@
+"use client";
+
+/**
+ * @file This file contains API functions for exporting itineraries to, and importing them from, iCalendar (.ics) files.
+ */
+
+import type { Itinerary } from '@/types/itineraries';
+import { exportItineraryToICS, parseICS } from '@/utils/ical';
+import { createActivity, getActivitiesForItinerary, updateActivity } from './activities';
+import { createItinerary, deleteItinerary, getItinerary } from './itineraries';
+
+/**
+ * Builds the .ics contents for an itinerary and all of its activities
+ */
+export async function exportItineraryCalendar(itineraryId: string): Promise<string> {
+  const itinerary = await getItinerary(itineraryId);
+  if (!itinerary) {
+    throw new Error('Itinerary not found');
+  }
+
+  const activities = await getActivitiesForItinerary(itineraryId);
+  return exportItineraryToICS(itinerary, activities);
+}
+
+/**
+ * Creates a new itinerary from the contents of an .ics file.
+ * Events and to-dos become activities; coordinates and timezones from the file are kept.
+ * If an activity cannot be created, the new itinerary is deleted again so no partial import is left.
+ */
+export async function importItineraryFromICS(text: string): Promise<Itinerary> {
+  const { itinerary: itineraryData, activities } = parseICS(text);
+
+  const itinerary = await createItinerary(itineraryData);
+
+  try {
+    for (const { gps_coords, timezone, ...activityData } of activities) {
+      const activity = await createActivity({ ...activityData, itinerary_id: itinerary.id });
+
+      // Geocoded values from createActivity are overridden by what the calendar specified
+      if (gps_coords || timezone) {
+        await updateActivity(activity.id, {
+          ...(gps_coords && { gps_coords }),
+          ...(timezone && { timezone }),
+        });
+      }
+    }
+  } catch (error) {
+    await deleteItinerary(itinerary.id).catch(deleteError => {
+      console.error('Error removing partially imported itinerary:', deleteError);
+    });
+    throw error;
+  }
+
+  return itinerary;
+}
@@ -7,7 +7,10 @@ import {
   ConversationParticipant,
   ConversationWithDetails,
   fetchLatestMessage,
-  getUnreadMessageCount
+  getUnreadMessageCount,
+  ConversationPreferences,
+  MessageExpiry,
+  ParticipantRole
 } from '@/api/messages';
 import { supabase } from '@/utils/supabase';
 
@@ -56,6 +59,10 @@ const CONVERSATION_LIMITS = {
   MAX_PARTICIPANTS_DIRECT: 1,
 } as const;
 
+const MESSAGE_EXPIRY_OPTIONS: MessageExpiry[] = ['view_once', '1h', '24h', '7d', 'never'];
+
+const PARTICIPANT_ROLES: ParticipantRole[] = ['admin', 'member'];
+
 /**
  * Validates UUID format
  */
@@ -129,6 +136,19 @@ function validateCreateConversationData(data: CreateConversationData, currentUse
   }
 }
 
+/**
+ * Validates the IDs passed to a group management action
+ */
+function validateGroupAction(conversationId: string, currentUserId: string): void {
+  if (!conversationId || !isValidUUID(conversationId)) {
+    throw new ConversationValidationError('Invalid conversation ID', 'conversationId');
+  }
+
+  if (!currentUserId || !isValidUUID(currentUserId)) {
+    throw new ConversationValidationError('Invalid user ID', 'currentUserId');
+  }
+}
+
 /**
  * Creates a new conversation and adds participants.
  * For direct conversations, ensures only two participants and no title.
@@ -202,11 +222,13 @@ export async function createConversation(
     }
 
     // Add all participants (including current user)
+    // The creator of a group is its first admin
     const allParticipantIds = [currentUserId, ...conversationData.participantIds];
     const participantInserts = allParticipantIds.map(userId => ({
       conversation_id: conversationResult.id,
       user_id: userId,
       is_active: true,
+      role: conversationData.type === 'group' && userId === currentUserId ? 'admin' : 'member',
     }));
 
     const { error: participantsError } = await supabase
@@ -383,10 +405,22 @@ export async function fetchConversationById(
       return null; // User is not a participant or conversation doesn't exist
     }
 
+    // Fetch the user's own settings for the conversation; no row means the defaults
+    const { data: preferencesData, error: preferencesError } = await supabase
+      .from('conversation_preferences')
+      .select('is_pinned, is_archived, is_muted, muted_until')
+      .eq('conversation_id', conversationId)
+      .eq('user_id', currentUserId)
+      .maybeSingle();
+
+    if (preferencesError) {
+      throw preferencesError;
+    }
+
     // Fetch conversation details
     const { data: conversationData, error: conversationError } = await supabase
       .from('conversations')
-      .select('id, type, title, created_at, updated_at')
+      .select('id, type, title, avatar_url, message_expiry, created_at, updated_at')
       .eq('id', conversationId)
       .single();
 
@@ -401,8 +435,9 @@ export async function fetchConversationById(
         conversation_id,
         user_id,
         joined_at,
-        last_read_at,
+        read_receipt_at,
         is_active,
+        role,
         profiles!conversation_participants_user_id_profiles_id_fk (
           id,
           username,
@@ -428,8 +463,9 @@ export async function fetchConversationById(
       conversationId: participant.conversation_id,
       userId: participant.user_id,
       joinedAt: participant.joined_at,
-      lastReadAt: participant.last_read_at,
+      readReceiptAt: participant.read_receipt_at,
       isActive: participant.is_active,
+      role: participant.role as ParticipantRole,
       user: {
         id: (participant.profiles as any).id,
         username: (participant.profiles as any).username,
@@ -442,11 +478,19 @@ export async function fetchConversationById(
       id: conversationData.id,
       type: conversationData.type as 'direct' | 'group',
       title: conversationData.title,
+      avatarUrl: conversationData.avatar_url,
+      messageExpiry: conversationData.message_expiry as MessageExpiry,
       createdAt: conversationData.created_at,
       updatedAt: conversationData.updated_at,
       participants,
       lastMessage: lastMessage || undefined,
       unreadCount,
+      preferences: {
+        isPinned: preferencesData?.is_pinned ?? false,
+        isArchived: preferencesData?.is_archived ?? false,
+        isMuted: preferencesData?.is_muted ?? false,
+        mutedUntil: preferencesData?.muted_until ?? null,
+      },
     };
   } catch (error) {
     console.error('Error fetching conversation by ID:', error);
@@ -455,128 +499,323 @@ export async function fetchConversationById(
 }
 
 /**
- * Adds participants to an existing conversation.
- * Only works for group conversations.
+ * Changes how long new messages last in a conversation. Any participant can change it; the
+ * database announces the change to everyone with a system message.
+ *
+ * @param conversationId - The ID of the conversation
+ * @param messageExpiry - The new setting
+ * @returns Promise resolving when the setting is changed
+ * @throws {ConversationValidationError} When the conversation ID or setting is invalid
+ */
+export async function setConversationMessageExpiry(
+  conversationId: string,
+  messageExpiry: MessageExpiry
+): Promise<void> {
+  try {
+    if (!conversationId || !isValidUUID(conversationId)) {
+      throw new ConversationValidationError('Invalid conversation ID', 'conversationId');
+    }
+
+    if (!MESSAGE_EXPIRY_OPTIONS.includes(messageExpiry)) {
+      throw new ConversationValidationError('Invalid disappearing messages setting', 'messageExpiry');
+    }
+
+    const { error } = await supabase.rpc('set_conversation_message_expiry', {
+      p_conversation_id: conversationId,
+      p_expiry: messageExpiry,
+    });
+
+    if (error) {
+      throw error;
+    }
+  } catch (error) {
+    console.error('Error changing disappearing messages setting:', error);
+    throw error;
+  }
+}
+
+/**
+ * Changes the current user's own settings for a conversation: pinned, archived and muted.
+ * Turning a mute off also clears when it would have ended.
+ *
+ * @param conversationId - The ID of the conversation
+ * @param preferences - The settings to change
+ * @param currentUserId - The ID of the current user
+ * @returns Promise resolving when the settings are changed
+ * @throws {ConversationValidationError} When the IDs or mute end time are invalid
+ */
+export async function updateConversationPreferences(
+  conversationId: string,
+  preferences: Partial<ConversationPreferences>,
+  currentUserId: string
+): Promise<void> {
+  try {
+    if (!conversationId || !isValidUUID(conversationId)) {
+      throw new ConversationValidationError('Invalid conversation ID', 'conversationId');
+    }
+
+    if (!currentUserId || !isValidUUID(currentUserId)) {
+      throw new ConversationValidationError('Invalid user ID', 'currentUserId');
+    }
+
+    if (preferences.mutedUntil && isNaN(new Date(preferences.mutedUntil).getTime())) {
+      throw new ConversationValidationError('Invalid mute end time', 'mutedUntil');
+    }
+
+    const updates: Record<string, boolean | string | null> = {};
+    if (preferences.isPinned !== undefined) updates.is_pinned = preferences.isPinned;
+    if (preferences.isArchived !== undefined) updates.is_archived = preferences.isArchived;
+    if (preferences.isMuted !== undefined) {
+      updates.is_muted = preferences.isMuted;
+      updates.muted_until = preferences.isMuted ? preferences.mutedUntil ?? null : null;
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return;
+    }
+
+    // Settings left out keep their stored value, or the default on the first change
+    const { error } = await supabase
+      .from('conversation_preferences')
+      .upsert(
+        { conversation_id: conversationId, user_id: currentUserId, ...updates },
+        { onConflict: 'conversation_id,user_id' }
+      );
+
+    if (error) {
+      throw error;
+    }
+  } catch (error) {
+    console.error('Error updating conversation preferences:', error);
+    throw error;
+  }
+}
+
+/**
+ * Adds members to a group conversation, or brings back ones who left or were removed.
+ * Only group admins can add members; the database announces them with a system message.
  * 
  * @param addParticipantData - The participant data to add
- * @param currentUserId - The ID of the current user (must be a participant)
+ * @param currentUserId - The ID of the current user (must be an admin)
  * @returns Promise resolving when participants are added
+ * @throws {ConversationValidationError} When the conversation or user IDs are invalid
  */
 export async function addParticipants(
   addParticipantData: AddParticipantData,
   currentUserId: string
 ): Promise<void> {
   try {
-    // Verify current user is a participant and conversation is a group
-    const conversation = await fetchConversationById(addParticipantData.conversationId, currentUserId);
-    
-    if (!conversation) {
-      throw new Error('Conversation not found or user does not have access');
-    }
+    validateGroupAction(addParticipantData.conversationId, currentUserId);
 
-    if (conversation.type !== 'group') {
-      throw new Error('Can only add participants to group conversations');
+    const { userIds } = addParticipantData;
+    if (userIds.length === 0) {
+      return;
     }
 
-    // Check which users are not already participants
-    const { data: existingParticipants, error: existingError } = await supabase
-      .from('conversation_participants')
-      .select('user_id')
-      .eq('conversation_id', addParticipantData.conversationId)
-      .in('user_id', addParticipantData.userIds)
-      .eq('is_active', true);
+    if (userIds.length > CONVERSATION_LIMITS.MAX_PARTICIPANTS) {
+      throw new ConversationValidationError(`Cannot add more than ${CONVERSATION_LIMITS.MAX_PARTICIPANTS} participants`, 'userIds');
+    }
 
-    if (existingError) {
-      throw existingError;
+    if (userIds.some(userId => !userId || !isValidUUID(userId))) {
+      throw new ConversationValidationError('Invalid participant ID found', 'userIds');
     }
 
-    const existingUserIds = new Set(existingParticipants?.map(p => p.user_id) || []);
-    const newUserIds = addParticipantData.userIds.filter(id => !existingUserIds.has(id));
+    // The database checks the current user is an admin and skips existing members
+    const { error } = await supabase.rpc('add_conversation_participants', {
+      p_conversation_id: addParticipantData.conversationId,
+      p_user_ids: userIds,
+    });
 
-    if (newUserIds.length === 0) {
-      return; // All users are already participants
+    if (error) {
+      throw error;
     }
+  } catch (error) {
+    console.error('Error adding participants:', error);
+    throw error;
+  }
+}
 
-    // Add new participants
-    const participantInserts = newUserIds.map(userId => ({
-      conversation_id: addParticipantData.conversationId,
-      user_id: userId,
-      is_active: true,
-    }));
+/**
+ * Removes another member from a group conversation. Only group admins can remove members.
+ * 
+ * @param conversationId - The ID of the conversation
+ * @param userId - The ID of the member to remove
+ * @param currentUserId - The ID of the current user (must be an admin)
+ * @returns Promise resolving when the member is removed
+ * @throws {ConversationValidationError} When the IDs are invalid or the user tries to remove themselves
+ */
+export async function removeParticipant(
+  conversationId: string,
+  userId: string,
+  currentUserId: string
+): Promise<void> {
+  try {
+    validateGroupAction(conversationId, currentUserId);
 
-    const { error: insertError } = await supabase
-      .from('conversation_participants')
-      .insert(participantInserts);
+    if (!userId || !isValidUUID(userId)) {
+      throw new ConversationValidationError('Invalid user ID', 'userId');
+    }
 
-    if (insertError) {
-      throw insertError;
+    if (userId === currentUserId) {
+      throw new ConversationValidationError('Leave the group to remove yourself', 'userId');
     }
 
-    // Update conversation timestamp
-    const { error: updateError } = await supabase
-      .from('conversations')
-      .update({ updated_at: new Date().toISOString() })
-      .eq('id', addParticipantData.conversationId);
+    const { error } = await supabase.rpc('remove_conversation_participant', {
+      p_conversation_id: conversationId,
+      p_user_id: userId,
+    });
 
-    if (updateError) {
-      console.warn('Failed to update conversation timestamp:', updateError);
+    if (error) {
+      throw error;
     }
   } catch (error) {
-    console.error('Error adding participants:', error);
+    console.error('Error removing participant:', error);
     throw error;
   }
 }
 
 /**
- * Removes a participant from a conversation.
- * Users can only remove themselves from group conversations (leave group).
- * Direct conversations cannot have participants removed.
+ * Makes another member of a group conversation an admin, or a member again.
+ * Only group admins can change roles, and not their own.
  * 
  * @param conversationId - The ID of the conversation
- * @param currentUserId - The ID of the current user performing the action (removes themselves)
- * @returns Promise resolving when participant is removed
+ * @param userId - The ID of the member
+ * @param role - The member's new role
+ * @param currentUserId - The ID of the current user (must be an admin)
+ * @returns Promise resolving when the role is changed
+ * @throws {ConversationValidationError} When the IDs or role are invalid
  */
-export async function leaveConversation(
+export async function setParticipantRole(
   conversationId: string,
+  userId: string,
+  role: ParticipantRole,
   currentUserId: string
 ): Promise<void> {
   try {
-    // Verify current user is a participant
-    const conversation = await fetchConversationById(conversationId, currentUserId);
-    
-    if (!conversation) {
-      throw new Error('Conversation not found or user does not have access');
+    validateGroupAction(conversationId, currentUserId);
+
+    if (!userId || !isValidUUID(userId)) {
+      throw new ConversationValidationError('Invalid user ID', 'userId');
     }
 
-    // Users cannot leave direct conversations
-    if (conversation.type === 'direct') {
-      throw new Error('Cannot leave direct conversations');
+    if (userId === currentUserId) {
+      throw new ConversationValidationError('Admins cannot change their own role', 'userId');
     }
 
-    // Users can only leave group conversations
-    if (conversation.type !== 'group') {
-      throw new Error('Can only leave group conversations');
+    if (!PARTICIPANT_ROLES.includes(role)) {
+      throw new ConversationValidationError('Invalid role', 'role');
     }
 
-    // Set the current user as inactive (leave the group)
-    const { error: updateError } = await supabase
-      .from('conversation_participants')
-      .update({ is_active: false })
-      .eq('conversation_id', conversationId)
-      .eq('user_id', currentUserId);
+    const { error } = await supabase.rpc('set_conversation_participant_role', {
+      p_conversation_id: conversationId,
+      p_user_id: userId,
+      p_role: role,
+    });
 
-    if (updateError) {
-      throw updateError;
+    if (error) {
+      throw error;
     }
+  } catch (error) {
+    console.error('Error changing participant role:', error);
+    throw error;
+  }
+}
 
-    // Update conversation timestamp
-    const { error: conversationUpdateError } = await supabase
-      .from('conversations')
-      .update({ updated_at: new Date().toISOString() })
-      .eq('id', conversationId);
+/**
+ * Renames a group conversation. Only group admins can rename it.
+ * 
+ * @param conversationId - The ID of the conversation
+ * @param title - The new group name
+ * @param currentUserId - The ID of the current user (must be an admin)
+ * @returns Promise resolving to the saved name
+ * @throws {ConversationValidationError} When the conversation ID or name is invalid
+ */
+export async function renameConversation(
+  conversationId: string,
+  title: string,
+  currentUserId: string
+): Promise<string> {
+  try {
+    validateGroupAction(conversationId, currentUserId);
+
+    const sanitizedTitle = sanitizeTitle(title || '');
+    if (sanitizedTitle.length < CONVERSATION_LIMITS.MIN_TITLE_LENGTH) {
+      throw new ConversationValidationError('Group name cannot be empty', 'title');
+    }
+    if (sanitizedTitle.length > CONVERSATION_LIMITS.MAX_TITLE_LENGTH) {
+      throw new ConversationValidationError(`Group name cannot exceed ${CONVERSATION_LIMITS.MAX_TITLE_LENGTH} characters`, 'title');
+    }
+
+    const { error } = await supabase.rpc('rename_conversation', {
+      p_conversation_id: conversationId,
+      p_title: sanitizedTitle,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return sanitizedTitle;
+  } catch (error) {
+    console.error('Error renaming conversation:', error);
+    throw error;
+  }
+}
+
+/**
+ * Changes or removes a group conversation's photo. Only group admins can change it.
+ * 
+ * @param conversationId - The ID of the conversation
+ * @param avatarUrl - Public URL of the uploaded photo, or null to remove it
+ * @param currentUserId - The ID of the current user (must be an admin)
+ * @returns Promise resolving when the photo is changed
+ * @throws {ConversationValidationError} When the conversation ID is invalid
+ */
+export async function setConversationAvatar(
+  conversationId: string,
+  avatarUrl: string | null,
+  currentUserId: string
+): Promise<void> {
+  try {
+    validateGroupAction(conversationId, currentUserId);
+
+    const { error } = await supabase.rpc('set_conversation_avatar', {
+      p_conversation_id: conversationId,
+      p_avatar_url: avatarUrl,
+    });
 
-    if (conversationUpdateError) {
-      console.warn('Failed to update conversation timestamp:', conversationUpdateError);
+    if (error) {
+      throw error;
+    }
+  } catch (error) {
+    console.error('Error changing group photo:', error);
+    throw error;
+  }
+}
+
+/**
+ * Leaves a group conversation. Direct conversations cannot be left.
+ * If the last admin leaves, the member who has been in the group longest becomes admin.
+ * 
+ * @param conversationId - The ID of the conversation
+ * @param currentUserId - The ID of the current user leaving the group
+ * @returns Promise resolving when the user has left
+ * @throws {ConversationValidationError} When the IDs are invalid
+ */
+export async function leaveConversation(
+  conversationId: string,
+  currentUserId: string
+): Promise<void> {
+  try {
+    validateGroupAction(conversationId, currentUserId);
+
+    // The database checks the conversation is a group and announces the departure
+    const { error } = await supabase.rpc('leave_conversation', {
+      p_conversation_id: conversationId,
+    });
+
+    if (error) {
+      throw error;
     }
   } catch (error) {
     console.error('Error leaving conversation:', error);
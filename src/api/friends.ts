@@ -61,6 +61,15 @@ export interface Friend {
   friend: UserSearchResult;
 }
 
+/**
+ * Interface for a user the current user has blocked
+ */
+export interface BlockedUser {
+  userId: string;
+  blockedAt: string;
+  user: UserSearchResult;
+}
+
 /**
  * Interface for user search results with relationship status
  */
@@ -69,9 +78,68 @@ export interface UserSearchResultWithStatus extends UserSearchResult {
   friendshipCreatedAt?: string;
 }
 
+/**
+ * A row of the current user's blocks with the blocked user's profile
+ */
+interface BlockRow {
+  blocked_id: string;
+  created_at: string;
+  profiles: {
+    id: string;
+    username: string | null;
+    full_name: string | null;
+    email: string | null;
+    avatar_url: string | null;
+  };
+}
+
+/**
+ * Fetches the IDs of users the current user has blocked. Users who blocked the current user are
+ * already left out of profile queries by row level security.
+ *
+ * @param currentUserId - The current user's ID
+ * @returns Promise resolving to the user IDs
+ */
+async function fetchBlockedUserIds(currentUserId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('blocks')
+    .select('blocked_id')
+    .eq('blocker_id', currentUserId);
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).map(block => block.blocked_id as string);
+}
+
+/**
+ * Converts a block row to a blocked user
+ */
+function toBlockedUser(block: BlockRow): BlockedUser {
+  return {
+    userId: block.blocked_id,
+    blockedAt: block.created_at,
+    user: {
+      id: block.profiles.id,
+      username: block.profiles.username,
+      fullName: block.profiles.full_name,
+      email: block.profiles.email,
+      avatarUrl: block.profiles.avatar_url,
+    },
+  };
+}
+
+/**
+ * Builds the filter value that leaves blocked users out of a profiles query
+ */
+function toExcludedIdsFilter(userIds: string[]): string {
+  return `(${userIds.join(',')})`;
+}
+
 /**
  * Searches for users by username, full name, or email.
- * Excludes the current user from results and filters out existing friends and pending requests.
+ * Excludes the current user from results and filters out existing friends, pending requests and blocked users.
  * 
  * @param searchQuery - The search term to match against username, fullName, or email
  * @param currentUserId - The ID of the current user to exclude from results
@@ -90,11 +158,14 @@ export async function searchUsers(
   const searchTerm = `%${searchQuery.trim()}%`;
 
   try {
+    const blockedUserIds = await fetchBlockedUserIds(currentUserId);
+
     // First, get all users matching the search query
     const { data: searchResults, error: searchError } = await supabase
       .from('profiles')
       .select('id, username, full_name, email, avatar_url')
       .neq('id', currentUserId)
+      .not('id', 'in', toExcludedIdsFilter(blockedUserIds))
       .or(`username.ilike.${searchTerm},full_name.ilike.${searchTerm},email.ilike.${searchTerm}`)
       .limit(20);
 
@@ -283,7 +354,20 @@ export async function sendFriendRequest(
   targetUserId: string
 ): Promise<FriendRequest> {
   try {
-    // First check if users can send a request (not already friends or have pending request)
+    // Blocks are also enforced by the database; checking first gives a clearer error
+    const { data: cannotContact, error: blockError } = await supabase.rpc('cannot_contact', {
+      p_user_id: targetUserId,
+    });
+
+    if (blockError) {
+      throw blockError;
+    }
+
+    if (cannotContact) {
+      throw new Error('You cannot send a friend request to this user');
+    }
+
+    // Check if users can send a request (not already friends or have pending request)
     const relationshipStatus = await checkRelationshipStatus(currentUserId, targetUserId);
     
     if (relationshipStatus.isFriend) {
@@ -689,7 +773,7 @@ export async function searchFriends(
 }
 
 /**
- * Gets a random sample of users for discovery (excluding current user)
+ * Gets a random sample of users for discovery (excluding current user and blocked users)
  * 
  * @param currentUserId - The ID of the current user to exclude from results
  * @param limit - Maximum number of users to return (default: 20)
@@ -700,11 +784,14 @@ export async function getRandomUsers(
   limit: number = 20
 ): Promise<UserSearchResultWithStatus[]> {
   try {
+    const blockedUserIds = await fetchBlockedUserIds(currentUserId);
+
     // Get random users from the database
     const { data: randomUsers, error: usersError } = await supabase
       .from('profiles')
       .select('id, username, full_name, email, avatar_url')
       .neq('id', currentUserId)
+      .not('id', 'in', toExcludedIdsFilter(blockedUserIds))
       .limit(limit);
 
     if (usersError) {
@@ -748,7 +835,7 @@ export async function getRandomUsers(
 
 /**
  * Searches for users by username, full name, or email.
- * Includes all users with their relationship status instead of filtering them out.
+ * Includes all users with their relationship status instead of filtering them out; blocked users are left out.
  * 
  * @param searchQuery - The search term to match against username, fullName, or email
  * @param currentUserId - The ID of the current user to exclude from results
@@ -768,11 +855,14 @@ export async function searchUsersWithStatus(
   const searchTerm = `%${searchQuery.trim()}%`;
 
   try {
-    // Get all users matching the search query (don't filter out friends)
+    const blockedUserIds = await fetchBlockedUserIds(currentUserId);
+
+    // Get all users matching the search query (don't filter out friends, only blocked users)
     const { data: searchResults, error: searchError } = await supabase
       .from('profiles')
       .select('id, username, full_name, email, avatar_url')
       .neq('id', currentUserId)
+      .not('id', 'in', toExcludedIdsFilter(blockedUserIds))
       .or(`username.ilike.${searchTerm},full_name.ilike.${searchTerm},email.ilike.${searchTerm}`)
       .limit(20);
 
@@ -813,4 +903,96 @@ export async function searchUsersWithStatus(
     console.error('Error searching users with status:', error);
     throw error;
   }
-} 
\ No newline at end of file
+} 
+
+/**
+ * Blocks a user. Any friendship and friend requests between the users are removed, and
+ * the users can no longer find each other, send friend requests or message each other.
+ *
+ * @param currentUserId - The current user's ID
+ * @param userId - The ID of the user to block
+ * @returns Promise resolving when the user is blocked
+ */
+export async function blockUser(
+  currentUserId: string,
+  userId: string
+): Promise<void> {
+  if (userId === currentUserId) {
+    throw new Error('You cannot block yourself');
+  }
+
+  try {
+    const { error } = await supabase.rpc('block_user', { p_user_id: userId });
+
+    if (error) {
+      throw error;
+    }
+  } catch (error) {
+    console.error('Error blocking user:', error);
+    throw error;
+  }
+}
+
+/**
+ * Unblocks a user. Friendships removed by the block are not restored.
+ *
+ * @param currentUserId - The current user's ID
+ * @param userId - The ID of the user to unblock
+ * @returns Promise resolving when the user is unblocked
+ */
+export async function unblockUser(
+  currentUserId: string,
+  userId: string
+): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('blocks')
+      .delete()
+      .eq('blocker_id', currentUserId)
+      .eq('blocked_id', userId);
+
+    if (error) {
+      throw error;
+    }
+  } catch (error) {
+    console.error('Error unblocking user:', error);
+    throw error;
+  }
+}
+
+/**
+ * Fetches the users the current user has blocked with their profile information
+ *
+ * @param currentUserId - The current user's ID
+ * @returns Promise resolving to array of blocked users, most recently blocked first
+ */
+export async function fetchBlockedUsers(currentUserId: string): Promise<BlockedUser[]> {
+  try {
+    const { data, error } = await supabase
+      .from('blocks')
+      .select(`
+        blocked_id,
+        created_at,
+        profiles!blocks_blocked_id_profiles_id_fk (
+          id,
+          username,
+          full_name,
+          email,
+          avatar_url
+        )
+      `)
+      .eq('blocker_id', currentUserId)
+      .order('created_at', { ascending: false })
+      // A block has one blocked user, though without generated types the join is inferred as a list
+      .overrideTypes<BlockRow[], { merge: false }>();
+
+    if (error) {
+      throw error;
+    }
+
+    return (data || []).map(toBlockedUser);
+  } catch (error) {
+    console.error('Error fetching blocked users:', error);
+    throw error;
+  }
+}
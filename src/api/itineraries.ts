@@ -5,7 +5,15 @@
  * It provides functions for creating, updating, fetching, and searching itineraries.
  */
 
-import type { CreateItineraryData, Itinerary, UpdateItineraryData } from '@/types/itineraries';
+import type {
+  CreateItineraryData,
+  Itinerary,
+  ItineraryInvite,
+  ItineraryMember,
+  ItineraryMemberProfile,
+  ItineraryRole,
+  UpdateItineraryData,
+} from '@/types/itineraries';
 import { supabase } from '@/utils/supabase';
 
 /**
@@ -41,7 +49,24 @@ function validateItineraryData(data: CreateItineraryData | UpdateItineraryData):
 }
 
 /**
- * Fetches all itineraries for the current user
+ * Select clause that joins the current user's membership onto each itinerary.
+ * Must be combined with filters on `itinerary_members.user_id` and `itinerary_members.status`.
+ */
+const ITINERARY_WITH_ROLE_SELECT = '*, itinerary_members!inner(role, user_id, status)';
+
+/**
+ * Flattens the joined membership row into the itinerary's `role` field
+ */
+function toItineraryWithRole(row: any): Itinerary {
+  const { itinerary_members: memberships, ...itinerary } = row;
+  return {
+    ...itinerary,
+    role: memberships?.[0]?.role,
+  };
+}
+
+/**
+ * Fetches all itineraries the current user owns or has been shared on
  */
 export async function getItineraries(): Promise<Itinerary[]> {
   const { data: { user } } = await supabase.auth.getUser();
@@ -49,8 +74,9 @@ export async function getItineraries(): Promise<Itinerary[]> {
 
   const { data, error } = await supabase
     .from('itineraries')
-    .select('*')
-    .eq('created_by', user.id)
+    .select(ITINERARY_WITH_ROLE_SELECT)
+    .eq('itinerary_members.user_id', user.id)
+    .eq('itinerary_members.status', 'accepted')
     .order('created_at', { ascending: false });
 
   if (error) {
@@ -58,7 +84,7 @@ export async function getItineraries(): Promise<Itinerary[]> {
     throw error;
   }
 
-  return data || [];
+  return (data || []).map(toItineraryWithRole);
 }
 
 /**
@@ -70,9 +96,10 @@ export async function getItinerary(id: string): Promise<Itinerary | null> {
 
   const { data, error } = await supabase
     .from('itineraries')
-    .select('*')
+    .select(ITINERARY_WITH_ROLE_SELECT)
     .eq('id', id)
-    .eq('created_by', user.id)
+    .eq('itinerary_members.user_id', user.id)
+    .eq('itinerary_members.status', 'accepted')
     .single();
 
   if (error) {
@@ -83,7 +110,7 @@ export async function getItinerary(id: string): Promise<Itinerary | null> {
     throw error;
   }
 
-  return data;
+  return data ? toItineraryWithRole(data) : null;
 }
 
 /**
@@ -110,11 +137,12 @@ export async function createItinerary(itineraryData: CreateItineraryData): Promi
     throw error;
   }
 
-  return data;
+  // The creator is added as the owner by a database trigger
+  return { ...data, role: 'owner' };
 }
 
 /**
- * Updates an existing itinerary
+ * Updates an existing itinerary. Owners and editors can update; access is enforced by RLS.
  */
 export async function updateItinerary(id: string, updates: UpdateItineraryData): Promise<Itinerary> {
   const { data: { user } } = await supabase.auth.getUser();
@@ -127,7 +155,6 @@ export async function updateItinerary(id: string, updates: UpdateItineraryData):
     .from('itineraries')
     .update(updates)
     .eq('id', id)
-    .eq('created_by', user.id)
     .select()
     .single();
 
@@ -144,7 +171,7 @@ export async function updateItinerary(id: string, updates: UpdateItineraryData):
 }
 
 /**
- * Deletes an itinerary
+ * Deletes an itinerary. Only the owner can delete it.
  */
 export async function deleteItinerary(id: string): Promise<void> {
   const { data: { user } } = await supabase.auth.getUser();
@@ -177,8 +204,9 @@ export async function searchItineraries(query: string): Promise<Itinerary[]> {
 
   const { data, error } = await supabase
     .from('itineraries')
-    .select('*')
-    .eq('created_by', user.id)
+    .select(ITINERARY_WITH_ROLE_SELECT)
+    .eq('itinerary_members.user_id', user.id)
+    .eq('itinerary_members.status', 'accepted')
     .or(`title.ilike.${searchTerm},description.ilike.${searchTerm}`)
     .order('created_at', { ascending: false });
 
@@ -187,5 +215,218 @@ export async function searchItineraries(query: string): Promise<Itinerary[]> {
     throw error;
   }
 
-  return data || [];
-}
\ No newline at end of file
+  return (data || []).map(toItineraryWithRole);
+}
+
+// --- MEMBERSHIP ---
+
+/**
+ * Maps a joined profile row into an itinerary member profile
+ */
+function toMemberProfile(profile: any): ItineraryMemberProfile {
+  return {
+    id: profile.id,
+    username: profile.username,
+    fullName: profile.full_name,
+    avatarUrl: profile.avatar_url,
+  };
+}
+
+/**
+ * Fetches the members of an itinerary, including pending invites
+ */
+export async function getItineraryMembers(itineraryId: string): Promise<ItineraryMember[]> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  const { data, error } = await supabase
+    .from('itinerary_members')
+    .select(`
+      itinerary_id,
+      user_id,
+      role,
+      status,
+      invited_by,
+      created_at,
+      profiles!itinerary_members_user_id_profiles_id_fk (
+        id,
+        username,
+        full_name,
+        avatar_url
+      )
+    `)
+    .eq('itinerary_id', itineraryId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching itinerary members:', error);
+    throw error;
+  }
+
+  return (data || []).map(member => ({
+    itineraryId: member.itinerary_id,
+    userId: member.user_id,
+    role: member.role as ItineraryRole,
+    status: member.status as ItineraryMember['status'],
+    invitedBy: member.invited_by,
+    createdAt: member.created_at,
+    user: toMemberProfile(member.profiles),
+  }));
+}
+
+/**
+ * Invites a friend to an itinerary. Only the owner can invite, and only their friends.
+ */
+export async function inviteToItinerary(
+  itineraryId: string,
+  friendId: string,
+  role: Exclude<ItineraryRole, 'owner'> = 'viewer'
+): Promise<void> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  if (friendId === user.id) {
+    throw new Error('You cannot invite yourself to an itinerary');
+  }
+
+  const { error } = await supabase
+    .from('itinerary_members')
+    .insert({
+      itinerary_id: itineraryId,
+      user_id: friendId,
+      role,
+      status: 'pending',
+      invited_by: user.id,
+    });
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new Error('This user is already a member of the itinerary');
+    }
+    console.error('Error inviting to itinerary:', error);
+    throw error;
+  }
+}
+
+/**
+ * Changes a member's role. Only the owner can change roles.
+ */
+export async function updateItineraryMemberRole(
+  itineraryId: string,
+  userId: string,
+  role: Exclude<ItineraryRole, 'owner'>
+): Promise<void> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  const { data, error } = await supabase
+    .from('itinerary_members')
+    .update({ role })
+    .eq('itinerary_id', itineraryId)
+    .eq('user_id', userId)
+    .select('user_id');
+
+  if (error) {
+    console.error('Error updating itinerary member role:', error);
+    throw error;
+  }
+
+  if (!data || data.length === 0) {
+    throw new Error('Member not found or you do not have permission to change their role');
+  }
+}
+
+/**
+ * Removes a member from an itinerary. Owners can remove anyone but themselves;
+ * members can remove themselves to leave the itinerary or decline an invite.
+ */
+export async function removeItineraryMember(itineraryId: string, userId: string): Promise<void> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  const { data, error } = await supabase
+    .from('itinerary_members')
+    .delete()
+    .eq('itinerary_id', itineraryId)
+    .eq('user_id', userId)
+    .select('user_id');
+
+  if (error) {
+    console.error('Error removing itinerary member:', error);
+    throw error;
+  }
+
+  if (!data || data.length === 0) {
+    throw new Error('Member not found or you do not have permission to remove them');
+  }
+}
+
+/**
+ * Fetches pending itinerary invites for the current user
+ */
+export async function getItineraryInvites(): Promise<ItineraryInvite[]> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  const { data, error } = await supabase
+    .from('itinerary_members')
+    .select(`
+      itinerary_id,
+      role,
+      created_at,
+      itineraries (
+        id,
+        title,
+        description,
+        start_time,
+        end_time,
+        cover_image_url
+      ),
+      profiles!itinerary_members_invited_by_profiles_id_fk (
+        id,
+        username,
+        full_name,
+        avatar_url
+      )
+    `)
+    .eq('user_id', user.id)
+    .eq('status', 'pending')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching itinerary invites:', error);
+    throw error;
+  }
+
+  return (data || []).map(invite => ({
+    itineraryId: invite.itinerary_id,
+    role: invite.role as ItineraryRole,
+    createdAt: invite.created_at,
+    itinerary: invite.itineraries as any,
+    inviter: invite.profiles ? toMemberProfile(invite.profiles) : null,
+  }));
+}
+
+/**
+ * Accepts a pending invite to an itinerary
+ */
+export async function acceptItineraryInvite(itineraryId: string): Promise<void> {
+  const { error } = await supabase.rpc('accept_itinerary_invite', {
+    p_itinerary_id: itineraryId,
+  });
+
+  if (error) {
+    console.error('Error accepting itinerary invite:', error);
+    throw error;
+  }
+}
+
+/**
+ * Declines a pending invite to an itinerary
+ */
+export async function declineItineraryInvite(itineraryId: string): Promise<void> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  await removeItineraryMember(itineraryId, user.id);
+}
@@ -3,8 +3,105 @@
  * It provides functions for sending messages, fetching messages, and managing message expiration.
  */
 
+import type { Activity } from '@/types/activities';
+import type { Itinerary } from '@/types/itineraries';
 import { supabase } from '@/utils/supabase';
 
+/**
+ * Message types; system messages are written by the database to announce conversation changes.
+ * Itinerary, activity and location messages hold a JSON card (see `parseMessageCard`).
+ */
+export type MessageType = 'text' | 'photo' | 'itinerary' | 'activity' | 'location' | 'system';
+
+/**
+ * Message types users can send
+ */
+export type SendableMessageType = Exclude<MessageType, 'system'>;
+
+/**
+ * Message types whose content is a JSON card
+ */
+export type CardMessageType = 'itinerary' | 'activity' | 'location';
+
+/**
+ * A shared itinerary with its activities, copied when shared so recipients without access can see and save it
+ */
+export interface ItineraryCardContent {
+  itinerary: Omit<Itinerary, 'role'>;
+  activities: Activity[];
+}
+
+/**
+ * A shared activity, copied when shared
+ */
+export interface ActivityCardContent {
+  activity: Activity;
+}
+
+/**
+ * A shared map pin
+ */
+export interface LocationCardContent {
+  latitude: number;
+  longitude: number;
+  /** Name of the place, such as the activity it belongs to */
+  name: string | null;
+  /** Address or location text */
+  address: string | null;
+}
+
+/**
+ * The card held by an itinerary, activity or location message
+ */
+export type MessageCard =
+  | { type: 'itinerary'; content: ItineraryCardContent }
+  | { type: 'activity'; content: ActivityCardContent }
+  | { type: 'location'; content: LocationCardContent };
+
+/**
+ * How long messages in a conversation last. In view-once conversations photos can be opened
+ * once by each recipient and other messages last 24 hours.
+ */
+export type MessageExpiry = 'view_once' | '1h' | '24h' | '7d' | 'never';
+
+/**
+ * A group member's role. Admins can add, remove and promote members, and rename the group or change its photo.
+ */
+export type ParticipantRole = 'admin' | 'member';
+
+/**
+ * A user named in a system message, with their name when the event happened
+ */
+export interface SystemMessageUser {
+  id: string;
+  name: string;
+}
+
+/**
+ * Content of a system message. The sender is whoever made the change.
+ */
+export type SystemMessageEvent =
+  | { event: 'message_expiry_changed'; expiry: MessageExpiry }
+  | { event: 'participants_added'; users: SystemMessageUser[] }
+  | { event: 'participant_removed'; user: SystemMessageUser }
+  | { event: 'participant_left' }
+  | { event: 'participant_role_changed'; user: SystemMessageUser; role: ParticipantRole }
+  | { event: 'conversation_renamed'; title: string }
+  | { event: 'conversation_avatar_changed'; removed: boolean };
+
+/**
+ * Events system messages can announce
+ */
+const SYSTEM_MESSAGE_EVENTS: SystemMessageEvent['event'][] = [
+  'message_expiry_changed',
+  'participants_added',
+  'participant_removed',
+  'participant_left',
+  'participant_role_changed',
+  'conversation_renamed',
+  'conversation_avatar_changed',
+];
+
 /**
  * Interface for message data
  */
@@ -13,9 +110,46 @@ export interface Message {
   conversationId: string;
   senderId: string;
   content: string;
-  type: 'text' | 'photo';
+  type: MessageType;
   createdAt: string;
-  expiresAt: string;
+  /** When the message disappears, or null if the conversation keeps messages */
+  expiresAt: string | null;
+  /** When the sender last edited the text, or null if never edited */
+  editedAt: string | null;
+  /** When the sender unsent the message for everyone; its content is then empty */
+  deletedAt: string | null;
+  /** Whether this is a photo each recipient can open once */
+  viewOnce: boolean;
+  /** When every recipient had opened the view-once photo; its content is then empty */
+  openedAt: string | null;
+  /** IDs of the recipients who have opened the view-once photo */
+  viewedBy: string[];
+  /** ID of the message this one replies to */
+  replyToId: string | null;
+  /** Preview of the message replied to, or null if it is not a reply or the original is no longer visible */
+  replyTo: MessageReplyPreview | null;
+  /** Emoji reactions, one per user and emoji */
+  reactions: MessageReaction[];
+}
+
+/**
+ * The quoted message shown above a reply
+ */
+export interface MessageReplyPreview {
+  id: string;
+  senderId: string;
+  senderName: string | null;
+  content: string;
+  type: MessageType;
+  deletedAt: string | null;
+}
+
+/**
+ * An emoji reaction to a message
+ */
+export interface MessageReaction {
+  userId: string;
+  emoji: string;
 }
 
 /**
@@ -34,9 +168,45 @@ export interface MessageWithSender extends Message {
  * Interface for creating a new message
  */
 export interface CreateMessageData {
+  /** Client-generated message ID; sending again with the same ID returns the message already sent */
+  id?: string;
   conversationId: string;
   content: string;
-  type?: 'text' | 'photo';
+  type?: SendableMessageType;
+  /** ID of a message in the same conversation to reply to */
+  replyToId?: string;
+}
+
+/**
+ * Part of a search result's snippet; highlighted parts are the words that matched
+ */
+export interface MessageSnippetPart {
+  text: string;
+  highlighted: boolean;
+}
+
+/**
+ * A message matching a search, with the conversation it was sent in
+ */
+export interface MessageSearchResult {
+  messageId: string;
+  conversationId: string;
+  conversationType: Conversation['type'];
+  conversationTitle: string | null;
+  sender: MessageWithSender['sender'];
+  createdAt: string;
+  /** Excerpt of the message around the matched words */
+  snippet: MessageSnippetPart[];
+}
+
+/**
+ * Messages loaded around a message opened from search
+ */
+export interface MessageContext {
+  /** Every message from the newest back to a few before the opened one, newest first */
+  messages: MessageWithSender[];
+  /** Whether there are older messages still to load */
+  hasMore: boolean;
 }
 
 /**
@@ -63,15 +233,129 @@ export class RateLimitError extends Error {
   }
 }
 
+/**
+ * The database refused the message, e.g. because the recipient blocked the sender; sending it
+ * again would fail the same way
+ */
+export class MessageRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MessageRejectedError';
+  }
+}
+
 /**
  * Message content validation constants
  */
 const MESSAGE_LIMITS = {
   MIN_CONTENT_LENGTH: 1,
   MAX_CONTENT_LENGTH: 2000,
+  /** Cards copy a whole itinerary with its activities, so they are allowed to be longer */
+  MAX_CARD_CONTENT_LENGTH: 50000,
   MAX_MESSAGES_PER_MINUTE: 30,
+  EDIT_WINDOW_MINUTES: 15,
+  MAX_SEARCH_QUERY_LENGTH: 200,
+  SEARCH_RESULT_LIMIT: 30,
+  /** Older messages loaded before a message opened from search */
+  CONTEXT_MESSAGE_COUNT: 25,
+  /** Newer messages a message opened from search can have; older matches are too far back to open */
+  MAX_CONTEXT_NEWER_MESSAGES: 1000,
+} as const;
+
+/**
+ * Markers search_messages() wraps matched words in. Message text cannot contain them,
+ * since tags are stripped when messages are sent or edited.
+ */
+const SEARCH_HIGHLIGHT = {
+  START: '<mark>',
+  END: '</mark>',
 } as const;
 
+/**
+ * Emoji users can react with
+ */
+export const REACTION_EMOJIS = ['❤️', '😂', '😮', '😢', '👍', '👎'] as const;
+
+/**
+ * Columns selected for a message, with its sender, reply preview, views and reactions
+ */
+const MESSAGE_COLUMNS = `
+  id,
+  conversation_id,
+  sender_id,
+  content,
+  type,
+  created_at,
+  expires_at,
+  edited_at,
+  deleted_at,
+  view_once,
+  opened_at,
+  reply_to_id,
+  message_views ( user_id ),
+  message_reactions ( user_id, emoji ),
+  reply_to:messages!messages_reply_to_id_messages_id_fk (
+    id,
+    sender_id,
+    content,
+    type,
+    deleted_at,
+    profiles!messages_sender_id_profiles_id_fk (
+      username,
+      full_name
+    )
+  ),
+  profiles!messages_sender_id_profiles_id_fk (
+    id,
+    username,
+    full_name,
+    avatar_url
+  )
+`;
+
+/**
+ * Transforms a row selected with MESSAGE_COLUMNS to match our interface
+ */
+function toMessageWithSender(row: any): MessageWithSender {
+  const replyTo = row.reply_to;
+
+  return {
+    id: row.id,
+    conversationId: row.conversation_id,
+    senderId: row.sender_id,
+    content: row.content || '', // Handle null content
+    type: (row.type as MessageType) || 'text',
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+    editedAt: row.edited_at,
+    deletedAt: row.deleted_at,
+    viewOnce: row.view_once,
+    openedAt: row.opened_at,
+    viewedBy: (row.message_views || []).map((view: any) => view.user_id),
+    replyToId: row.reply_to_id,
+    replyTo: replyTo
+      ? {
+          id: replyTo.id,
+          senderId: replyTo.sender_id,
+          senderName: replyTo.profiles?.full_name || replyTo.profiles?.username || null,
+          content: replyTo.content || '',
+          type: replyTo.type as MessageType,
+          deletedAt: replyTo.deleted_at,
+        }
+      : null,
+    reactions: (row.message_reactions || []).map((reaction: any) => ({
+      userId: reaction.user_id,
+      emoji: reaction.emoji,
+    })),
+    sender: {
+      id: row.profiles.id,
+      username: row.profiles.username,
+      fullName: row.profiles.full_name,
+      avatarUrl: row.profiles.avatar_url,
+    },
+  };
+}
+
 /**
  * Validates UUID format
  */
@@ -93,6 +377,18 @@ function sanitizeMessageContent(content: string): string {
   return sanitized;
 }
 
+/**
+ * Message types accepted by `sendMessage`
+ */
+const SENDABLE_MESSAGE_TYPES: SendableMessageType[] = ['text', 'photo', 'itinerary', 'activity', 'location'];
+
+/**
+ * Checks whether a message type holds a JSON card
+ */
+export function isCardMessageType(type: MessageType): type is CardMessageType {
+  return type === 'itinerary' || type === 'activity' || type === 'location';
+}
+
 /**
  * Validates message data before sending
  */
@@ -107,26 +403,45 @@ function validateMessageData(messageData: CreateMessageData, currentUserId: stri
     throw new MessageValidationError('Invalid conversation ID', 'conversationId');
   }
 
+  // Validate client-generated message ID
+  if (messageData.id !== undefined && !isValidUUID(messageData.id)) {
+    throw new MessageValidationError('Invalid message ID', 'id');
+  }
+
   // Validate content
   if (!messageData.content) {
     throw new MessageValidationError('Message content is required', 'content');
   }
 
+  // Validate message type
+  const type = messageData.type || 'text';
+  if (!SENDABLE_MESSAGE_TYPES.includes(type)) {
+    throw new MessageValidationError('Invalid message type', 'type');
+  }
+
   const trimmedContent = messageData.content.trim();
   if (trimmedContent.length < MESSAGE_LIMITS.MIN_CONTENT_LENGTH) {
     throw new MessageValidationError('Message content cannot be empty', 'content');
   }
 
-  if (trimmedContent.length > MESSAGE_LIMITS.MAX_CONTENT_LENGTH) {
+  if (isCardMessageType(type)) {
+    if (trimmedContent.length > MESSAGE_LIMITS.MAX_CARD_CONTENT_LENGTH) {
+      throw new MessageValidationError('Shared content is too large to send', 'content');
+    }
+
+    if (!parseMessageCard({ type, content: messageData.content })) {
+      throw new MessageValidationError('Shared content is not valid', 'content');
+    }
+  } else if (trimmedContent.length > MESSAGE_LIMITS.MAX_CONTENT_LENGTH) {
     throw new MessageValidationError(
       `Message content cannot exceed ${MESSAGE_LIMITS.MAX_CONTENT_LENGTH} characters`,
       'content'
     );
   }
 
-  // Validate message type
-  if (messageData.type && !['text', 'photo'].includes(messageData.type)) {
-    throw new MessageValidationError('Invalid message type', 'type');
+  // Validate the message replied to
+  if (messageData.replyToId && !isValidUUID(messageData.replyToId)) {
+    throw new MessageValidationError('Invalid reply message ID', 'replyToId');
   }
 }
 
@@ -171,6 +486,10 @@ export interface Conversation {
   id: string;
   type: 'direct' | 'group';
   title: string | null;
+  /** Group photo */
+  avatarUrl: string | null;
+  /** How long new messages last */
+  messageExpiry: MessageExpiry;
   createdAt: string;
   updatedAt: string;
 }
@@ -182,6 +501,22 @@ export interface ConversationWithDetails extends Conversation {
   participants: ConversationParticipant[];
   lastMessage?: MessageWithSender;
   unreadCount: number;
+  /** The current user's own settings for the conversation */
+  preferences: ConversationPreferences;
+}
+
+/**
+ * Interface for a participant's own settings for a conversation
+ */
+export interface ConversationPreferences {
+  /** Kept at the top of the chat list */
+  isPinned: boolean;
+  /** Moved out of the chat list into the archived section */
+  isArchived: boolean;
+  /** Left out of the unread badge and notifications */
+  isMuted: boolean;
+  /** When the mute ends; null while muted means until it is turned off */
+  mutedUntil: string | null;
 }
 
 /**
@@ -191,8 +526,10 @@ export interface ConversationParticipant {
   conversationId: string;
   userId: string;
   joinedAt: string;
-  lastReadAt: string | null;
+  /** Read position shared with the other participants; null when the user has read receipts off */
+  readReceiptAt: string | null;
   isActive: boolean;
+  role: ParticipantRole;
   user: {
     id: string;
     username: string | null;
@@ -223,13 +560,16 @@ export async function sendMessage(
     // Check rate limits
     await checkRateLimit(currentUserId);
 
-    // Sanitize message content
-    const sanitizedContent = sanitizeMessageContent(messageData.content);
+    // Sanitize message content; cards are JSON checked by validateMessageData, and stripping tags would corrupt them
+    const sanitizedContent = isCardMessageType(messageData.type || 'text')
+      ? messageData.content.trim()
+      : sanitizeMessageContent(messageData.content);
     if (!sanitizedContent.trim()) {
       throw new MessageValidationError('Message content cannot be empty after sanitization', 'content');
     }
 
-    // Validate user participation in conversation
+    // Validate user participation in conversation. Only a query that ran and found no row means the
+    // user is not a participant; network and other errors may succeed on a retry.
     const { data: participantData, error: participantError } = await supabase
       .from('conversation_participants')
       .select('conversation_id')
@@ -240,7 +580,7 @@ export async function sendMessage(
 
     if (participantError && participantError.code !== 'PGRST116') {
       console.error('Database error checking conversation participation:', participantError);
-      throw new ConversationAccessError('Failed to verify conversation access');
+      throw new Error('Failed to verify conversation access');
     }
 
     if (!participantData) {
@@ -254,48 +594,56 @@ export async function sendMessage(
       .eq('id', messageData.conversationId)
       .single();
 
-    if (conversationError) {
+    if (conversationError && conversationError.code !== 'PGRST116') {
       console.error('Database error checking conversation:', conversationError);
-      throw new ConversationAccessError('Conversation not found or inaccessible');
+      throw new Error('Failed to verify conversation access');
     }
 
     if (!conversationData) {
       throw new ConversationAccessError('Conversation not found');
     }
 
-    // Calculate expiration time (24 hours from now)
-    const expiresAt = new Date();
-    expiresAt.setHours(expiresAt.getHours() + 24);
-
-    // Insert the message with sanitized content
+    // Insert the message with sanitized content; the database sets its expiry from the conversation
     const { data: messageResult, error: messageError } = await supabase
       .from('messages')
       .insert({
+        ...(messageData.id ? { id: messageData.id } : {}),
         conversation_id: messageData.conversationId,
         sender_id: currentUserId,
         content: sanitizedContent,
         type: messageData.type || 'text',
-        expires_at: expiresAt.toISOString(),
+        reply_to_id: messageData.replyToId || null,
       })
-      .select(`
-        id,
-        conversation_id,
-        sender_id,
-        content,
-        type,
-        created_at,
-        expires_at,
-        profiles!messages_sender_id_profiles_id_fk (
-          id,
-          username,
-          full_name,
-          avatar_url
-        )
-      `)
+      .select(MESSAGE_COLUMNS)
       .single();
 
+    // A retry of a message that already reached the server returns the stored message
+    if (messageError?.code === '23505' && messageData.id) {
+      const { data: existingMessage, error: existingError } = await supabase
+        .from('messages')
+        .select(MESSAGE_COLUMNS)
+        .eq('id', messageData.id)
+        .eq('sender_id', currentUserId)
+        .single();
+
+      if (existingError || !existingMessage) {
+        console.error('Database error fetching already sent message:', existingError);
+        throw new Error('Failed to send message. Please try again.');
+      }
+
+      return toMessageWithSender(existingMessage);
+    }
+
     if (messageError) {
       console.error('Database error inserting message:', messageError);
+      // Raised by a trigger, e.g. when the recipient has blocked the sender
+      if (messageError.code === 'P0001') {
+        throw new MessageRejectedError(messageError.message);
+      }
+      // Row level security, e.g. after being removed from a group
+      if (messageError.code === '42501') {
+        throw new MessageRejectedError('You can no longer send messages to this conversation');
+      }
       throw new Error('Failed to send message. Please try again.');
     }
 
@@ -320,27 +668,13 @@ export async function sendMessage(
       throw new Error('Failed to retrieve sender information');
     }
 
-    // Transform the data to match our interface
-    return {
-      id: messageResult.id,
-      conversationId: messageResult.conversation_id,
-      senderId: messageResult.sender_id,
-      content: messageResult.content,
-      type: messageResult.type as 'text' | 'photo',
-      createdAt: messageResult.created_at,
-      expiresAt: messageResult.expires_at,
-      sender: {
-        id: (messageResult.profiles as any).id,
-        username: (messageResult.profiles as any).username,
-        fullName: (messageResult.profiles as any).full_name,
-        avatarUrl: (messageResult.profiles as any).avatar_url,
-      },
-    };
+    return toMessageWithSender(messageResult);
   } catch (error) {
     // Re-throw custom errors as-is
     if (error instanceof MessageValidationError || 
         error instanceof ConversationAccessError || 
-        error instanceof RateLimitError) {
+        error instanceof RateLimitError ||
+        error instanceof MessageRejectedError) {
       throw error;
     }
 
@@ -350,6 +684,398 @@ export async function sendMessage(
   }
 }
 
+/**
+ * Checks whether the current user can still edit a message: their own text message, not unsent,
+ * and sent within the edit window
+ *
+ * @param message - The message to check
+ * @param currentUserId - The ID of the current user
+ */
+export function canEditMessage(message: Message, currentUserId: string): boolean {
+  const editDeadline = new Date(message.createdAt).getTime() + MESSAGE_LIMITS.EDIT_WINDOW_MINUTES * 60 * 1000;
+  return (
+    message.senderId === currentUserId &&
+    message.type === 'text' &&
+    !message.deletedAt &&
+    Date.now() < editDeadline
+  );
+}
+
+/**
+ * Replaces the text of one of the current user's messages. Only text messages can be edited,
+ * and only within the edit window after sending.
+ *
+ * @param messageId - The ID of the message to edit
+ * @param content - The new message text
+ * @param currentUserId - The ID of the current user
+ * @returns Promise resolving to the new content and edit time
+ * @throws {MessageValidationError} When the message ID or content is invalid
+ */
+export async function editMessage(
+  messageId: string,
+  content: string,
+  currentUserId: string
+): Promise<Pick<Message, 'content' | 'editedAt'>> {
+  try {
+    if (!messageId || !isValidUUID(messageId)) {
+      throw new MessageValidationError('Invalid message ID', 'messageId');
+    }
+
+    if (!currentUserId || !isValidUUID(currentUserId)) {
+      throw new MessageValidationError('Invalid user ID', 'currentUserId');
+    }
+
+    const sanitizedContent = sanitizeMessageContent(content || '');
+    if (sanitizedContent.length < MESSAGE_LIMITS.MIN_CONTENT_LENGTH) {
+      throw new MessageValidationError('Message content cannot be empty', 'content');
+    }
+
+    if (sanitizedContent.length > MESSAGE_LIMITS.MAX_CONTENT_LENGTH) {
+      throw new MessageValidationError(
+        `Message content cannot exceed ${MESSAGE_LIMITS.MAX_CONTENT_LENGTH} characters`,
+        'content'
+      );
+    }
+
+    // The database checks the sender and the edit window
+    const { data, error } = await supabase.rpc('edit_message', {
+      p_message_id: messageId,
+      p_content: sanitizedContent,
+    });
+
+    if (error) {
+      console.error('Database error editing message:', error);
+      throw new Error(error.message || 'Failed to edit message. Please try again.');
+    }
+
+    return {
+      content: data.content,
+      editedAt: data.edited_at,
+    };
+  } catch (error) {
+    if (error instanceof MessageValidationError) {
+      throw error;
+    }
+
+    console.error('Unexpected error editing message:', error);
+    throw error instanceof Error ? error : new Error('Failed to edit message. Please try again.');
+  }
+}
+
+/**
+ * Unsends one of the current user's messages for everyone in the conversation.
+ * The message stays in place as a tombstone with its content removed.
+ *
+ * @param messageId - The ID of the message to unsend
+ * @returns Promise resolving to the time the message was unsent
+ * @throws {MessageValidationError} When the message ID is invalid
+ */
+export async function unsendMessage(messageId: string): Promise<string> {
+  try {
+    if (!messageId || !isValidUUID(messageId)) {
+      throw new MessageValidationError('Invalid message ID', 'messageId');
+    }
+
+    const { data, error } = await supabase.rpc('unsend_message', {
+      p_message_id: messageId,
+    });
+
+    if (error) {
+      console.error('Database error unsending message:', error);
+      throw new Error('Failed to unsend message. Please try again.');
+    }
+
+    return data.deleted_at;
+  } catch (error) {
+    if (error instanceof MessageValidationError) {
+      throw error;
+    }
+
+    console.error('Unexpected error unsending message:', error);
+    throw new Error('Failed to unsend message. Please try again.');
+  }
+}
+
+/**
+ * Hides a message from the current user only; other participants still see it
+ *
+ * @param messageId - The ID of the message to hide
+ * @param currentUserId - The ID of the current user
+ * @throws {MessageValidationError} When parameters are invalid
+ */
+export async function deleteMessageForMe(messageId: string, currentUserId: string): Promise<void> {
+  try {
+    if (!messageId || !isValidUUID(messageId)) {
+      throw new MessageValidationError('Invalid message ID', 'messageId');
+    }
+
+    if (!currentUserId || !isValidUUID(currentUserId)) {
+      throw new MessageValidationError('Invalid user ID', 'currentUserId');
+    }
+
+    const { error } = await supabase
+      .from('hidden_messages')
+      .upsert(
+        { message_id: messageId, user_id: currentUserId },
+        { onConflict: 'message_id,user_id', ignoreDuplicates: true }
+      );
+
+    if (error) {
+      console.error('Database error hiding message:', error);
+      throw new Error('Failed to delete message. Please try again.');
+    }
+  } catch (error) {
+    if (error instanceof MessageValidationError) {
+      throw error;
+    }
+
+    console.error('Unexpected error deleting message for user:', error);
+    throw new Error('Failed to delete message. Please try again.');
+  }
+}
+
+/**
+ * Validates reaction parameters
+ */
+function validateReaction(messageId: string, emoji: string, currentUserId: string): void {
+  if (!messageId || !isValidUUID(messageId)) {
+    throw new MessageValidationError('Invalid message ID', 'messageId');
+  }
+
+  if (!currentUserId || !isValidUUID(currentUserId)) {
+    throw new MessageValidationError('Invalid user ID', 'currentUserId');
+  }
+
+  if (!(REACTION_EMOJIS as readonly string[]).includes(emoji)) {
+    throw new MessageValidationError('Invalid reaction', 'emoji');
+  }
+}
+
+/**
+ * Adds the current user's emoji reaction to a message. Adding a reaction twice has no effect.
+ *
+ * @param message - The message to react to
+ * @param emoji - One of REACTION_EMOJIS
+ * @param currentUserId - The ID of the current user
+ * @throws {MessageValidationError} When parameters are invalid
+ */
+export async function addReaction(
+  message: Pick<Message, 'id' | 'conversationId'>,
+  emoji: string,
+  currentUserId: string
+): Promise<void> {
+  try {
+    validateReaction(message.id, emoji, currentUserId);
+
+    const { error } = await supabase
+      .from('message_reactions')
+      .upsert(
+        {
+          message_id: message.id,
+          conversation_id: message.conversationId,
+          user_id: currentUserId,
+          emoji,
+        },
+        { onConflict: 'message_id,user_id,emoji', ignoreDuplicates: true }
+      );
+
+    if (error) {
+      console.error('Database error adding reaction:', error);
+      throw new Error('Failed to add reaction. Please try again.');
+    }
+  } catch (error) {
+    if (error instanceof MessageValidationError) {
+      throw error;
+    }
+
+    console.error('Unexpected error adding reaction:', error);
+    throw new Error('Failed to add reaction. Please try again.');
+  }
+}
+
+/**
+ * Removes the current user's emoji reaction from a message
+ *
+ * @param messageId - The ID of the message
+ * @param emoji - The emoji to remove
+ * @param currentUserId - The ID of the current user
+ * @throws {MessageValidationError} When parameters are invalid
+ */
+export async function removeReaction(messageId: string, emoji: string, currentUserId: string): Promise<void> {
+  try {
+    validateReaction(messageId, emoji, currentUserId);
+
+    const { error } = await supabase
+      .from('message_reactions')
+      .delete()
+      .eq('message_id', messageId)
+      .eq('user_id', currentUserId)
+      .eq('emoji', emoji);
+
+    if (error) {
+      console.error('Database error removing reaction:', error);
+      throw new Error('Failed to remove reaction. Please try again.');
+    }
+  } catch (error) {
+    if (error instanceof MessageValidationError) {
+      throw error;
+    }
+
+    console.error('Unexpected error removing reaction:', error);
+    throw new Error('Failed to remove reaction. Please try again.');
+  }
+}
+
+/**
+ * Opens a view-once photo and records that the current user viewed it. Messages do not carry
+ * the photo of a view-once message, so this is the only way to get it. Once every recipient has
+ * opened it, the database removes the photo.
+ *
+ * @param messageId - The ID of the view-once message
+ * @returns Promise resolving to the photo URL
+ * @throws {MessageValidationError} When the message ID is invalid
+ */
+export async function openViewOnce(messageId: string): Promise<string> {
+  try {
+    if (!messageId || !isValidUUID(messageId)) {
+      throw new MessageValidationError('Invalid message ID', 'messageId');
+    }
+
+    const { data, error } = await supabase.rpc('open_view_once', {
+      p_message_id: messageId,
+    });
+
+    if (error) {
+      console.error('Database error opening view-once photo:', error);
+      throw new Error('Failed to open photo. Please try again.');
+    }
+
+    return data;
+  } catch (error) {
+    if (error instanceof MessageValidationError) {
+      throw error;
+    }
+
+    console.error('Unexpected error opening view-once photo:', error);
+    throw new Error('Failed to open photo. Please try again.');
+  }
+}
+
+/**
+ * Reads the event announced by a system message
+ *
+ * @param message - A message of type `system`
+ * @returns The event, or null if the content is not a known event
+ */
+export function parseSystemMessage(message: Message): SystemMessageEvent | null {
+  try {
+    const event = JSON.parse(message.content);
+    return SYSTEM_MESSAGE_EVENTS.includes(event?.event) ? event : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads the card held by an itinerary, activity or location message
+ *
+ * @param message - The message
+ * @returns The card, or null if the message is not a card or its content is not valid
+ */
+export function parseMessageCard(message: Pick<Message, 'type' | 'content'>): MessageCard | null {
+  if (!isCardMessageType(message.type)) return null;
+
+  try {
+    const content = JSON.parse(message.content);
+    if (!content || typeof content !== 'object') return null;
+
+    switch (message.type) {
+      case 'itinerary':
+        return typeof content.itinerary?.title === 'string' && Array.isArray(content.activities)
+          ? { type: 'itinerary', content }
+          : null;
+      case 'activity':
+        return typeof content.activity?.title === 'string'
+          ? { type: 'activity', content }
+          : null;
+      case 'location':
+        return Number.isFinite(content.latitude) && Math.abs(content.latitude) <= 90 &&
+          Number.isFinite(content.longitude) && Math.abs(content.longitude) <= 180
+          ? { type: 'location', content }
+          : null;
+    }
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Builds the content of an itinerary message
+ *
+ * @param itinerary - The itinerary to share
+ * @param activities - Its activities
+ * @returns JSON content for a message of type `itinerary`
+ */
+export function buildItineraryCardContent(itinerary: Itinerary, activities: Activity[]): string {
+  const { role: _role, ...sharedItinerary } = itinerary;
+  const content: ItineraryCardContent = { itinerary: sharedItinerary, activities };
+  return JSON.stringify(content);
+}
+
+/**
+ * Builds the content of an activity message
+ *
+ * @param activity - The activity to share
+ * @returns JSON content for a message of type `activity`
+ */
+export function buildActivityCardContent(activity: Activity): string {
+  const content: ActivityCardContent = { activity };
+  return JSON.stringify(content);
+}
+
+/**
+ * Builds the content of a location message from an activity's coordinates
+ *
+ * @param activity - An activity with GPS coordinates
+ * @returns JSON content for a message of type `location`, or null if the activity has no coordinates
+ */
+export function buildLocationCardContent(activity: Activity): string | null {
+  if (!activity.gps_coords) return null;
+
+  const [latitude, longitude] = activity.gps_coords;
+  const content: LocationCardContent = {
+    latitude,
+    longitude,
+    name: activity.title,
+    address: activity.location || null,
+  };
+  return JSON.stringify(content);
+}
+
+/**
+ * Checks that a user is an active participant in a conversation
+ *
+ * @throws {ConversationAccessError} When the user is not a participant
+ */
+async function verifyConversationParticipant(conversationId: string, currentUserId: string): Promise<void> {
+  const { data: participantData, error: participantError } = await supabase
+    .from('conversation_participants')
+    .select('conversation_id')
+    .eq('conversation_id', conversationId)
+    .eq('user_id', currentUserId)
+    .eq('is_active', true)
+    .single();
+
+  if (participantError && participantError.code !== 'PGRST116') {
+    console.error('Database error checking conversation participation:', participantError);
+    throw new Error('Failed to verify conversation access');
+  }
+
+  if (!participantData) {
+    throw new ConversationAccessError('You are not a participant in this conversation');
+  }
+}
+
 /**
  * Fetches messages from a conversation that haven't expired yet with comprehensive validation.
  * Only returns messages if the user is a participant in the conversation.
@@ -389,43 +1115,14 @@ export async function fetchMessages(
     }
 
     // Validate user participation in conversation
-    const { data: participantData, error: participantError } = await supabase
-      .from('conversation_participants')
-      .select('conversation_id')
-      .eq('conversation_id', conversationId)
-      .eq('user_id', currentUserId)
-      .eq('is_active', true)
-      .single();
-
-    if (participantError && participantError.code !== 'PGRST116') {
-      console.error('Database error checking conversation participation:', participantError);
-      throw new ConversationAccessError('Failed to verify conversation access');
-    }
-
-    if (!participantData) {
-      throw new ConversationAccessError('You are not a participant in this conversation');
-    }
+    await verifyConversationParticipant(conversationId, currentUserId);
 
     // Build the query for messages
     let query = supabase
       .from('messages')
-      .select(`
-        id,
-        conversation_id,
-        sender_id,
-        content,
-        type,
-        created_at,
-        expires_at,
-        profiles!messages_sender_id_profiles_id_fk (
-          id,
-          username,
-          full_name,
-          avatar_url
-        )
-      `)
+      .select(MESSAGE_COLUMNS)
       .eq('conversation_id', conversationId)
-      .gt('expires_at', new Date().toISOString()) // Only non-expired messages
+      .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`) // Only non-expired messages
       .order('created_at', { ascending: false })
       .limit(limit);
 
@@ -455,21 +1152,7 @@ export async function fetchMessages(
         }
         return true;
       })
-      .map(message => ({
-        id: message.id,
-        conversationId: message.conversation_id,
-        senderId: message.sender_id,
-        content: message.content || '', // Handle null content
-        type: (message.type as 'text' | 'photo') || 'text',
-        createdAt: message.created_at,
-        expiresAt: message.expires_at,
-        sender: {
-          id: (message.profiles as any).id,
-          username: (message.profiles as any).username,
-          fullName: (message.profiles as any).full_name,
-          avatarUrl: (message.profiles as any).avatar_url,
-        },
-      }));
+      .map(toMessageWithSender);
 
     return validMessages;
   } catch (error) {
@@ -507,7 +1190,192 @@ export async function fetchLatestMessage(
 }
 
 /**
- * Marks messages as read for a user in a conversation by updating their lastReadAt timestamp.
+ * Fetches the messages around a message, for opening it from search. Loads every message newer than
+ * it so the list stays continuous with the latest messages, plus a page of older ones.
+ *
+ * @param conversationId - The ID of the conversation
+ * @param messageId - The ID of the message to open
+ * @param currentUserId - The ID of the current user
+ * @returns Promise resolving to the messages, newest first
+ * @throws {MessageValidationError} When parameters are invalid, or the message is not found or too far back
+ * @throws {ConversationAccessError} When user lacks access to conversation
+ */
+export async function fetchMessageContext(
+  conversationId: string,
+  messageId: string,
+  currentUserId: string
+): Promise<MessageContext> {
+  try {
+    if (!conversationId || !isValidUUID(conversationId)) {
+      throw new MessageValidationError('Invalid conversation ID', 'conversationId');
+    }
+
+    if (!messageId || !isValidUUID(messageId)) {
+      throw new MessageValidationError('Invalid message ID', 'messageId');
+    }
+
+    if (!currentUserId || !isValidUUID(currentUserId)) {
+      throw new MessageValidationError('Invalid user ID', 'currentUserId');
+    }
+
+    await verifyConversationParticipant(conversationId, currentUserId);
+
+    const { data: target, error: targetError } = await supabase
+      .from('messages')
+      .select('created_at')
+      .eq('id', messageId)
+      .eq('conversation_id', conversationId)
+      .maybeSingle();
+
+    if (targetError) {
+      console.error('Database error fetching message:', targetError);
+      throw new Error('Failed to load message. Please try again.');
+    }
+
+    // Expired, hidden and deleted-for-me messages are not visible either
+    if (!target) {
+      throw new MessageValidationError('This message is no longer available', 'messageId');
+    }
+
+    const notExpired = `expires_at.is.null,expires_at.gt.${new Date().toISOString()}`;
+    const [newerResult, olderResult] = await Promise.all([
+      supabase
+        .from('messages')
+        .select(MESSAGE_COLUMNS)
+        .eq('conversation_id', conversationId)
+        .or(notExpired)
+        .gte('created_at', target.created_at)
+        .order('created_at', { ascending: false })
+        .limit(MESSAGE_LIMITS.MAX_CONTEXT_NEWER_MESSAGES + 1),
+      supabase
+        .from('messages')
+        .select(MESSAGE_COLUMNS)
+        .eq('conversation_id', conversationId)
+        .or(notExpired)
+        .lt('created_at', target.created_at)
+        .order('created_at', { ascending: false })
+        .limit(MESSAGE_LIMITS.CONTEXT_MESSAGE_COUNT),
+    ]);
+
+    if (newerResult.error || olderResult.error) {
+      console.error('Database error fetching message context:', newerResult.error || olderResult.error);
+      throw new Error('Failed to load message. Please try again.');
+    }
+
+    const newerMessages = newerResult.data || [];
+    if (newerMessages.length > MESSAGE_LIMITS.MAX_CONTEXT_NEWER_MESSAGES) {
+      throw new MessageValidationError('This message is too far back in the chat to open', 'messageId');
+    }
+
+    const olderMessages = olderResult.data || [];
+
+    return {
+      messages: [...newerMessages, ...olderMessages]
+        .filter(message => message && message.id && message.profiles)
+        .map(toMessageWithSender),
+      hasMore: olderMessages.length === MESSAGE_LIMITS.CONTEXT_MESSAGE_COUNT,
+    };
+  } catch (error) {
+    if (error instanceof MessageValidationError ||
+        error instanceof ConversationAccessError) {
+      throw error;
+    }
+
+    console.error('Unexpected error fetching message context:', error);
+    throw error instanceof Error ? error : new Error('Failed to load message. Please try again.');
+  }
+}
+
+/**
+ * Splits a snippet from search_messages() into plain and highlighted parts
+ */
+function parseSearchSnippet(snippet: string): MessageSnippetPart[] {
+  const parts: MessageSnippetPart[] = [];
+
+  snippet.split(SEARCH_HIGHLIGHT.START).forEach((segment, index) => {
+    // Every segment after the first starts with a highlighted word
+    const endIndex = index > 0 ? segment.indexOf(SEARCH_HIGHLIGHT.END) : -1;
+    if (endIndex >= 0) {
+      parts.push({ text: segment.slice(0, endIndex), highlighted: true });
+      segment = segment.slice(endIndex + SEARCH_HIGHLIGHT.END.length);
+    }
+    if (segment) {
+      parts.push({ text: segment, highlighted: false });
+    }
+  });
+
+  return parts;
+}
+
+/**
+ * Searches the text of the current user's messages across their conversations, newest first.
+ * Supports quoted phrases, "or" and -excluded words. Only conversations the user is an active
+ * participant in are searched, and expired or hidden messages are left out.
+ *
+ * @param query - The words to search for
+ * @param conversationId - Only search this conversation, if provided
+ * @returns Promise resolving to the matching messages with highlighted snippets
+ * @throws {MessageValidationError} When the query or conversation ID is invalid
+ */
+export async function searchMessages(
+  query: string,
+  conversationId?: string
+): Promise<MessageSearchResult[]> {
+  try {
+    const trimmedQuery = (query || '').trim();
+    if (!trimmedQuery) {
+      throw new MessageValidationError('Search query cannot be empty', 'query');
+    }
+
+    if (trimmedQuery.length > MESSAGE_LIMITS.MAX_SEARCH_QUERY_LENGTH) {
+      throw new MessageValidationError(
+        `Search query cannot exceed ${MESSAGE_LIMITS.MAX_SEARCH_QUERY_LENGTH} characters`,
+        'query'
+      );
+    }
+
+    if (conversationId !== undefined && !isValidUUID(conversationId)) {
+      throw new MessageValidationError('Invalid conversation ID', 'conversationId');
+    }
+
+    const { data, error } = await supabase.rpc('search_messages', {
+      p_query: trimmedQuery,
+      p_conversation_id: conversationId ?? null,
+      p_limit: MESSAGE_LIMITS.SEARCH_RESULT_LIMIT,
+    });
+
+    if (error) {
+      console.error('Database error searching messages:', error);
+      throw new Error('Failed to search messages. Please try again.');
+    }
+
+    return (data || []).map((row: any) => ({
+      messageId: row.message_id,
+      conversationId: row.conversation_id,
+      conversationType: row.conversation_type,
+      conversationTitle: row.conversation_title,
+      sender: {
+        id: row.sender_id,
+        username: row.sender_username,
+        fullName: row.sender_full_name,
+        avatarUrl: row.sender_avatar_url,
+      },
+      createdAt: row.created_at,
+      snippet: parseSearchSnippet(row.snippet || ''),
+    }));
+  } catch (error) {
+    if (error instanceof MessageValidationError) {
+      throw error;
+    }
+
+    console.error('Unexpected error searching messages:', error);
+    throw error instanceof Error ? error : new Error('Failed to search messages. Please try again.');
+  }
+}
+
+/**
+ * Marks messages as read for a user in a conversation by moving their private read position,
+ * which is shared as a read receipt if they have read receipts on.
  * Validates user participation and ensures proper access control.
  * 
  * @param conversationId - The ID of the conversation
@@ -541,7 +1409,7 @@ export async function markMessagesAsRead(
 
     if (participantError && participantError.code !== 'PGRST116') {
       console.error('Database error checking conversation participation:', participantError);
-      throw new ConversationAccessError('Failed to verify conversation access');
+      throw new Error('Failed to verify conversation access');
     }
 
     if (!participantData) {
@@ -550,12 +1418,12 @@ export async function markMessagesAsRead(
 
     // Update last read timestamp
     const { error } = await supabase
-      .from('conversation_participants')
-      .update({ 
-        last_read_at: new Date().toISOString() 
-      })
-      .eq('conversation_id', conversationId)
-      .eq('user_id', currentUserId);
+      .from('conversation_reads')
+      .upsert({
+        conversation_id: conversationId,
+        user_id: currentUserId,
+        last_read_at: new Date().toISOString(),
+      });
 
     if (error) {
       console.error('Database error updating read status:', error);
@@ -598,10 +1466,10 @@ export async function getUnreadMessageCount(
       return 0;
     }
 
-    // Get the user's last read timestamp and verify participation
+    // Verify participation
     const { data: participantData, error: participantError } = await supabase
       .from('conversation_participants')
-      .select('last_read_at')
+      .select('conversation_id')
       .eq('conversation_id', conversationId)
       .eq('user_id', currentUserId)
       .eq('is_active', true)
@@ -620,7 +1488,20 @@ export async function getUnreadMessageCount(
       return 0;
     }
 
-    const lastReadAt = participantData.last_read_at;
+    // Get the user's last read timestamp; there is none until they first open the conversation
+    const { data: readData, error: readError } = await supabase
+      .from('conversation_reads')
+      .select('last_read_at')
+      .eq('conversation_id', conversationId)
+      .eq('user_id', currentUserId)
+      .maybeSingle();
+
+    if (readError) {
+      console.warn('Database error getting read position for unread count:', readError);
+      return 0;
+    }
+
+    const lastReadAt = readData?.last_read_at;
 
     // Count messages created after the last read timestamp (or all if never read)
     let query = supabase
@@ -628,7 +1509,7 @@ export async function getUnreadMessageCount(
       .select('id', { count: 'exact', head: true })
       .eq('conversation_id', conversationId)
       .neq('sender_id', currentUserId) // Don't count own messages as unread
-      .gt('expires_at', new Date().toISOString()); // Only non-expired messages
+      .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`); // Only non-expired messages
 
     if (lastReadAt) {
       query = query.gt('created_at', lastReadAt);
@@ -0,0 +1,61 @@
+/**
+ * @file This file contains API functions for registering devices for push notifications.
+ */
+
+import { isExpoPushToken } from '@/utils/pushGateway';
+import { supabase } from '@/utils/supabase';
+
+/**
+ * Platforms push tokens are registered for
+ */
+export type PushPlatform = 'ios' | 'android';
+
+/**
+ * Registers the device's push token for the current user; a token registered by another
+ * account on the same device is moved to the current user
+ *
+ * @param token - Expo push token of the device
+ * @param platform - The device's platform
+ * @returns Promise resolving once the token is saved
+ */
+export async function registerPushToken(token: string, platform: PushPlatform): Promise<void> {
+  if (!isExpoPushToken(token)) {
+    throw new Error('Invalid push token');
+  }
+
+  try {
+    const { error } = await supabase.rpc('register_push_token', {
+      p_token: token,
+      p_platform: platform,
+    });
+
+    if (error) {
+      throw error;
+    }
+  } catch (error) {
+    console.error('Error registering push token:', error);
+    throw error;
+  }
+}
+
+/**
+ * Removes the device's push token from the current user, so the device stops receiving their notifications
+ *
+ * @param token - Expo push token of the device
+ * @returns Promise resolving once the token is removed
+ */
+export async function unregisterPushToken(token: string): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('push_tokens')
+      .delete()
+      .eq('token', token);
+
+    if (error) {
+      throw error;
+    }
+  } catch (error) {
+    console.error('Error unregistering push token:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * @file This file contains API functions for reporting users for moderation review.
+ */
+
+import { supabase } from '@/utils/supabase';
+
+/**
+ * Why a user is being reported
+ */
+export type ReportReason = 'spam' | 'harassment' | 'inappropriate_content' | 'impersonation' | 'other';
+
+/**
+ * Longest details text a report can have
+ */
+export const MAX_REPORT_DETAILS_LENGTH = 1000;
+
+/**
+ * Interface for reporting a user
+ */
+export interface CreateReportData {
+  reportedUserId: string;
+  reason: ReportReason;
+  /** What happened, in the reporter's words */
+  details?: string;
+  /** A message the user sent that is being reported */
+  messageId?: string;
+  /** An item in the user's story that is being reported */
+  storyContentId?: string;
+}
+
+/**
+ * Reports a user. The reported message or story item is copied into the report, so moderators
+ * can review it after it has expired or been unsent.
+ *
+ * @param data - Who is reported, why, and for what content
+ * @returns Promise resolving to the report's ID
+ */
+export async function reportUser(data: CreateReportData): Promise<string> {
+  const details = data.details?.trim() || null;
+  if (details && details.length > MAX_REPORT_DETAILS_LENGTH) {
+    throw new Error(`Details must be ${MAX_REPORT_DETAILS_LENGTH} characters or fewer`);
+  }
+
+  try {
+    const { data: reportId, error } = await supabase.rpc('report_user', {
+      p_user_id: data.reportedUserId,
+      p_reason: data.reason,
+      p_details: details,
+      p_message_id: data.messageId ?? null,
+      p_story_content_id: data.storyContentId ?? null,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return reportId as string;
+  } catch (error) {
+    console.error('Error reporting user:', error);
+    throw error;
+  }
+}
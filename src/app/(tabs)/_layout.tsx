@@ -1,11 +1,24 @@
 import { useThemeColors } from '@/hooks/useThemeColors';
+import { useConversationsStore } from '@/stores/conversations';
+import { useUserStore } from '@/stores/user';
 import { FontAwesome } from '@expo/vector-icons';
 import { Tabs } from 'expo-router';
-import React from 'react';
+import React, { useEffect } from 'react';
 
 export default function TabLayout() {
   const colors = useThemeColors();
-  
+  const { currentUser } = useUserStore();
+  const fetchConversations = useConversationsStore((state) => state.fetchConversations);
+  // Muted conversations are left out of the badge
+  const unreadCount = useConversationsStore((state) => state.getTotalUnreadCount());
+
+  // Load conversations for the unread badge before the chat tab is opened
+  useEffect(() => {
+    if (currentUser?.id) {
+      fetchConversations(currentUser.id);
+    }
+  }, [currentUser?.id, fetchConversations]);
+
   return (
     <Tabs
       screenOptions={{
@@ -38,6 +51,8 @@ export default function TabLayout() {
           tabBarIcon: ({ color, size }) => (
             <FontAwesome name="comments" size={size} color={color} />
           ),
+          tabBarBadge: unreadCount > 0 ? (unreadCount > 99 ? '99+' : unreadCount) : undefined,
+          tabBarBadgeStyle: { backgroundColor: colors.primary, color: colors.primaryForeground },
         }}
       />
       <Tabs.Screen
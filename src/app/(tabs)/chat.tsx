@@ -1,4 +1,6 @@
+import ConversationOptionsMenu from '@/components/ConversationOptionsMenu';
 import { Header } from '@/components/Header';
+import MessageSearch from '@/components/MessageSearch';
 import ModalWrapper from '@/components/ModalWrapper';
 import MoreOptionsMenu from '@/components/MoreOptionsMenu';
 import NewConversation from '@/components/NewConversation';
@@ -7,6 +9,7 @@ import { useConversationsStore, type Conversation } from '@/stores/conversations
 import { useUserStore } from '@/stores/user';
 import { useThemeColors } from '@/hooks/useThemeColors';
 import { timeAgo } from '@/utils';
+import { isConversationMuted } from '@/utils/conversationMute';
 import { FontAwesome } from '@expo/vector-icons';
 import { router } from 'expo-router';
 import React, { useEffect, useMemo, useState } from 'react';
@@ -18,14 +21,34 @@ import {
   View,
 } from 'react-native';
 
+/**
+ * Gets a conversation's name as shown in the chat list
+ */
+const getConversationTitle = (item: Conversation, currentUserId: string): string => {
+  if (item.type === 'group') {
+    return item.title || 'Group Chat';
+  }
+
+  const otherParticipant = item.participants?.find((p) => p.userId !== currentUserId);
+  return otherParticipant?.user?.fullName || otherParticipant?.user?.username || 'Unknown User';
+};
+
 const ConversationItem = ({
   item,
   currentUserId,
+  onLongPress,
 }: {
   item: Conversation;
   currentUserId: string;
+  onLongPress: (item: Conversation) => void;
 }) => {
+  const colors = useThemeColors();
+  const isGroup = item.type === 'group';
+  const isMuted = isConversationMuted(item.preferences);
   const otherParticipant = item.participants?.find((p) => p.userId !== currentUserId);
+  const isOnline = useConversationsStore((state) =>
+    !isGroup && otherParticipant ? state.isUserOnline(otherParticipant.userId) : false
+  );
   const lastMessage = item.lastMessage;
 
   const lastMessageTime = lastMessage ? timeAgo(lastMessage.createdAt) : '';
@@ -34,34 +57,80 @@ const ConversationItem = ({
   return (
     <TouchableOpacity
       onPress={() => router.push(`/chat/${item.id}`)}
+      onLongPress={() => onLongPress(item)}
       className="flex-row items-center p-3 bg-card rounded-xl mb-3 shadow-sm"
     >
       <UserAvatar 
-        uri={otherParticipant?.user?.avatarUrl} 
+        uri={isGroup ? item.avatarUrl : otherParticipant?.user?.avatarUrl} 
         size={56} 
         className="mr-4" 
+        fallbackIcon={isGroup ? 'users' : 'user'}
+        isOnline={isOnline}
       />
       <View className="flex-1">
-        <Text className="font-bold text-base text-foreground">{otherParticipant?.user?.fullName || otherParticipant?.user?.username || 'Unknown User'}</Text>
+        <View className="flex-row items-center">
+          <Text className="font-bold text-base text-foreground shrink" numberOfLines={1}>
+            {getConversationTitle(item, currentUserId)}
+          </Text>
+          {isMuted && <FontAwesome name="bell-slash" size={12} color={colors.mutedForeground} style={{ marginLeft: 6 }} />}
+        </View>
         <Text className="text-muted-foreground">
           {lastMessage
             ? `${lastMessagePrefix} ${lastMessageTime}`
             : 'No messages yet'}
         </Text>
       </View>
+      {item.preferences.isPinned && (
+        <FontAwesome name="thumb-tack" size={14} color={colors.mutedForeground} style={{ marginLeft: 8 }} />
+      )}
       {item.unreadCount > 0 && (
-        <View className="w-3 h-3 bg-primary rounded-full ml-2 self-center" />
+        <View className={`w-3 h-3 rounded-full ml-2 self-center ${isMuted ? 'bg-muted-foreground' : 'bg-primary'}`} />
       )}
     </TouchableOpacity>
   );
 };
 
+/**
+ * Pinned entry for the AI trip assistant's conversation
+ */
+const AssistantItem = () => {
+  const colors = useThemeColors();
+
+  return (
+    <TouchableOpacity
+      onPress={() => router.push('/chat/assistant')}
+      className="flex-row items-center p-3 bg-card rounded-xl mb-3 shadow-sm"
+    >
+      <View className="w-14 h-14 rounded-full bg-accent items-center justify-center mr-4">
+        <FontAwesome name="magic" size={24} color={colors.primary} />
+      </View>
+      <View className="flex-1">
+        <Text className="font-bold text-base text-foreground">Trip Assistant</Text>
+        <Text className="text-muted-foreground" numberOfLines={1}>
+          Ask about or change your itineraries
+        </Text>
+      </View>
+      <FontAwesome name="chevron-right" size={14} color={colors.mutedForeground} />
+    </TouchableOpacity>
+  );
+};
+
 export default function ChatScreen() {
   const [filter, setFilter] = useState<'All' | 'Unread'>('All');
   const [showMoreOptions, setShowMoreOptions] = useState(false);
   const [showNewConversationModal, setShowNewConversationModal] = useState(false);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isShowingArchived, setIsShowingArchived] = useState(false);
+  const [optionsConversationId, setOptionsConversationId] = useState<string | null>(null);
   const [refreshing, setRefreshing] = useState(false);
-  const { conversations, isLoading, error, fetchConversations } = useConversationsStore();
+  const {
+    conversations,
+    isLoading,
+    error,
+    fetchConversations,
+    subscribeToPresence,
+    unsubscribeFromPresence,
+  } = useConversationsStore();
   const { currentUser } = useUserStore();
   const colors = useThemeColors();
 
@@ -71,6 +140,21 @@ export default function ChatScreen() {
     }
   }, [currentUser?.id, fetchConversations]);
 
+  // Join presence for the loaded conversations, rejoining when the list changes
+  const conversationIdsKey = conversations.map((conv) => conv.id).join(',');
+  useEffect(() => {
+    if (currentUser?.id && conversationIdsKey) {
+      subscribeToPresence(currentUser.id);
+    }
+  }, [currentUser?.id, conversationIdsKey, subscribeToPresence]);
+
+  // Appear offline once the chat tab is gone
+  useEffect(() => {
+    return () => {
+      unsubscribeFromPresence();
+    };
+  }, [unsubscribeFromPresence]);
+
   const handleMoreOptions = () => {
     setShowMoreOptions(true);
   };
@@ -86,108 +170,178 @@ export default function ChatScreen() {
     }
   };
 
+  // Archived conversations only show in the archived section
+  const activeConversations = useMemo(() => {
+    return conversations.filter((c) => !c.preferences.isArchived);
+  }, [conversations]);
+
+  const archivedConversations = useMemo(() => {
+    return conversations.filter((c) => c.preferences.isArchived);
+  }, [conversations]);
+
   const filteredConversations = useMemo(() => {
+    if (isShowingArchived) {
+      return archivedConversations;
+    }
     if (filter === 'Unread') {
-      return conversations.filter((c) => c.unreadCount > 0);
+      return activeConversations.filter((c) => c.unreadCount > 0);
     }
-    return conversations;
-  }, [conversations, filter]);
+    return activeConversations;
+  }, [activeConversations, archivedConversations, filter, isShowingArchived]);
 
   const unreadCount = useMemo(() => {
-    return conversations.filter((c) => c.unreadCount > 0).length;
-  }, [conversations]);
+    return activeConversations.filter((c) => c.unreadCount > 0).length;
+  }, [activeConversations]);
+
+  // Leave the archived section once it is empty
+  useEffect(() => {
+    if (isShowingArchived && archivedConversations.length === 0) {
+      setIsShowingArchived(false);
+    }
+  }, [isShowingArchived, archivedConversations.length]);
+
+  const optionsConversation = conversations.find((c) => c.id === optionsConversationId) || null;
 
   return (
     <View className="flex-1 bg-background">
       <Header title="Chats" showAddFriend showMoreOptions onMoreOptionsPress={handleMoreOptions} />
       <View className="flex-1 px-4 pt-4">
-        {/* Filter buttons */}
-        <View className="flex-row mb-4 items-center justify-between">
-          <View className="flex-row items-center">
-            <TouchableOpacity
-              onPress={() => setFilter('All')}
-              className={`px-4 py-2 rounded-full mr-2 ${
-                filter === 'All' ? 'bg-accent' : 'bg-card'
-              }`}
-            >
-              <Text className={`${filter === 'All' ? 'font-bold text-accent-foreground' : 'font-semibold text-muted-foreground'}`}>
-                All
-              </Text>
-            </TouchableOpacity>
-            <TouchableOpacity
-              onPress={() => setFilter('Unread')}
-              className={`px-4 py-2 rounded-full mr-2 flex-row items-center ${
-                filter === 'Unread' ? 'bg-accent' : 'bg-card'
-              }`}
-            >
-              <Text
-                className={`${
-                  filter === 'Unread' ? 'font-bold text-accent-foreground' : 'font-semibold text-muted-foreground'
-                }`}
-              >
-                Unread
-              </Text>
-              {unreadCount > 0 && (
-                <View className="bg-primary rounded-full w-5 h-5 ml-2 items-center justify-center">
-                  <Text className="text-primary-foreground text-xs font-bold">{unreadCount}</Text>
+        {isSearching && currentUser?.id ? (
+          <MessageSearch currentUserId={currentUser.id} onClose={() => setIsSearching(false)} />
+        ) : (
+          <>
+            {/* Archived section header, or the filter buttons */}
+            {isShowingArchived ? (
+              <View className="flex-row mb-4 items-center">
+                <TouchableOpacity
+                  onPress={() => setIsShowingArchived(false)}
+                  className="bg-card w-9 h-9 rounded-full items-center justify-center mr-3"
+                >
+                  <FontAwesome name="chevron-left" size={14} color={colors.foreground} />
+                </TouchableOpacity>
+                <Text className="text-lg font-bold text-foreground">Archived</Text>
+              </View>
+            ) : (
+              <View className="flex-row mb-4 items-center justify-between">
+                <View className="flex-row items-center">
+                  <TouchableOpacity
+                    onPress={() => setFilter('All')}
+                    className={`px-4 py-2 rounded-full mr-2 ${
+                      filter === 'All' ? 'bg-accent' : 'bg-card'
+                    }`}
+                  >
+                    <Text className={`${filter === 'All' ? 'font-bold text-accent-foreground' : 'font-semibold text-muted-foreground'}`}>
+                      All
+                    </Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={() => setFilter('Unread')}
+                    className={`px-4 py-2 rounded-full mr-2 flex-row items-center ${
+                      filter === 'Unread' ? 'bg-accent' : 'bg-card'
+                    }`}
+                  >
+                    <Text
+                      className={`${
+                        filter === 'Unread' ? 'font-bold text-accent-foreground' : 'font-semibold text-muted-foreground'
+                      }`}
+                    >
+                      Unread
+                    </Text>
+                    {unreadCount > 0 && (
+                      <View className="bg-primary rounded-full w-5 h-5 ml-2 items-center justify-center">
+                        <Text className="text-primary-foreground text-xs font-bold">{unreadCount}</Text>
+                      </View>
+                    )}
+                  </TouchableOpacity>
                 </View>
-              )}
-            </TouchableOpacity>
-          </View>
-          <TouchableOpacity
-            onPress={() => setShowNewConversationModal(true)}
-            className="bg-primary px-4 py-2 rounded-full flex-row items-center"
-          >
-            <FontAwesome name="plus" size={14} color={colors.primaryForeground} />
-            <Text className="text-primary-foreground font-semibold ml-2">New</Text>
-          </TouchableOpacity>
-        </View>
+                <View className="flex-row items-center">
+                  <TouchableOpacity
+                    onPress={() => setIsSearching(true)}
+                    className="bg-card w-9 h-9 rounded-full items-center justify-center mr-2"
+                  >
+                    <FontAwesome name="search" size={14} color={colors.mutedForeground} />
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={() => setShowNewConversationModal(true)}
+                    className="bg-primary px-4 py-2 rounded-full flex-row items-center"
+                  >
+                    <FontAwesome name="plus" size={14} color={colors.primaryForeground} />
+                    <Text className="text-primary-foreground font-semibold ml-2">New</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            )}
 
-        {isLoading ? (
-          <ActivityIndicator className="mt-10" size="large" color={colors.primary} />
-        ) : error ? (
-          <View className="flex-1 items-center justify-center -mt-16">
-            <View className="bg-card rounded-2xl p-8 shadow-sm items-center">
-              <View className="w-20 h-20 bg-destructive/20 rounded-full items-center justify-center mb-4">
-                <FontAwesome name="exclamation-circle" size={40} color={colors.destructive} />
+            {filter === 'All' && !isShowingArchived && (
+              <>
+                <AssistantItem />
+                {archivedConversations.length > 0 && (
+                  <TouchableOpacity
+                    onPress={() => setIsShowingArchived(true)}
+                    className="flex-row items-center px-3 py-2 mb-3"
+                  >
+                    <FontAwesome name="archive" size={16} color={colors.mutedForeground} />
+                    <Text className="flex-1 font-semibold text-muted-foreground ml-3">Archived</Text>
+                    <Text className="text-muted-foreground mr-2">{archivedConversations.length}</Text>
+                    <FontAwesome name="chevron-right" size={12} color={colors.mutedForeground} />
+                  </TouchableOpacity>
+                )}
+              </>
+            )}
+
+            {isLoading ? (
+              <ActivityIndicator className="mt-10" size="large" color={colors.primary} />
+            ) : error ? (
+              <View className="flex-1 items-center justify-center -mt-16">
+                <View className="bg-card rounded-2xl p-8 shadow-sm items-center">
+                  <View className="w-20 h-20 bg-destructive/20 rounded-full items-center justify-center mb-4">
+                    <FontAwesome name="exclamation-circle" size={40} color={colors.destructive} />
+                  </View>
+                  <Text className="text-xl font-semibold text-foreground mb-2">
+                    Unable to load conversations
+                  </Text>
+                  <Text className="text-muted-foreground text-center mb-6">
+                    {error}
+                  </Text>
+                  <TouchableOpacity
+                    onPress={() => currentUser?.id && fetchConversations(currentUser.id)}
+                    className="bg-primary px-6 py-3 rounded-full"
+                  >
+                    <Text className="text-primary-foreground font-medium">Try Again</Text>
+                  </TouchableOpacity>
+                </View>
               </View>
-              <Text className="text-xl font-semibold text-foreground mb-2">
-                Unable to load conversations
-              </Text>
-              <Text className="text-muted-foreground text-center mb-6">
-                {error}
-              </Text>
-              <TouchableOpacity
-                onPress={() => currentUser?.id && fetchConversations(currentUser.id)}
-                className="bg-primary px-6 py-3 rounded-full"
-              >
-                <Text className="text-primary-foreground font-medium">Try Again</Text>
-              </TouchableOpacity>
-            </View>
-          </View>
-        ) : filteredConversations.length > 0 ? (
-          <FlatList
-            data={filteredConversations}
-            keyExtractor={(item) => item.id}
-            renderItem={({ item }) => <ConversationItem item={item} currentUserId={currentUser?.id || ''} />}
-            contentContainerStyle={{ paddingBottom: 20 }}
-            refreshing={refreshing}
-            onRefresh={handleRefresh}
-          />
-        ) : (
-          <View className="flex-1 items-center justify-center -mt-16">
-            <View className="bg-card rounded-2xl p-8 shadow-sm items-center">
-              <View className="w-20 h-20 bg-accent rounded-full items-center justify-center mb-4">
-                <FontAwesome name="comments" size={40} color={colors.primary} />
+            ) : filteredConversations.length > 0 ? (
+              <FlatList
+                data={filteredConversations}
+                keyExtractor={(item) => item.id}
+                renderItem={({ item }) => (
+                  <ConversationItem
+                    item={item}
+                    currentUserId={currentUser?.id || ''}
+                    onLongPress={(conversation) => setOptionsConversationId(conversation.id)}
+                  />
+                )}
+                contentContainerStyle={{ paddingBottom: 20 }}
+                refreshing={refreshing}
+                onRefresh={handleRefresh}
+              />
+            ) : (
+              <View className="flex-1 items-center justify-center -mt-16">
+                <View className="bg-card rounded-2xl p-8 shadow-sm items-center">
+                  <View className="w-20 h-20 bg-accent rounded-full items-center justify-center mb-4">
+                    <FontAwesome name="comments" size={40} color={colors.primary} />
+                  </View>
+                  <Text className="text-xl font-semibold text-foreground mb-2">
+                    {filter === 'Unread' ? 'No unread messages' : 'No conversations yet'}
+                  </Text>
+                  <Text className="text-muted-foreground text-center mb-6">
+                    {filter === 'Unread' ? "You're all caught up!" : 'Start chatting with your friends.'}
+                  </Text>
+                </View>
               </View>
-              <Text className="text-xl font-semibold text-foreground mb-2">
-                {filter === 'Unread' ? 'No unread messages' : 'No conversations yet'}
-              </Text>
-              <Text className="text-muted-foreground text-center mb-6">
-                {filter === 'Unread' ? "You're all caught up!" : 'Start chatting with your friends.'}
-              </Text>
-            </View>
-          </View>
+            )}
+          </>
         )}
       </View>
 
@@ -206,6 +360,14 @@ export default function ChatScreen() {
         onClose={() => setShowMoreOptions(false)}
         context="conversation-list"
       />
+
+      {/* Pin, Mute and Archive Options */}
+      <ConversationOptionsMenu
+        conversation={optionsConversation}
+        title={optionsConversation && currentUser?.id ? getConversationTitle(optionsConversation, currentUser.id) : ''}
+        currentUserId={currentUser?.id || ''}
+        onClose={() => setOptionsConversationId(null)}
+      />
     </View>
   );
 }
\ No newline at end of file
@@ -1,16 +1,21 @@
 import React, { useEffect, useState } from 'react';
-import { View, Text, FlatList, TextInput, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { View, Text, FlatList, TextInput, TouchableOpacity, ActivityIndicator, Alert } from 'react-native';
 import { Ionicons, FontAwesome } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
 import { useItinerariesStore } from '@/stores/itinerariesStore';
+import { useUserStore } from '@/stores/user';
 import { useDebounce } from '@/hooks/useDebounce';
 import { useThemeColors } from '@/hooks/useThemeColors';
 import { ItineraryCard } from '@/components/ItineraryCard';
 import { ItineraryModal } from '@/components/ItineraryModal';
+import { ItineraryInviteCard } from '@/components/ItineraryInviteCard';
 import { AIItineraryPromptModal } from '@/components/AIItineraryPromptModal';
 import { Header } from '@/components/Header';
 import MoreOptionsMenu from '@/components/MoreOptionsMenu';
 import type { Itinerary } from '@/api/itineraries';
+import { importItineraryFromICS } from '@/api/calendar';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
 
 export default function ItinerariesScreen() {
   const colors = useThemeColors();
@@ -21,7 +26,9 @@ export default function ItinerariesScreen() {
   const [refreshing, setRefreshing] = useState(false);
   const [editingItinerary, setEditingItinerary] = useState<Itinerary | null>(null);
   const [showAIPromptModal, setShowAIPromptModal] = useState(false);
+  const [respondingInviteId, setRespondingInviteId] = useState<string | null>(null);
   const debouncedSearch = useDebounce(searchInput, 300);
+  const { currentUser } = useUserStore();
   
   const {
     itineraries,
@@ -29,13 +36,30 @@ export default function ItinerariesScreen() {
     error,
     fetchItineraries,
     searchItineraries,
-    clearError
+    clearError,
+    invites,
+    fetchInvites,
+    acceptInvite,
+    declineInvite,
+    subscribeToItineraryUpdates,
+    unsubscribeFromItineraryUpdates
   } = useItinerariesStore();
 
   useEffect(() => {
     fetchItineraries();
+    fetchInvites();
   }, []);
 
+  // Keep itineraries in sync with edits made on other devices or by co-planners
+  useEffect(() => {
+    if (!currentUser?.id) return;
+
+    subscribeToItineraryUpdates(currentUser.id);
+    return () => {
+      unsubscribeFromItineraryUpdates(currentUser.id);
+    };
+  }, [currentUser?.id, subscribeToItineraryUpdates, unsubscribeFromItineraryUpdates]);
+
   useEffect(() => {
     if (debouncedSearch) {
       searchItineraries(debouncedSearch);
@@ -49,6 +73,19 @@ export default function ItinerariesScreen() {
     setShowCreateModal(true);
   };
 
+  const handleImportCalendar = async () => {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: ['text/calendar', '*/*'],
+      copyToCacheDirectory: true,
+    });
+    if (result.canceled || !result.assets?.[0]) return;
+
+    const contents = await FileSystem.readAsStringAsync(result.assets[0].uri);
+    const itinerary = await importItineraryFromICS(contents);
+    fetchItineraries();
+    router.push(`/itineraries/${itinerary.id}`);
+  };
+
   const handleAIItinerary = () => {
     setShowAIPromptModal(true);
   };
@@ -67,6 +104,8 @@ export default function ItinerariesScreen() {
   };
 
   const handleItineraryLongPress = (itinerary: Itinerary) => {
+    // Viewers cannot edit shared itineraries
+    if (itinerary.role === 'viewer') return;
     setEditingItinerary(itinerary);
     setShowCreateModal(true);
   };
@@ -75,9 +114,25 @@ export default function ItinerariesScreen() {
     setShowMoreOptions(true);
   };
 
+  const handleInviteResponse = async (itineraryId: string, accept: boolean) => {
+    setRespondingInviteId(itineraryId);
+    try {
+      if (accept) {
+        await acceptInvite(itineraryId);
+      } else {
+        await declineInvite(itineraryId);
+      }
+    } catch (err) {
+      Alert.alert('Error', err instanceof Error ? err.message : 'Failed to respond to invite');
+    } finally {
+      setRespondingInviteId(null);
+    }
+  };
+
   const handleRefresh = async () => {
     setRefreshing(true);
     try {
+      fetchInvites();
       if (debouncedSearch) {
         await searchItineraries(debouncedSearch);
       } else {
@@ -167,6 +222,22 @@ export default function ItinerariesScreen() {
             contentContainerStyle={{ paddingHorizontal: 16, paddingBottom: 16 }}
             refreshing={refreshing}
             onRefresh={handleRefresh}
+            ListHeaderComponent={
+              invites.length > 0 && !searchInput ? (
+                <View>
+                  <Text className="text-lg font-semibold text-foreground mb-2">Invites</Text>
+                  {invites.map((invite) => (
+                    <ItineraryInviteCard
+                      key={invite.itineraryId}
+                      invite={invite}
+                      onAccept={(itineraryId) => handleInviteResponse(itineraryId, true)}
+                      onDecline={(itineraryId) => handleInviteResponse(itineraryId, false)}
+                      isLoading={respondingInviteId === invite.itineraryId}
+                    />
+                  ))}
+                </View>
+              ) : null
+            }
             ListEmptyComponent={
               <View className="flex-1 justify-center items-center py-20">
                 <Ionicons name="calendar-outline" size={64} color={colors.mutedForeground} />
@@ -208,6 +279,7 @@ export default function ItinerariesScreen() {
         onClose={() => setShowMoreOptions(false)}
         context="itineraries"
         onNewItinerary={handleNewItinerary}
+        onImportCalendar={handleImportCalendar}
       />
 
       {/* AI Itinerary Prompt Modal */}
@@ -1,5 +1,7 @@
 import Auth from "@/components/Auth";
 import { ThemeProvider } from "@/components/ThemeProvider";
+import { useOutboxRetry } from "@/hooks/useOutboxRetry";
+import { usePushNotifications } from "@/hooks/usePushNotifications";
 import { useThemeStore } from "@/stores/theme";
 import { useUserStore } from "@/stores/user";
 import { supabase } from "@/utils/supabase";
@@ -13,6 +15,13 @@ import "../../global.css";
 
 function ThemedApp({ session }: { session: Session | null }) {
   const { currentTheme } = useThemeStore();
+  const { currentUser } = useUserStore();
+
+  // Send messages left in the outbox
+  useOutboxRetry(session ? currentUser?.id : undefined);
+
+  // Register for push notifications and open the ones the user taps
+  usePushNotifications(session ? currentUser?.id : undefined);
 
   if (!session) {
     return (
@@ -36,6 +45,12 @@ function ThemedApp({ session }: { session: Session | null }) {
             animation: 'slide_from_right',
           }} 
         />
+        <Stack.Screen 
+          name="friends" 
+          options={{ 
+            presentation: 'modal',
+          }} 
+        />
       </Stack>
     </>
   );
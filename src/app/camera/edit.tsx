@@ -3,13 +3,15 @@
  * Allows users to share photos to conversations or stories
  */
 
-import { sendMessage } from '@/api/messages';
+import { generateImageCaptionWithAI } from '@/api/ai';
 import UserAvatar from '@/components/UserAvatar';
 import { useThemeColors } from '@/hooks/useThemeColors';
 import { useConversationsStore } from '@/stores/conversations';
 import { useFriendsStore } from '@/stores/friends';
+import { useMessagesStore } from '@/stores/messages';
 import { useStoriesStore } from '@/stores/stories';
 import { useUserStore } from '@/stores/user';
+import { alertAIError } from '@/utils/aiErrors';
 import { uploadPhoto, validatePhoto } from '@/utils/photoStorage';
 import { Ionicons } from '@expo/vector-icons';
 import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
@@ -47,6 +49,7 @@ export default function PhotoEditScreen() {
   const { friends, isFriendsLoading: friendsLoading, fetchFriends } = useFriendsStore();
   const { conversations, startDirectConversation } = useConversationsStore();
   const { currentUser } = useUserStore();
+  const { sendMessage } = useMessagesStore();
   const { addStoryContent } = useStoriesStore();
 
   // Load friends when component mounts
@@ -100,28 +103,11 @@ export default function PhotoEditScreen() {
       reader.readAsDataURL(blob);
       const base64Image = await base64Promise;
 
-      // Call OpenAI API
-      const apiResponse = await fetch('/server/ai/openai-request', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${currentUser?.id}`
-        },
-        body: JSON.stringify({
-          type: 'generate-image-caption',
-          image: base64Image
-        })
-      });
-
-      if (!apiResponse.ok) {
-        throw new Error('Failed to generate caption');
-      }
-
-      const { caption: generatedCaption } = await apiResponse.json();
+      const generatedCaption = await generateImageCaptionWithAI(base64Image);
       setCaption(generatedCaption);
     } catch (error) {
       console.error('Error generating AI caption:', error);
-      Alert.alert('Error', 'Failed to generate caption. Please try again.');
+      alertAIError(error, 'Failed to generate caption. Please try again.');
     } finally {
       setIsGeneratingCaption(false);
     }
@@ -156,30 +142,28 @@ export default function PhotoEditScreen() {
         return;
       }
 
-      // Upload photo to Supabase Storage
-      const uploadResult = await uploadPhoto(finalPhotoUri, currentUser.id, {
-        quality: 0.8,
-        maxWidth: 1920,
-        maxHeight: 1920,
-        compress: true,
-      });
-
-      if (!uploadResult.success || !uploadResult.publicUrl) {
-        Alert.alert('Upload Failed', uploadResult.error || 'Failed to upload photo');
-        setIsUploading(false);
-        return;
-      }
-
-      // Send photo message
-      await sendMessage(
+      // Send photo message; the outbox uploads the photo and keeps it queued while offline
+      const result = await sendMessage(
         {
           conversationId,
-          content: uploadResult.publicUrl,
+          content: finalPhotoUri,
           type: 'photo',
         },
         currentUser.id
       );
 
+      if (!result.success) {
+        Alert.alert('Send Failed', result.error || 'Failed to send photo');
+        return;
+      }
+
+      if (result.queued) {
+        Alert.alert('Photo Queued', 'Your photo will be sent when you are back online.', [
+          { text: 'OK', onPress: () => router.back() },
+        ]);
+        return;
+      }
+
       Alert.alert('Photo Sent!', 'Your photo has been shared successfully.', [
         { text: 'OK', onPress: () => router.back() },
       ]);
@@ -265,6 +249,7 @@ export default function PhotoEditScreen() {
       await addStoryContent({
         type: 'photo',
         content_url: uploadResult.publicUrl,
+        caption: showCaption && caption ? caption : null,
         story_id: '', // This will be set by the store
         user_id: currentUser.id,
       });
@@ -10,12 +10,12 @@ import { Alert } from 'react-native';
 
 /**
  * Dynamic route component for individual chat conversations
- * Accessed via /chat/[conversationId]
+ * Accessed via /chat/[conversationId], with an optional ?messageId= to open the chat at a message
  * 
  * @returns JSX element for the chat screen
  */
 export default function ChatRoute() {
-  const { conversationId } = useLocalSearchParams<{ conversationId: string }>();
+  const { conversationId, messageId } = useLocalSearchParams<{ conversationId: string; messageId?: string }>();
 
   // Validate conversation ID parameter
   if (!conversationId || typeof conversationId !== 'string') {
@@ -23,5 +23,10 @@ export default function ChatRoute() {
     return null;
   }
 
-  return <MessagesScreen conversationId={conversationId} />;
+  return (
+    <MessagesScreen
+      conversationId={conversationId}
+      messageId={typeof messageId === 'string' ? messageId : undefined}
+    />
+  );
 } 
\ No newline at end of file
@@ -0,0 +1,17 @@
+/**
+ * @file Route for the AI trip assistant conversation
+ * Takes precedence over the dynamic conversation route for /chat/assistant
+ */
+
+import AssistantScreen from '@/components/AssistantScreen';
+import React from 'react';
+
+/**
+ * Route component for the trip assistant
+ * Accessed via /chat/assistant
+ *
+ * @returns JSX element for the assistant screen
+ */
+export default function AssistantRoute() {
+  return <AssistantScreen />;
+}
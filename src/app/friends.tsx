@@ -0,0 +1,55 @@
+/**
+ * @file Friends screen with the user's friend requests and friend search
+ * Opened from friend request notifications
+ */
+
+import Friends from '@/components/Friends';
+import { useThemeColors } from '@/hooks/useThemeColors';
+import { FontAwesome } from '@expo/vector-icons';
+import { router, Stack } from 'expo-router';
+import React from 'react';
+import { SafeAreaView, Text, TouchableOpacity, View } from 'react-native';
+
+/**
+ * Friends screen component
+ *
+ * @returns JSX element for the friends screen
+ */
+export default function FriendsScreen() {
+  const colors = useThemeColors();
+
+  /**
+   * Closes the screen, going to the app's home when it was opened straight from a notification
+   */
+  const handleClose = () => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/');
+    }
+  };
+
+  return (
+    <SafeAreaView className="flex-1 bg-background">
+      {/* Hide the default header */}
+      <Stack.Screen
+        options={{
+          headerShown: false,
+        }}
+      />
+
+      {/* Custom Header */}
+      <View className="relative flex-row items-center justify-center p-4 border-b border-border bg-card">
+        <Text className="text-lg font-semibold text-foreground">Friends</Text>
+        <TouchableOpacity
+          onPress={handleClose}
+          className="absolute right-4"
+        >
+          <FontAwesome name="close" size={24} color={colors.foreground} />
+        </TouchableOpacity>
+      </View>
+
+      <Friends />
+    </SafeAreaView>
+  );
+}
@@ -1,5 +1,5 @@
 import React, { useEffect, useState, useMemo } from 'react';
-import { View, Text, TouchableOpacity, ActivityIndicator, ScrollView } from 'react-native';
+import { View, Text, TouchableOpacity, ActivityIndicator, ScrollView, Alert } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import { Ionicons, FontAwesome } from '@expo/vector-icons';
@@ -10,7 +10,16 @@ import { ActivityList } from '@/components/ActivityList';
 import { ActivityModal } from '@/components/ActivityModal';
 import { ItineraryModal } from '@/components/ItineraryModal';
 import { AIActivityPromptModal } from '@/components/AIActivityPromptModal';
+import { ItineraryMembersModal } from '@/components/ItineraryMembersModal';
+import { ItineraryMap } from '@/components/ItineraryMap';
+import UserAvatar from '@/components/UserAvatar';
 import type { Activity } from '@/api/activities';
+import { exportItineraryCalendar } from '@/api/calendar';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { groupActivitiesByDay } from '@/utils/dateHelpers';
+import { planScheduleFix, type ScheduleFixMode } from '@/utils/scheduleConflicts';
+import { planDay } from '@/utils/dayPlanner';
 
 export default function ItineraryDetailsScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
@@ -20,25 +29,40 @@ export default function ItineraryDetailsScreen() {
   const [showActivityModal, setShowActivityModal] = useState(false);
   const [editingActivity, setEditingActivity] = useState<Activity | null>(null);
   const [filter, setFilter] = useState<'All' | 'Unscheduled'>('All');
+  const [viewMode, setViewMode] = useState<'list' | 'map'>('list');
   const [refreshing, setRefreshing] = useState(false);
   const [showItineraryModal, setShowItineraryModal] = useState(false);
   const [showAIPromptModal, setShowAIPromptModal] = useState(false);
+  const [showMembersModal, setShowMembersModal] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
 
   const { 
     getItineraryById, 
     fetchItinerary,
+    getMembersForItinerary,
+    fetchMembers,
+    canEditItinerary,
     error: itineraryError 
   } = useItinerariesStore();
 
   const {
     getActivitiesForItinerary,
     fetchActivitiesForItinerary,
+    clearActivitiesForItinerary,
+    subscribeToActivityUpdates,
+    unsubscribeFromActivityUpdates,
+    rescheduleActivities,
+    updateActivity,
     isLoading: activitiesLoading,
     error: activitiesError
   } = useActivitiesStore();
 
   const itinerary = getItineraryById(id);
   const activities = getActivitiesForItinerary(id);
+  const canEdit = canEditItinerary(id);
+
+  // Only show members who have accepted, in the order they joined
+  const acceptedMembers = getMembersForItinerary(id).filter((member) => member.status === 'accepted');
 
   // Filter activities based on the selected filter
   const filteredActivities = useMemo(() => {
@@ -54,7 +78,8 @@ export default function ItineraryDetailsScreen() {
       try {
         await Promise.all([
           fetchItinerary(id),
-          fetchActivitiesForItinerary(id)
+          fetchActivitiesForItinerary(id),
+          fetchMembers(id)
         ]);
       } finally {
         setIsInitialLoading(false);
@@ -64,6 +89,14 @@ export default function ItineraryDetailsScreen() {
     loadData();
   }, [id]);
 
+  // Show activity edits from co-planners and other devices as they happen
+  useEffect(() => {
+    subscribeToActivityUpdates(id);
+    return () => {
+      unsubscribeFromActivityUpdates(id);
+    };
+  }, [id, subscribeToActivityUpdates, unsubscribeFromActivityUpdates]);
+
   const handleBack = () => {
     router.back();
   };
@@ -81,11 +114,117 @@ export default function ItineraryDetailsScreen() {
     setShowItineraryModal(true);
   };
 
+  const handleExportCalendar = async () => {
+    if (!itinerary) return;
+    setIsExporting(true);
+    try {
+      const contents = await exportItineraryCalendar(id);
+      const fileName = `${itinerary.title.replace(/[^a-z0-9-_ ]/gi, '').trim() || 'itinerary'}.ics`;
+      const uri = `${FileSystem.cacheDirectory}${fileName}`;
+      await FileSystem.writeAsStringAsync(uri, contents);
+
+      if (!(await Sharing.isAvailableAsync())) {
+        throw new Error('Sharing is not available on this device');
+      }
+      await Sharing.shareAsync(uri, {
+        mimeType: 'text/calendar',
+        UTI: 'com.apple.ical.ics',
+        dialogTitle: 'Export to Calendar',
+      });
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to export itinerary');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const handleActivityPress = (activity: Activity) => {
+    // Viewers can only read activities
+    if (!canEdit) return;
     setEditingActivity(activity);
     setShowActivityModal(true);
   };
 
+  const applyScheduleFix = async (dateKey: string, mode: ScheduleFixMode) => {
+    if (!itinerary) return;
+    const dayActivities = groupActivitiesByDay(activities)[dateKey] || [];
+    const { adjustments, feasible } = planScheduleFix(dayActivities, itinerary, mode);
+    if (!feasible) {
+      Alert.alert('Cannot Fix', 'These activities would run past the end of the day or the trip. Try editing the activities directly.');
+      return;
+    }
+    if (adjustments.length === 0) {
+      Alert.alert('Nothing to Fix', 'Times on this day cannot be improved automatically. Try editing the activities directly.');
+      return;
+    }
+    try {
+      await rescheduleActivities(id, adjustments);
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to reschedule activities');
+    }
+  };
+
+  const handleAutoFixDay = (dateKey: string) => {
+    Alert.alert(
+      'Fix Schedule',
+      'Move activities so they no longer overlap and leave time to travel between them.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Shift Later', onPress: () => applyScheduleFix(dateKey, 'shift') },
+        { text: 'Compact Day', onPress: () => applyScheduleFix(dateKey, 'compact') },
+      ]
+    );
+  };
+
+  const handleOptimizeDay = (dateKey: string) => {
+    const dayActivities = groupActivitiesByDay(activities)[dateKey] || [];
+    const dayEnd = new Date(dayActivities[0]?.start_time || dateKey);
+    dayEnd.setHours(23, 59, 59, 999);
+
+    const plan = planDay(dayActivities, { dayEnd: dayEnd.getTime() });
+    if (!plan.feasible) {
+      Alert.alert('Cannot Optimize', 'These activities do not fit in the day near their planned times once travel time is included.');
+      return;
+    }
+    // Only offer plans that change the order; compacting times alone is what auto-fix is for
+    if (plan.order.every((activityId, index) => activityId === dayActivities[index].id)) {
+      Alert.alert('Route Optimized', 'This day is already in the shortest order.');
+      return;
+    }
+
+    const distance = plan.totalDistanceKm.toFixed(1);
+    Alert.alert(
+      'Optimize Route',
+      `Reorder this day to about ${distance} km and ${plan.totalTravelMinutes} min of travel? ${plan.adjustments.length} activities will move.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Reorder',
+          onPress: async () => {
+            try {
+              await rescheduleActivities(id, plan.adjustments);
+            } catch (error) {
+              Alert.alert('Error', error instanceof Error ? error.message : 'Failed to reschedule activities');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleRetryGeocode = async (activity: Activity) => {
+    if (!activity.location) return;
+    try {
+      // Saving the location again re-runs geocoding
+      const updated = await updateActivity(activity.id, { location: activity.location });
+      if (!updated.gps_coords) {
+        Alert.alert('Location Not Found', `Couldn't find "${activity.location}" on the map. Try a more specific location.`);
+      }
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to locate activity');
+    }
+  };
+
   const handleActivitySaved = () => {
     // Refresh activities after save
     fetchActivitiesForItinerary(id);
@@ -96,13 +235,19 @@ export default function ItineraryDetailsScreen() {
     try {
       await Promise.all([
         fetchItinerary(id),
-        fetchActivitiesForItinerary(id)
+        fetchActivitiesForItinerary(id),
+        fetchMembers(id)
       ]);
     } finally {
       setRefreshing(false);
     }
   };
 
+  const handleLeftItinerary = () => {
+    clearActivitiesForItinerary(id);
+    router.back();
+  };
+
   if (isInitialLoading) {
     return (
       <SafeAreaView className="flex-1 bg-card">
@@ -170,14 +315,53 @@ export default function ItineraryDetailsScreen() {
               )}
             </View>
           </View>
-          <TouchableOpacity
-            onPress={handleMoreOptions}
-            className="p-2 -mr-2"
-            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
-          >
-            <Ionicons name="ellipsis-vertical" size={24} color={colors.foreground} />
-          </TouchableOpacity>
+          <View className="flex-row items-center">
+            <TouchableOpacity
+              onPress={handleExportCalendar}
+              disabled={isExporting}
+              className="p-2"
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              {isExporting ? (
+                <ActivityIndicator size="small" color={colors.foreground} />
+              ) : (
+                <Ionicons name="calendar-outline" size={24} color={colors.foreground} />
+              )}
+            </TouchableOpacity>
+            {canEdit && (
+              <TouchableOpacity
+                onPress={handleMoreOptions}
+                className="p-2 -mr-2"
+                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+              >
+                <Ionicons name="ellipsis-vertical" size={24} color={colors.foreground} />
+              </TouchableOpacity>
+            )}
+          </View>
         </View>
+
+        {/* Members */}
+        <TouchableOpacity
+          onPress={() => setShowMembersModal(true)}
+          className="flex-row items-center mt-2 ml-8"
+          activeOpacity={0.7}
+        >
+          {acceptedMembers.slice(0, 4).map((member, index) => (
+            <View
+              key={member.userId}
+              className="rounded-full border-2 border-card"
+              style={{ marginLeft: index === 0 ? 0 : -8 }}
+            >
+              <UserAvatar uri={member.user.avatarUrl} size={32} />
+            </View>
+          ))}
+          {acceptedMembers.length > 4 && (
+            <Text className="text-sm text-muted-foreground ml-2">+{acceptedMembers.length - 4}</Text>
+          )}
+          <Text className="text-sm text-muted-foreground ml-2">
+            {itinerary.role === 'owner' ? 'Share' : itinerary.role === 'viewer' ? 'View only' : 'Shared'}
+          </Text>
+        </TouchableOpacity>
       </View>
 
       {/* Main Content */}
@@ -206,22 +390,35 @@ export default function ItineraryDetailsScreen() {
                   Unscheduled
                 </Text>
               </TouchableOpacity>
-            </View>
-            <View className="flex-row items-center">
-              <TouchableOpacity
-                onPress={handleAIActivity}
-                className="bg-primary/10 px-3 py-2 rounded-full flex-row items-center mr-2 border border-primary"
-              >
-                <FontAwesome name="magic" size={16} color={colors.primary} />
-              </TouchableOpacity>
               <TouchableOpacity
-                onPress={handleNewActivity}
-                className="bg-primary px-4 py-2 rounded-full flex-row items-center"
+                onPress={() => setViewMode(viewMode === 'list' ? 'map' : 'list')}
+                className="p-2 rounded-full bg-card ml-2"
+                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
               >
-                <FontAwesome name="plus" size={14} color={colors.primaryForeground} />
-                <Text className="text-primary-foreground font-semibold ml-2">New</Text>
+                <Ionicons
+                  name={viewMode === 'list' ? 'map-outline' : 'list-outline'}
+                  size={18}
+                  color={colors.mutedForeground}
+                />
               </TouchableOpacity>
             </View>
+            {canEdit && (
+              <View className="flex-row items-center">
+                <TouchableOpacity
+                  onPress={handleAIActivity}
+                  className="bg-primary/10 px-3 py-2 rounded-full flex-row items-center mr-2 border border-primary"
+                >
+                  <FontAwesome name="magic" size={16} color={colors.primary} />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={handleNewActivity}
+                  className="bg-primary px-4 py-2 rounded-full flex-row items-center"
+                >
+                  <FontAwesome name="plus" size={14} color={colors.primaryForeground} />
+                  <Text className="text-primary-foreground font-semibold ml-2">New</Text>
+                </TouchableOpacity>
+              </View>
+            )}
           </View>
         </View>
 
@@ -230,11 +427,21 @@ export default function ItineraryDetailsScreen() {
           <View className="flex-1 justify-center items-center">
             <ActivityIndicator size="large" color={colors.primary} />
           </View>
+        ) : viewMode === 'map' ? (
+          <ItineraryMap
+            activities={filteredActivities}
+            onActivityPress={handleActivityPress}
+            itineraryStartDate={itinerary.start_time}
+            onRetryGeocode={canEdit ? handleRetryGeocode : undefined}
+          />
         ) : (
           <ActivityList
             activities={filteredActivities}
             onActivityPress={handleActivityPress}
             itineraryStartDate={itinerary.start_time}
+            itineraryEndDate={itinerary.end_time}
+            onAutoFixDay={canEdit ? handleAutoFixDay : undefined}
+            onOptimizeDay={canEdit ? handleOptimizeDay : undefined}
             refreshing={refreshing}
             onRefresh={handleRefresh}
           />
@@ -267,6 +474,16 @@ export default function ItineraryDetailsScreen() {
         />
       )}
 
+      {/* Itinerary Members Modal */}
+      {itinerary && (
+        <ItineraryMembersModal
+          visible={showMembersModal}
+          onClose={() => setShowMembersModal(false)}
+          itinerary={itinerary}
+          onLeave={handleLeftItinerary}
+        />
+      )}
+
       {/* AI Activity Prompt Modal */}
       {itinerary && (
         <AIActivityPromptModal
@@ -1,7 +1,13 @@
 import type { Activity } from '@/types/activities';
+import type { AIQuotaErrorBody } from '@/types/aiUsage';
 import type { Itinerary } from '@/types/itineraries';
-import { createClient } from "@supabase/supabase-js";
-import OpenAI from "openai";
+import type { CommunitySources } from '@/types/retrieval';
+import { AIUsageLedger, getAIUsageSummary, isAIRequestType } from '@/utils/aiUsage';
+import { ASSISTANT_TOOLS } from '@/utils/assistantTools';
+import { getCommunityContext } from '@/utils/communityContext';
+import { IncrementalJsonParser } from '@/utils/incrementalJson';
+import { getLLMProvider, type LLMChatMessage } from '@/utils/llm';
+import { authenticateRequest, authorizeActivityEdit, authorizeItineraryEdit, createSupabaseAdminClient, ServerAuthError } from '@/utils/serverAuth';
 
 // Helper function to create activity generation prompt
 function createActivityGenerationPrompt(itinerary: Itinerary, userPrompt?: string): string {
@@ -104,6 +110,67 @@ const headers = {
   'Content-Type': 'application/json',
 }
 
+const streamHeaders = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+  'Connection': 'keep-alive',
+}
+
+/**
+ * Relays a streamed itinerary completion as server-sent events:
+ * - `sources` first, with the community content the itinerary is grounded in
+ * - `itinerary` with each top-level field (title, description, dates) as soon as it is complete
+ * - `activity` with each activity as soon as it is complete
+ * - `done` with the full itinerary, or `error` if generation fails
+ *
+ * `onClose` runs once generation has finished, failed or been cancelled.
+ */
+function createItineraryEventStream(
+  deltas: AsyncIterable<string>,
+  sources: CommunitySources,
+  onClose?: () => Promise<void>
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let cancelled = false;
+
+  return new ReadableStream({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (cancelled) return;
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      const parser = new IncrementalJsonParser();
+      let outputText = '';
+
+      send('sources', { sources });
+
+      try {
+        for await (const delta of deltas) {
+          outputText += delta;
+          for (const parsed of parser.push(delta)) {
+            if (parsed.type === 'item' && parsed.key === 'activities') {
+              send('activity', { index: parsed.index, activity: parsed.value });
+            } else if (parsed.type === 'property' && parsed.key !== 'activities') {
+              send('itinerary', { [parsed.key]: parsed.value });
+            }
+          }
+        }
+
+        send('done', { itinerary: JSON.parse(outputText || '{}') });
+      } catch (e: any) {
+        send('error', { error: e.message });
+      } finally {
+        if (!cancelled) controller.close();
+        await onClose?.();
+      }
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+}
+
 interface OpenAIRequestsBody {
   type: string
   [key: string]: unknown
@@ -140,6 +207,14 @@ interface GenerateItineraryImageRequest extends OpenAIRequestsBody {
 interface CreateItineraryFromPromptRequest extends OpenAIRequestsBody {
   type: 'create-itinerary-from-prompt'
   prompt: string
+  stream?: boolean
+}
+
+interface AssistantChatRequest extends OpenAIRequestsBody {
+  type: 'assistant-chat'
+  messages: LLMChatMessage[]
+  now: string // ISO 8601 time on the client
+  timezone: string // IANA timezone of the client
 }
 
 interface GenerateImageCaptionRequest extends OpenAIRequestsBody {
@@ -148,14 +223,11 @@ interface GenerateImageCaptionRequest extends OpenAIRequestsBody {
 }
 
 export async function POST(req: Request) {
+  let ledger: AIUsageLedger | null = null;
+
   try {
-    const authHeader = req.headers.get('Authorization');
-    if (!authHeader) {
-      return new Response(JSON.stringify({ error: "Unauthorized" }), {
-        status: 401,
-        headers
-      })
-    }
+    // Verify the caller before reading the body
+    const { user, supabase } = await authenticateRequest(req);
 
     // Ensure the request has a JSON content type
     if (req.headers.get("Content-Type") !== "application/json") {
@@ -171,35 +243,39 @@ export async function POST(req: Request) {
     // Extract data from the body
     const { type, ...rest } = (await req.json()) as OpenAIRequestsBody
 
-    console.log(`Successfully authenticated request: ${authHeader}`)
-
-    const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
-    // Create a _stateless_ Supabase client. By disabling both `persistSession` and
-    // `autoRefreshToken`, the auth library will **not** attempt to read from
-    // `AsyncStorage` (which relies on a `window` global) when this code runs in
-    // the Node/Expo "server" runtime.
-    // const supabase = createSupabaseClientForServer(authHeader)
-    
-    const supabase = createClient(
-      process.env.EXPO_PUBLIC_SUPABASE_URL!,
-      process.env.SUPABASE_SERVICE_KEY!,
-      {
-        auth: {
-          persistSession: false,
-          autoRefreshToken: false,
-        },
-        global: {
-          headers: {
-            Authorization: authHeader,
-          },
-        },
+    const provider = getLLMProvider()
+
+    // Service role client for usage accounting, which users cannot write to
+    const supabaseAdmin = createSupabaseAdminClient();
+
+    // Reserve the request against the daily quota for its type and record what it costs
+    if (isAIRequestType(type)) {
+      const typeLedger = new AIUsageLedger(supabaseAdmin, user.id, type, provider.name);
+      const quota = await typeLedger.reserve();
+      if (!quota.allowed) {
+        const body: AIQuotaErrorBody = {
+          error: `You've reached today's limit of ${quota.limit} for this AI feature. It resets in ${formatRetryAfter(quota.retryAfter)}.`,
+          code: 'quota_exceeded',
+          type,
+          limit: quota.limit,
+          used: quota.used,
+          retryAfter: quota.retryAfter
+        };
+        return new Response(JSON.stringify(body), {
+          status: 429,
+          headers: { ...headers, 'Retry-After': String(quota.retryAfter) }
+        })
       }
-    );
-    console.log('supabase', supabase)
+
+      ledger = typeLedger;
+    }
+    const onUsage = ledger?.track;
     
     switch (type) {
       case 'fill-activity-data': {
-        const { activity, itinerary } = rest as FillActivityDataRequest;
+        const { activity, itinerary: requestItinerary } = rest as FillActivityDataRequest;
+        const itinerary = await authorizeItineraryEdit(supabase, requestItinerary?.id);
+        await authorizeActivityEdit(supabase, activity, itinerary);
         
         const basePrompt = createActivityGenerationPrompt(itinerary);
         const prompt = `You are helping to fill in missing information for an activity within a travel itinerary.
@@ -216,28 +292,19 @@ Please provide suggestions to fill in the missing fields for this activity. Cons
 
 Only include fields that need to be filled or improved. Ensure suggestions are relevant to the itinerary context.`;
 
-        const response = await openai.responses.create({
-          model: "gpt-4.1-nano",
-          input: [
-            { role: "system", content: "You are a helpful travel planning assistant." },
-            { role: "user", content: prompt }
-          ],
-          text: {
-            format: {
-              type: "json_schema",
-              name: "activity_data_suggestions",
-              strict: false,
-              schema: getActivityDataSchema()
-            }
-          }
-        });
-        
-        const suggestions = JSON.parse(response.output_text || '{}');
+        const suggestions = await provider.completeJson({
+          system: "You are a helpful travel planning assistant.",
+          prompt,
+          schemaName: "activity_data_suggestions",
+          schema: getActivityDataSchema()
+        }, onUsage);
 
         return new Response(JSON.stringify({ suggestions }), { headers })
       }
       case 'generate-activity-image': {
-        const { activity, itinerary } = rest as GenerateActivityImageRequest;
+        const { activity, itinerary: requestItinerary } = rest as GenerateActivityImageRequest;
+        const itinerary = await authorizeItineraryEdit(supabase, requestItinerary?.id);
+        await authorizeActivityEdit(supabase, activity, itinerary);
         
         // First, get a summary for the image generation
         const summaryPrompt = `Create a concise, visual description for a DALL-E image that represents this travel activity:
@@ -251,33 +318,10 @@ Itinerary Context: ${itinerary.title} - ${itinerary.description || ''}
 
 Provide a vivid, detailed description that would create an appealing travel photo for this activity. Focus on visual elements, atmosphere, and the experience.`;
 
-        const summaryResponse = await openai.responses.create({
-          model: "gpt-4.1-nano",
-          input: summaryPrompt
-        });
-        
-        // Generate the image using DALL-E-3
-        const imageResponse = await openai.images.generate({
-          model: 'dall-e-3',
-          prompt: summaryResponse.output_text || '',
-          n: 1,
-          size: '1024x1024',
-          quality: 'hd',
-          style: 'vivid',
-          response_format: 'b64_json'
-        });
+        const summary = await provider.completeText(summaryPrompt, onUsage);
         
-        const b64Json = imageResponse.data?.[0]?.b64_json as string;
-        if (!b64Json) {
-          throw new Error('Failed to generate image data from OpenAI.');
-        }
-        
-        // Convert base64 to buffer
-        const buffer = new Uint8Array(
-          atob(b64Json)
-            .split("")
-            .map(char => char.charCodeAt(0))
-        );
+        // Generate the image from the summary
+        const buffer = await provider.generateImage(summary, onUsage);
         
         // Upload to Supabase storage
         const filePath = `activities/${Date.now()}-${Math.random().toString(36).substring(7)}.png`;
@@ -299,32 +343,32 @@ Provide a vivid, detailed description that would create an appealing travel phot
         return new Response(JSON.stringify({ image_url: publicUrl }), { headers })
       }
       case 'create-activity-from-prompt': {
-        const { prompt: userPrompt, itinerary } = rest as CreateActivityFromPromptRequest;
+        const { prompt: userPrompt, itinerary: requestItinerary } = rest as CreateActivityFromPromptRequest;
+        const itinerary = await authorizeItineraryEdit(supabase, requestItinerary?.id);
         
-        const prompt = createActivityGenerationPrompt(itinerary, userPrompt);
-
-        const response = await openai.responses.create({
-          model: "gpt-4.1-nano",
-          input: [
-            { role: "system", content: "You are a helpful travel planning assistant. Create activities that are specific, actionable, and enhance the travel experience." },
-            { role: "user", content: prompt }
-          ],
-          text: {
-            format: {
-              type: "json_schema",
-              name: "new_activity",
-              strict: false,
-              schema: getActivityDataSchema()
-            }
-          }
-        });
-        
-        const activityData = JSON.parse(response.output_text || '{}');
+        const community = await getCommunityContext(
+          supabase,
+          provider,
+          `${userPrompt}\n${itinerary.title}\n${itinerary.description || ''}`,
+          onUsage
+        );
+        const prompt = [createActivityGenerationPrompt(itinerary, userPrompt), community.prompt].filter(Boolean).join('\n\n');
 
-        return new Response(JSON.stringify({ activity: activityData }), { headers })
+        const activityData = await provider.completeJson({
+          system: "You are a helpful travel planning assistant. Create activities that are specific, actionable, and enhance the travel experience.",
+          prompt,
+          schemaName: "new_activity",
+          schema: getActivityDataSchema()
+        }, onUsage);
+
+        return new Response(JSON.stringify({ activity: activityData, sources: community.sources }), { headers })
       }
       case 'fill-itinerary-data': {
-        const { itinerary } = rest as FillItineraryDataRequest;
+        const { itinerary: requestItinerary } = rest as FillItineraryDataRequest;
+        // Itineraries without an id are drafts that have not been saved yet
+        const itinerary = requestItinerary.id
+          ? { ...(await authorizeItineraryEdit(supabase, requestItinerary.id)), ...requestItinerary }
+          : requestItinerary;
         
         const prompt = `You are helping to fill in missing information for a travel itinerary.
 
@@ -338,28 +382,21 @@ Please provide suggestions to fill in the missing fields. If the title is missin
 
 Only include fields that need to be filled or improved.`;
 
-        const response = await openai.responses.create({
-          model: "gpt-4.1-nano",
-          input: [
-            { role: "system", content: "You are a helpful travel planning assistant." },
-            { role: "user", content: prompt }
-          ],
-          text: {
-            format: {
-              type: "json_schema",
-              name: "itinerary_data_suggestions",
-              strict: false,
-              schema: getItineraryDataSchema(false)
-            }
-          }
-        });
-        
-        const suggestions = JSON.parse(response.output_text || '{}');
+        const suggestions = await provider.completeJson({
+          system: "You are a helpful travel planning assistant.",
+          prompt,
+          schemaName: "itinerary_data_suggestions",
+          schema: getItineraryDataSchema(false)
+        }, onUsage);
 
         return new Response(JSON.stringify({ suggestions }), { headers })
       }
       case 'generate-itinerary-image': {
-        const { itinerary } = rest as GenerateItineraryImageRequest;
+        const { itinerary: requestItinerary } = rest as GenerateItineraryImageRequest;
+        // Itineraries without an id are drafts that have not been saved yet
+        const itinerary = requestItinerary.id
+          ? { ...(await authorizeItineraryEdit(supabase, requestItinerary.id)), ...requestItinerary }
+          : requestItinerary;
         
         // First, get a summary for the image generation
         const summaryPrompt = `Create a concise, visual description for a DALL-E image that represents this travel itinerary:
@@ -370,33 +407,10 @@ Duration: ${itinerary.start_time ? new Date(itinerary.start_time).toLocaleDateSt
 
 Provide a vivid, detailed description that would create an appealing travel cover photo for this itinerary. Focus on the destination's most iconic elements, atmosphere, and experiences.`;
 
-        const summaryResponse = await openai.responses.create({
-          model: "gpt-4.1-nano",
-          input: summaryPrompt
-        });
+        const summary = await provider.completeText(summaryPrompt, onUsage);
         
-        // Generate the image using DALL-E-3
-        const imageResponse = await openai.images.generate({
-          model: 'dall-e-3',
-          prompt: summaryResponse.output_text || '',
-          n: 1,
-          size: '1024x1024',
-          quality: 'hd',
-          style: 'vivid',
-          response_format: 'b64_json'
-        });
-        
-        const b64Json = imageResponse.data?.[0]?.b64_json as string;
-        if (!b64Json) {
-          throw new Error('Failed to generate image data from OpenAI.');
-        }
-        
-        // Convert base64 to buffer
-        const buffer = new Uint8Array(
-          atob(b64Json)
-            .split("")
-            .map(char => char.charCodeAt(0))
-        );
+        // Generate the image from the summary
+        const buffer = await provider.generateImage(summary, onUsage);
         
         // Upload to Supabase storage
         const filePath = `itineraries/${Date.now()}-${Math.random().toString(36).substring(7)}.png`;
@@ -418,7 +432,7 @@ Provide a vivid, detailed description that would create an appealing travel cove
         return new Response(JSON.stringify({ image_url: publicUrl }), { headers })
       }
       case 'create-itinerary-from-prompt': {
-        const { prompt: userPrompt } = rest as CreateItineraryFromPromptRequest;
+        const { prompt: userPrompt, stream } = rest as CreateItineraryFromPromptRequest;
         
         const prompt = `Based on the user's travel request below, create a complete itinerary with title, description, dates, and a suggested list of activities.
 
@@ -431,55 +445,65 @@ IMPORTANT:
 4. Activities should fit within the itinerary's start and end dates
 5. If no dates are mentioned, leave start_time and end_time as null`;
 
-        const response = await openai.responses.create({
-          model: "gpt-4.1-nano",
-          input: [
-            { role: "system", content: "You are an expert travel planner. Create detailed, practical itineraries with well-timed activities." },
-            { role: "user", content: prompt }
-          ],
-          text: {
-            format: {
-              type: "json_schema",
-              name: "new_itinerary",
-              strict: false,
-              schema: getItineraryDataSchema(true)
-            }
-          }
-        });
-        
-        const itineraryData = JSON.parse(response.output_text || '{}');
+        const community = await getCommunityContext(supabase, provider, userPrompt, onUsage);
+
+        const request = {
+          system: "You are an expert travel planner. Create detailed, practical itineraries with well-timed activities.",
+          prompt: [prompt, community.prompt].filter(Boolean).join('\n\n'),
+          schemaName: "new_itinerary",
+          schema: getItineraryDataSchema(true)
+        };
+
+        if (stream) {
+          // Stop generating as soon as the client disconnects or cancels
+          // Usage arrives as the stream ends, after this request has returned
+          const deltas = provider.streamJson(request, req.signal, onUsage);
+          const streamLedger = ledger;
+          return new Response(
+            createItineraryEventStream(deltas, community.sources, async () => { await streamLedger?.flush(); }),
+            { headers: streamHeaders }
+          )
+        }
+
+        const itineraryData = await provider.completeJson(request, onUsage);
+
+        return new Response(JSON.stringify({ itinerary: itineraryData, sources: community.sources }), { headers })
+      }
+      case 'assistant-chat': {
+        const { messages, now, timezone } = rest as AssistantChatRequest;
+
+        const systemPrompt = `You are a trip assistant inside a travel planning app. You help the user review and change their itineraries and activities.
+
+Current date and time: ${now} (user's timezone: ${timezone})
+
+Guidelines:
+1. Use list_itineraries and get_itinerary_activities to look things up instead of asking the user for ids
+2. Resolve relative dates like "Thursday" or "tomorrow" against the itinerary's dates and the current date
+3. Keep an activity's duration when moving it unless the user asks otherwise
+4. Changes only happen once the user confirms them; if a change is declined, do not retry it unless asked
+5. Keep replies short and conversational`;
 
-        return new Response(JSON.stringify({ itinerary: itineraryData }), { headers })
+        const reply = await provider.chatWithTools({
+          system: systemPrompt,
+          messages,
+          tools: ASSISTANT_TOOLS
+        }, onUsage);
+
+        return new Response(JSON.stringify({ reply }), { headers })
       }
       case 'generate-image-caption': {
         const { image } = rest as GenerateImageCaptionRequest;
         
-        const response = await openai.chat.completions.create({
-          model: "gpt-4o",
-          messages: [
-            {
-              role: "user",
-              content: [
-                {
-                  type: "text",
-                  text: "Generate a fun, engaging caption for this photo. Keep it concise (under 100 characters), casual, and suitable for social media. Don't describe the image literally, instead create something witty, emotional, or thought-provoking that complements the photo."
-                },
-                {
-                  type: "image_url",
-                  image_url: {
-                    url: `data:image/jpeg;base64,${image}`
-                  }
-                }
-              ]
-            }
-          ],
-          max_tokens: 150
-        });
-        
-        const caption = response.choices[0]?.message?.content || "Picture perfect moment! ✨";
+        const captionPrompt = "Generate a fun, engaging caption for this photo. Keep it concise (under 100 characters), casual, and suitable for social media. Don't describe the image literally, instead create something witty, emotional, or thought-provoking that complements the photo.";
+        const caption = (await provider.captionImage(captionPrompt, image, onUsage)) || "Picture perfect moment! ✨";
         
         return new Response(JSON.stringify({ caption }), { headers })
       }
+      case 'get-usage': {
+        const usage = await getAIUsageSummary(supabaseAdmin, user.id);
+
+        return new Response(JSON.stringify({ usage }), { headers })
+      }
       default:
         return new Response(JSON.stringify({ error: 'Invalid task type' }), {
           status: 400,
@@ -488,8 +512,18 @@ IMPORTANT:
     }
   } catch (e: any) {
     return new Response(JSON.stringify({ error: e.message }), {
-      status: 500,
+      status: e instanceof ServerAuthError ? e.status : 500,
       headers,
     })
+  } finally {
+    // Record the calls made so far, including those of requests that failed part way
+    await ledger?.flush();
   }
+}
+
+function formatRetryAfter(seconds: number): string {
+  const hours = Math.ceil(seconds / 3600);
+  if (hours > 1) return `${hours} hours`;
+  const minutes = Math.max(1, Math.ceil(seconds / 60));
+  return minutes === 1 ? '1 minute' : `${minutes} minutes`;
 }
\ No newline at end of file
@@ -0,0 +1,67 @@
+import type { PushMessage, PushTicket } from '@/utils/pushGateway';
+
+/**
+ * Stand-in for the Expo push API, for trying the notification dispatcher locally. Run the
+ * dispatcher with `EXPO_PUSH_URL=http://localhost:8081/server/dev/fake-push-gateway`.
+ *
+ * POST takes messages like the Expo push API and answers with tickets. Tokens containing
+ * `Unregistered` get a `DeviceNotRegistered` error, and tokens containing `Unavailable` make the
+ * whole request fail, as when the gateway is down.
+ * GET lists the messages received since the server started; DELETE clears them.
+ */
+
+const receivedMessages: PushMessage[] = [];
+
+function isEnabled(): boolean {
+  return process.env.NODE_ENV !== 'production';
+}
+
+export async function POST(request: Request) {
+  if (!isEnabled()) {
+    return Response.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  let messages: PushMessage[];
+  try {
+    const body = await request.json();
+    messages = Array.isArray(body) ? body : [body];
+  } catch {
+    return Response.json({ errors: [{ code: 'VALIDATION_ERROR', message: 'Invalid JSON' }] }, { status: 400 });
+  }
+
+  if (messages.some(message => message.to?.includes('Unavailable'))) {
+    return Response.json({ errors: [{ code: 'INTERNAL_SERVER_ERROR', message: 'Fake gateway unavailable' }] }, { status: 503 });
+  }
+
+  const tickets: PushTicket[] = messages.map((message, index) => {
+    if (message.to?.includes('Unregistered')) {
+      return {
+        status: 'error',
+        message: `"${message.to}" is not a registered push notification recipient`,
+        details: { error: 'DeviceNotRegistered' },
+      };
+    }
+
+    receivedMessages.push(message);
+    return { status: 'ok', id: `fake-ticket-${Date.now()}-${index}` };
+  });
+
+  return Response.json({ data: tickets });
+}
+
+export async function GET() {
+  if (!isEnabled()) {
+    return Response.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  return Response.json({ messages: receivedMessages });
+}
+
+export async function DELETE() {
+  if (!isEnabled()) {
+    return Response.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  receivedMessages.length = 0;
+  return Response.json({ success: true });
+}
@@ -137,8 +137,7 @@ export async function POST(request: Request) {
       .insert({
         conversation_id: conversationId,
         sender_id: friendId,
-        content: 'Hey!',
-        expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString() // 24 hours
+        content: 'Hey!'
       })
       .select()
       .single();
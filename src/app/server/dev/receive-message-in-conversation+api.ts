@@ -148,7 +148,6 @@ export async function POST(request: Request) {
         conversation_id: conversationId,
         sender_id: sender.user_id,
         content: randomMessage,
-        expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(), // 24 hours
       })
       .select()
       .single();
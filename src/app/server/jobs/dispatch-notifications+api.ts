@@ -0,0 +1,36 @@
+import { dispatchNotifications } from '@/utils/notificationDispatch';
+import { createExpoPushGateway } from '@/utils/pushGateway';
+import { createSupabaseAdminClient, getBearerToken } from '@/utils/serverAuth';
+
+/**
+ * Sends queued push notifications. Point a Supabase database webhook for inserts on
+ * notification_events at it, or call it from a scheduler, with `Authorization: Bearer $CRON_SECRET`;
+ * add `?dryRun=true` to see what would be sent. Set `EXPO_PUSH_URL` to send to another gateway,
+ * e.g. the fake gateway dev route.
+ */
+export async function POST(req: Request) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    console.error('CRON_SECRET is not set, refusing to dispatch notifications');
+    return Response.json({ error: 'Notification dispatch is not configured' }, { status: 503 });
+  }
+
+  if (getBearerToken(req.headers.get('Authorization')) !== cronSecret) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const dryRun = new URL(req.url).searchParams.get('dryRun') === 'true';
+  const gateway = createExpoPushGateway({
+    url: process.env.EXPO_PUSH_URL,
+    accessToken: process.env.EXPO_ACCESS_TOKEN,
+  });
+
+  try {
+    const result = await dispatchNotifications(createSupabaseAdminClient(), gateway, { dryRun });
+    console.log(`${dryRun ? 'Dry run: would send' : 'Sent'} ${result.sent} notifications, skipped ${result.skipped}, ${result.failed} to retry`);
+    return Response.json(result);
+  } catch (error) {
+    console.error('Error dispatching notifications:', error);
+    return Response.json({ error: 'Failed to dispatch notifications' }, { status: 500 });
+  }
+}
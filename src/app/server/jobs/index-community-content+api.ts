@@ -0,0 +1,29 @@
+import { indexPendingContent } from '@/utils/communityContext';
+import { getLLMProvider } from '@/utils/llm';
+import { createSupabaseAdminClient, getBearerToken } from '@/utils/serverAuth';
+
+/**
+ * Embeds shared trips and stories whose text changed, so AI suggestions can retrieve them. Call it
+ * from a scheduler, e.g. every few minutes, with `Authorization: Bearer $CRON_SECRET`; each run
+ * embeds one batch of pending content.
+ */
+export async function POST(req: Request) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    console.error('CRON_SECRET is not set, refusing to index community content');
+    return Response.json({ error: 'Community content indexing is not configured' }, { status: 503 });
+  }
+
+  if (getBearerToken(req.headers.get('Authorization')) !== cronSecret) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const indexed = await indexPendingContent(createSupabaseAdminClient(), getLLMProvider());
+    console.log(`Indexed ${indexed} community content rows`);
+    return Response.json({ indexed });
+  } catch (error) {
+    console.error('Error indexing community content:', error);
+    return Response.json({ error: 'Failed to index community content' }, { status: 500 });
+  }
+}
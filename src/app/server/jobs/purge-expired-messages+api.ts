@@ -0,0 +1,29 @@
+import { purgeExpiredMessages } from '@/utils/messagePurge';
+import { createSupabaseAdminClient, getBearerToken } from '@/utils/serverAuth';
+
+/**
+ * Deletes expired messages and their photos. Call it from a scheduler with
+ * `Authorization: Bearer $CRON_SECRET`; add `?dryRun=true` to see what would be deleted.
+ */
+export async function POST(req: Request) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    console.error('CRON_SECRET is not set, refusing to run the message purge');
+    return Response.json({ error: 'Message purge is not configured' }, { status: 503 });
+  }
+
+  if (getBearerToken(req.headers.get('Authorization')) !== cronSecret) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const dryRun = new URL(req.url).searchParams.get('dryRun') === 'true';
+
+  try {
+    const result = await purgeExpiredMessages(createSupabaseAdminClient(), { dryRun });
+    console.log(`${dryRun ? 'Dry run: would purge' : 'Purged'} ${result.deletedMessages} expired messages and ${result.removedPhotos} photos`);
+    return Response.json(result);
+  } catch (error) {
+    console.error('Error purging expired messages:', error);
+    return Response.json({ error: 'Failed to purge expired messages' }, { status: 500 });
+  }
+}
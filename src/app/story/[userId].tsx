@@ -1,4 +1,5 @@
 import { checkRelationshipStatus, sendFriendRequest } from '@/api/friends';
+import ReportMenu from '@/components/ReportMenu';
 import UserAvatar from '@/components/UserAvatar';
 import { useThemeColors } from '@/hooks/useThemeColors';
 import { useFriendsStore } from '@/stores/friends';
@@ -43,6 +44,7 @@ export default function StoryModal() {
   
   const [currentIndex, setCurrentIndex] = useState(0);
   const [showAbout, setShowAbout] = useState(false);
+  const [showReportMenu, setShowReportMenu] = useState(false);
   const [relationshipStatus, setRelationshipStatus] = useState<{
     isFriend: boolean;
     hasPendingRequest: boolean;
@@ -214,6 +216,16 @@ export default function StoryModal() {
             </View>
           )}
           
+          {/* Report Button - Hide when viewing own story */}
+          {currentUser && userId && currentUser.id !== userId && (
+            <TouchableOpacity
+              onPress={() => setShowReportMenu(true)}
+              className="absolute top-12 right-16 bg-black/50 rounded-full p-2"
+            >
+              <FontAwesome name="flag" size={24} color="white" />
+            </TouchableOpacity>
+          )}
+          
           {/* Close Button */}
           <TouchableOpacity
             onPress={() => router.back()}
@@ -221,6 +233,18 @@ export default function StoryModal() {
           >
             <FontAwesome name="times" size={24} color="white" />
           </TouchableOpacity>
+          
+          {currentUser && userId && currentUser.id !== userId && (
+            <ReportMenu
+              visible={showReportMenu}
+              currentUserId={currentUser.id}
+              reportedUserId={userId}
+              reportedUserName={displayName}
+              storyContentId={currentStory.story_contents[currentIndex]?.id}
+              onClose={() => setShowReportMenu(false)}
+              onBlocked={() => router.back()}
+            />
+          )}
         </View>
       </PanGestureHandler>
     </GestureHandlerRootView>
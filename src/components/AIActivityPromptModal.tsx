@@ -16,6 +16,8 @@ import { createActivityFromPrompt, generateActivityImageWithAI } from '@/api/ai'
 import { createActivity } from '@/api/activities';
 import type { Itinerary } from '@/api/itineraries';
 import type { CreateActivityData } from '@/api/activities';
+import { alertAIError } from '@/utils/aiErrors';
+import { describeCommunitySources } from '@/utils/communityContext';
 
 interface AIActivityPromptModalProps {
   visible: boolean;
@@ -88,9 +90,14 @@ export function AIActivityPromptModal({
       
       // Refresh the activities list
       onActivityCreated();
+
+      const citation = describeCommunitySources(activityData.sources);
+      if (citation) {
+        Alert.alert('Activity Added', `"${createdActivity.title}" was added. ${citation}.`);
+      }
     } catch (error) {
       console.error('Error creating activity from prompt:', error);
-      Alert.alert('Error', 'Failed to create activity. Please try again.');
+      alertAIError(error, 'Failed to create activity. Please try again.');
     } finally {
       setIsLoading(false);
     }
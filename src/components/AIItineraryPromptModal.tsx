@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import {
   Modal,
   View,
@@ -9,15 +9,33 @@ import {
   KeyboardAvoidingView,
   Platform,
   Alert,
+  ScrollView,
 } from 'react-native';
 import { useThemeColors } from '@/hooks/useThemeColors';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { createItineraryFromPrompt, generateItineraryImageWithAI } from '@/api/ai';
+import {
+  AIRequestCancelledError,
+  generateItineraryImageWithAI,
+  streamItineraryFromPrompt,
+  type GeneratedActivity,
+  type ItineraryDataWithActivities,
+} from '@/api/ai';
+import type { CommunitySources } from '@/types/retrieval';
+import { alertAIError } from '@/utils/aiErrors';
+import { describeCommunitySources } from '@/utils/communityContext';
+import { formatDateRange } from '@/utils/dateHelpers';
 import { createItinerary } from '@/api/itineraries';
 import { createActivity } from '@/api/activities';
 import type { CreateItineraryData } from '@/api/itineraries';
 import type { CreateActivityData } from '@/api/activities';
 import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+
+interface ItineraryPreview {
+  fields: Partial<Omit<ItineraryDataWithActivities, 'activities'>>;
+  activities: GeneratedActivity[];
+  sources?: CommunitySources;
+}
 
 interface AIItineraryPromptModalProps {
   visible: boolean;
@@ -35,6 +53,10 @@ export function AIItineraryPromptModal({
   const router = useRouter();
   const [prompt, setPrompt] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [preview, setPreview] = useState<ItineraryPreview | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  // Set while the itinerary is still being generated and can be cancelled
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   const handleSubmit = async () => {
     if (!prompt.trim()) {
@@ -42,11 +64,32 @@ export function AIItineraryPromptModal({
       return;
     }
 
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
     try {
       setIsLoading(true);
+      setIsGenerating(true);
+      setPreview({ fields: {}, activities: [] });
 
-      // Generate itinerary data from prompt
-      const itineraryData = await createItineraryFromPrompt(prompt.trim());
+      // Generate itinerary data from prompt, showing each part as it arrives
+      const itineraryData = await streamItineraryFromPrompt(
+        prompt.trim(),
+        {
+          onItinerary: (fields) => {
+            setPreview((current) => current && { ...current, fields: { ...current.fields, ...fields } });
+          },
+          onActivity: (activity) => {
+            setPreview((current) => current && { ...current, activities: [...current.activities, activity] });
+          },
+          onSources: (sources) => {
+            setPreview((current) => current && { ...current, sources });
+          },
+        },
+        abortController.signal
+      );
+      abortControllerRef.current = null;
+      setIsGenerating(false);
 
       // Validate dates if provided
       let validStartTime: string | undefined;
@@ -157,6 +200,7 @@ export function AIItineraryPromptModal({
 
       // Clear form and close modal
       setPrompt('');
+      setPreview(null);
       onClose();
       
       // Notify parent if callback provided
@@ -167,18 +211,29 @@ export function AIItineraryPromptModal({
       // Navigate to the new itinerary
       router.push(`/itineraries/${createdItinerary.id}`);
     } catch (error) {
+      setPreview(null);
+      // Cancelled by the user, who stays on the prompt to adjust it
+      if (error instanceof AIRequestCancelledError) return;
       console.error('Error creating itinerary from prompt:', error);
-      Alert.alert('Error', 'Failed to create itinerary. Please try again.');
+      alertAIError(error, 'Failed to create itinerary. Please try again.');
     } finally {
+      abortControllerRef.current = null;
+      setIsGenerating(false);
       setIsLoading(false);
     }
   };
 
   const handleCancel = () => {
+    // While generating, cancel stops generation without closing
+    if (abortControllerRef.current) {
+      abortControllerRef.current.abort();
+      return;
+    }
     setPrompt('');
     onClose();
   };
 
+
   return (
     <Modal
       visible={visible}
@@ -194,7 +249,7 @@ export function AIItineraryPromptModal({
         {/* Header */}
         <View className="px-4 py-3 border-b border-border">
           <View className="flex-row items-center justify-between">
-            <TouchableOpacity onPress={handleCancel} disabled={isLoading}>
+            <TouchableOpacity onPress={handleCancel} disabled={isLoading && !isGenerating}>
               <Text className="text-muted-foreground text-base">Cancel</Text>
             </TouchableOpacity>
             <Text className="text-lg font-semibold text-foreground">
@@ -237,9 +292,53 @@ export function AIItineraryPromptModal({
             editable={!isLoading}
           />
           
-          <Text className="text-muted-foreground text-sm mt-2">
-            Include dates, destinations, and the types of activities you enjoy. AI will create a complete itinerary with a daily schedule.
-          </Text>
+          {preview ? (
+            <ScrollView className="flex-1 mt-4" contentContainerStyle={{ paddingBottom: 24 }}>
+              <Text className="text-xl font-bold text-foreground">
+                {preview.fields.title || 'Planning your trip...'}
+              </Text>
+              {preview.fields.description && (
+                <Text className="text-muted-foreground mt-1">{preview.fields.description}</Text>
+              )}
+              {(preview.fields.start_time || preview.fields.end_time) && (
+                <Text className="text-sm text-muted-foreground mt-1">
+                  {formatDateRange(preview.fields.start_time, preview.fields.end_time)}
+                </Text>
+              )}
+              {describeCommunitySources(preview.sources) && (
+                <View className="flex-row items-center mt-2">
+                  <Ionicons name="people-outline" size={14} color={colors.mutedForeground} />
+                  <Text className="text-xs text-muted-foreground ml-1">
+                    {describeCommunitySources(preview.sources)}
+                  </Text>
+                </View>
+              )}
+
+              {preview.activities.map((activity, index) => (
+                <View key={index} className="bg-card rounded-lg p-3 mt-3">
+                  <Text className="text-base font-semibold text-foreground" numberOfLines={1}>
+                    {activity.title}
+                  </Text>
+                  {activity.location && (
+                    <Text className="text-sm text-muted-foreground" numberOfLines={1}>
+                      {activity.location}
+                    </Text>
+                  )}
+                </View>
+              ))}
+
+              <View className="flex-row items-center mt-4">
+                <ActivityIndicator size="small" color={colors.mutedForeground} />
+                <Text className="text-sm text-muted-foreground ml-2">
+                  {isGenerating ? 'Generating activities...' : 'Saving your itinerary...'}
+                </Text>
+              </View>
+            </ScrollView>
+          ) : (
+            <Text className="text-muted-foreground text-sm mt-2">
+              Include dates, destinations, and the types of activities you enjoy. AI will create a complete itinerary with a daily schedule.
+            </Text>
+          )}
         </View>
       </KeyboardAvoidingView>
     </Modal>
@@ -0,0 +1,101 @@
+/**
+ * @file AI usage panel for the account screen
+ * Shows how much of each daily AI quota the user has used and their estimated cost
+ */
+
+import { getAIUsageSummary } from '@/api/ai';
+import { useThemeColors } from '@/hooks/useThemeColors';
+import type { AIRequestType, AIUsageSummary } from '@/types/aiUsage';
+import { FontAwesome } from '@expo/vector-icons';
+import React, { useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator, Text, TouchableOpacity, View } from 'react-native';
+
+const REQUEST_TYPE_LABELS: Record<AIRequestType, string> = {
+  'create-itinerary-from-prompt': 'Trip plans',
+  'create-activity-from-prompt': 'New activities',
+  'fill-itinerary-data': 'Itinerary suggestions',
+  'fill-activity-data': 'Activity suggestions',
+  'generate-itinerary-image': 'Itinerary images',
+  'generate-activity-image': 'Activity images',
+  'generate-image-caption': 'Photo captions',
+  'assistant-chat': 'Trip assistant',
+};
+
+/**
+ * Formats the time until the quotas reset, e.g. "5h 20m"
+ */
+function formatTimeUntil(isoTime: string): string {
+  const minutes = Math.max(0, Math.round((new Date(isoTime).getTime() - Date.now()) / 60000));
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+}
+
+export function AIUsagePanel() {
+  const colors = useThemeColors();
+  const [summary, setSummary] = useState<AIUsageSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSummary = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setSummary(await getAIUsageSummary());
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load AI usage');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSummary();
+  }, [loadSummary]);
+
+  return (
+    <View>
+      <View className="flex-row items-center justify-between mb-2">
+        <Text className="text-xs font-medium text-muted-foreground uppercase tracking-wider">AI Usage Today</Text>
+        <TouchableOpacity onPress={loadSummary} disabled={isLoading} hitSlop={8}>
+          <FontAwesome name="refresh" size={14} color={colors.mutedForeground} />
+        </TouchableOpacity>
+      </View>
+
+      <View className="bg-card border border-border rounded-xl px-4 py-3">
+        {isLoading && !summary ? (
+          <ActivityIndicator size="small" color={colors.mutedForeground} />
+        ) : error && !summary ? (
+          <Text className="text-sm text-muted-foreground">{error}</Text>
+        ) : summary ? (
+          <>
+            {summary.today.map((entry) => {
+              const ratio = entry.limit > 0 ? Math.min(1, entry.used / entry.limit) : 1;
+              const isExhausted = entry.used >= entry.limit;
+
+              return (
+                <View key={entry.type} className="py-1.5">
+                  <View className="flex-row justify-between mb-1">
+                    <Text className="text-sm text-foreground">{REQUEST_TYPE_LABELS[entry.type]}</Text>
+                    <Text className={`text-sm ${isExhausted ? 'text-destructive font-medium' : 'text-muted-foreground'}`}>
+                      {entry.used} / {entry.limit}
+                    </Text>
+                  </View>
+                  <View className="h-1.5 bg-muted rounded-full overflow-hidden">
+                    <View
+                      className={`h-full rounded-full ${isExhausted ? 'bg-destructive' : 'bg-primary'}`}
+                      style={{ width: `${ratio * 100}%` }}
+                    />
+                  </View>
+                </View>
+              );
+            })}
+
+            <Text className="text-xs text-muted-foreground mt-2">
+              Resets in {formatTimeUntil(summary.resetsAt)} · about ${summary.monthCostUsd.toFixed(2)} in the last 30 days
+            </Text>
+          </>
+        ) : null}
+      </View>
+    </View>
+  );
+}
@@ -4,7 +4,10 @@
  */
 
 import { useThemeColors } from '@/hooks/useThemeColors';
+import { useFriendsStore } from '@/stores/friends';
+import { useNotificationsStore } from '@/stores/notifications';
 import { useProfileStore } from '@/stores/profile';
+import type { NotificationCategory } from '@/types/notifications';
 import { uploadPhoto } from '@/utils/photoStorage';
 import { supabase } from '@/utils/supabase';
 import { FontAwesome } from '@expo/vector-icons';
@@ -14,16 +17,27 @@ import React, { useEffect, useState } from 'react';
 import {
   ActivityIndicator,
   Alert,
+  Switch,
   Text,
   TextInput,
   TouchableOpacity,
   View,
 } from 'react-native';
 import { KeyboardAwareScrollView } from 'react-native-keyboard-aware-scroll-view';
+import { AIUsagePanel } from './AIUsagePanel';
 import { CompactThemeSelector } from './CompactThemeSelector';
 import Spacer from './Spacer';
 import UserAvatar from './UserAvatar';
 
+/**
+ * Push notification toggles shown on the account screen
+ */
+const NOTIFICATION_OPTIONS: { category: NotificationCategory; title: string; description: string }[] = [
+  { category: 'message', title: 'Messages', description: 'New messages, except in chats you have muted' },
+  { category: 'friend_request', title: 'Friend Requests', description: 'When someone wants to be your friend' },
+  { category: 'trip_invite', title: 'Trip Updates', description: 'When you are invited to an itinerary' },
+];
+
 export default function Account({ session }: { session: Session }) {
   const colors = useThemeColors();
   
@@ -34,6 +48,8 @@ export default function Account({ session }: { session: Session }) {
   const about = useProfileStore((state) => state.about);
   const error = useProfileStore((state) => state.error);
   const avatarUrl = useProfileStore((state) => state.avatarUrl);
+  const readReceiptsEnabled = useProfileStore((state) => state.readReceiptsEnabled);
+  const notificationPreferences = useProfileStore((state) => state.notificationPreferences);
 
   // Profile store actions
   const fetchProfile = useProfileStore((state) => state.fetchProfile);
@@ -42,8 +58,15 @@ export default function Account({ session }: { session: Session }) {
   const setFullName = useProfileStore((state) => state.setFullName);
   const setAbout = useProfileStore((state) => state.setAbout);
   const setAvatarUrl = useProfileStore((state) => state.setAvatarUrl);
+  const setReadReceiptsEnabled = useProfileStore((state) => state.setReadReceiptsEnabled);
+  const setNotificationPreference = useProfileStore((state) => state.setNotificationPreference);
   const clearError = useProfileStore((state) => state.clearError);
 
+  // Blocked users
+  const blockedUsers = useFriendsStore((state) => state.blockedUsers);
+  const fetchBlockedUsers = useFriendsStore((state) => state.fetchBlockedUsers);
+  const unblockUser = useFriendsStore((state) => state.unblockUser);
+
   // Local state for avatar upload
   const [isUploading, setIsUploading] = useState(false);
   const [displayAvatarUrl, setDisplayAvatarUrl] = useState<string | null>(null);
@@ -54,6 +77,12 @@ export default function Account({ session }: { session: Session }) {
     }
   }, [session, fetchProfile]);
 
+  useEffect(() => {
+    if (session) {
+      fetchBlockedUsers(session.user.id);
+    }
+  }, [session, fetchBlockedUsers]);
+
   useEffect(() => {
     if (!avatarUrl) {
       setDisplayAvatarUrl(null);
@@ -148,6 +177,8 @@ export default function Account({ session }: { session: Session }) {
    */
   const handleSignOut = async () => {
     try {
+      // Stop this device getting the user's notifications while they can still remove its token
+      await useNotificationsStore.getState().unregisterDevice();
       await supabase.auth.signOut();
       // The auth state change will be handled by the main App component
       // which will automatically redirect to the Auth screen
@@ -157,6 +188,16 @@ export default function Account({ session }: { session: Session }) {
     }
   };
 
+  /**
+   * Unblocks a user so they can find and message the current user again
+   */
+  const handleUnblock = async (userId: string) => {
+    const result = await unblockUser(session.user.id, userId);
+    if (!result.success) {
+      Alert.alert('Unblock Failed', result.error || 'Failed to unblock user. Please try again.');
+    }
+  };
+
   /**
    * Renders the clickable avatar with upload functionality
    */
@@ -257,8 +298,85 @@ export default function Account({ session }: { session: Session }) {
               />
             </View>
 
+            {/* Read Receipts Toggle */}
+            <View>
+              <Text className="text-xs font-medium text-muted-foreground uppercase tracking-wider mb-2">Privacy</Text>
+              <View className="flex-row items-center border border-border rounded-xl px-4 py-3 bg-card">
+                <View className="flex-1 mr-3">
+                  <Text className="text-foreground text-base">Read Receipts</Text>
+                  <Text className="text-muted-foreground text-sm">
+                    Let others see when you have read their messages
+                  </Text>
+                </View>
+                <Switch
+                  value={readReceiptsEnabled}
+                  onValueChange={setReadReceiptsEnabled}
+                  trackColor={{ false: colors.muted, true: colors.primary }}
+                />
+              </View>
+            </View>
+
+            {/* Notification Toggles */}
+            <View>
+              <Text className="text-xs font-medium text-muted-foreground uppercase tracking-wider mb-2">Notifications</Text>
+              <View className="border border-border rounded-xl bg-card">
+                {NOTIFICATION_OPTIONS.map((option, index) => (
+                  <View
+                    key={option.category}
+                    className={`flex-row items-center px-4 py-3 ${index > 0 ? 'border-t border-border' : ''}`}
+                  >
+                    <View className="flex-1 mr-3">
+                      <Text className="text-foreground text-base">{option.title}</Text>
+                      <Text className="text-muted-foreground text-sm">{option.description}</Text>
+                    </View>
+                    <Switch
+                      value={notificationPreferences[option.category]}
+                      onValueChange={(enabled) => setNotificationPreference(option.category, enabled)}
+                      trackColor={{ false: colors.muted, true: colors.primary }}
+                    />
+                  </View>
+                ))}
+              </View>
+            </View>
+
+            {/* Blocked Users */}
+            {blockedUsers.length > 0 && (
+              <View>
+                <Text className="text-xs font-medium text-muted-foreground uppercase tracking-wider mb-2">Blocked Users</Text>
+                <View className="border border-border rounded-xl bg-card">
+                  {blockedUsers.map((blockedUser, index) => (
+                    <View
+                      key={blockedUser.userId}
+                      className={`flex-row items-center px-4 py-3 ${index > 0 ? 'border-t border-border' : ''}`}
+                    >
+                      <UserAvatar uri={blockedUser.user.avatarUrl} size={36} />
+                      <View className="flex-1 mx-3">
+                        <Text className="text-foreground text-base" numberOfLines={1}>
+                          {blockedUser.user.fullName || blockedUser.user.username || 'User'}
+                        </Text>
+                        {blockedUser.user.username && (
+                          <Text className="text-muted-foreground text-sm" numberOfLines={1}>
+                            @{blockedUser.user.username}
+                          </Text>
+                        )}
+                      </View>
+                      <TouchableOpacity
+                        onPress={() => handleUnblock(blockedUser.userId)}
+                        className="border border-border rounded-lg px-3 py-2 active:opacity-90"
+                      >
+                        <Text className="text-foreground text-sm font-semibold">Unblock</Text>
+                      </TouchableOpacity>
+                    </View>
+                  ))}
+                </View>
+              </View>
+            )}
+
             {/* Theme Selector */}
             <CompactThemeSelector />
+
+            {/* AI Usage */}
+            <AIUsagePanel />
           </View>
 
           {/* Action Buttons with better styling */}
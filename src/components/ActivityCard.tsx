@@ -3,14 +3,22 @@ import { View, Text, TouchableOpacity, Image } from 'react-native';
 import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons';
 import { useThemeColors } from '@/hooks/useThemeColors';
 import { formatTimeRange } from '@/utils/dateHelpers';
+import type { ScheduleConflict, ScheduleConflictType } from '@/utils/scheduleConflicts';
 import type { Activity } from '@/api/activities';
 
+const CONFLICT_ICONS: Record<ScheduleConflictType, keyof typeof Ionicons.glyphMap> = {
+  overlap: 'git-merge-outline',
+  out_of_range: 'calendar-outline',
+  impossible_transition: 'car-outline',
+};
+
 interface ActivityCardProps {
   activity: Activity;
   onPress: (activity: Activity) => void;
+  conflicts?: ScheduleConflict[];
 }
 
-export function ActivityCard({ activity, onPress }: ActivityCardProps) {
+export function ActivityCard({ activity, onPress, conflicts = [] }: ActivityCardProps) {
   const colors = useThemeColors();
   const [imageError, setImageError] = useState(false);
 
@@ -84,6 +92,23 @@ export function ActivityCard({ activity, onPress }: ActivityCardProps) {
             </View>
           )}
 
+          {/* Scheduling Conflicts */}
+          {conflicts.length > 0 && (
+            <View className="flex-row flex-wrap mb-1">
+              {conflicts.map((conflict, index) => (
+                <View
+                  key={`${conflict.type}-${conflict.relatedActivityId ?? index}`}
+                  className="flex-row items-center border border-destructive px-2 py-0.5 rounded-full mr-2 mb-1"
+                >
+                  <Ionicons name={CONFLICT_ICONS[conflict.type]} size={12} color={colors.destructive} />
+                  <Text className="text-xs text-destructive ml-1" numberOfLines={1}>
+                    {conflict.message}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          )}
+
           {/* Description Preview */}
           {activity.description && (
             <Text className="text-sm text-muted-foreground mb-2" numberOfLines={2}>
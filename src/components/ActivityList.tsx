@@ -1,27 +1,56 @@
-import React from 'react';
-import { View, Text, SectionList, SectionListData } from 'react-native';
+import React, { useMemo } from 'react';
+import { View, Text, SectionList, SectionListData, TouchableOpacity } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useThemeColors } from '@/hooks/useThemeColors';
 import { ActivityCard } from './ActivityCard';
 import { groupActivitiesByDay, getDayLabel, calculateDayNumber } from '@/utils/dateHelpers';
+import { analyzeScheduleConflicts } from '@/utils/scheduleConflicts';
+import { getTravelLegs, type TravelLeg } from '@/utils/dayPlanner';
 import type { Activity } from '@/api/activities';
 
 interface ActivityListProps {
   activities: Activity[];
   onActivityPress: (activity: Activity) => void;
   itineraryStartDate?: string | null;
+  itineraryEndDate?: string | null;
   refreshing?: boolean;
   onRefresh?: () => void;
+  /** Called with a day key (YYYY-MM-DD) when auto-fix is requested for a day with conflicts */
+  onAutoFixDay?: (dateKey: string) => void;
+  /** Called with a day key (YYYY-MM-DD) when route optimization is requested for a day */
+  onOptimizeDay?: (dateKey: string) => void;
 }
 
 interface GroupedActivity {
   title: string;
   data: Activity[];
+  dateKey?: string;
+  /** Travel legs keyed by the id of the activity they lead to */
+  travelLegs?: Record<string, TravelLeg>;
 }
 
-export function ActivityList({ activities, onActivityPress, itineraryStartDate, refreshing = false, onRefresh }: ActivityListProps) {
+/**
+ * Minimum number of activities with coordinates before a day's route can be optimized
+ */
+const MIN_OPTIMIZABLE_STOPS = 3;
+
+export function ActivityList({
+  activities,
+  onActivityPress,
+  itineraryStartDate,
+  itineraryEndDate,
+  refreshing = false,
+  onRefresh,
+  onAutoFixDay,
+  onOptimizeDay
+}: ActivityListProps) {
   const colors = useThemeColors();
 
+  const scheduleAnalysis = useMemo(
+    () => analyzeScheduleConflicts(activities, { start_time: itineraryStartDate, end_time: itineraryEndDate }),
+    [activities, itineraryStartDate, itineraryEndDate]
+  );
+
   const getGroupedActivities = (): GroupedActivity[] => {
     // Separate scheduled and unscheduled activities
     const scheduledActivities = activities.filter(a => a.start_time);
@@ -43,9 +72,16 @@ export function ActivityList({ activities, onActivityPress, itineraryStartDate,
       
       const title = getDayLabel(dateKey, dayNumber);
       
+      const travelLegs: Record<string, TravelLeg> = {};
+      getTravelLegs(grouped[dateKey]).forEach((leg) => {
+        travelLegs[leg.toActivityId] = leg;
+      });
+
       sections.push({
         title,
-        data: grouped[dateKey]
+        data: grouped[dateKey],
+        dateKey,
+        travelLegs
       });
     });
 
@@ -61,16 +97,63 @@ export function ActivityList({ activities, onActivityPress, itineraryStartDate,
   };
 
   const renderSectionHeader = ({ section }: { section: SectionListData<Activity, GroupedActivity> }) => (
-    <View className="bg-background px-4 py-2">
-      <Text className="text-lg font-semibold text-foreground">
+    <View className="bg-background px-4 py-2 flex-row items-center justify-between">
+      <Text className="text-lg font-semibold text-foreground flex-1" numberOfLines={1}>
         {section.title}
       </Text>
+      {section.dateKey && onOptimizeDay &&
+        section.data.filter((activity) => activity.gps_coords).length >= MIN_OPTIMIZABLE_STOPS && (
+        <TouchableOpacity
+          onPress={() => onOptimizeDay(section.dateKey!)}
+          className="p-1 mr-2"
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        >
+          <Ionicons name="git-branch-outline" size={18} color={colors.mutedForeground} />
+        </TouchableOpacity>
+      )}
+      {section.dateKey && scheduleAnalysis.conflictedDays.has(section.dateKey) && (
+        onAutoFixDay ? (
+          <TouchableOpacity
+            onPress={() => onAutoFixDay(section.dateKey!)}
+            className="flex-row items-center border border-destructive px-3 py-1 rounded-full"
+          >
+            <Ionicons name="construct-outline" size={14} color={colors.destructive} />
+            <Text className="text-xs font-semibold text-destructive ml-1">Auto-fix</Text>
+          </TouchableOpacity>
+        ) : (
+          <Ionicons name="warning-outline" size={18} color={colors.destructive} />
+        )
+      )}
     </View>
   );
 
-  const renderActivity = ({ item }: { item: Activity }) => (
+  const renderTravelLeg = (leg: TravelLeg) => {
+    const isTooTight = leg.gapMinutes !== null && leg.gapMinutes < leg.minutes;
+    const color = isTooTight ? colors.destructive : colors.mutedForeground;
+    const distance = leg.distanceKm < 1
+      ? `${Math.round(leg.distanceKm * 1000)} m`
+      : `${leg.distanceKm.toFixed(1)} km`;
+
+    return (
+      <View className="flex-row items-center ml-6 mb-3">
+        <View className="h-4 border-l border-dashed border-border mr-3" />
+        <Ionicons name={leg.mode === 'walk' ? 'walk-outline' : 'bus-outline'} size={14} color={color} />
+        <Text className={`text-xs ml-1 ${isTooTight ? 'text-destructive' : 'text-muted-foreground'}`}>
+          {leg.minutes} min {leg.mode === 'walk' ? 'walk' : 'by transit'} · {distance}
+          {leg.gapMinutes !== null && leg.gapMinutes > 0 ? ` · ${leg.gapMinutes} min gap` : ''}
+        </Text>
+      </View>
+    );
+  };
+
+  const renderActivity = ({ item, section }: { item: Activity; section: SectionListData<Activity, GroupedActivity> }) => (
     <View className="px-4">
-      <ActivityCard activity={item} onPress={onActivityPress} />
+      {section.travelLegs?.[item.id] && renderTravelLeg(section.travelLegs[item.id])}
+      <ActivityCard
+        activity={item}
+        onPress={onActivityPress}
+        conflicts={scheduleAnalysis.byActivity[item.id]}
+      />
     </View>
   );
 
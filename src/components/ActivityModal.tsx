@@ -4,6 +4,7 @@ import { fillActivityDataWithAI, generateActivityImageWithAI } from '@/api/ai';
 import { getItinerary } from '@/api/itineraries';
 import { useThemeColors } from '@/hooks/useThemeColors';
 import { useActivitiesStore } from '@/stores/activitiesStore';
+import { alertAIError, findQuotaError } from '@/utils/aiErrors';
 import { deletePhoto, uploadPhoto } from '@/utils/photoStorage';
 import { supabase } from '@/utils/supabase';
 import { Ionicons } from '@expo/vector-icons';
@@ -280,6 +281,7 @@ export function ActivityModal({ visible, onClose, activity, itineraryId, onSave
 
       // Prepare current activity data
       const currentActivity: Partial<Activity> = {
+        id: activity?.id,
         title: title.trim() || undefined,
         description: description.trim() || undefined,
         location: location.trim() || undefined,
@@ -346,7 +348,10 @@ export function ActivityModal({ visible, onClose, activity, itineraryId, onSave
       const dataSuccess = needsDataFill && results[0]?.status === 'fulfilled';
       const imageSuccess = needsImage && results[imageResultIndex]?.status === 'fulfilled';
       
-      if (!dataSuccess && !imageSuccess) {
+      const quotaError = findQuotaError(results);
+      if (quotaError) {
+        alertAIError(quotaError, 'Failed to get AI suggestions. Please try again.');
+      } else if (!dataSuccess && !imageSuccess) {
         Alert.alert('Error', 'Failed to get AI suggestions. Please try again.');
       }
     } catch (error) {
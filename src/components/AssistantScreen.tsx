@@ -0,0 +1,355 @@
+/**
+ * @file AssistantScreen component for the AI trip assistant conversation
+ * Shows the persistent conversation with the assistant, asks the user to confirm each change it
+ * proposes to their itineraries, and lets them send new requests
+ */
+
+import { useThemeColors } from '@/hooks/useThemeColors';
+import { useAssistantStore } from '@/stores/assistant';
+import type { AssistantActionStatus, AssistantMessage } from '@/types/assistant';
+import { FontAwesome } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  KeyboardAvoidingView,
+  Platform,
+  SafeAreaView,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+
+/**
+ * Example requests shown when the conversation is empty
+ */
+const SUGGESTIONS = [
+  'What do I have planned next?',
+  'Move my museum visit to Thursday afternoon',
+  'Add a dinner reservation on the last night',
+];
+
+const MAX_CONTENT_LENGTH = 2000;
+
+const STATUS_LABELS: Record<Exclude<AssistantActionStatus, 'pending'>, { label: string; icon: 'check' | 'times' | 'exclamation-triangle' }> = {
+  applied: { label: 'Applied', icon: 'check' },
+  declined: { label: 'Cancelled', icon: 'times' },
+  failed: { label: 'Could not apply', icon: 'exclamation-triangle' },
+};
+
+/**
+ * Full-screen conversation with the AI trip assistant
+ *
+ * @returns JSX element for the assistant screen
+ */
+export default function AssistantScreen() {
+  const colors = useThemeColors();
+  const flatListRef = useRef<FlatList>(null);
+  const [text, setText] = useState('');
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  const {
+    messages,
+    isLoading,
+    isThinking,
+    error,
+    fetchMessages,
+    sendMessage,
+    confirmAction,
+    declineAction,
+    clearConversation,
+    clearError,
+  } = useAssistantStore();
+
+  useEffect(() => {
+    fetchMessages();
+  }, [fetchMessages]);
+
+  /**
+   * Messages worth showing: user text, assistant text and proposed changes.
+   * Tool results and tool-call-only turns are part of the history but not the transcript.
+   */
+  const visibleMessages = useMemo(
+    () => messages
+      .filter(message => (message.role === 'tool' ? !!message.action : !!message.content))
+      .reverse(),
+    [messages]
+  );
+
+  const handleSend = async (content = text) => {
+    if (!content.trim() || content.length > MAX_CONTENT_LENGTH) return;
+    setText('');
+    await sendMessage(content);
+    flatListRef.current?.scrollToOffset({ offset: 0, animated: true });
+  };
+
+  const handleResolve = async (messageId: string, confirmed: boolean) => {
+    setResolvingId(messageId);
+    try {
+      await (confirmed ? confirmAction(messageId) : declineAction(messageId));
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  const handleClear = () => {
+    Alert.alert(
+      'Clear Conversation',
+      'This removes your whole conversation with the assistant. Changes it already made to your trips are kept.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Clear', style: 'destructive', onPress: () => clearConversation() },
+      ]
+    );
+  };
+
+  /**
+   * Renders a proposed change with its field changes and confirmation buttons
+   */
+  const renderAction = (message: AssistantMessage) => {
+    const action = message.action!;
+    const isPending = message.actionStatus === 'pending';
+    const status = message.actionStatus && message.actionStatus !== 'pending' ? STATUS_LABELS[message.actionStatus] : null;
+
+    return (
+      <View className="mb-4 rounded-2xl p-4" style={{ backgroundColor: colors.card, borderColor: colors.border, borderWidth: 1 }}>
+        <View className="flex-row items-center mb-2">
+          <FontAwesome name="pencil" size={14} color={colors.primary} />
+          <Text className="font-semibold ml-2 flex-1" style={{ color: colors.foreground }}>
+            {action.summary}
+          </Text>
+        </View>
+
+        {action.tool === 'delete_activity' ? (
+          <Text className="text-sm" style={{ color: colors.mutedForeground }}>
+            This activity will be removed from the itinerary.
+          </Text>
+        ) : (
+          action.changes.map(change => (
+            <View key={change.label} className="mb-1">
+              <Text className="text-xs" style={{ color: colors.mutedForeground }}>{change.label}</Text>
+              <Text className="text-sm" style={{ color: colors.foreground }}>
+                {change.from && (
+                  <Text style={{ color: colors.mutedForeground, textDecorationLine: 'line-through' }}>
+                    {change.from}
+                  </Text>
+                )}
+                {change.from && ' → '}
+                {change.to ?? 'None'}
+              </Text>
+            </View>
+          ))
+        )}
+
+        {isPending ? (
+          <View className="flex-row justify-end mt-3">
+            {resolvingId === message.id ? (
+              <ActivityIndicator size="small" color={colors.primary} />
+            ) : (
+              <>
+                <TouchableOpacity
+                  onPress={() => handleResolve(message.id, false)}
+                  disabled={isThinking}
+                  className="px-4 py-2 rounded-full mr-2"
+                  style={{ backgroundColor: colors.secondary }}
+                >
+                  <Text className="font-semibold" style={{ color: colors.foreground }}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={() => handleResolve(message.id, true)}
+                  disabled={isThinking}
+                  className="px-4 py-2 rounded-full"
+                  style={{ backgroundColor: colors.primary }}
+                >
+                  <Text className="font-semibold" style={{ color: colors.primaryForeground }}>Confirm</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        ) : status && (
+          <View className="flex-row items-center mt-3">
+            <FontAwesome
+              name={status.icon}
+              size={12}
+              color={message.actionStatus === 'failed' ? colors.destructive : colors.mutedForeground}
+            />
+            <Text className="text-xs ml-2" style={{ color: colors.mutedForeground }}>{status.label}</Text>
+            {message.actionStatus === 'applied' && (
+              <TouchableOpacity onPress={() => router.push(`/itineraries/${action.itineraryId}`)} className="ml-auto">
+                <Text className="text-xs font-semibold" style={{ color: colors.primary }}>View trip</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  const renderMessage = ({ item: message }: { item: AssistantMessage }) => {
+    if (message.role === 'tool') return renderAction(message);
+
+    const isUser = message.role === 'user';
+    return (
+      <View className={`flex-row mb-4 ${isUser ? 'justify-end' : 'justify-start'}`}>
+        <View
+          className={`max-w-[80%] px-4 py-3 rounded-2xl ${isUser ? 'rounded-br-md' : 'rounded-bl-md'}`}
+          style={{ backgroundColor: isUser ? colors.primary : colors.secondary }}
+        >
+          <Text className="text-base" style={{ color: isUser ? colors.primaryForeground : colors.foreground }}>
+            {message.content}
+          </Text>
+        </View>
+      </View>
+    );
+  };
+
+  const renderEmptyState = () => {
+    if (isLoading) {
+      return (
+        <View className="flex-1 items-center justify-center">
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      );
+    }
+
+    return (
+      <View className="flex-1 items-center justify-center px-6">
+        <FontAwesome name="magic" size={56} color={colors.muted} />
+        <Text className="text-xl font-semibold mt-4 text-center" style={{ color: colors.foreground }}>
+          Ask about your trips
+        </Text>
+        <Text className="mt-2 mb-6 text-center" style={{ color: colors.mutedForeground }}>
+          The assistant can look up and change your itineraries. You confirm every change first.
+        </Text>
+        {SUGGESTIONS.map(suggestion => (
+          <TouchableOpacity
+            key={suggestion}
+            onPress={() => handleSend(suggestion)}
+            className="px-4 py-2 rounded-full mb-2"
+            style={{ backgroundColor: colors.card, borderColor: colors.border, borderWidth: 1 }}
+          >
+            <Text style={{ color: colors.foreground }}>{suggestion}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    );
+  };
+
+  const isSendDisabled = isThinking || !text.trim() || text.length > MAX_CONTENT_LENGTH;
+
+  return (
+    <SafeAreaView style={{ flex: 1, backgroundColor: colors.card }}>
+      <KeyboardAvoidingView
+        style={{ flex: 1 }}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        {/* Header */}
+        <View className="px-4 py-4" style={{ backgroundColor: colors.card, borderBottomColor: colors.border, borderBottomWidth: 1 }}>
+          <View className="flex-row items-center">
+            <TouchableOpacity
+              onPress={() => router.back()}
+              className="mr-4 w-10 h-10 items-center justify-center"
+            >
+              <FontAwesome name="arrow-left" size={20} color={colors.foreground} />
+            </TouchableOpacity>
+            <View className="flex-1">
+              <Text className="text-lg font-bold" style={{ color: colors.foreground }}>Trip Assistant</Text>
+              <Text className="text-sm" style={{ color: colors.mutedForeground }}>
+                {isThinking ? 'Thinking…' : 'Plans and edits your itineraries'}
+              </Text>
+            </View>
+            <TouchableOpacity
+              onPress={handleClear}
+              disabled={messages.length === 0 || isThinking}
+              className="w-10 h-10 items-center justify-center"
+            >
+              <FontAwesome name="trash-o" size={20} color={colors.mutedForeground} />
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {/* Conversation */}
+        <View className="flex-1" style={{ backgroundColor: colors.background }}>
+          {visibleMessages.length === 0 && !isThinking ? (
+            renderEmptyState()
+          ) : (
+            <FlatList
+              ref={flatListRef}
+              data={visibleMessages}
+              renderItem={renderMessage}
+              keyExtractor={item => item.id}
+              className="flex-1 px-4"
+              inverted // Newest messages at bottom
+              showsVerticalScrollIndicator={false}
+              contentContainerStyle={{ paddingTop: 10, flexGrow: 1, justifyContent: 'flex-end' }}
+              keyboardShouldPersistTaps="handled"
+              keyboardDismissMode="on-drag"
+              ListHeaderComponent={isThinking ? (
+                <View className="flex-row items-center mb-4">
+                  <ActivityIndicator size="small" color={colors.mutedForeground} />
+                  <Text className="text-sm ml-2" style={{ color: colors.mutedForeground }}>Thinking…</Text>
+                </View>
+              ) : null}
+            />
+          )}
+        </View>
+
+        {/* Error */}
+        {error && (
+          <TouchableOpacity
+            onPress={clearError}
+            className="flex-row items-center px-4 py-2"
+            style={{ backgroundColor: colors.background }}
+          >
+            <FontAwesome name="exclamation-circle" size={14} color={colors.destructive} />
+            <Text className="text-sm ml-2 flex-1" style={{ color: colors.destructive }}>{error}</Text>
+            <FontAwesome name="times" size={14} color={colors.mutedForeground} />
+          </TouchableOpacity>
+        )}
+
+        {/* Input */}
+        <View
+          className="flex-row items-end px-4 py-3"
+          style={{ backgroundColor: colors.card, borderTopColor: colors.border, borderTopWidth: 1 }}
+        >
+          <TextInput
+            className="flex-1 mr-3 rounded-2xl px-4 py-3 text-base max-h-24"
+            style={{
+              borderColor: colors.border,
+              borderWidth: 1,
+              backgroundColor: colors.background,
+              color: colors.foreground,
+              minHeight: 44,
+            }}
+            placeholder="Ask the assistant…"
+            placeholderTextColor={colors.mutedForeground}
+            value={text}
+            onChangeText={setText}
+            maxLength={MAX_CONTENT_LENGTH}
+            multiline
+          />
+          <TouchableOpacity
+            className="w-11 h-11 rounded-full items-center justify-center"
+            style={{ backgroundColor: isSendDisabled ? colors.muted : colors.primary }}
+            onPress={() => handleSend()}
+            disabled={isSendDisabled}
+            activeOpacity={0.7}
+          >
+            {isThinking ? (
+              <ActivityIndicator size="small" color="white" />
+            ) : (
+              <FontAwesome
+                name="send"
+                size={16}
+                color={isSendDisabled ? colors.mutedForeground : colors.primaryForeground}
+              />
+            )}
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
@@ -0,0 +1,179 @@
+/**
+ * @file ConversationOptionsMenu component for pinning, muting and archiving a conversation
+ * These settings only affect the current user's own chat list
+ */
+
+import { useThemeColors } from '@/hooks/useThemeColors';
+import { useConversationsStore, type Conversation } from '@/stores/conversations';
+import { isConversationMuted, MUTE_OPTIONS } from '@/utils/conversationMute';
+import { FontAwesome } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, Modal, Text, TouchableOpacity, View } from 'react-native';
+
+/**
+ * Props for the ConversationOptionsMenu component
+ */
+interface ConversationOptionsMenuProps {
+  /** The conversation to change, or null when the menu is hidden */
+  conversation: Conversation | null;
+  /** The conversation's name as shown in the chat list */
+  title: string;
+  /** The current user's ID */
+  currentUserId: string;
+  /** Called when the menu should close */
+  onClose: () => void;
+}
+
+/**
+ * An option in the menu
+ */
+interface ConversationOption {
+  id: string;
+  icon: React.ComponentProps<typeof FontAwesome>['name'];
+  title: string;
+  onPress: () => Promise<{ success: boolean; error?: string }> | void;
+}
+
+/**
+ * Bottom sheet with a conversation's pin, mute and archive options
+ *
+ * @param props - Component props
+ * @returns JSX element for the conversation options menu
+ */
+export default function ConversationOptionsMenu({
+  conversation,
+  title,
+  currentUserId,
+  onClose,
+}: ConversationOptionsMenuProps) {
+  const colors = useThemeColors();
+  const { setConversationPinned, setConversationArchived, muteConversation } = useConversationsStore();
+  const [isChoosingMuteDuration, setIsChoosingMuteDuration] = useState(false);
+  const [pendingOptionId, setPendingOptionId] = useState<string | null>(null);
+
+  /**
+   * Starts from the main options each time the menu opens
+   */
+  useEffect(() => {
+    if (!conversation) {
+      setIsChoosingMuteDuration(false);
+    }
+  }, [conversation]);
+
+  if (!conversation) {
+    return null;
+  }
+
+  const { isPinned, isArchived } = conversation.preferences;
+  const isMuted = isConversationMuted(conversation.preferences);
+
+  /**
+   * Runs an option and closes the menu once it is saved
+   */
+  const handleOption = async (option: ConversationOption) => {
+    const action = option.onPress();
+    if (!action) return;
+
+    setPendingOptionId(option.id);
+    const result = await action;
+    setPendingOptionId(null);
+
+    if (!result.success) {
+      Alert.alert('Update Failed', result.error || 'Failed to update conversation. Please try again.');
+      return;
+    }
+
+    onClose();
+  };
+
+  const options: ConversationOption[] = isChoosingMuteDuration
+    ? MUTE_OPTIONS.map(option => ({
+        id: option.value,
+        icon: 'bell-slash',
+        title: option.title,
+        onPress: () => muteConversation(conversation.id, option.value, currentUserId),
+      }))
+    : [
+        // Archived conversations are out of the list, so there is nothing to pin them above
+        ...(!isArchived
+          ? [{
+              id: 'pin',
+              icon: 'thumb-tack' as const,
+              title: isPinned ? 'Unpin' : 'Pin to Top',
+              onPress: () => setConversationPinned(conversation.id, !isPinned, currentUserId),
+            }]
+          : []),
+        {
+          id: 'mute',
+          icon: isMuted ? 'bell' : 'bell-slash',
+          title: isMuted ? 'Unmute' : 'Mute',
+          onPress: () => {
+            if (isMuted) {
+              return muteConversation(conversation.id, null, currentUserId);
+            }
+            setIsChoosingMuteDuration(true);
+          },
+        },
+        {
+          id: 'archive',
+          icon: 'archive',
+          title: isArchived ? 'Unarchive' : 'Archive',
+          onPress: () => setConversationArchived(conversation.id, !isArchived, currentUserId),
+        },
+      ];
+
+  return (
+    <Modal
+      visible={!!conversation}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <TouchableOpacity
+        className="flex-1 justify-end"
+        style={{ backgroundColor: 'rgba(0, 0, 0, 0.5)' }}
+        activeOpacity={1}
+        onPress={onClose}
+      >
+        <TouchableOpacity
+          className="rounded-t-3xl p-6"
+          style={{ backgroundColor: colors.card }}
+          activeOpacity={1}
+        >
+          <View className="w-12 h-1 rounded-full self-center mb-6" style={{ backgroundColor: colors.muted }} />
+          <Text className="text-xl font-bold mb-2" style={{ color: colors.foreground }} numberOfLines={1}>
+            {isChoosingMuteDuration ? 'Mute Notifications' : title}
+          </Text>
+          <Text className="text-sm mb-6" style={{ color: colors.mutedForeground }}>
+            {isChoosingMuteDuration
+              ? 'Muted chats are left out of your unread count'
+              : 'Only changes your own chat list'}
+          </Text>
+
+          {options.map((option) => (
+            <TouchableOpacity
+              key={option.id}
+              className="flex-row items-center rounded-xl p-4 mb-3"
+              style={{ backgroundColor: colors.secondary }}
+              onPress={() => handleOption(option)}
+              disabled={pendingOptionId !== null}
+            >
+              <FontAwesome name={option.icon} size={16} color={colors.primary} />
+              <Text className="flex-1 font-semibold ml-3" style={{ color: colors.foreground }}>{option.title}</Text>
+              {pendingOptionId === option.id && <ActivityIndicator size="small" color={colors.primary} />}
+            </TouchableOpacity>
+          ))}
+
+          <TouchableOpacity
+            className="mt-3 py-3"
+            onPress={isChoosingMuteDuration ? () => setIsChoosingMuteDuration(false) : onClose}
+          >
+            <Text className="text-center" style={{ color: colors.mutedForeground }}>
+              {isChoosingMuteDuration ? 'Back' : 'Cancel'}
+            </Text>
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
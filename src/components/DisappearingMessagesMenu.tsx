@@ -0,0 +1,123 @@
+/**
+ * @file DisappearingMessagesMenu component for choosing how long messages in a conversation last
+ * Any participant can change the setting; everyone is told about the change in the chat
+ */
+
+import { type MessageExpiry } from '@/api/messages';
+import { useThemeColors } from '@/hooks/useThemeColors';
+import { useConversationsStore } from '@/stores/conversations';
+import { MESSAGE_EXPIRY_OPTIONS } from '@/utils/messageExpiry';
+import { FontAwesome } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import { ActivityIndicator, Alert, Modal, Text, TouchableOpacity, View } from 'react-native';
+
+/**
+ * Props for the DisappearingMessagesMenu component
+ */
+interface DisappearingMessagesMenuProps {
+  /** Whether the menu is visible */
+  visible: boolean;
+  /** The conversation to change */
+  conversationId: string;
+  /** The conversation's current setting */
+  currentExpiry: MessageExpiry;
+  /** Called when the menu should close */
+  onClose: () => void;
+}
+
+/**
+ * Bottom sheet listing the disappearing message settings
+ *
+ * @param props - Component props
+ * @returns JSX element for the disappearing messages menu
+ */
+export default function DisappearingMessagesMenu({
+  visible,
+  conversationId,
+  currentExpiry,
+  onClose,
+}: DisappearingMessagesMenuProps) {
+  const colors = useThemeColors();
+  const { setMessageExpiry } = useConversationsStore();
+  const [pendingExpiry, setPendingExpiry] = useState<MessageExpiry | null>(null);
+
+  /**
+   * Saves the chosen setting and closes the menu
+   */
+  const handleSelect = async (expiry: MessageExpiry) => {
+    if (expiry === currentExpiry) {
+      onClose();
+      return;
+    }
+
+    setPendingExpiry(expiry);
+    const result = await setMessageExpiry(conversationId, expiry);
+    setPendingExpiry(null);
+
+    if (!result.success) {
+      Alert.alert('Update Failed', result.error || 'Failed to change disappearing messages. Please try again.');
+      return;
+    }
+
+    onClose();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <TouchableOpacity
+        className="flex-1 justify-end"
+        style={{ backgroundColor: 'rgba(0, 0, 0, 0.5)' }}
+        activeOpacity={1}
+        onPress={onClose}
+      >
+        <TouchableOpacity
+          className="rounded-t-3xl p-6"
+          style={{ backgroundColor: colors.card }}
+          activeOpacity={1}
+        >
+          <View className="w-12 h-1 rounded-full self-center mb-6" style={{ backgroundColor: colors.muted }} />
+          <Text className="text-xl font-bold mb-2" style={{ color: colors.foreground }}>Disappearing Messages</Text>
+          <Text className="text-sm mb-6" style={{ color: colors.mutedForeground }}>
+            Applies to new messages for everyone in this chat
+          </Text>
+
+          {MESSAGE_EXPIRY_OPTIONS.map((option) => {
+            const isSelected = option.value === currentExpiry;
+
+            return (
+              <TouchableOpacity
+                key={option.value}
+                className="flex-row items-center rounded-xl p-4 mb-3"
+                style={{ backgroundColor: colors.secondary }}
+                onPress={() => handleSelect(option.value)}
+                disabled={pendingExpiry !== null}
+              >
+                <View className="flex-1">
+                  <Text className="font-semibold" style={{ color: colors.foreground }}>{option.title}</Text>
+                  <Text className="text-sm mt-1" style={{ color: colors.mutedForeground }}>{option.description}</Text>
+                </View>
+                {pendingExpiry === option.value ? (
+                  <ActivityIndicator size="small" color={colors.primary} />
+                ) : isSelected ? (
+                  <FontAwesome name="check" size={18} color={colors.primary} />
+                ) : null}
+              </TouchableOpacity>
+            );
+          })}
+
+          <TouchableOpacity
+            className="mt-3 py-3"
+            onPress={onClose}
+          >
+            <Text className="text-center" style={{ color: colors.mutedForeground }}>Cancel</Text>
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
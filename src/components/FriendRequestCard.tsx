@@ -1,6 +1,6 @@
 /**
  * @file FriendRequestCard component for displaying individual friend requests
- * Provides a reusable component for showing friend request details with accept/decline actions
+ * Provides a reusable component for showing friend request details with accept/decline/block actions
  */
 
 import { type UserSearchResult } from '@/api/friends';
@@ -39,6 +39,8 @@ interface FriendRequestCardProps {
   onAccept: (requestId: string) => void;
   /** Callback when decline button is pressed */
   onDecline: (requestId: string) => void;
+  /** Callback when block button is pressed; the button is only shown for received requests when set */
+  onBlock?: (friendRequest: FriendRequestWithUser) => void;
   /** Whether accept action is loading */
   isAcceptLoading?: boolean;
   /** Whether decline action is loading */
@@ -59,6 +61,7 @@ export default function FriendRequestCard({
   friendRequest,
   onAccept,
   onDecline,
+  onBlock,
   isAcceptLoading = false,
   isDeclineLoading = false,
   disabled = false,
@@ -169,11 +172,25 @@ export default function FriendRequestCard({
       );
     }
 
-    // For received pending requests, show accept/decline buttons
+    // For received pending requests, show block/decline/accept buttons
     const isLoading = isAcceptLoading || isDeclineLoading;
     
     return (
       <View className="flex-row items-center">
+        {/* Block Button */}
+        {onBlock && (
+          <TouchableOpacity
+            className={`w-10 h-10 rounded-full items-center justify-center mr-3 ${
+              disabled || isLoading ? 'opacity-50' : ''
+            }`}
+            style={{ backgroundColor: themeColors.destructive + '20' }}
+            onPress={() => onBlock(friendRequest)}
+            disabled={disabled || isLoading}
+          >
+            <FontAwesome name="ban" size={16} color={themeColors.destructive} />
+          </TouchableOpacity>
+        )}
+
         {/* Decline Button */}
         <TouchableOpacity
           className={`w-10 h-10 rounded-full border-2 items-center justify-center mr-3 ${
@@ -186,7 +203,7 @@ export default function FriendRequestCard({
           {isDeclineLoading ? (
             <ActivityIndicator size="small" color={themeColors.destructive} />
           ) : (
-            <FontAwesome name="ban" size={16} color={themeColors.destructive} />
+            <FontAwesome name="times" size={16} color={themeColors.destructive} />
           )}
         </TouchableOpacity>
 
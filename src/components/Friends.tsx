@@ -40,6 +40,7 @@ export default function Friends() {
     clearSearch,
     removeFriend,
     isFriendRemovalInProgress,
+    blockUser,
   } = useFriendsStore();
 
   const {
@@ -112,6 +113,34 @@ export default function Friends() {
     await declineFriendRequestAction(requestId, currentUser.id);
   }, [declineFriendRequestAction, currentUser?.id]);
 
+  /**
+   * Confirms and blocks the user who sent a friend request, which also removes the request
+   */
+  const handleBlockRequest = useCallback((request: FriendRequestWithUser) => {
+    if (!currentUser?.id) return;
+    const name = request.requester.fullName || request.requester.username || 'this user';
+
+    Alert.alert(
+      `Block ${name}?`,
+      'They will not be able to find you, message you, send you friend requests or see your story.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Block',
+          style: 'destructive',
+          onPress: async () => {
+            const result = await blockUser(currentUser.id, request.requesterId);
+            if (!result.success) {
+              Alert.alert('Block Failed', result.error || 'Failed to block user. Please try again.');
+              return;
+            }
+            loadFriendRequests(currentUser.id);
+          },
+        },
+      ]
+    );
+  }, [blockUser, loadFriendRequests, currentUser?.id]);
+
   /**
    * Load initial data when component mounts
    */
@@ -194,6 +223,7 @@ export default function Friends() {
               friendRequest={item}
               onAccept={handleAcceptRequest}
               onDecline={handleDeclineRequest}
+              onBlock={isReceived ? handleBlockRequest : undefined}
               isAcceptLoading={reqActionStates.isAccepting}
               isDeclineLoading={reqActionStates.isDeclining}
               type={isReceived ? 'received' : 'sent'}
@@ -0,0 +1,396 @@
+/**
+ * @file GroupInfo component for viewing and managing a group conversation
+ * Everyone can see the members and leave; admins can rename the group, change its photo and manage members
+ */
+
+import { type ConversationParticipant } from '@/api/messages';
+import { useThemeColors } from '@/hooks/useThemeColors';
+import { useConversationsStore } from '@/stores/conversations';
+import { useFriendsStore } from '@/stores/friends';
+import { FontAwesome } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, ScrollView, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import ModalWrapper from './ModalWrapper';
+import UserAvatar from './UserAvatar';
+
+/**
+ * Props for the GroupInfo component
+ */
+interface GroupInfoProps {
+  /** Whether the group info is visible */
+  visible: boolean;
+  /** The group conversation to show */
+  conversationId: string;
+  /** The current user's ID */
+  currentUserId: string;
+  /** Called when the group info should close */
+  onClose: () => void;
+  /** Called after the current user leaves the group */
+  onLeave: () => void;
+}
+
+/**
+ * Gets the name shown for a member
+ */
+const getMemberName = (participant: ConversationParticipant): string =>
+  participant.user.fullName || participant.user.username || 'Unknown User';
+
+/**
+ * Group details with member list and admin controls
+ *
+ * @param props - Component props
+ * @returns JSX element for the group info modal
+ */
+export default function GroupInfo({ visible, conversationId, currentUserId, onClose, onLeave }: GroupInfoProps) {
+  const colors = useThemeColors();
+  const {
+    getConversationById,
+    isConversationAdmin,
+    isUserOnline,
+    addParticipants,
+    removeParticipant,
+    setParticipantRole,
+    renameConversation,
+    setGroupAvatar,
+    leaveConversation,
+  } = useConversationsStore();
+  const { friends, fetchFriends } = useFriendsStore();
+  const [isEditingTitle, setIsEditingTitle] = useState(false);
+  const [titleInput, setTitleInput] = useState('');
+  const [isShowingFriends, setIsShowingFriends] = useState(false);
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+
+  const conversation = getConversationById(conversationId);
+  const isAdmin = isConversationAdmin(conversationId, currentUserId);
+
+  /**
+   * Starts over each time the group info is opened
+   */
+  useEffect(() => {
+    if (!visible) {
+      setIsEditingTitle(false);
+      setIsShowingFriends(false);
+    }
+  }, [visible]);
+
+  /**
+   * Loads the friends that can be added when an admin opens the list
+   */
+  useEffect(() => {
+    if (isShowingFriends) {
+      fetchFriends(currentUserId);
+    }
+  }, [isShowingFriends, currentUserId, fetchFriends]);
+
+  if (!conversation || conversation.type !== 'group') {
+    return null;
+  }
+
+  // Admins first, then members by name
+  const members = [...conversation.participants].sort((a, b) =>
+    a.role !== b.role ? (a.role === 'admin' ? -1 : 1) : getMemberName(a).localeCompare(getMemberName(b))
+  );
+  const memberIds = new Set(members.map(member => member.userId));
+  const addableFriends = friends.filter(friend => !memberIds.has(friend.friend.id));
+
+  /**
+   * Runs a group action, showing its progress and any error
+   */
+  const runAction = async (actionId: string, action: () => Promise<{ success: boolean; error?: string }>) => {
+    setPendingAction(actionId);
+    const result = await action();
+    setPendingAction(null);
+
+    if (!result.success) {
+      Alert.alert('Error', result.error || 'Something went wrong. Please try again.');
+    }
+
+    return result.success;
+  };
+
+  /**
+   * Saves the new group name
+   */
+  const handleSaveTitle = async () => {
+    if (titleInput.trim() === conversation.title) {
+      setIsEditingTitle(false);
+      return;
+    }
+
+    const saved = await runAction('rename', () => renameConversation(conversationId, titleInput, currentUserId));
+    if (saved) {
+      setIsEditingTitle(false);
+    }
+  };
+
+  /**
+   * Lets an admin pick a new group photo from the library
+   */
+  const handleChoosePhoto = async () => {
+    const imagePickerResult = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      allowsMultipleSelection: false,
+      allowsEditing: true,
+      aspect: [1, 1],
+      quality: 1,
+      exif: false,
+    });
+
+    if (imagePickerResult.canceled || !imagePickerResult.assets || imagePickerResult.assets.length === 0) {
+      return;
+    }
+
+    const selectedImage = imagePickerResult.assets[0];
+    await runAction('avatar', () =>
+      setGroupAvatar(conversationId, { uri: selectedImage.uri, mimeType: selectedImage.mimeType }, currentUserId)
+    );
+  };
+
+  /**
+   * Offers to change or remove the group photo
+   */
+  const handleAvatarPress = () => {
+    if (!conversation.avatarUrl) {
+      handleChoosePhoto();
+      return;
+    }
+
+    Alert.alert('Group Photo', undefined, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Choose Photo', onPress: handleChoosePhoto },
+      {
+        text: 'Remove Photo',
+        style: 'destructive',
+        onPress: () => runAction('avatar', () => setGroupAvatar(conversationId, null, currentUserId)),
+      },
+    ]);
+  };
+
+  /**
+   * Offers an admin the actions for another member
+   */
+  const handleMemberPress = (member: ConversationParticipant) => {
+    const name = getMemberName(member);
+    const isMemberAdmin = member.role === 'admin';
+
+    Alert.alert(name, undefined, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: isMemberAdmin ? 'Remove as Admin' : 'Make Admin',
+        onPress: () => runAction(member.userId, () =>
+          setParticipantRole(conversationId, member.userId, isMemberAdmin ? 'member' : 'admin', currentUserId)
+        ),
+      },
+      {
+        text: 'Remove from Group',
+        style: 'destructive',
+        onPress: () => {
+          Alert.alert('Remove Member', `Remove ${name} from the group?`, [
+            { text: 'Cancel', style: 'cancel' },
+            {
+              text: 'Remove',
+              style: 'destructive',
+              onPress: () => runAction(member.userId, () => removeParticipant(conversationId, member.userId, currentUserId)),
+            },
+          ]);
+        },
+      },
+    ]);
+  };
+
+  /**
+   * Adds a friend to the group
+   */
+  const handleAddFriend = async (friendId: string) => {
+    await runAction(friendId, () => addParticipants({ conversationId, userIds: [friendId] }, currentUserId));
+  };
+
+  /**
+   * Confirms and leaves the group
+   */
+  const handleLeave = () => {
+    Alert.alert('Leave Group', `Leave ${conversation.title || 'this group'}? You will no longer get its messages.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Leave',
+        style: 'destructive',
+        onPress: async () => {
+          const left = await runAction('leave', () => leaveConversation(conversationId, currentUserId));
+          if (left) {
+            onClose();
+            onLeave();
+          }
+        },
+      },
+    ]);
+  };
+
+  /**
+   * Renders the group photo and name
+   */
+  const renderGroupDetails = () => (
+    <View className="items-center mb-6">
+      <TouchableOpacity onPress={handleAvatarPress} disabled={!isAdmin || !!pendingAction} activeOpacity={0.8}>
+        <UserAvatar uri={conversation.avatarUrl} size={96} fallbackIcon="users" fallbackIconSize={40} />
+        {isAdmin && (
+          <View
+            className="absolute bottom-0 right-0 w-8 h-8 rounded-full items-center justify-center"
+            style={{ backgroundColor: colors.primary }}
+          >
+            {pendingAction === 'avatar' ? (
+              <ActivityIndicator size="small" color={colors.primaryForeground} />
+            ) : (
+              <FontAwesome name="camera" size={14} color={colors.primaryForeground} />
+            )}
+          </View>
+        )}
+      </TouchableOpacity>
+
+      {isEditingTitle ? (
+        <View className="flex-row items-center mt-4 w-full">
+          <TextInput
+            className="flex-1 rounded-xl px-4 py-3 text-base"
+            style={{ backgroundColor: colors.card, color: colors.foreground, borderColor: colors.border, borderWidth: 1 }}
+            value={titleInput}
+            onChangeText={setTitleInput}
+            placeholder="Group name"
+            placeholderTextColor={colors.mutedForeground}
+            maxLength={100}
+            autoFocus
+            returnKeyType="done"
+            onSubmitEditing={handleSaveTitle}
+          />
+          <TouchableOpacity className="ml-3 py-2" onPress={() => setIsEditingTitle(false)}>
+            <Text style={{ color: colors.mutedForeground }}>Cancel</Text>
+          </TouchableOpacity>
+          <TouchableOpacity className="ml-3 py-2" onPress={handleSaveTitle} disabled={!!pendingAction}>
+            {pendingAction === 'rename' ? (
+              <ActivityIndicator size="small" color={colors.primary} />
+            ) : (
+              <Text className="font-semibold" style={{ color: colors.primary }}>Save</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <TouchableOpacity
+          className="flex-row items-center mt-4"
+          onPress={() => {
+            setTitleInput(conversation.title || '');
+            setIsEditingTitle(true);
+          }}
+          disabled={!isAdmin}
+        >
+          <Text className="text-xl font-bold" style={{ color: colors.foreground }} numberOfLines={2}>
+            {conversation.title || 'Group Chat'}
+          </Text>
+          {isAdmin && <FontAwesome name="pencil" size={14} color={colors.mutedForeground} style={{ marginLeft: 8 }} />}
+        </TouchableOpacity>
+      )}
+
+      <Text className="text-sm mt-1" style={{ color: colors.mutedForeground }}>
+        {members.length} {members.length === 1 ? 'member' : 'members'}
+      </Text>
+    </View>
+  );
+
+  /**
+   * Renders a member of the group
+   */
+  const renderMember = (member: ConversationParticipant) => {
+    const isCurrentUser = member.userId === currentUserId;
+
+    return (
+      <TouchableOpacity
+        key={member.userId}
+        className="flex-row items-center py-3"
+        onPress={() => handleMemberPress(member)}
+        disabled={!isAdmin || isCurrentUser || !!pendingAction}
+      >
+        <UserAvatar uri={member.user.avatarUrl} size={40} className="mr-3" isOnline={isUserOnline(member.userId)} />
+        <Text className="flex-1 font-medium" style={{ color: colors.foreground }} numberOfLines={1}>
+          {isCurrentUser ? 'You' : getMemberName(member)}
+        </Text>
+        {pendingAction === member.userId ? (
+          <ActivityIndicator size="small" color={colors.primary} />
+        ) : (
+          member.role === 'admin' && (
+            <View className="rounded-full px-2 py-1" style={{ backgroundColor: colors.secondary }}>
+              <Text className="text-xs font-semibold" style={{ color: colors.primary }}>Admin</Text>
+            </View>
+          )
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  /**
+   * Renders the friends an admin can add to the group
+   */
+  const renderAddableFriends = () => {
+    if (addableFriends.length === 0) {
+      return (
+        <Text className="py-3" style={{ color: colors.mutedForeground }}>
+          All your friends are already in this group
+        </Text>
+      );
+    }
+
+    return addableFriends.map(({ friend }) => (
+      <TouchableOpacity
+        key={friend.id}
+        className="flex-row items-center py-3"
+        onPress={() => handleAddFriend(friend.id)}
+        disabled={!!pendingAction}
+      >
+        <UserAvatar uri={friend.avatarUrl} size={40} className="mr-3" />
+        <Text className="flex-1 font-medium" style={{ color: colors.foreground }} numberOfLines={1}>
+          {friend.fullName || friend.username || 'Unknown User'}
+        </Text>
+        {pendingAction === friend.id ? (
+          <ActivityIndicator size="small" color={colors.primary} />
+        ) : (
+          <FontAwesome name="plus" size={16} color={colors.primary} />
+        )}
+      </TouchableOpacity>
+    ));
+  };
+
+  return (
+    <ModalWrapper visible={visible} onClose={onClose} title="Group Info" avoidKeyboard>
+      <ScrollView className="flex-1" contentContainerStyle={{ padding: 24 }} keyboardShouldPersistTaps="handled">
+        {renderGroupDetails()}
+
+        <View className="rounded-2xl px-4 py-2 mb-6" style={{ backgroundColor: colors.card }}>
+          <View className="flex-row items-center justify-between pt-2">
+            <Text className="text-sm font-semibold" style={{ color: colors.mutedForeground }}>MEMBERS</Text>
+            {isAdmin && (
+              <TouchableOpacity onPress={() => setIsShowingFriends(!isShowingFriends)} hitSlop={8}>
+                <Text className="font-semibold" style={{ color: colors.primary }}>
+                  {isShowingFriends ? 'Done' : 'Add Members'}
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+          {isShowingFriends ? renderAddableFriends() : members.map(renderMember)}
+        </View>
+
+        <TouchableOpacity
+          className="flex-row items-center justify-center rounded-2xl py-4"
+          style={{ backgroundColor: colors.card }}
+          onPress={handleLeave}
+          disabled={!!pendingAction}
+        >
+          {pendingAction === 'leave' ? (
+            <ActivityIndicator size="small" color={colors.destructive} />
+          ) : (
+            <>
+              <FontAwesome name="sign-out" size={16} color={colors.destructive} />
+              <Text className="font-semibold ml-2" style={{ color: colors.destructive }}>Leave Group</Text>
+            </>
+          )}
+        </TouchableOpacity>
+      </ScrollView>
+    </ModalWrapper>
+  );
+}
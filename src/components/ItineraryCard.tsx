@@ -88,6 +88,15 @@ export function ItineraryCard({ itinerary, onPress, onLongPress }: ItineraryCard
         )}
 
         <View className="flex-row items-center justify-between">
+          {itinerary.role && itinerary.role !== 'owner' && (
+            <View className="flex-row items-center mr-3">
+              <Ionicons name="people-outline" size={16} color={colors.mutedForeground} />
+              <Text className="text-sm text-muted-foreground ml-1">
+                {itinerary.role === 'editor' ? 'Shared · Can edit' : 'Shared · View only'}
+              </Text>
+            </View>
+          )}
+
           {dateRange && (
             <View className="flex-row items-center">
               <Ionicons name="calendar-outline" size={16} color={colors.mutedForeground} />
@@ -0,0 +1,71 @@
+/**
+ * @file ItineraryInviteCard component for displaying a pending itinerary invite
+ * Shows who shared the itinerary and the offered role, with accept/decline actions
+ */
+
+import { useThemeColors } from '@/hooks/useThemeColors';
+import type { ItineraryInvite } from '@/types/itineraries';
+import { timeAgo } from '@/utils';
+import React from 'react';
+import { ActivityIndicator, Text, TouchableOpacity, View } from 'react-native';
+import { ROLE_LABELS } from './ItineraryMembersModal';
+import UserAvatar from './UserAvatar';
+
+interface ItineraryInviteCardProps {
+  /** The pending invite */
+  invite: ItineraryInvite;
+  /** Callback when the accept button is pressed */
+  onAccept: (itineraryId: string) => void;
+  /** Callback when the decline button is pressed */
+  onDecline: (itineraryId: string) => void;
+  /** Whether an action on this invite is in progress */
+  isLoading?: boolean;
+}
+
+/**
+ * Component for displaying a pending itinerary invite
+ *
+ * @param props - Component props
+ * @returns JSX element for itinerary invite card
+ */
+export function ItineraryInviteCard({ invite, onAccept, onDecline, isLoading = false }: ItineraryInviteCardProps) {
+  const colors = useThemeColors();
+  const inviterName = invite.inviter?.fullName || invite.inviter?.username || 'A friend';
+
+  return (
+    <View className="bg-card rounded-xl p-4 mb-4 shadow-sm">
+      <View className="flex-row items-center">
+        <UserAvatar uri={invite.inviter?.avatarUrl} size={40} />
+        <View className="flex-1 ml-3">
+          <Text className="text-base font-semibold text-foreground" numberOfLines={1}>
+            {invite.itinerary.title}
+          </Text>
+          <Text className="text-sm text-muted-foreground" numberOfLines={1}>
+            {inviterName} invited you as {ROLE_LABELS[invite.role].toLowerCase()} · {timeAgo(invite.createdAt)}
+          </Text>
+        </View>
+      </View>
+
+      <View className="flex-row justify-end mt-3">
+        {isLoading ? (
+          <ActivityIndicator size="small" color={colors.primary} />
+        ) : (
+          <>
+            <TouchableOpacity
+              onPress={() => onDecline(invite.itineraryId)}
+              className="px-4 py-2 rounded-full bg-muted mr-2"
+            >
+              <Text className="text-muted-foreground font-semibold">Decline</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => onAccept(invite.itineraryId)}
+              className="px-4 py-2 rounded-full bg-primary"
+            >
+              <Text className="text-primary-foreground font-semibold">Accept</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+    </View>
+  );
+}
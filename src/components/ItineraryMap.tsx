@@ -0,0 +1,219 @@
+/**
+ * @file ItineraryMap component for viewing an itinerary's activities on a map
+ * Plots placed activities as numbered pins colored by day, draws each day's path in visiting order,
+ * and lists activities without coordinates in a "not placed" tray
+ */
+
+import type { Activity } from '@/types/activities';
+import { useThemeColors } from '@/hooks/useThemeColors';
+import { calculateDayNumber, getDayLabel, groupActivitiesByDay } from '@/utils/dateHelpers';
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ActivityIndicator, ScrollView, Text, TouchableOpacity, View } from 'react-native';
+import MapView, { Marker, Polyline, type LatLng } from 'react-native-maps';
+
+/**
+ * Colors cycled through for each day's pins and path
+ */
+const DAY_COLORS = ['#6B21A8', '#0EA5E9', '#F97316', '#16A34A', '#DB2777', '#CA8A04', '#0D9488', '#DC2626'];
+
+const MAP_EDGE_PADDING = { top: 60, right: 60, bottom: 60, left: 60 };
+
+interface ItineraryMapProps {
+  /** Activities to show; scheduled ones are grouped into days */
+  activities: Activity[];
+  /** Callback when a pin or tray item is pressed */
+  onActivityPress: (activity: Activity) => void;
+  /** Start date of the itinerary, used for day numbers */
+  itineraryStartDate?: string | null;
+  /** Callback to retry geocoding an activity's location; the retry button is hidden when omitted */
+  onRetryGeocode?: (activity: Activity) => Promise<void>;
+}
+
+interface MapDay {
+  key: string;
+  label: string;
+  color: string;
+  /** Placed activities in visiting order */
+  stops: Activity[];
+}
+
+/**
+ * Converts an activity's stored [lat, lng] pair to map coordinates
+ */
+function toLatLng(activity: Activity): LatLng {
+  const [latitude, longitude] = activity.gps_coords!;
+  return { latitude, longitude };
+}
+
+/**
+ * Map of an itinerary's activities with per-day routes
+ *
+ * @param props - Component props
+ * @returns JSX element for the itinerary map
+ */
+export function ItineraryMap({ activities, onActivityPress, itineraryStartDate, onRetryGeocode }: ItineraryMapProps) {
+  const colors = useThemeColors();
+  const mapRef = useRef<MapView>(null);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+
+  const days = useMemo((): MapDay[] => {
+    const grouped = groupActivitiesByDay(activities.filter(activity => activity.start_time));
+    const mapDays = Object.keys(grouped).sort().map((dateKey, index) => {
+      const dayNumber = itineraryStartDate ? calculateDayNumber(dateKey, itineraryStartDate) : null;
+      return {
+        key: dateKey,
+        label: getDayLabel(dateKey, dayNumber),
+        color: DAY_COLORS[index % DAY_COLORS.length],
+        stops: grouped[dateKey].filter(activity => activity.gps_coords),
+      };
+    });
+
+    const unscheduled = activities.filter(activity => !activity.start_time && activity.gps_coords);
+    if (unscheduled.length > 0) {
+      mapDays.push({ key: 'unscheduled', label: 'Not scheduled', color: colors.mutedForeground, stops: unscheduled });
+    }
+
+    return mapDays.filter(day => day.stops.length > 0);
+  }, [activities, itineraryStartDate, colors.mutedForeground]);
+
+  const notPlaced = useMemo(
+    () => activities.filter(activity => !activity.gps_coords),
+    [activities]
+  );
+
+  const coordinates = useMemo(
+    () => days.flatMap(day => day.stops.map(toLatLng)),
+    [days]
+  );
+
+  // Keep every pin in view as activities are added, moved or geocoded
+  useEffect(() => {
+    if (coordinates.length === 0) return;
+    const timeout = setTimeout(() => {
+      mapRef.current?.fitToCoordinates(coordinates, { edgePadding: MAP_EDGE_PADDING, animated: true });
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [coordinates]);
+
+  const handleRetry = async (activity: Activity) => {
+    if (!onRetryGeocode) return;
+    setRetryingId(activity.id);
+    try {
+      await onRetryGeocode(activity);
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  return (
+    <View className="flex-1">
+      <MapView
+        ref={mapRef}
+        style={{ flex: 1 }}
+        initialRegion={coordinates[0] ? { ...coordinates[0], latitudeDelta: 0.1, longitudeDelta: 0.1 } : undefined}
+      >
+        {days.map(day => (
+          <React.Fragment key={day.key}>
+            {day.key !== 'unscheduled' && day.stops.length > 1 && (
+              <Polyline coordinates={day.stops.map(toLatLng)} strokeColor={day.color} strokeWidth={3} />
+            )}
+            {day.stops.map((activity, index) => (
+              <Marker
+                key={activity.id}
+                coordinate={toLatLng(activity)}
+                onPress={() => onActivityPress(activity)}
+              >
+                <View
+                  className="w-7 h-7 rounded-full items-center justify-center border-2 border-white"
+                  style={{ backgroundColor: day.color }}
+                >
+                  <Text className="text-xs font-bold text-white">
+                    {day.key === 'unscheduled' ? '?' : index + 1}
+                  </Text>
+                </View>
+              </Marker>
+            ))}
+          </React.Fragment>
+        ))}
+      </MapView>
+
+      {/* Day Legend */}
+      {days.length > 0 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          className="absolute top-3 left-0 right-0"
+          contentContainerStyle={{ paddingHorizontal: 12 }}
+        >
+          {days.map(day => (
+            <TouchableOpacity
+              key={day.key}
+              onPress={() => mapRef.current?.fitToCoordinates(day.stops.map(toLatLng), {
+                edgePadding: MAP_EDGE_PADDING,
+                animated: true,
+              })}
+              className="flex-row items-center bg-card px-3 py-1 rounded-full mr-2 shadow-sm"
+            >
+              <View className="w-3 h-3 rounded-full mr-2" style={{ backgroundColor: day.color }} />
+              <Text className="text-xs text-foreground">{day.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+
+      {/* Not Placed Tray */}
+      {notPlaced.length > 0 && (
+        <View className="bg-card border-t border-border px-4 pt-3 pb-4">
+          <Text className="text-sm font-medium text-muted-foreground mb-2">
+            Not placed ({notPlaced.length})
+          </Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            {notPlaced.map(activity => (
+              <TouchableOpacity
+                key={activity.id}
+                onPress={() => onActivityPress(activity)}
+                className="flex-row items-center bg-background rounded-lg px-3 py-2 mr-2"
+                style={{ maxWidth: 240 }}
+              >
+                <View className="flex-shrink mr-2">
+                  <Text className="text-sm font-semibold text-foreground" numberOfLines={1}>
+                    {activity.title}
+                  </Text>
+                  <Text className="text-xs text-muted-foreground" numberOfLines={1}>
+                    {activity.location || 'No location'}
+                  </Text>
+                </View>
+                {onRetryGeocode && activity.location && (
+                  retryingId === activity.id ? (
+                    <ActivityIndicator size="small" color={colors.primary} />
+                  ) : (
+                    <TouchableOpacity
+                      onPress={() => handleRetry(activity)}
+                      disabled={retryingId !== null}
+                      hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                    >
+                      <Ionicons name="locate-outline" size={20} color={colors.primary} />
+                    </TouchableOpacity>
+                  )
+                )}
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        </View>
+      )}
+
+      {/* Empty State */}
+      {days.length === 0 && (
+        <View className="absolute top-0 left-0 right-0 items-center mt-16 px-8" pointerEvents="none">
+          <View className="bg-card rounded-xl px-4 py-3 items-center">
+            <Ionicons name="map-outline" size={32} color={colors.mutedForeground} />
+            <Text className="text-muted-foreground text-center mt-2">
+              No activities have a location on the map yet
+            </Text>
+          </View>
+        </View>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,274 @@
+/**
+ * @file ItineraryMembersModal component for managing who an itinerary is shared with
+ * Lists members and pending invites, lets the owner invite friends and manage roles,
+ * and lets other members leave the itinerary
+ */
+
+import { useThemeColors } from '@/hooks/useThemeColors';
+import { useFriendsStore } from '@/stores/friends';
+import { useItinerariesStore } from '@/stores/itinerariesStore';
+import { useUserStore } from '@/stores/user';
+import type { Itinerary, ItineraryMember, ItineraryRole } from '@/types/itineraries';
+import { FontAwesome } from '@expo/vector-icons';
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import ModalWrapper from './ModalWrapper';
+import UserAvatar from './UserAvatar';
+
+/**
+ * Roles that can be assigned to invited members
+ */
+const ASSIGNABLE_ROLES: Exclude<ItineraryRole, 'owner'>[] = ['editor', 'viewer'];
+
+/**
+ * Human-readable labels for itinerary roles
+ */
+export const ROLE_LABELS: Record<ItineraryRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  viewer: 'Viewer',
+};
+
+interface ItineraryMembersModalProps {
+  /** Whether the modal is visible */
+  visible: boolean;
+  /** Callback when the modal should be closed */
+  onClose: () => void;
+  /** The itinerary whose members are managed */
+  itinerary: Itinerary;
+  /** Callback after the current user leaves the itinerary */
+  onLeave?: () => void;
+}
+
+/**
+ * Modal for viewing and managing the members of an itinerary
+ *
+ * @param props - Component props
+ * @returns JSX element for the itinerary members modal
+ */
+export function ItineraryMembersModal({ visible, onClose, itinerary, onLeave }: ItineraryMembersModalProps) {
+  const colors = useThemeColors();
+  const { currentUser } = useUserStore();
+  const { friends, fetchFriends } = useFriendsStore();
+  const {
+    getMembersForItinerary,
+    fetchMembers,
+    inviteMember,
+    updateMemberRole,
+    removeMember,
+    leaveItinerary,
+  } = useItinerariesStore();
+
+  const [inviteRole, setInviteRole] = useState<Exclude<ItineraryRole, 'owner'>>('editor');
+  const [pendingUserId, setPendingUserId] = useState<string | null>(null);
+
+  const members = getMembersForItinerary(itinerary.id);
+  const isOwner = itinerary.role === 'owner';
+
+  useEffect(() => {
+    if (!visible) return;
+    fetchMembers(itinerary.id);
+    if (isOwner && currentUser?.id) {
+      fetchFriends(currentUser.id);
+    }
+  }, [visible, itinerary.id, isOwner, currentUser?.id]);
+
+  // Friends who are not already members or invited
+  const invitableFriends = useMemo(() => {
+    const memberIds = new Set(members.map(member => member.userId));
+    return friends.filter(friend => !memberIds.has(friend.friendId));
+  }, [friends, members]);
+
+  const runMemberAction = async (userId: string, action: () => Promise<void>, errorMessage: string) => {
+    setPendingUserId(userId);
+    try {
+      await action();
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : errorMessage);
+    } finally {
+      setPendingUserId(null);
+    }
+  };
+
+  const handleInvite = (friendId: string) => {
+    runMemberAction(
+      friendId,
+      () => inviteMember(itinerary.id, friendId, inviteRole),
+      'Failed to send invite'
+    );
+  };
+
+  const handleToggleRole = (member: ItineraryMember) => {
+    const nextRole = member.role === 'editor' ? 'viewer' : 'editor';
+    runMemberAction(
+      member.userId,
+      () => updateMemberRole(itinerary.id, member.userId, nextRole),
+      'Failed to change role'
+    );
+  };
+
+  const handleRemove = (member: ItineraryMember) => {
+    const displayName = member.user.fullName || member.user.username || 'this user';
+    Alert.alert(
+      member.status === 'pending' ? 'Cancel Invite' : 'Remove Member',
+      `Remove ${displayName} from "${itinerary.title}"?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: () => runMemberAction(
+            member.userId,
+            () => removeMember(itinerary.id, member.userId),
+            'Failed to remove member'
+          ),
+        },
+      ]
+    );
+  };
+
+  const handleLeave = () => {
+    if (!currentUser?.id) return;
+    const currentUserId = currentUser.id;
+    Alert.alert(
+      'Leave Itinerary',
+      `You will no longer have access to "${itinerary.title}".`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Leave',
+          style: 'destructive',
+          onPress: () => runMemberAction(
+            currentUserId,
+            async () => {
+              await leaveItinerary(itinerary.id, currentUserId);
+              onClose();
+              onLeave?.();
+            },
+            'Failed to leave itinerary'
+          ),
+        },
+      ]
+    );
+  };
+
+  const renderMember = (member: ItineraryMember) => {
+    const displayName = member.user.fullName || member.user.username || 'Unknown User';
+    const isCurrentUser = member.userId === currentUser?.id;
+    const canManage = isOwner && member.role !== 'owner';
+    const isPending = pendingUserId === member.userId;
+
+    return (
+      <View key={member.userId} className="flex-row items-center py-3 border-b border-border">
+        <UserAvatar uri={member.user.avatarUrl} size={40} />
+        <View className="flex-1 ml-3">
+          <Text className="text-base font-semibold text-foreground" numberOfLines={1}>
+            {displayName}{isCurrentUser ? ' (you)' : ''}
+          </Text>
+          <Text className="text-sm text-muted-foreground">
+            {ROLE_LABELS[member.role]}{member.status === 'pending' ? ' · Invited' : ''}
+          </Text>
+        </View>
+        {isPending ? (
+          <ActivityIndicator size="small" color={colors.primary} />
+        ) : canManage ? (
+          <View className="flex-row items-center">
+            <TouchableOpacity
+              onPress={() => handleToggleRole(member)}
+              className="px-3 py-1 rounded-full bg-muted mr-2"
+            >
+              <Text className="text-xs text-foreground">
+                Make {member.role === 'editor' ? 'viewer' : 'editor'}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => handleRemove(member)}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              <FontAwesome name="times" size={18} color={colors.destructive} />
+            </TouchableOpacity>
+          </View>
+        ) : null}
+      </View>
+    );
+  };
+
+  return (
+    <ModalWrapper visible={visible} onClose={onClose} title="Shared With">
+      <ScrollView className="flex-1 bg-background" contentContainerStyle={{ padding: 16, paddingBottom: 32 }}>
+        {/* Members */}
+        <Text className="text-sm font-medium text-muted-foreground mb-1">Members</Text>
+        {members.map(renderMember)}
+
+        {/* Invite Friends */}
+        {isOwner && (
+          <View className="mt-6">
+            <View className="flex-row items-center justify-between mb-2">
+              <Text className="text-sm font-medium text-muted-foreground">Invite friends as</Text>
+              <View className="flex-row">
+                {ASSIGNABLE_ROLES.map(role => (
+                  <TouchableOpacity
+                    key={role}
+                    onPress={() => setInviteRole(role)}
+                    className={`px-3 py-1 rounded-full ml-2 ${inviteRole === role ? 'bg-accent' : 'bg-card'}`}
+                  >
+                    <Text className={inviteRole === role ? 'text-xs font-bold text-accent-foreground' : 'text-xs text-muted-foreground'}>
+                      {ROLE_LABELS[role]}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+            {invitableFriends.length === 0 ? (
+              <Text className="text-muted-foreground text-center py-4">
+                {friends.length === 0 ? 'Add friends to share this itinerary' : 'All your friends are already on this itinerary'}
+              </Text>
+            ) : (
+              invitableFriends.map(friend => {
+                const displayName = friend.friend.fullName || friend.friend.username || 'Unknown User';
+                return (
+                  <View key={friend.friendId} className="flex-row items-center py-3 border-b border-border">
+                    <UserAvatar uri={friend.friend.avatarUrl} size={40} />
+                    <Text className="flex-1 ml-3 text-base text-foreground" numberOfLines={1}>
+                      {displayName}
+                    </Text>
+                    {pendingUserId === friend.friendId ? (
+                      <ActivityIndicator size="small" color={colors.primary} />
+                    ) : (
+                      <TouchableOpacity
+                        onPress={() => handleInvite(friend.friendId)}
+                        className="bg-primary px-3 py-1 rounded-full"
+                      >
+                        <Text className="text-primary-foreground text-sm font-semibold">Invite</Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                );
+              })
+            )}
+          </View>
+        )}
+
+        {/* Leave */}
+        {!isOwner && (
+          <View className="items-center mt-8">
+            <TouchableOpacity
+              onPress={handleLeave}
+              disabled={pendingUserId !== null}
+              className="px-8 py-2 rounded-lg border border-destructive bg-background"
+            >
+              <Text className="text-destructive text-center font-medium">Leave Itinerary</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </ScrollView>
+    </ModalWrapper>
+  );
+}
@@ -2,6 +2,7 @@ import type { CreateItineraryData, Itinerary, UpdateItineraryData } from '@/api/
 import { fillItineraryDataWithAI, generateItineraryImageWithAI } from '@/api/ai';
 import { useThemeColors } from '@/hooks/useThemeColors';
 import { useItinerariesStore } from '@/stores/itinerariesStore';
+import { alertAIError, findQuotaError } from '@/utils/aiErrors';
 import { deletePhoto, uploadPhoto } from '@/utils/photoStorage';
 import { supabase } from '@/utils/supabase';
 import { Ionicons } from '@expo/vector-icons';
@@ -17,6 +18,7 @@ import {
   Modal,
   Platform,
   ScrollView,
+  Switch,
   Text,
   TextInput,
   TouchableOpacity,
@@ -45,6 +47,7 @@ export function ItineraryModal({ visible, onClose, itinerary, onSave }: Itinerar
   const [endDate, setEndDate] = useState<Date | null>(null);
   const [coverImageUrl, setCoverImageUrl] = useState<string | null>(null);
   const [oldImagePath, setOldImagePath] = useState<string | null>(null);
+  const [shareWithCommunity, setShareWithCommunity] = useState(false);
 
   // UI state
   const [isLoading, setIsLoading] = useState(false);
@@ -59,6 +62,10 @@ export function ItineraryModal({ visible, onClose, itinerary, onSave }: Itinerar
   const [keyboardVisible, setKeyboardVisible] = useState(false);
 
   const isEditMode = !!itinerary;
+  // Only the owner can delete a shared itinerary
+  const canDelete = isEditMode && itinerary?.role === 'owner';
+  // Only the owner decides whether the itinerary is shared with the community
+  const canChangeSharing = !isEditMode || itinerary?.role === 'owner';
 
   useEffect(() => {
     if (itinerary) {
@@ -67,6 +74,7 @@ export function ItineraryModal({ visible, onClose, itinerary, onSave }: Itinerar
       setStartDate(itinerary.start_time ? new Date(itinerary.start_time) : null);
       setEndDate(itinerary.end_time ? new Date(itinerary.end_time) : null);
       setCoverImageUrl(itinerary.cover_image_url || null);
+      setShareWithCommunity(!!itinerary.share_with_community);
       setOldImagePath(null);
     } else {
       resetForm();
@@ -88,6 +96,7 @@ export function ItineraryModal({ visible, onClose, itinerary, onSave }: Itinerar
     setStartDate(null);
     setEndDate(null);
     setCoverImageUrl(null);
+    setShareWithCommunity(false);
     setOldImagePath(null);
     setImageError(false);
     setErrors({});
@@ -176,6 +185,7 @@ export function ItineraryModal({ visible, onClose, itinerary, onSave }: Itinerar
           start_time: startDate?.toISOString() || null,
           end_time: endDate?.toISOString() || null,
           cover_image_url: coverImageUrl || null,
+          ...(canChangeSharing && { share_with_community: shareWithCommunity }),
         };
         savedItinerary = await updateItinerary(itinerary.id, updateData);
         
@@ -190,6 +200,7 @@ export function ItineraryModal({ visible, onClose, itinerary, onSave }: Itinerar
           start_time: startDate?.toISOString() || undefined,
           end_time: endDate?.toISOString() || undefined,
           cover_image_url: coverImageUrl || undefined,
+          share_with_community: shareWithCommunity,
         };
         savedItinerary = await createItinerary(createData);
       }
@@ -217,6 +228,7 @@ export function ItineraryModal({ visible, onClose, itinerary, onSave }: Itinerar
 
       // Prepare current itinerary data
       const currentItinerary: Partial<Itinerary> = {
+        id: itinerary?.id,
         title: title.trim() || undefined,
         description: description.trim() || undefined,
         start_time: startDate?.toISOString() || undefined,
@@ -282,7 +294,10 @@ export function ItineraryModal({ visible, onClose, itinerary, onSave }: Itinerar
       const dataSuccess = needsDataFill && results[0]?.status === 'fulfilled';
       const imageSuccess = needsImage && results[imageResultIndex]?.status === 'fulfilled';
       
-      if (!dataSuccess && !imageSuccess) {
+      const quotaError = findQuotaError(results);
+      if (quotaError) {
+        alertAIError(quotaError, 'Failed to get AI suggestions. Please try again.');
+      } else if (!dataSuccess && !imageSuccess) {
         Alert.alert('Error', 'Failed to get AI suggestions. Please try again.');
       }
     } catch (error) {
@@ -403,7 +418,7 @@ export function ItineraryModal({ visible, onClose, itinerary, onSave }: Itinerar
           className="flex-1"
           contentContainerStyle={{
             paddingBottom:
-              isEditMode && !keyboardVisible ? 96 + insets.bottom : 32 + insets.bottom,
+              canDelete && !keyboardVisible ? 96 + insets.bottom : 32 + insets.bottom,
           }}
         >
           {/* Cover Image */}
@@ -545,6 +560,23 @@ export function ItineraryModal({ visible, onClose, itinerary, onSave }: Itinerar
             {errors.dates && (
               <Text className="text-destructive text-sm">{errors.dates}</Text>
             )}
+
+            {/* Community Sharing */}
+            {canChangeSharing && (
+              <View className="flex-row items-center bg-muted px-3 py-3 rounded-lg">
+                <View className="flex-1 mr-3">
+                  <Text className="text-foreground text-base">Share with Community</Text>
+                  <Text className="text-muted-foreground text-sm">
+                    Let AI suggestions for other travelers draw on this itinerary
+                  </Text>
+                </View>
+                <Switch
+                  value={shareWithCommunity}
+                  onValueChange={setShareWithCommunity}
+                  trackColor={{ false: colors.border, true: colors.primary }}
+                />
+              </View>
+            )}
           </View>
         </ScrollView>
 
@@ -552,7 +584,7 @@ export function ItineraryModal({ visible, onClose, itinerary, onSave }: Itinerar
         {!keyboardVisible && (
           <View
             className="absolute left-0 right-0 px-4"
-            style={{ bottom: isEditMode ? 72 + insets.bottom : 16 + insets.bottom }}
+            style={{ bottom: canDelete ? 72 + insets.bottom : 16 + insets.bottom }}
           >
             <View className="items-center">
               <TouchableOpacity
@@ -580,7 +612,7 @@ export function ItineraryModal({ visible, onClose, itinerary, onSave }: Itinerar
         )}
 
         {/* Delete button overlay – hidden when keyboard visible */}
-        {isEditMode && !keyboardVisible && (
+        {canDelete && !keyboardVisible && (
           <View
             className="absolute left-0 right-0 px-4"
             style={{ bottom: 16 + insets.bottom }}
@@ -0,0 +1,237 @@
+/**
+ * @file MessageActionsMenu component shown when a message is long-pressed
+ * Offers reactions and replies, editing and unsending for the sender's own messages, reporting other people's
+ * messages, and deleting a message for the current user only
+ */
+
+import { canEditMessage, REACTION_EMOJIS, type MessageWithSender } from '@/api/messages';
+import { useThemeColors } from '@/hooks/useThemeColors';
+import { useMessagesStore } from '@/stores/messages';
+import { FontAwesome } from '@expo/vector-icons';
+import React from 'react';
+import { Alert, Modal, Text, TouchableOpacity, View } from 'react-native';
+
+/**
+ * Props for the MessageActionsMenu component
+ */
+interface MessageActionsMenuProps {
+  /** The long-pressed message, or null when the menu is hidden */
+  message: MessageWithSender | null;
+  /** The current user's ID */
+  currentUserId: string;
+  /** Called when the menu should close */
+  onClose: () => void;
+  /** Called when the user chooses to edit the message */
+  onEdit: (message: MessageWithSender) => void;
+  /** Called when the user chooses to reply to the message */
+  onReply: (message: MessageWithSender) => void;
+  /** Called when the user chooses to report someone else's message */
+  onReport: (message: MessageWithSender) => void;
+}
+
+interface MessageAction {
+  id: string;
+  icon: string;
+  title: string;
+  destructive?: boolean;
+  onPress: () => void;
+}
+
+/**
+ * Bottom sheet of actions for a single message
+ *
+ * @param props - Component props
+ * @returns JSX element for the message actions menu
+ */
+export default function MessageActionsMenu({
+  message,
+  currentUserId,
+  onClose,
+  onEdit,
+  onReply,
+  onReport,
+}: MessageActionsMenuProps) {
+  const colors = useThemeColors();
+  const { unsendMessage, deleteMessageForMe, toggleReaction } = useMessagesStore();
+
+  if (!message) return null;
+
+  const isOwnMessage = message.senderId === currentUserId;
+  const isUnsent = !!message.deletedAt;
+
+  /**
+   * Adds or removes the current user's reaction
+   */
+  const handleReaction = async (emoji: string) => {
+    onClose();
+    const result = await toggleReaction(message.conversationId, message.id, emoji, currentUserId);
+    if (!result.success) {
+      Alert.alert('Reaction Failed', result.error || 'Failed to update reaction. Please try again.');
+    }
+  };
+
+  /**
+   * Confirms and unsends the message for everyone
+   */
+  const handleUnsend = () => {
+    onClose();
+    Alert.alert(
+      'Unsend Message',
+      'This message will be removed for everyone in the conversation.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Unsend',
+          style: 'destructive',
+          onPress: async () => {
+            const result = await unsendMessage(message.conversationId, message.id);
+            if (!result.success) {
+              Alert.alert('Unsend Failed', result.error || 'Failed to unsend message. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  /**
+   * Confirms and hides the message for the current user only
+   */
+  const handleDeleteForMe = () => {
+    onClose();
+    Alert.alert(
+      'Delete for Me',
+      'This message will be removed from your view. Others in the conversation will still see it.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            const result = await deleteMessageForMe(message.conversationId, message.id, currentUserId);
+            if (!result.success) {
+              Alert.alert('Delete Failed', result.error || 'Failed to delete message. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const actions: MessageAction[] = [];
+
+  if (!isUnsent) {
+    actions.push({
+      id: 'reply',
+      icon: 'reply',
+      title: 'Reply',
+      onPress: () => {
+        onClose();
+        onReply(message);
+      },
+    });
+  }
+
+  if (canEditMessage(message, currentUserId)) {
+    actions.push({
+      id: 'edit',
+      icon: 'pencil',
+      title: 'Edit',
+      onPress: () => {
+        onClose();
+        onEdit(message);
+      },
+    });
+  }
+
+  if (isOwnMessage && !isUnsent) {
+    actions.push({ id: 'unsend', icon: 'undo', title: 'Unsend for Everyone', destructive: true, onPress: handleUnsend });
+  }
+
+  if (!isOwnMessage && !isUnsent) {
+    actions.push({
+      id: 'report',
+      icon: 'flag',
+      title: 'Report',
+      destructive: true,
+      onPress: () => {
+        onClose();
+        onReport(message);
+      },
+    });
+  }
+
+  actions.push({ id: 'delete-for-me', icon: 'trash', title: 'Delete for Me', destructive: true, onPress: handleDeleteForMe });
+
+  return (
+    <Modal
+      visible
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <TouchableOpacity
+        className="flex-1 justify-end"
+        style={{ backgroundColor: 'rgba(0, 0, 0, 0.5)' }}
+        activeOpacity={1}
+        onPress={onClose}
+      >
+        <TouchableOpacity
+          className="rounded-t-3xl p-6"
+          style={{ backgroundColor: colors.card }}
+          activeOpacity={1}
+        >
+          <View className="w-12 h-1 rounded-full self-center mb-6" style={{ backgroundColor: colors.muted }} />
+
+          {/* Reactions */}
+          {!isUnsent && (
+            <View className="flex-row justify-between rounded-xl px-3 py-2 mb-3" style={{ backgroundColor: colors.secondary }}>
+              {REACTION_EMOJIS.map((emoji) => {
+                const isSelected = message.reactions.some(r => r.userId === currentUserId && r.emoji === emoji);
+
+                return (
+                  <TouchableOpacity
+                    key={emoji}
+                    className="w-11 h-11 rounded-full items-center justify-center"
+                    style={{ backgroundColor: isSelected ? colors.muted : 'transparent' }}
+                    onPress={() => handleReaction(emoji)}
+                  >
+                    <Text className="text-2xl">{emoji}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          )}
+
+          {actions.map((action) => (
+            <TouchableOpacity
+              key={action.id}
+              className="flex-row items-center rounded-xl p-4 mb-3"
+              style={{ backgroundColor: colors.secondary }}
+              onPress={action.onPress}
+            >
+              <FontAwesome
+                name={action.icon as any}
+                size={18}
+                color={action.destructive ? colors.destructive : colors.foreground}
+              />
+              <Text
+                className="font-semibold ml-3"
+                style={{ color: action.destructive ? colors.destructive : colors.foreground }}
+              >
+                {action.title}
+              </Text>
+            </TouchableOpacity>
+          ))}
+
+          <TouchableOpacity
+            className="mt-3 py-3"
+            onPress={onClose}
+          >
+            <Text className="text-center" style={{ color: colors.mutedForeground }}>Cancel</Text>
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
@@ -1,12 +1,19 @@
 /**
  * @file MessageBubble component for displaying individual messages in chat conversations
- * Handles different styling for sent vs received messages, timestamps, and sender avatars
+ * Handles different styling for sent vs received messages, timestamps, sender avatars, edited or unsent messages,
+ * quoted replies, reactions, view-once photos, shared cards, system messages and the delivery state of queued messages
  */
 
-import { type MessageWithSender } from '@/api/messages';
+import { parseMessageCard, parseSystemMessage, type MessageWithSender, type SystemMessageEvent } from '@/api/messages';
 import { useThemeColors } from '@/hooks/useThemeColors';
-import React from 'react';
-import { Image, Text, View } from 'react-native';
+import { useMessagesStore } from '@/stores/messages';
+import { type OutboxStatus } from '@/stores/outbox';
+import { getMessagePreviewText } from '@/utils/messagePreview';
+import { describeSystemMessage } from '@/utils/systemMessages';
+import { FontAwesome } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import { Alert, Image, Modal, Pressable, Text, TouchableOpacity, View } from 'react-native';
+import MessageCard from './MessageCard';
 import UserAvatar from './UserAvatar';
 
 /**
@@ -21,8 +28,27 @@ interface MessageBubbleProps {
   showAvatar?: boolean;
   /** Whether to show the sender's name (typically only for received messages in groups) */
   showSenderName?: boolean;
+  /** Called when the message is long-pressed, to show its actions */
+  onLongPress?: (message: MessageWithSender) => void;
+  /** Delivery state of a message still in the outbox */
+  deliveryStatus?: OutboxStatus;
+  /** Called when a message that failed to send is tapped */
+  onRetry?: () => void;
 }
 
+/**
+ * Icon shown beside each kind of system message
+ */
+const SYSTEM_MESSAGE_ICONS: Record<SystemMessageEvent['event'], React.ComponentProps<typeof FontAwesome>['name']> = {
+  message_expiry_changed: 'clock-o',
+  participants_added: 'user-plus',
+  participant_removed: 'user-times',
+  participant_left: 'sign-out',
+  participant_role_changed: 'star',
+  conversation_renamed: 'pencil',
+  conversation_avatar_changed: 'image',
+};
+
 /**
  * Component for displaying individual message bubbles with sent/received styling
  * 
@@ -34,9 +60,32 @@ export default function MessageBubble({
   currentUserId,
   showAvatar = false,
   showSenderName = false,
+  onLongPress,
+  deliveryStatus,
+  onRetry,
 }: MessageBubbleProps) {
   const isSentByCurrentUser = message.senderId === currentUserId;
+  const isUnsent = !!message.deletedAt;
   const colors = useThemeColors();
+  const { openViewOnce, toggleReaction } = useMessagesStore();
+  // The photo being shown full screen; view-once messages never carry it themselves
+  const [viewOnceUri, setViewOnceUri] = useState<string | null>(null);
+
+  const hasViewed = message.viewedBy.includes(currentUserId);
+  const canOpenViewOnce = message.viewOnce && !isSentByCurrentUser && !hasViewed && !message.openedAt && !isUnsent;
+
+  /**
+   * Shows a view-once photo full screen and records that the current user opened it
+   */
+  const handleOpenViewOnce = async () => {
+    const result = await openViewOnce(message.conversationId, message.id, currentUserId);
+    if (!result.success || !result.uri) {
+      Alert.alert('Unable to Open', result.error || 'Failed to open photo. Please try again.');
+      return;
+    }
+
+    setViewOnceUri(result.uri);
+  };
 
   /**
    * Formats the message timestamp for display
@@ -97,6 +146,23 @@ export default function MessageBubble({
    * Renders the message content based on type
    */
   const renderMessageContent = () => {
+    if (isUnsent) {
+      return (
+        <Text className="text-base italic" style={{ color: colors.mutedForeground }}>
+          {isSentByCurrentUser ? 'You unsent a message' : 'This message was unsent'}
+        </Text>
+      );
+    }
+
+    if (message.viewOnce) {
+      return renderViewOnceContent();
+    }
+
+    const card = parseMessageCard(message);
+    if (card) {
+      return <MessageCard card={card} isSentByCurrentUser={isSentByCurrentUser} />;
+    }
+
     if (message.type === 'photo') {
       // Display actual photo for photo messages
       return (
@@ -118,18 +184,133 @@ export default function MessageBubble({
       <Text 
         className="text-base"
         style={{ color: isSentByCurrentUser ? colors.primaryForeground : colors.foreground }}
-        selectable
+        // Text selection would swallow the long press that opens the message actions
+        selectable={!onLongPress}
       >
         {message.content}
       </Text>
     );
   };
 
+  /**
+   * Renders the quoted message above a reply
+   */
+  const renderReplyPreview = () => {
+    if (!message.replyToId || isUnsent) return null;
+
+    const textColor = isSentByCurrentUser ? colors.primaryForeground : colors.foreground;
+    const quotedName = message.replyTo
+      ? message.replyTo.senderId === currentUserId ? 'You' : message.replyTo.senderName || 'Unknown User'
+      : null;
+
+    return (
+      <View
+        className="rounded-lg px-3 py-2 mb-2"
+        style={{ borderLeftColor: textColor, borderLeftWidth: 3, backgroundColor: 'rgba(0, 0, 0, 0.08)' }}
+      >
+        {message.replyTo ? (
+          <>
+            <Text className="text-xs font-semibold" style={{ color: textColor }}>{quotedName}</Text>
+            <Text className="text-sm" style={{ color: textColor, opacity: 0.8 }} numberOfLines={2}>
+              {getMessagePreviewText(message.replyTo)}
+            </Text>
+          </>
+        ) : (
+          <Text className="text-sm italic" style={{ color: textColor, opacity: 0.8 }}>
+            Original message is no longer available
+          </Text>
+        )}
+      </View>
+    );
+  };
+
+  /**
+   * Renders reaction chips below the bubble, one per emoji with its count; tapping one toggles the
+   * current user's reaction
+   */
+  const renderReactions = () => {
+    if (message.reactions.length === 0 || isUnsent) return null;
+
+    const counts = new Map<string, { count: number; isMine: boolean }>();
+    for (const reaction of message.reactions) {
+      const entry = counts.get(reaction.emoji) || { count: 0, isMine: false };
+      counts.set(reaction.emoji, {
+        count: entry.count + 1,
+        isMine: entry.isMine || reaction.userId === currentUserId,
+      });
+    }
+
+    return (
+      <View className={`flex-row flex-wrap mt-1 ${isSentByCurrentUser ? 'justify-end' : 'justify-start'}`}>
+        {[...counts.entries()].map(([emoji, { count, isMine }]) => (
+          <TouchableOpacity
+            key={emoji}
+            className="flex-row items-center rounded-full px-2 py-0.5 mr-1 mb-1"
+            style={{
+              backgroundColor: isMine ? colors.muted : colors.card,
+              borderColor: isMine ? colors.primary : colors.border,
+              borderWidth: 1,
+            }}
+            onPress={() => toggleReaction(message.conversationId, message.id, emoji, currentUserId)}
+          >
+            <Text className="text-sm">{emoji}</Text>
+            {count > 1 && (
+              <Text className="text-xs ml-1" style={{ color: colors.mutedForeground }}>{count}</Text>
+            )}
+          </TouchableOpacity>
+        ))}
+      </View>
+    );
+  };
+
+  /**
+   * Renders a view-once photo as a tile; the photo itself is only shown full screen
+   */
+  const renderViewOnceContent = () => {
+    const textColor = isSentByCurrentUser ? colors.primaryForeground : colors.foreground;
+    let label: string;
+
+    if (isSentByCurrentUser) {
+      label = message.openedAt ? 'Opened' : message.viewedBy.length > 0 ? `Opened by ${message.viewedBy.length}` : 'View-once photo';
+    } else {
+      label = canOpenViewOnce ? 'Tap to view photo' : 'Opened';
+    }
+
+    return (
+      <View className="flex-row items-center">
+        <FontAwesome name={canOpenViewOnce ? 'eye' : 'eye-slash'} size={16} color={textColor} />
+        <Text className="text-base font-medium ml-2" style={{ color: textColor }}>
+          {label}
+        </Text>
+      </View>
+    );
+  };
+
   /**
    * Renders the timestamp below the message
    */
   const renderTimestamp = () => {
+    if (deliveryStatus === 'sending') {
+      return (
+        <Text className="text-xs mt-1 text-right" style={{ color: colors.mutedForeground }}>
+          Sending…
+        </Text>
+      );
+    }
+
+    if (deliveryStatus === 'failed') {
+      return (
+        <TouchableOpacity onPress={onRetry} disabled={!onRetry} className="flex-row items-center mt-1">
+          <FontAwesome name="exclamation-circle" size={12} color={colors.destructive} />
+          <Text className="text-xs ml-1" style={{ color: colors.destructive }}>
+            Not sent · Tap to retry
+          </Text>
+        </TouchableOpacity>
+      );
+    }
+
     const timestamp = formatTimestamp(message.createdAt);
+    const isEdited = !!message.editedAt && !isUnsent;
     
     return (
       <Text 
@@ -141,10 +322,31 @@ export default function MessageBubble({
         style={{ color: colors.mutedForeground }}
       >
         {timestamp}
+        {isEdited && ' · Edited'}
       </Text>
     );
   };
 
+  if (message.type === 'system') {
+    const event = parseSystemMessage(message);
+    if (!event) return null;
+
+    const actorName = isSentByCurrentUser
+      ? 'You'
+      : message.sender.fullName || message.sender.username || 'Someone';
+
+    return (
+      <View className="items-center mb-4 px-6">
+        <View className="flex-row items-center rounded-full px-3 py-1" style={{ backgroundColor: colors.secondary }}>
+          <FontAwesome name={SYSTEM_MESSAGE_ICONS[event.event]} size={11} color={colors.mutedForeground} />
+          <Text className="text-xs text-center ml-2 shrink" style={{ color: colors.mutedForeground }}>
+            {describeSystemMessage(event, actorName, currentUserId)}
+          </Text>
+        </View>
+      </View>
+    );
+  }
+
   return (
     <View 
       className={`flex-row mb-4 ${
@@ -164,18 +366,30 @@ export default function MessageBubble({
         {renderSenderName()}
         
         {/* Message bubble */}
-        <View
+        <Pressable
+          onPress={canOpenViewOnce ? handleOpenViewOnce : undefined}
+          onLongPress={onLongPress ? () => onLongPress(message) : undefined}
+          delayLongPress={300}
           className={`px-4 py-3 rounded-2xl ${
             isSentByCurrentUser
               ? 'rounded-br-md'
               : 'rounded-bl-md'
           }`}
           style={{ 
-            backgroundColor: isSentByCurrentUser ? colors.primary : colors.secondary 
+            backgroundColor: isUnsent
+              ? 'transparent'
+              : isSentByCurrentUser ? colors.primary : colors.secondary,
+            borderColor: colors.border,
+            borderWidth: isUnsent ? 1 : 0,
+            opacity: deliveryStatus ? 0.7 : 1,
           }}
         >
+          {renderReplyPreview()}
           {renderMessageContent()}
-        </View>
+        </Pressable>
+
+        {/* Reactions */}
+        {renderReactions()}
         
         {/* Timestamp */}
         {renderTimestamp()}
@@ -183,6 +397,28 @@ export default function MessageBubble({
       
       {/* Spacer for sent messages to maintain alignment */}
       {isSentByCurrentUser && <View className="w-8 h-8" />}
+
+      {/* Full screen view-once photo */}
+      <Modal
+        visible={!!viewOnceUri}
+        animationType="fade"
+        onRequestClose={() => setViewOnceUri(null)}
+      >
+        <TouchableOpacity
+          className="flex-1 items-center justify-center"
+          style={{ backgroundColor: 'black' }}
+          activeOpacity={1}
+          onPress={() => setViewOnceUri(null)}
+        >
+          {viewOnceUri && (
+            <Image
+              source={{ uri: viewOnceUri }}
+              className="w-full h-full"
+              resizeMode="contain"
+            />
+          )}
+        </TouchableOpacity>
+      </Modal>
     </View>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,212 @@
+/**
+ * @file MessageCard component for itineraries, activities and locations shared in chat
+ * Shared itineraries can be saved as a copy in the recipient's own trips
+ */
+
+import { createActivity } from '@/api/activities';
+import { type ItineraryCardContent, type LocationCardContent, type MessageCard as MessageCardData } from '@/api/messages';
+import { useThemeColors } from '@/hooks/useThemeColors';
+import { useItinerariesStore } from '@/stores/itinerariesStore';
+import { FontAwesome } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React, { useState } from 'react';
+import { ActivityIndicator, Alert, Linking, Platform, Text, TouchableOpacity, View } from 'react-native';
+import MapView, { Marker } from 'react-native-maps';
+import { ActivityCard } from './ActivityCard';
+import { ItineraryCard } from './ItineraryCard';
+
+/**
+ * Props for the MessageCard component
+ */
+interface MessageCardProps {
+  /** The card held by the message */
+  card: MessageCardData;
+  /** Whether the current user shared the card; senders are not offered to save their own itinerary */
+  isSentByCurrentUser: boolean;
+}
+
+/**
+ * Opens a location in the device's maps app
+ */
+const openInMaps = async ({ latitude, longitude, name }: Pick<LocationCardContent, 'latitude' | 'longitude' | 'name'>) => {
+  const label = encodeURIComponent(name || 'Shared location');
+  const url = Platform.OS === 'ios'
+    ? `http://maps.apple.com/?ll=${latitude},${longitude}&q=${label}`
+    : `geo:${latitude},${longitude}?q=${latitude},${longitude}(${label})`;
+
+  try {
+    await Linking.openURL(url);
+  } catch (error) {
+    console.error('Error opening maps:', error);
+    Alert.alert('Unable to Open Maps', 'No maps app is available to show this location.');
+  }
+};
+
+/**
+ * Card for an itinerary, activity or location shared in a message
+ *
+ * @param props - Component props
+ * @returns JSX element for the shared card
+ */
+export default function MessageCard({ card, isSentByCurrentUser }: MessageCardProps) {
+  const colors = useThemeColors();
+  const { createItinerary, getItineraryById } = useItinerariesStore();
+  const [isSaving, setIsSaving] = useState(false);
+
+  /**
+   * Copies a shared itinerary and its activities into the current user's trips
+   */
+  const handleSaveItinerary = async ({ itinerary, activities }: ItineraryCardContent) => {
+    setIsSaving(true);
+
+    try {
+      const savedItinerary = await createItinerary({
+        title: itinerary.title,
+        description: itinerary.description ?? undefined,
+        start_time: itinerary.start_time ?? undefined,
+        end_time: itinerary.end_time ?? undefined,
+        cover_image_url: itinerary.cover_image_url ?? undefined,
+      });
+
+      // One at a time, since each activity is geocoded and looks up the weather
+      let failedCount = 0;
+      for (const activity of activities) {
+        try {
+          await createActivity({
+            title: activity.title,
+            description: activity.description ?? undefined,
+            location: activity.location ?? undefined,
+            start_time: activity.start_time ?? undefined,
+            end_time: activity.end_time ?? undefined,
+            image_url: activity.image_url ?? undefined,
+            tags: activity.tags,
+            itinerary_id: savedItinerary.id,
+          });
+        } catch (error) {
+          console.error('Error copying shared activity:', error);
+          failedCount++;
+        }
+      }
+
+      Alert.alert(
+        'Saved to My Trips',
+        failedCount > 0
+          ? `${itinerary.title} was saved, but ${failedCount} of its activities could not be copied.`
+          : `${itinerary.title} was saved to your trips.`,
+        [
+          { text: 'OK', style: 'cancel' },
+          { text: 'View', onPress: () => router.push(`/itineraries/${savedItinerary.id}`) },
+        ]
+      );
+    } catch (error) {
+      console.error('Error saving shared itinerary:', error);
+      Alert.alert('Save Failed', error instanceof Error ? error.message : 'Failed to save itinerary. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (card.type === 'itinerary') {
+    const { itinerary, activities } = card.content;
+    // Members of the shared itinerary can open it directly
+    const hasAccess = !!getItineraryById(itinerary.id);
+
+    return (
+      <View className="w-64">
+        <ItineraryCard
+          itinerary={itinerary}
+          onPress={(id) => {
+            if (hasAccess) {
+              router.push(`/itineraries/${id}`);
+            } else if (!isSentByCurrentUser) {
+              Alert.alert(itinerary.title, 'Save a copy of this itinerary to view and edit it.', [
+                { text: 'Cancel', style: 'cancel' },
+                { text: 'Save to My Trips', onPress: () => handleSaveItinerary(card.content) },
+              ]);
+            }
+          }}
+        />
+        <Text
+          className="text-xs -mt-2 mb-2"
+          style={{ color: isSentByCurrentUser ? colors.primaryForeground : colors.mutedForeground }}
+        >
+          {activities.length} {activities.length === 1 ? 'activity' : 'activities'}
+        </Text>
+        {!isSentByCurrentUser && (
+          <TouchableOpacity
+            className="flex-row items-center justify-center rounded-xl py-2"
+            style={{ backgroundColor: colors.card }}
+            onPress={() => handleSaveItinerary(card.content)}
+            disabled={isSaving}
+          >
+            {isSaving ? (
+              <ActivityIndicator size="small" color={colors.primary} />
+            ) : (
+              <>
+                <FontAwesome name="bookmark-o" size={14} color={colors.primary} />
+                <Text className="font-semibold ml-2" style={{ color: colors.primary }}>Save to My Trips</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  }
+
+  if (card.type === 'activity') {
+    const { activity } = card.content;
+
+    return (
+      <View className="w-64">
+        <ActivityCard
+          activity={activity}
+          onPress={() => {
+            if (activity.gps_coords) {
+              openInMaps({ latitude: activity.gps_coords[0], longitude: activity.gps_coords[1], name: activity.title });
+            }
+          }}
+        />
+      </View>
+    );
+  }
+
+  const location = card.content;
+
+  return (
+    <TouchableOpacity className="w-64" onPress={() => openInMaps(location)} activeOpacity={0.8}>
+      <View className="rounded-lg overflow-hidden" style={{ height: 140 }}>
+        {/* Static preview; tapping the card opens the maps app */}
+        <MapView
+          style={{ flex: 1 }}
+          pointerEvents="none"
+          liteMode
+          scrollEnabled={false}
+          zoomEnabled={false}
+          rotateEnabled={false}
+          pitchEnabled={false}
+          initialRegion={{
+            latitude: location.latitude,
+            longitude: location.longitude,
+            latitudeDelta: 0.01,
+            longitudeDelta: 0.01,
+          }}
+        >
+          <Marker coordinate={{ latitude: location.latitude, longitude: location.longitude }} />
+        </MapView>
+      </View>
+      <View className="rounded-lg px-3 py-2 mt-1" style={{ backgroundColor: colors.card }}>
+        <View className="flex-row items-center">
+          <FontAwesome name="map-marker" size={14} color={colors.primary} />
+          <Text className="font-semibold ml-2 flex-1" style={{ color: colors.foreground }} numberOfLines={1}>
+            {location.name || 'Pinned location'}
+          </Text>
+        </View>
+        {location.address && (
+          <Text className="text-xs mt-1" style={{ color: colors.mutedForeground }} numberOfLines={2}>
+            {location.address}
+          </Text>
+        )}
+      </View>
+    </TouchableOpacity>
+  );
+}
@@ -1,11 +1,15 @@
 /**
  * @file MessageInput component for composing and sending messages in chat conversations
- * Provides a text input field with send button, character limit, and error handling
+ * Provides a text input field with send button, character limit, and error handling.
+ * Also edits an existing message when one is passed as `editingMessage`, and sends a reply when one is passed as `replyingTo`.
+ * Tells the other participants when the user is typing, and shares itineraries, activities and locations as cards.
  */
 
-import { type CreateMessageData } from '@/api/messages';
+import { type CardMessageType, type CreateMessageData, type MessageWithSender } from '@/api/messages';
+import { useDebounce } from '@/hooks/useDebounce';
 import { useThemeColors } from '@/hooks/useThemeColors';
 import { useMessagesStore } from '@/stores/messages';
+import { getMessagePreviewText } from '@/utils/messagePreview';
 import { FontAwesome } from '@expo/vector-icons';
 import React, { useEffect, useRef, useState } from 'react';
 import {
@@ -17,6 +21,7 @@ import {
   View,
   type TextInput as TextInputType
 } from 'react-native';
+import ShareCardMenu from './ShareCardMenu';
 
 /**
  * Props for the MessageInput component
@@ -32,6 +37,14 @@ interface MessageInputProps {
   disabled?: boolean;
   /** Callback when a message is successfully sent */
   onMessageSent?: () => void;
+  /** Message being edited; its text replaces the input until the edit is saved or cancelled */
+  editingMessage?: MessageWithSender | null;
+  /** Called when editing ends, whether saved or cancelled */
+  onEditEnd?: () => void;
+  /** Message being replied to; the next message sent quotes it */
+  replyingTo?: MessageWithSender | null;
+  /** Called when replying ends, whether sent or cancelled */
+  onReplyEnd?: () => void;
 }
 
 /**
@@ -41,6 +54,16 @@ const MESSAGE_LIMITS = {
   MAX_CONTENT_LENGTH: 2000,
 } as const;
 
+/**
+ * Typing event timing constants
+ */
+const TYPING_EVENTS = {
+  /** Pause in typing after which the user counts as stopped */
+  IDLE_MS: 2000,
+  /** How often typing is re-announced while the user keeps typing; below the receivers' timeout */
+  REFRESH_MS: 3000,
+} as const;
+
 /**
  * Component for composing and sending messages with text input and send button
  * 
@@ -53,18 +76,68 @@ export default function MessageInput({
   placeholder = "Type a message...",
   disabled = false,
   onMessageSent,
+  editingMessage = null,
+  onEditEnd,
+  replyingTo = null,
+  onReplyEnd,
 }: MessageInputProps) {
   const [messageText, setMessageText] = useState('');
   const [showCharacterCount, setShowCharacterCount] = useState(false);
   const [keepKeyboardUp, setKeepKeyboardUp] = useState(false);
+  const [showShareMenu, setShowShareMenu] = useState(false);
   const inputRef = useRef<TextInputType>(null);
   const colors = useThemeColors();
 
   // Get store state and actions
   const {
     sendMessage,
+    editMessage,
+    sendTypingStatus,
     sendingState,
   } = useMessagesStore();
+  const [isSavingEdit, setIsSavingEdit] = useState(false);
+
+  // The user is typing while the text keeps changing; edits are not announced
+  const debouncedText = useDebounce(messageText, TYPING_EVENTS.IDLE_MS);
+  const isTyping = !editingMessage && messageText.trim().length > 0 && messageText !== debouncedText;
+  const lastTypingSentAt = useRef(0);
+
+  /**
+   * Announces typing when it starts and periodically while it continues, and announces when it stops
+   */
+  useEffect(() => {
+    if (isTyping) {
+      if (Date.now() - lastTypingSentAt.current >= TYPING_EVENTS.REFRESH_MS) {
+        sendTypingStatus(conversationId, currentUserId, true);
+        lastTypingSentAt.current = Date.now();
+      }
+    } else if (lastTypingSentAt.current) {
+      sendTypingStatus(conversationId, currentUserId, false);
+      lastTypingSentAt.current = 0;
+    }
+  }, [isTyping, messageText, conversationId, currentUserId, sendTypingStatus]);
+
+  /**
+   * Loads the message being edited into the input
+   */
+  useEffect(() => {
+    if (editingMessage) {
+      setMessageText(editingMessage.content);
+      inputRef.current?.focus();
+    } else {
+      setMessageText('');
+    }
+    setShowCharacterCount(false);
+  }, [editingMessage]);
+
+  /**
+   * Focuses the input when starting a reply
+   */
+  useEffect(() => {
+    if (replyingTo) {
+      inputRef.current?.focus();
+    }
+  }, [replyingTo]);
 
   /**
    * Validates message content before sending
@@ -86,10 +159,44 @@ export default function MessageInput({
     return { isValid: true };
   };
 
+  /**
+   * Saves the edited text of the message being edited
+   */
+  const handleSaveEdit = async () => {
+    if (!editingMessage) return;
+
+    const validation = validateMessage(messageText);
+    if (!validation.isValid) {
+      Alert.alert('Invalid Message', validation.error);
+      return;
+    }
+
+    // Nothing to save
+    if (messageText.trim() === editingMessage.content) {
+      onEditEnd?.();
+      return;
+    }
+
+    setIsSavingEdit(true);
+    const result = await editMessage(conversationId, editingMessage.id, messageText.trim(), currentUserId);
+    setIsSavingEdit(false);
+
+    if (result.success) {
+      onEditEnd?.();
+    } else {
+      Alert.alert('Edit Failed', result.error || 'Failed to edit message. Please try again.');
+    }
+  };
+
   /**
    * Handles sending a message
    */
   const handleSendMessage = async () => {
+    if (editingMessage) {
+      await handleSaveEdit();
+      return;
+    }
+
     // Validate inputs
     if (!conversationId || !currentUserId) {
       Alert.alert('Error', 'Invalid conversation or user');
@@ -107,6 +214,7 @@ export default function MessageInput({
       conversationId,
       content: messageText.trim(),
       type: 'text',
+      replyToId: replyingTo?.id,
     };
 
     // Set flag to keep keyboard up
@@ -121,6 +229,9 @@ export default function MessageInput({
         setShowCharacterCount(false);
         
         // Notify parent
+        if (replyingTo) {
+          onReplyEnd?.();
+        }
         onMessageSent?.();
         
         // Keep focus on the input
@@ -140,6 +251,29 @@ export default function MessageInput({
     }
   };
 
+  /**
+   * Sends an itinerary, activity or location card
+   *
+   * @returns Whether the card was sent or queued
+   */
+  const handleShareCard = async (type: CardMessageType, content: string): Promise<boolean> => {
+    const result = await sendMessage(
+      { conversationId, content, type, replyToId: replyingTo?.id },
+      currentUserId
+    );
+
+    if (!result.success) {
+      Alert.alert('Share Failed', result.error || 'Failed to share. Please try again.');
+      return false;
+    }
+
+    if (replyingTo) {
+      onReplyEnd?.();
+    }
+    onMessageSent?.();
+    return true;
+  };
+
   /**
    * Handles text input changes with character limit monitoring
    */
@@ -167,6 +301,7 @@ export default function MessageInput({
     return (
       disabled ||
       sendingState.isSending ||
+      isSavingEdit ||
       !messageText.trim() ||
       messageText.length > MESSAGE_LIMITS.MAX_CONTENT_LENGTH
     );
@@ -210,11 +345,60 @@ export default function MessageInput({
 
   return (
     <View style={{ backgroundColor: colors.card, borderTopColor: colors.border, borderTopWidth: 1 }}>
+      {/* Edit mode banner */}
+      {editingMessage && (
+        <View className="flex-row items-center px-4 pt-3">
+          <FontAwesome name="pencil" size={12} color={colors.mutedForeground} />
+          <Text className="flex-1 text-xs ml-2" style={{ color: colors.mutedForeground }}>
+            Editing message
+          </Text>
+          <TouchableOpacity onPress={onEditEnd} hitSlop={8}>
+            <FontAwesome name="close" size={14} color={colors.mutedForeground} />
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {/* Reply banner */}
+      {replyingTo && !editingMessage && (
+        <View className="flex-row items-center px-4 pt-3">
+          <FontAwesome name="reply" size={12} color={colors.mutedForeground} />
+          <View className="flex-1 ml-2">
+            <Text className="text-xs font-semibold" style={{ color: colors.mutedForeground }}>
+              Replying to {replyingTo.senderId === currentUserId
+                ? 'yourself'
+                : replyingTo.sender.fullName || replyingTo.sender.username || 'Unknown User'}
+            </Text>
+            <Text className="text-xs" style={{ color: colors.mutedForeground }} numberOfLines={1}>
+              {getMessagePreviewText(replyingTo)}
+            </Text>
+          </View>
+          <TouchableOpacity onPress={onReplyEnd} hitSlop={8}>
+            <FontAwesome name="close" size={14} color={colors.mutedForeground} />
+          </TouchableOpacity>
+        </View>
+      )}
+
       {/* Character count display */}
       {renderCharacterCount()}
       
       {/* Input container */}
       <View className="flex-row items-end px-4 py-3">
+        {/* Share button */}
+        {!editingMessage && (
+          <TouchableOpacity
+            className="w-11 h-11 items-center justify-center mr-1"
+            onPress={() => setShowShareMenu(true)}
+            disabled={disabled}
+            activeOpacity={0.7}
+          >
+            <FontAwesome
+              name="plus-circle"
+              size={22}
+              color={disabled ? colors.mutedForeground : colors.primary}
+            />
+          </TouchableOpacity>
+        )}
+
         {/* Text input */}
         <View className="flex-1 mr-3">
           <TextInput
@@ -270,17 +454,23 @@ export default function MessageInput({
           disabled={isSendDisabled()}
           activeOpacity={0.7}
         >
-          {sendingState.isSending ? (
+          {sendingState.isSending || isSavingEdit ? (
             <ActivityIndicator size="small" color="white" />
           ) : (
             <FontAwesome 
-              name="send" 
+              name={editingMessage ? 'check' : 'send'} 
               size={16} 
               color={isSendDisabled() ? colors.mutedForeground : colors.primaryForeground} 
             />
           )}
         </TouchableOpacity>
       </View>
+
+      <ShareCardMenu
+        visible={showShareMenu}
+        onClose={() => setShowShareMenu(false)}
+        onShare={handleShareCard}
+      />
     </View>
   );
 } 
\ No newline at end of file
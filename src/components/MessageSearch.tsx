@@ -0,0 +1,179 @@
+/**
+ * @file MessageSearch component for searching message history from the chat tab
+ * Shows matching messages with their conversation and opens the chat at the chosen message
+ */
+
+import { type MessageSearchResult } from '@/api/messages';
+import { useDebounce } from '@/hooks/useDebounce';
+import { useThemeColors } from '@/hooks/useThemeColors';
+import { useConversationsStore } from '@/stores/conversations';
+import { useMessagesStore } from '@/stores/messages';
+import { timeAgo } from '@/utils';
+import { FontAwesome } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, FlatList, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import UserAvatar from './UserAvatar';
+
+/**
+ * Props for the MessageSearch component
+ */
+interface MessageSearchProps {
+  /** The current user's ID */
+  currentUserId: string;
+  /** Called when the user leaves search */
+  onClose: () => void;
+}
+
+/**
+ * Search field and results for the user's message history
+ *
+ * @param props - Component props
+ * @returns JSX element for message search
+ */
+export default function MessageSearch({ currentUserId, onClose }: MessageSearchProps) {
+  const colors = useThemeColors();
+  const [searchInput, setSearchInput] = useState('');
+  const debouncedSearch = useDebounce(searchInput, 300);
+  const { searchState, searchMessages, clearSearch } = useMessagesStore();
+  const { getConversationById } = useConversationsStore();
+
+  useEffect(() => {
+    searchMessages(debouncedSearch);
+  }, [debouncedSearch, searchMessages]);
+
+  // Search starts empty each time it is opened
+  useEffect(() => {
+    return () => {
+      clearSearch();
+    };
+  }, [clearSearch]);
+
+  /**
+   * Gets the name of the conversation a result is in
+   */
+  const getConversationTitle = (result: MessageSearchResult): string => {
+    if (result.conversationType === 'group') {
+      return result.conversationTitle || 'Group Chat';
+    }
+
+    const otherParticipant = getConversationById(result.conversationId)?.participants
+      .find(p => p.userId !== currentUserId);
+    if (otherParticipant) {
+      return otherParticipant.user.fullName || otherParticipant.user.username || 'Unknown User';
+    }
+
+    return result.sender.id !== currentUserId
+      ? result.sender.fullName || result.sender.username || 'Direct Chat'
+      : 'Direct Chat';
+  };
+
+  /**
+   * Renders a matching message
+   */
+  const renderResult = ({ item }: { item: MessageSearchResult }) => {
+    const senderName = item.sender.id === currentUserId
+      ? 'You'
+      : item.sender.fullName || item.sender.username || 'Unknown User';
+
+    return (
+      <TouchableOpacity
+        onPress={() => router.push(`/chat/${item.conversationId}?messageId=${item.messageId}`)}
+        className="flex-row p-3 rounded-xl mb-3 shadow-sm"
+        style={{ backgroundColor: colors.card }}
+      >
+        <UserAvatar uri={item.sender.avatarUrl} size={40} className="mr-3" />
+        <View className="flex-1">
+          <View className="flex-row items-center">
+            <Text className="flex-1 font-bold" style={{ color: colors.foreground }} numberOfLines={1}>
+              {getConversationTitle(item)}
+            </Text>
+            <Text className="text-xs ml-2" style={{ color: colors.mutedForeground }}>
+              {timeAgo(item.createdAt)}
+            </Text>
+          </View>
+          <Text className="mt-1" style={{ color: colors.mutedForeground }} numberOfLines={3}>
+            <Text className="font-semibold">{senderName}: </Text>
+            {item.snippet.map((part, index) => (
+              <Text
+                key={index}
+                className={part.highlighted ? 'font-bold' : undefined}
+                style={part.highlighted ? { color: colors.foreground } : undefined}
+              >
+                {part.text}
+              </Text>
+            ))}
+          </Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  /**
+   * Renders what to show when there are no results
+   */
+  const renderEmptyState = () => {
+    if (searchState.isSearching) {
+      return <ActivityIndicator className="mt-10" size="large" color={colors.primary} />;
+    }
+
+    const message = searchState.error
+      ? searchState.error
+      : debouncedSearch.trim()
+        ? `No messages found for "${debouncedSearch.trim()}"`
+        : 'Search your messages';
+
+    return (
+      <Text className="text-center mt-10" style={{ color: searchState.error ? colors.destructive : colors.mutedForeground }}>
+        {message}
+      </Text>
+    );
+  };
+
+  return (
+    <View className="flex-1">
+      <View className="flex-row items-center mb-4">
+        <View
+          className="flex-1 flex-row items-center rounded-xl px-4 py-3"
+          style={{ backgroundColor: colors.card, borderColor: colors.border, borderWidth: 1 }}
+        >
+          <FontAwesome name="search" size={16} color={colors.mutedForeground} />
+          <TextInput
+            className="flex-1 ml-3 text-base"
+            style={{ color: colors.foreground, backgroundColor: 'transparent', paddingVertical: 0 }}
+            placeholder="Search messages..."
+            placeholderTextColor={colors.mutedForeground}
+            value={searchInput}
+            onChangeText={setSearchInput}
+            autoCapitalize="none"
+            autoCorrect={false}
+            autoFocus
+            returnKeyType="search"
+          />
+          {searchInput.length > 0 && (
+            <TouchableOpacity
+              onPress={() => setSearchInput('')}
+              className="ml-2 p-1"
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              <FontAwesome name="times-circle" size={16} color={colors.mutedForeground} />
+            </TouchableOpacity>
+          )}
+        </View>
+        <TouchableOpacity onPress={onClose} className="ml-3 py-2">
+          <Text className="font-semibold" style={{ color: colors.primary }}>Cancel</Text>
+        </TouchableOpacity>
+      </View>
+
+      <FlatList
+        data={debouncedSearch.trim() ? searchState.results : []}
+        keyExtractor={(item) => item.messageId}
+        renderItem={renderResult}
+        ListEmptyComponent={renderEmptyState}
+        contentContainerStyle={{ paddingBottom: 20 }}
+        keyboardShouldPersistTaps="handled"
+        keyboardDismissMode="on-drag"
+      />
+    </View>
+  );
+}
@@ -3,16 +3,20 @@
  * Integrates message display, input, and conversation management with real-time updates
  */
 
-import { type ConversationWithDetails } from '@/api/messages';
+import { type ConversationWithDetails, type MessageWithSender } from '@/api/messages';
 import { useThemeColors } from '@/hooks/useThemeColors';
 import { useConversationsStore } from '@/stores/conversations';
+import { useFriendsStore } from '@/stores/friends';
 import { useMessagesStore } from '@/stores/messages';
+import { toPendingMessage, useOutboxStore } from '@/stores/outbox';
 import { useUserStore } from '@/stores/user';
+import { getSeenByText } from '@/utils/readReceipts';
 import { FontAwesome } from '@expo/vector-icons';
 import { router } from 'expo-router';
-import React, { useCallback, useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   ActivityIndicator,
+  Alert,
   FlatList,
   KeyboardAvoidingView,
   Platform,
@@ -21,9 +25,13 @@ import {
   TouchableOpacity,
   View
 } from 'react-native';
+import DisappearingMessagesMenu from './DisappearingMessagesMenu';
+import GroupInfo from './GroupInfo';
+import MessageActionsMenu from './MessageActionsMenu';
 import MessageBubble from './MessageBubble';
 import MessageInput from './MessageInput';
 import MoreOptionsMenu from './MoreOptionsMenu';
+import ReportMenu from './ReportMenu';
 
 /**
  * Props for the ChatScreen component
@@ -31,18 +39,44 @@ import MoreOptionsMenu from './MoreOptionsMenu';
 interface ChatScreenProps {
   /** The ID of the conversation to display */
   conversationId: string;
+  /** A message to open the chat at, such as a search result */
+  messageId?: string;
 }
 
+/**
+ * A user being reported from the chat, optionally for one of their messages
+ */
+interface ReportTarget {
+  userId: string;
+  userName: string;
+  messageId?: string;
+}
+
+/**
+ * How long a message opened from search stays highlighted
+ */
+const HIGHLIGHT_DURATION_MS = 3000;
+
 /**
  * Component for displaying a chat conversation with messages and input
  * 
  * @param props - Component props
  * @returns JSX element for chat screen interface
  */
-export default function ChatScreen({ conversationId }: ChatScreenProps) {
+export default function ChatScreen({ conversationId, messageId }: ChatScreenProps) {
   const flatListRef = useRef<FlatList>(null);
   const [isInitialLoad, setIsInitialLoad] = useState(true);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  // Stay on the opened message rather than scrolling to the newest once loaded
+  const skipAutoScrollRef = useRef(!!messageId);
+  const scrolledToMessageIdRef = useRef<string | null>(null);
   const [showMoreOptions, setShowMoreOptions] = useState(false);
+  const [showDisappearingMessages, setShowDisappearingMessages] = useState(false);
+  const [showGroupInfo, setShowGroupInfo] = useState(false);
+  const [selectedMessage, setSelectedMessage] = useState<MessageWithSender | null>(null);
+  const [editingMessage, setEditingMessage] = useState<MessageWithSender | null>(null);
+  const [replyingTo, setReplyingTo] = useState<MessageWithSender | null>(null);
+  const [reportTarget, setReportTarget] = useState<ReportTarget | null>(null);
   const colors = useThemeColors();
 
   // Get stores
@@ -50,6 +84,7 @@ export default function ChatScreen({ conversationId }: ChatScreenProps) {
   const {
     getConversationById,
     refreshConversation,
+    isUserOnline,
   } = useConversationsStore();
 
   const {
@@ -59,16 +94,63 @@ export default function ChatScreen({ conversationId }: ChatScreenProps) {
     hasMoreMessages,
     isLoadingMoreMessages,
     fetchMessages,
+    loadMessageContext,
     subscribeToConversation,
     unsubscribeFromConversation,
     markAsRead,
+    getTypingUserIds,
+    retryOutbox,
+    deliverOutboxMessage,
+    discardOutboxMessage,
   } = useMessagesStore();
+  const outboxMessages = useOutboxStore((state) => state.messages);
+  const { blockUser, unblockUser, fetchBlockedUsers } = useFriendsStore();
+  const blockedUsers = useFriendsStore((state) => state.blockedUsers);
 
   // Get conversation and messages data
   const conversation = getConversationById(conversationId);
   const messages = getConversationMessages(conversationId);
   const isLoading = isConversationLoading(conversationId);
   const error = getConversationError(conversationId);
+  const typingUserIds = getTypingUserIds(conversationId);
+
+  // Messages still in the outbox are shown newest first, above the delivered ones
+  const pendingMessages = useMemo(() => (
+    outboxMessages
+      .filter(queued => queued.conversationId === conversationId && queued.senderId === currentUser?.id)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  ), [outboxMessages, conversationId, currentUser?.id]);
+
+  const displayedMessages = useMemo(() => {
+    if (!currentUser) return messages;
+
+    const sender = {
+      id: currentUser.id,
+      username: currentUser.username,
+      fullName: currentUser.fullName,
+      avatarUrl: currentUser.avatarUrl,
+    };
+    const pending = pendingMessages.map(queued => toPendingMessage(
+      queued,
+      sender,
+      queued.replyToId ? messages.find(message => message.id === queued.replyToId) : undefined
+    ));
+
+    return [...pending, ...messages];
+  }, [pendingMessages, messages, currentUser]);
+
+  // Direct chats can be blocked and reported from the options menu
+  const otherParticipant = conversation?.type === 'direct'
+    ? conversation.participants.find(p => p.userId !== currentUser?.id)
+    : undefined;
+  const otherParticipantName = otherParticipant?.user.fullName || otherParticipant?.user.username || 'this user';
+  const isOtherParticipantBlocked = !!otherParticipant && blockedUsers.some(blocked => blocked.userId === otherParticipant.userId);
+
+    // Read receipts are shown under the latest message
+  const latestMessage = messages.find(message => message.type !== 'system');
+  const seenByText = latestMessage && conversation && currentUser?.id
+    ? getSeenByText(latestMessage, conversation.participants, currentUser.id, conversation.type === 'direct')
+    : null;
 
   /**
    * Gets the conversation title for display
@@ -88,16 +170,38 @@ export default function ChatScreen({ conversationId }: ChatScreenProps) {
   };
 
   /**
-   * Gets the conversation subtitle (participant count for groups)
+   * Gets the conversation subtitle (participant count for groups, online status for direct chats)
    */
   const getConversationSubtitle = (conv: ConversationWithDetails): string | null => {
     if (conv.type === 'group') {
       const participantCount = conv.participants.length;
       return `${participantCount} participant${participantCount !== 1 ? 's' : ''}`;
     }
+
+    const otherParticipant = conv.participants.find(p => p.userId !== currentUser?.id);
+    if (otherParticipant && isUserOnline(otherParticipant.userId)) {
+      return 'Online';
+    }
     return null;
   };
 
+  /**
+   * Gets the text describing who is typing, e.g. "Alex is typing…"
+   */
+  const getTypingText = (): string | null => {
+    if (typingUserIds.length === 0) return null;
+    if (typingUserIds.length > 2) return 'Several people are typing…';
+
+    const names = typingUserIds.map(userId => {
+      const participant = conversation?.participants.find(p => p.userId === userId);
+      return participant?.user.fullName || participant?.user.username || 'Someone';
+    });
+
+    return names.length === 1
+      ? `${names[0]} is typing…`
+      : `${names[0]} and ${names[1]} are typing…`;
+  };
+
   /**
    * Scrolls to the bottom of the message list
    */
@@ -153,8 +257,19 @@ export default function ChatScreen({ conversationId }: ChatScreenProps) {
         await refreshConversation(conversationId, currentUser.id);
       }
 
-      // Fetch messages
-      await fetchMessages(conversationId, currentUser.id);
+      // Fetch messages, or the messages around the one being opened
+      if (messageId) {
+        const result = await loadMessageContext(conversationId, messageId, currentUser.id);
+        if (result.success) {
+          setHighlightedMessageId(messageId);
+        } else {
+          skipAutoScrollRef.current = false;
+          Alert.alert('Message Unavailable', result.error || 'This message could not be opened.');
+          await fetchMessages(conversationId, currentUser.id);
+        }
+      } else {
+        await fetchMessages(conversationId, currentUser.id);
+      }
       
       // Mark messages as read
       await markAsRead(conversationId, currentUser.id);
@@ -163,7 +278,7 @@ export default function ChatScreen({ conversationId }: ChatScreenProps) {
     };
 
     loadInitialData();
-  }, [conversationId, currentUser?.id]);
+  }, [conversationId, messageId, currentUser?.id]);
 
   /**
    * Set up real-time subscriptions
@@ -183,11 +298,49 @@ export default function ChatScreen({ conversationId }: ChatScreenProps) {
    */
   useEffect(() => {
     if (!isInitialLoad && messages.length > 0) {
+      if (skipAutoScrollRef.current) {
+        skipAutoScrollRef.current = false;
+        return;
+      }
+
       // Small delay to ensure render is complete
       setTimeout(() => scrollToBottom(true), 100);
     }
   }, [messages.length, isInitialLoad, scrollToBottom]);
 
+  /**
+   * Highlights the message opened from search for a moment
+   */
+  useEffect(() => {
+    if (isInitialLoad || !highlightedMessageId) return;
+
+    const timeout = setTimeout(() => setHighlightedMessageId(null), HIGHLIGHT_DURATION_MS);
+    return () => clearTimeout(timeout);
+  }, [isInitialLoad, highlightedMessageId]);
+
+  /**
+   * Scrolls to the message opened from search once it is in the list
+   */
+  useEffect(() => {
+    if (isInitialLoad || !highlightedMessageId || scrolledToMessageIdRef.current === highlightedMessageId) return;
+
+    const index = displayedMessages.findIndex(message => message.id === highlightedMessageId);
+    if (index >= 0) {
+      scrolledToMessageIdRef.current = highlightedMessageId;
+      flatListRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0.5 });
+    }
+  }, [isInitialLoad, highlightedMessageId, displayedMessages]);
+
+  /**
+   * Scrolls close to a message that has not been measured yet, then to the message itself
+   */
+  const handleScrollToIndexFailed = useCallback((info: { index: number; averageItemLength: number }) => {
+    flatListRef.current?.scrollToOffset({ offset: info.index * info.averageItemLength, animated: false });
+    setTimeout(() => {
+      flatListRef.current?.scrollToIndex({ index: info.index, animated: true, viewPosition: 0.5 });
+    }, 100);
+  }, []);
+
   /**
    * Mark messages as read when screen becomes active
    */
@@ -197,6 +350,49 @@ export default function ChatScreen({ conversationId }: ChatScreenProps) {
     }
   }, [conversationId, currentUser?.id, messages.length, markAsRead]);
 
+  /**
+   * Loads blocked users so the options menu knows whether to offer blocking or unblocking
+   */
+  useEffect(() => {
+    if (currentUser?.id && conversation?.type === 'direct') {
+      fetchBlockedUsers(currentUser.id);
+    }
+  }, [currentUser?.id, conversation?.type, fetchBlockedUsers]);
+
+  /**
+   * Confirms and blocks or unblocks the other person in a direct chat
+   */
+  const handleToggleBlock = () => {
+    if (!currentUser?.id || !otherParticipant) return;
+
+    if (isOtherParticipantBlocked) {
+      unblockUser(currentUser.id, otherParticipant.userId).then((result) => {
+        if (!result.success) {
+          Alert.alert('Unblock Failed', result.error || 'Failed to unblock user. Please try again.');
+        }
+      });
+      return;
+    }
+
+    Alert.alert(
+      `Block ${otherParticipantName}?`,
+      'They will not be able to find you, message you, send you friend requests or see your story.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Block',
+          style: 'destructive',
+          onPress: async () => {
+            const result = await blockUser(currentUser.id, otherParticipant.userId);
+            if (!result.success) {
+              Alert.alert('Block Failed', result.error || 'Failed to block user. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
   /**
    * Renders the header with conversation info and navigation
    */
@@ -215,8 +411,13 @@ export default function ChatScreen({ conversationId }: ChatScreenProps) {
             <FontAwesome name="arrow-left" size={20} color={colors.foreground} />
           </TouchableOpacity>
           
-          {/* Conversation Info */}
-          <View className="flex-1">
+          {/* Conversation Info; tapping a group's name opens its details */}
+          <TouchableOpacity
+            className="flex-1"
+            onPress={() => setShowGroupInfo(true)}
+            disabled={conversation?.type !== 'group'}
+            activeOpacity={0.7}
+          >
             <Text className="text-lg font-bold" style={{ color: colors.foreground }} numberOfLines={1}>
               {title}
             </Text>
@@ -225,7 +426,7 @@ export default function ChatScreen({ conversationId }: ChatScreenProps) {
                 {subtitle}
               </Text>
             )}
-          </View>
+          </TouchableOpacity>
           
           {/* Options Button */}
           <TouchableOpacity
@@ -239,20 +440,68 @@ export default function ChatScreen({ conversationId }: ChatScreenProps) {
     );
   };
 
+  /**
+   * Offers to retry or delete a message that failed to send
+   */
+  const handleFailedMessagePress = (clientId: string) => {
+    Alert.alert('Message Not Sent', 'This message could not be sent.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: () => discardOutboxMessage(clientId) },
+      {
+        text: 'Retry',
+        onPress: async () => {
+          const result = await deliverOutboxMessage(clientId);
+          if (result.success && currentUser?.id) {
+            retryOutbox(currentUser.id, true);
+          } else if (!result.success && !result.retryable) {
+            Alert.alert('Send Failed', result.error || 'Failed to send message.');
+          }
+        },
+      },
+    ]);
+  };
+
   /**
    * Renders a message item in the FlatList
    */
   const renderMessage = ({ item: message }: { item: any }) => {
     if (!currentUser?.id) return null;
 
-    return (
+    const pending = pendingMessages.find(queued => queued.clientId === message.id);
+    const messageBubble = (
       <MessageBubble
         message={message}
         currentUserId={currentUser.id}
         showAvatar={conversation?.type === 'group'}
         showSenderName={conversation?.type === 'group'}
+        onLongPress={message.type === 'system' || pending ? undefined : setSelectedMessage}
+        deliveryStatus={pending?.status}
+        onRetry={pending ? () => handleFailedMessagePress(pending.clientId) : undefined}
       />
     );
+
+    const bubble = message.id === highlightedMessageId ? (
+      <View className="rounded-xl -mx-2 px-2" style={{ backgroundColor: colors.secondary }}>
+        {messageBubble}
+      </View>
+    ) : messageBubble;
+
+    if (message.id !== latestMessage?.id || !seenByText) {
+      return bubble;
+    }
+
+    return (
+      <View>
+        {bubble}
+        <Text
+          className={`text-xs -mt-2 mb-2 ${message.senderId === currentUser.id ? 'text-right' : 'text-left'}`}
+          style={{ color: colors.mutedForeground }}
+          numberOfLines={1}
+        >
+          {seenByText}
+        </Text>
+      </View>
+    );
   };
 
   /**
@@ -365,12 +614,12 @@ export default function ChatScreen({ conversationId }: ChatScreenProps) {
 
         {/* Chat body */}
         <View className="flex-1" style={{ backgroundColor: colors.background }}>
-          {messages.length === 0 ? (
+          {displayedMessages.length === 0 ? (
             renderEmptyState()
           ) : (
             <FlatList
               ref={flatListRef}
-              data={messages}
+              data={displayedMessages}
               renderItem={renderMessage}
               keyExtractor={keyExtractor}
               className="flex-1 px-4"
@@ -378,6 +627,7 @@ export default function ChatScreen({ conversationId }: ChatScreenProps) {
               inverted // Newest messages at bottom
               onEndReached={handleOnEndReached}
               onEndReachedThreshold={0.1}
+              onScrollToIndexFailed={handleScrollToIndexFailed}
               ListFooterComponent={renderLoadMoreIndicator}
               contentContainerStyle={{ paddingBottom: 10, flexGrow: 1, justifyContent: 'flex-end' }}
               keyboardShouldPersistTaps="handled"
@@ -390,22 +640,93 @@ export default function ChatScreen({ conversationId }: ChatScreenProps) {
           )}
         </View>
 
+        {/* Typing indicator */}
+        {typingUserIds.length > 0 && (
+          <Text className="text-xs italic px-4 pb-1" style={{ color: colors.mutedForeground }} numberOfLines={1}>
+            {getTypingText()}
+          </Text>
+        )}
+
         {/* Input always anchored to bottom with white background */}
         <MessageInput
           conversationId={conversationId}
           currentUserId={currentUser!.id}
           placeholder={`Message ${conversation ? getConversationTitle(conversation) : ''}…`}
           onMessageSent={handleMessageSent}
+          editingMessage={editingMessage}
+          onEditEnd={() => setEditingMessage(null)}
+          replyingTo={replyingTo}
+          onReplyEnd={() => setReplyingTo(null)}
         />
       </KeyboardAvoidingView>
       
+      {/* Actions for a long-pressed message */}
+      <MessageActionsMenu
+        message={selectedMessage}
+        currentUserId={currentUser!.id}
+        onClose={() => setSelectedMessage(null)}
+        onEdit={(message) => {
+          setReplyingTo(null);
+          setEditingMessage(message);
+        }}
+        onReply={(message) => {
+          setEditingMessage(null);
+          setReplyingTo(message);
+        }}
+        onReport={(message) => setReportTarget({
+          userId: message.senderId,
+          userName: message.sender.fullName || message.sender.username || 'this user',
+          messageId: message.id,
+        })}
+      />
+
       {/* More Options Menu */}
       <MoreOptionsMenu
         visible={showMoreOptions}
         onClose={() => setShowMoreOptions(false)}
         context="conversation"
         conversationId={conversationId}
+        onDisappearingMessages={() => setShowDisappearingMessages(true)}
+        onConversationInfo={conversation?.type === 'group' ? () => setShowGroupInfo(true) : undefined}
+        onBlockUser={otherParticipant ? handleToggleBlock : undefined}
+        onReportUser={otherParticipant
+          ? () => setReportTarget({ userId: otherParticipant.userId, userName: otherParticipantName })
+          : undefined}
+        isUserBlocked={isOtherParticipantBlocked}
       />
+
+      {/* Report a user or one of their messages */}
+      {reportTarget && currentUser?.id && (
+        <ReportMenu
+          visible
+          currentUserId={currentUser.id}
+          reportedUserId={reportTarget.userId}
+          reportedUserName={reportTarget.userName}
+          messageId={reportTarget.messageId}
+          onClose={() => setReportTarget(null)}
+        />
+      )}
+
+      {/* Disappearing Messages Setting */}
+      {conversation && (
+        <DisappearingMessagesMenu
+          visible={showDisappearingMessages}
+          conversationId={conversationId}
+          currentExpiry={conversation.messageExpiry}
+          onClose={() => setShowDisappearingMessages(false)}
+        />
+      )}
+
+      {/* Group Info */}
+      {conversation?.type === 'group' && currentUser?.id && (
+        <GroupInfo
+          visible={showGroupInfo}
+          conversationId={conversationId}
+          currentUserId={currentUser.id}
+          onClose={() => setShowGroupInfo(false)}
+          onLeave={() => router.back()}
+        />
+      )}
     </SafeAreaView>
   );
 } 
\ No newline at end of file
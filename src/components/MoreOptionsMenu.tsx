@@ -22,6 +22,8 @@ interface MenuOption {
   subtitle: string;
   onPress: () => Promise<void>;
   isDevOnly?: boolean;
+  /** Hidden when the screen does not support the option */
+  isHidden?: boolean;
 }
 
 interface MoreOptionsMenuProps {
@@ -30,6 +32,12 @@ interface MoreOptionsMenuProps {
   context: MenuContext;
   conversationId?: string;
   onNewItinerary?: () => void;
+  onImportCalendar?: () => Promise<void>;
+  onDisappearingMessages?: () => void;
+  onConversationInfo?: () => void;
+  onBlockUser?: () => void;
+  onReportUser?: () => void;
+  isUserBlocked?: boolean;
 }
 
 export default function MoreOptionsMenu({ 
@@ -37,7 +45,13 @@ export default function MoreOptionsMenu({
   onClose, 
   context,
   conversationId,
-  onNewItinerary 
+  onNewItinerary,
+  onImportCalendar,
+  onDisappearingMessages,
+  onConversationInfo,
+  onBlockUser,
+  onReportUser,
+  isUserBlocked
 }: MoreOptionsMenuProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [loadingOptionId, setLoadingOptionId] = useState<string | null>(null);
@@ -155,16 +169,57 @@ export default function MoreOptionsMenu({
         onPress: handleDevReceiveMessageInConversation,
         isDevOnly: true,
       },
+      {
+        id: 'disappearing-messages',
+        icon: 'clock-o',
+        title: 'Disappearing Messages',
+        subtitle: 'Choose how long messages last',
+        onPress: async () => {
+          onClose();
+          if (onDisappearingMessages) {
+            onDisappearingMessages();
+          }
+        },
+        isDevOnly: false,
+      },
       {
         id: 'conversation-info',
         icon: 'info-circle',
         title: 'Conversation Info',
         subtitle: 'View conversation details',
         onPress: async () => {
-          Alert.alert('Info', 'Conversation settings coming soon!');
           onClose();
+          if (onConversationInfo) {
+            onConversationInfo();
+          } else {
+            Alert.alert('Info', 'Conversation settings coming soon!');
+          }
+        },
+        isDevOnly: false,
+      },
+      {
+        id: 'report-user',
+        icon: 'flag',
+        title: 'Report User',
+        subtitle: 'Let our moderators know about a problem',
+        onPress: async () => {
+          onClose();
+          onReportUser?.();
         },
         isDevOnly: false,
+        isHidden: !onReportUser,
+      },
+      {
+        id: 'block-user',
+        icon: 'ban',
+        title: isUserBlocked ? 'Unblock User' : 'Block User',
+        subtitle: isUserBlocked ? 'Let them message you again' : 'Stop them messaging you or seeing your story',
+        onPress: async () => {
+          onClose();
+          onBlockUser?.();
+        },
+        isDevOnly: false,
+        isHidden: !onBlockUser,
       },
     ],
     'itineraries': [
@@ -181,17 +236,31 @@ export default function MoreOptionsMenu({
         },
         isDevOnly: false,
       },
+      {
+        id: 'import-calendar',
+        icon: 'calendar',
+        title: 'Import from Calendar',
+        subtitle: 'Create an itinerary from an .ics file',
+        onPress: async () => {
+          if (onImportCalendar) {
+            await onImportCalendar();
+          }
+          onClose();
+        },
+        isDevOnly: false,
+      },
     ],
-  }), [conversationId, onNewItinerary]);
+  }), [conversationId, onNewItinerary, onImportCalendar, onDisappearingMessages, onConversationInfo, onBlockUser, onReportUser, isUserBlocked]);
 
   // Filter options based on context and dev mode
   const visibleOptions = useMemo(() => {
     const contextOptions = allOptions[context] || [];
     return contextOptions.filter(option => {
       if (option.isDevOnly && !isDevMode) return false;
+      if (option.isHidden) return false;
       return true;
     });
-  }, [context, isDevMode]);
+  }, [allOptions, context, isDevMode]);
 
   // Don't show menu if no options available
   if (visibleOptions.length === 0) {
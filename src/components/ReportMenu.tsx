@@ -0,0 +1,216 @@
+/**
+ * @file ReportMenu component for reporting a user, a message they sent or an item in their story
+ * Reports go to moderators for review; the user can also be blocked once the report is sent
+ */
+
+import { MAX_REPORT_DETAILS_LENGTH, reportUser, type ReportReason } from '@/api/reports';
+import { useThemeColors } from '@/hooks/useThemeColors';
+import { useFriendsStore } from '@/stores/friends';
+import { FontAwesome } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, Modal, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+/**
+ * Props for the ReportMenu component
+ */
+interface ReportMenuProps {
+  /** Whether the menu is visible */
+  visible: boolean;
+  /** The current user's ID */
+  currentUserId: string;
+  /** The user being reported */
+  reportedUserId: string;
+  /** The reported user's name as shown in the app */
+  reportedUserName: string;
+  /** A message the user sent that is being reported */
+  messageId?: string;
+  /** An item in the user's story that is being reported */
+  storyContentId?: string;
+  /** Called when the menu should close */
+  onClose: () => void;
+  /** Called after the user is blocked from the menu */
+  onBlocked?: () => void;
+}
+
+/**
+ * A reason as shown to the user
+ */
+interface ReportReasonOption {
+  value: ReportReason;
+  title: string;
+}
+
+const REPORT_REASONS: ReportReasonOption[] = [
+  { value: 'spam', title: 'Spam' },
+  { value: 'harassment', title: 'Harassment or Bullying' },
+  { value: 'inappropriate_content', title: 'Inappropriate Content' },
+  { value: 'impersonation', title: 'Pretending to Be Someone Else' },
+  { value: 'other', title: 'Something Else' },
+];
+
+/**
+ * Bottom sheet for choosing why a user is reported and adding details
+ *
+ * @param props - Component props
+ * @returns JSX element for the report menu
+ */
+export default function ReportMenu({
+  visible,
+  currentUserId,
+  reportedUserId,
+  reportedUserName,
+  messageId,
+  storyContentId,
+  onClose,
+  onBlocked,
+}: ReportMenuProps) {
+  const colors = useThemeColors();
+  const { blockUser, isUserBlocked } = useFriendsStore();
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  /**
+   * Starts from the reasons each time the menu opens
+   */
+  useEffect(() => {
+    if (!visible) {
+      setReason(null);
+      setDetails('');
+    }
+  }, [visible]);
+
+  const subject = messageId ? 'Message' : storyContentId ? 'Story' : reportedUserName;
+
+  /**
+   * Confirms and blocks the reported user
+   */
+  const handleBlock = () => {
+    Alert.alert(
+      `Block ${reportedUserName}?`,
+      'They will not be able to find you, message you, send you friend requests or see your story.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Block',
+          style: 'destructive',
+          onPress: async () => {
+            const result = await blockUser(currentUserId, reportedUserId);
+            if (!result.success) {
+              Alert.alert('Block Failed', result.error || 'Failed to block user. Please try again.');
+              return;
+            }
+            onBlocked?.();
+          },
+        },
+      ]
+    );
+  };
+
+  /**
+   * Sends the report, then offers to block the user
+   */
+  const handleSubmit = async () => {
+    if (!reason) return;
+
+    setIsSubmitting(true);
+    try {
+      await reportUser({ reportedUserId, reason, details, messageId, storyContentId });
+    } catch (error) {
+      Alert.alert('Report Failed', error instanceof Error ? error.message : 'Failed to send report. Please try again.');
+      return;
+    } finally {
+      setIsSubmitting(false);
+    }
+
+    onClose();
+    Alert.alert(
+      'Report Sent',
+      'Thanks for letting us know. Our moderators will review it.',
+      isUserBlocked(reportedUserId)
+        ? [{ text: 'Done' }]
+        : [
+            { text: 'Done', style: 'cancel' },
+            { text: `Block ${reportedUserName}`, style: 'destructive', onPress: handleBlock },
+          ]
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <TouchableOpacity
+        className="flex-1 justify-end"
+        style={{ backgroundColor: 'rgba(0, 0, 0, 0.5)' }}
+        activeOpacity={1}
+        onPress={onClose}
+      >
+        <TouchableOpacity
+          className="rounded-t-3xl p-6"
+          style={{ backgroundColor: colors.card }}
+          activeOpacity={1}
+        >
+          <View className="w-12 h-1 rounded-full self-center mb-6" style={{ backgroundColor: colors.muted }} />
+          <Text className="text-xl font-bold mb-2" style={{ color: colors.foreground }} numberOfLines={1}>
+            Report {subject}
+          </Text>
+          <Text className="text-sm mb-6" style={{ color: colors.mutedForeground }}>
+            {reason ? 'Tell us what happened (optional)' : `Why are you reporting ${messageId || storyContentId ? 'this' : 'them'}?`}
+          </Text>
+
+          {reason ? (
+            <>
+              <TextInput
+                className="rounded-xl p-4 mb-3"
+                style={{ backgroundColor: colors.secondary, color: colors.foreground, minHeight: 100 }}
+                value={details}
+                onChangeText={setDetails}
+                placeholder="Add details for our moderators"
+                placeholderTextColor={colors.mutedForeground}
+                maxLength={MAX_REPORT_DETAILS_LENGTH}
+                multiline={true}
+                textAlignVertical="top"
+              />
+              <TouchableOpacity
+                className="flex-row items-center justify-center rounded-xl p-4 mb-3"
+                style={{ backgroundColor: colors.destructive }}
+                onPress={handleSubmit}
+                disabled={isSubmitting}
+              >
+                {isSubmitting
+                  ? <ActivityIndicator size="small" color={colors.destructiveForeground} />
+                  : <Text className="font-semibold" style={{ color: colors.destructiveForeground }}>Send Report</Text>}
+              </TouchableOpacity>
+            </>
+          ) : (
+            REPORT_REASONS.map((option) => (
+              <TouchableOpacity
+                key={option.value}
+                className="flex-row items-center rounded-xl p-4 mb-3"
+                style={{ backgroundColor: colors.secondary }}
+                onPress={() => setReason(option.value)}
+              >
+                <Text className="flex-1 font-semibold" style={{ color: colors.foreground }}>{option.title}</Text>
+                <FontAwesome name="chevron-right" size={14} color={colors.mutedForeground} />
+              </TouchableOpacity>
+            ))
+          )}
+
+          <TouchableOpacity
+            className="mt-3 py-3"
+            onPress={reason ? () => setReason(null) : onClose}
+            disabled={isSubmitting}
+          >
+            <Text className="text-center" style={{ color: colors.mutedForeground }}>
+              {reason ? 'Back' : 'Cancel'}
+            </Text>
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
@@ -0,0 +1,241 @@
+/**
+ * @file ShareCardMenu component for sharing an itinerary, activity or location in a chat
+ * Lists the user's itineraries, then what can be shared from the chosen one
+ */
+
+import { getActivitiesForItinerary } from '@/api/activities';
+import {
+  buildActivityCardContent,
+  buildItineraryCardContent,
+  buildLocationCardContent,
+  type CardMessageType,
+} from '@/api/messages';
+import { useThemeColors } from '@/hooks/useThemeColors';
+import { useItinerariesStore } from '@/stores/itinerariesStore';
+import type { Activity } from '@/types/activities';
+import type { Itinerary } from '@/types/itineraries';
+import { FontAwesome } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, Modal, ScrollView, Text, TouchableOpacity, View } from 'react-native';
+
+/**
+ * Props for the ShareCardMenu component
+ */
+interface ShareCardMenuProps {
+  /** Whether the menu is visible */
+  visible: boolean;
+  /** Called when the menu should close */
+  onClose: () => void;
+  /** Sends the chosen card; resolves to whether it was sent or queued */
+  onShare: (type: CardMessageType, content: string) => Promise<boolean>;
+}
+
+/**
+ * Bottom sheet for choosing an itinerary, activity or location to share
+ *
+ * @param props - Component props
+ * @returns JSX element for the share menu
+ */
+export default function ShareCardMenu({ visible, onClose, onShare }: ShareCardMenuProps) {
+  const colors = useThemeColors();
+  const { itineraries, isLoading, fetchItineraries } = useItinerariesStore();
+  const [selectedItinerary, setSelectedItinerary] = useState<Itinerary | null>(null);
+  const [activities, setActivities] = useState<Activity[]>([]);
+  const [isLoadingActivities, setIsLoadingActivities] = useState(false);
+  const [isSharing, setIsSharing] = useState(false);
+
+  /**
+   * Loads the user's itineraries when the menu opens, and starts over from the list
+   */
+  useEffect(() => {
+    if (visible) {
+      fetchItineraries();
+    } else {
+      setSelectedItinerary(null);
+      setActivities([]);
+    }
+  }, [visible, fetchItineraries]);
+
+  /**
+   * Opens an itinerary and loads its activities
+   */
+  const handleSelectItinerary = async (itinerary: Itinerary) => {
+    setSelectedItinerary(itinerary);
+    setIsLoadingActivities(true);
+
+    try {
+      setActivities(await getActivitiesForItinerary(itinerary.id));
+    } catch (error) {
+      console.error('Error loading activities to share:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to load activities.');
+      setSelectedItinerary(null);
+    } finally {
+      setIsLoadingActivities(false);
+    }
+  };
+
+  /**
+   * Shares a card and closes the menu once it is sent
+   */
+  const handleShare = async (type: CardMessageType, content: string) => {
+    setIsSharing(true);
+    const shared = await onShare(type, content);
+    setIsSharing(false);
+
+    if (shared) {
+      onClose();
+    }
+  };
+
+  /**
+   * Renders the user's itineraries
+   */
+  const renderItineraries = () => {
+    if (isLoading && itineraries.length === 0) {
+      return <ActivityIndicator size="small" color={colors.primary} />;
+    }
+
+    if (itineraries.length === 0) {
+      return (
+        <Text className="text-center py-4" style={{ color: colors.mutedForeground }}>
+          You have no itineraries to share yet
+        </Text>
+      );
+    }
+
+    return itineraries.map((itinerary) => (
+      <TouchableOpacity
+        key={itinerary.id}
+        className="flex-row items-center rounded-xl p-4 mb-3"
+        style={{ backgroundColor: colors.secondary }}
+        onPress={() => handleSelectItinerary(itinerary)}
+      >
+        <FontAwesome name="map" size={16} color={colors.primary} />
+        <Text className="flex-1 font-semibold ml-3" style={{ color: colors.foreground }} numberOfLines={1}>
+          {itinerary.title}
+        </Text>
+        <FontAwesome name="chevron-right" size={12} color={colors.mutedForeground} />
+      </TouchableOpacity>
+    ));
+  };
+
+  /**
+   * Renders the itinerary, its activities and their locations as share options
+   */
+  const renderItineraryOptions = (itinerary: Itinerary) => {
+    if (isLoadingActivities) {
+      return <ActivityIndicator size="small" color={colors.primary} />;
+    }
+
+    return (
+      <>
+        <TouchableOpacity
+          className="flex-row items-center rounded-xl p-4 mb-3"
+          style={{ backgroundColor: colors.secondary }}
+          onPress={() => handleShare('itinerary', buildItineraryCardContent(itinerary, activities))}
+          disabled={isSharing}
+        >
+          <FontAwesome name="share" size={16} color={colors.primary} />
+          <View className="flex-1 ml-3">
+            <Text className="font-semibold" style={{ color: colors.foreground }}>Share Itinerary</Text>
+            <Text className="text-sm mt-1" style={{ color: colors.mutedForeground }}>
+              Includes {activities.length} {activities.length === 1 ? 'activity' : 'activities'}
+            </Text>
+          </View>
+        </TouchableOpacity>
+
+        {activities.map((activity) => {
+          const locationContent = buildLocationCardContent(activity);
+
+          return (
+            <View
+              key={activity.id}
+              className="flex-row items-center rounded-xl p-4 mb-3"
+              style={{ backgroundColor: colors.secondary }}
+            >
+              <View className="flex-1 mr-3">
+                <Text className="font-semibold" style={{ color: colors.foreground }} numberOfLines={1}>
+                  {activity.title}
+                </Text>
+                {activity.location && (
+                  <Text className="text-sm mt-1" style={{ color: colors.mutedForeground }} numberOfLines={1}>
+                    {activity.location}
+                  </Text>
+                )}
+              </View>
+              {locationContent && (
+                <TouchableOpacity
+                  className="p-2 mr-1"
+                  onPress={() => handleShare('location', locationContent)}
+                  disabled={isSharing}
+                  hitSlop={8}
+                >
+                  <FontAwesome name="map-marker" size={18} color={colors.primary} />
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity
+                className="p-2"
+                onPress={() => handleShare('activity', buildActivityCardContent(activity))}
+                disabled={isSharing}
+                hitSlop={8}
+              >
+                <FontAwesome name="share" size={16} color={colors.primary} />
+              </TouchableOpacity>
+            </View>
+          );
+        })}
+      </>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <TouchableOpacity
+        className="flex-1 justify-end"
+        style={{ backgroundColor: 'rgba(0, 0, 0, 0.5)' }}
+        activeOpacity={1}
+        onPress={onClose}
+      >
+        <TouchableOpacity
+          className="rounded-t-3xl p-6"
+          style={{ backgroundColor: colors.card, maxHeight: '80%' }}
+          activeOpacity={1}
+        >
+          <View className="w-12 h-1 rounded-full self-center mb-6" style={{ backgroundColor: colors.muted }} />
+          <View className="flex-row items-center mb-2">
+            {selectedItinerary && (
+              <TouchableOpacity className="mr-3" onPress={() => setSelectedItinerary(null)} hitSlop={8}>
+                <FontAwesome name="chevron-left" size={16} color={colors.foreground} />
+              </TouchableOpacity>
+            )}
+            <Text className="flex-1 text-xl font-bold" style={{ color: colors.foreground }} numberOfLines={1}>
+              {selectedItinerary ? selectedItinerary.title : 'Share a Trip'}
+            </Text>
+            {isSharing && <ActivityIndicator size="small" color={colors.primary} />}
+          </View>
+          <Text className="text-sm mb-6" style={{ color: colors.mutedForeground }}>
+            {selectedItinerary
+              ? 'Share the whole itinerary, an activity, or an activity\'s location'
+              : 'Choose an itinerary'}
+          </Text>
+
+          <ScrollView>
+            {selectedItinerary ? renderItineraryOptions(selectedItinerary) : renderItineraries()}
+          </ScrollView>
+
+          <TouchableOpacity
+            className="mt-3 py-3"
+            onPress={onClose}
+          >
+            <Text className="text-center" style={{ color: colors.mutedForeground }}>Cancel</Text>
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
@@ -23,6 +23,8 @@ interface UserAvatarProps {
   fallbackIcon?: string;
   /** Size of the fallback icon */
   fallbackIconSize?: number;
+  /** Whether to show an online dot on the avatar */
+  isOnline?: boolean;
 }
 
 /**
@@ -36,7 +38,8 @@ export default function UserAvatar({
   size = 48, 
   className = '',
   fallbackIcon = 'user',
-  fallbackIconSize
+  fallbackIconSize,
+  isOnline = false
 }: UserAvatarProps) {
   // NEW: resolve storage path to public URL if needed
   const [resolvedUri, setResolvedUri] = useState<string | null>(null);
@@ -87,23 +90,22 @@ export default function UserAvatar({
     96: 'w-24 h-24',
   }[size] || '';
 
-  // Show fallback if no URI or if there was an error
-  if (!resolvedUri || hasError) {
-    return (
-      <View 
-        className={`rounded-full items-center justify-center ${sizeClasses} ${className}`}
-        style={{
-          backgroundColor: colors.muted,
-          ...(!sizeClasses ? sizeStyle : {})
-        }}
-      >
-        <FontAwesome name={fallbackIcon as any} size={iconSize} color={colors.mutedForeground} />
-      </View>
-    );
-  }
+  // With an online dot, the outer wrapper takes the caller's classes
+  const avatarClassName = isOnline ? '' : className;
 
-  return (
-    <View className={`rounded-full overflow-hidden ${sizeClasses} ${className}`} style={!sizeClasses ? sizeStyle : undefined}>
+  // Show fallback if no URI or if there was an error
+  const avatar = !resolvedUri || hasError ? (
+    <View 
+      className={`rounded-full items-center justify-center ${sizeClasses} ${avatarClassName}`}
+      style={{
+        backgroundColor: colors.muted,
+        ...(!sizeClasses ? sizeStyle : {})
+      }}
+    >
+      <FontAwesome name={fallbackIcon as any} size={iconSize} color={colors.mutedForeground} />
+    </View>
+  ) : (
+    <View className={`rounded-full overflow-hidden ${sizeClasses} ${avatarClassName}`} style={!sizeClasses ? sizeStyle : undefined}>
       <Image
         source={{ uri: resolvedUri }}
         className="w-full h-full"
@@ -118,4 +120,28 @@ export default function UserAvatar({
       )}
     </View>
   );
+
+  if (!isOnline) {
+    return avatar;
+  }
+
+  const dotSize = Math.max(10, Math.round(size * 0.25));
+
+  return (
+    <View className={className}>
+      {avatar}
+      <View
+        className="absolute rounded-full"
+        style={{
+          width: dotSize,
+          height: dotSize,
+          right: 0,
+          bottom: 0,
+          backgroundColor: colors.affirmative,
+          borderColor: colors.card,
+          borderWidth: 2,
+        }}
+      />
+    </View>
+  );
 }
\ No newline at end of file
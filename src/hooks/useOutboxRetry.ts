@@ -0,0 +1,56 @@
+/**
+ * @file useOutboxRetry hook for sending queued messages when the app can reach the server again
+ * Retries once the persisted outbox has loaded, whenever the app returns to the foreground and
+ * whenever the device goes back online
+ */
+
+import { useMessagesStore } from '@/stores/messages';
+import { useOutboxStore } from '@/stores/outbox';
+import NetInfo from '@react-native-community/netinfo';
+import { useEffect } from 'react';
+import { AppState } from 'react-native';
+
+/**
+ * Hook for retrying the current user's queued messages
+ *
+ * @param currentUserId - The current user's ID, or undefined when signed out
+ */
+export function useOutboxRetry(currentUserId: string | undefined): void {
+  const retryOutbox = useMessagesStore((state) => state.retryOutbox);
+
+  useEffect(() => {
+    if (!currentUserId) return;
+
+    const retry = () => {
+      retryOutbox(currentUserId, true);
+    };
+
+    // Messages queued before the app was closed are only known once storage has loaded
+    const unsubscribeHydration = useOutboxStore.persist.onFinishHydration(retry);
+    if (useOutboxStore.persist.hasHydrated()) {
+      retry();
+    }
+
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        retry();
+      }
+    });
+
+    // The listener is called with the current state first, so only retry on the way back online
+    let wasOnline: boolean | null = null;
+    const unsubscribeNetInfo = NetInfo.addEventListener((state) => {
+      const isOnline = !!state.isConnected && state.isInternetReachable !== false;
+      if (isOnline && wasOnline === false) {
+        retry();
+      }
+      wasOnline = isOnline;
+    });
+
+    return () => {
+      unsubscribeHydration();
+      subscription.remove();
+      unsubscribeNetInfo();
+    };
+  }, [currentUserId, retryOutbox]);
+}
@@ -0,0 +1,61 @@
+/**
+ * @file usePushNotifications hook for registering the device and opening tapped notifications
+ * Notifications for the conversation the user is looking at are not shown while the app is open
+ */
+
+import { useNotificationsStore } from '@/stores/notifications';
+import type { PushNotificationData } from '@/types/notifications';
+import { getNotificationUrl } from '@/utils/pushNotifications';
+import * as Notifications from 'expo-notifications';
+import { router, usePathname } from 'expo-router';
+import { useEffect, useRef } from 'react';
+
+/**
+ * Hook for the current user's push notifications
+ *
+ * @param currentUserId - The current user's ID, or undefined when signed out
+ */
+export function usePushNotifications(currentUserId: string | undefined): void {
+  const registerDevice = useNotificationsStore((state) => state.registerDevice);
+  const lastResponse = Notifications.useLastNotificationResponse();
+  const pathname = usePathname();
+  const pathnameRef = useRef(pathname);
+  pathnameRef.current = pathname;
+
+  useEffect(() => {
+    Notifications.setNotificationHandler({
+      handleNotification: async (notification) => {
+        const url = getNotificationUrl(notification.request.content.data as Partial<PushNotificationData>);
+        const isOnScreen = url !== null && url === pathnameRef.current;
+
+        return {
+          shouldShowBanner: !isOnScreen,
+          shouldShowList: !isOnScreen,
+          shouldPlaySound: !isOnScreen,
+          shouldSetBadge: false,
+        };
+      },
+    });
+
+    return () => Notifications.setNotificationHandler(null);
+  }, []);
+
+  useEffect(() => {
+    if (currentUserId) {
+      registerDevice(currentUserId);
+    }
+  }, [currentUserId, registerDevice]);
+
+  // Also covers the notification that launched the app
+  useEffect(() => {
+    if (!currentUserId || !lastResponse || lastResponse.actionIdentifier !== Notifications.DEFAULT_ACTION_IDENTIFIER) {
+      return;
+    }
+
+    const url = getNotificationUrl(lastResponse.notification.request.content.data as Partial<PushNotificationData>);
+    Notifications.clearLastNotificationResponseAsync();
+    if (url) {
+      router.push(url as Parameters<typeof router.push>[0]);
+    }
+  }, [currentUserId, lastResponse]);
+}
@@ -1,8 +1,12 @@
 /**
  * @file This file contains the Zustand store for managing activities data.
- * It handles fetching, creating, updating, and holding the state for activities within itineraries.
+ * It handles fetching, creating, updating, and holding the state for activities within itineraries,
+ * and keeps them in sync with edits made elsewhere through real-time subscriptions.
  */
 
+import type { ScheduleAdjustment } from '@/utils/scheduleConflicts';
+import { supabase } from '@/utils/supabase';
+import { RealtimeChannel } from '@supabase/supabase-js';
 import { create } from 'zustand';
 import {
   getActivitiesForItinerary as getActivitiesForItineraryFromApi,
@@ -15,6 +19,14 @@ import {
   type UpdateActivityData
 } from '@/api/activities';
 
+/**
+ * Interface for real-time subscription state
+ */
+interface ActivitiesRealtimeState {
+  subscriptions: Map<string, RealtimeChannel>; // itineraryId -> channel
+  isConnected: boolean;
+}
+
 /**
  * Interface for the Activities store state and its actions
  */
@@ -24,6 +36,7 @@ interface ActivitiesStoreState {
   isLoading: boolean;
   error: string | null;
   currentItineraryId: string | null;
+  realtimeState: ActivitiesRealtimeState;
   
   // Actions
   fetchActivitiesForItinerary: (itineraryId: string) => Promise<void>;
@@ -31,8 +44,15 @@ interface ActivitiesStoreState {
   createActivity: (data: CreateActivityData) => Promise<Activity>;
   updateActivity: (id: string, data: UpdateActivityData) => Promise<Activity>;
   deleteActivity: (id: string) => Promise<void>;
+  rescheduleActivities: (itineraryId: string, adjustments: ScheduleAdjustment[]) => Promise<void>;
   setCurrentItineraryId: (itineraryId: string | null) => void;
+  clearActivitiesForItinerary: (itineraryId: string) => void;
   clearError: () => void;
+
+  // Real-time actions
+  subscribeToActivityUpdates: (itineraryId: string) => void;
+  unsubscribeFromActivityUpdates: (itineraryId: string) => void;
+  unsubscribeFromAll: () => void;
   
   // Helper methods
   getActivitiesForItinerary: (itineraryId: string) => Activity[];
@@ -50,12 +70,22 @@ export const useActivitiesStore = create<ActivitiesStoreState>((set, get) => ({
   isLoading: false,
   error: null,
   currentItineraryId: null,
+  realtimeState: {
+    subscriptions: new Map(),
+    isConnected: false,
+  },
 
   // Actions
   clearError: () => set({ error: null }),
   
   setCurrentItineraryId: (itineraryId: string | null) => set({ currentItineraryId: itineraryId }),
   
+  clearActivitiesForItinerary: (itineraryId: string) => {
+    // Used when the user loses access to an itinerary, e.g. after leaving it
+    const { [itineraryId]: _removed, ...remainingActivities } = get().activities;
+    set({ activities: remainingActivities });
+  },
+  
   fetchActivitiesForItinerary: async (itineraryId: string) => {
     set({ isLoading: true, error: null, currentItineraryId: itineraryId });
     try {
@@ -124,7 +154,11 @@ export const useActivitiesStore = create<ActivitiesStoreState>((set, get) => ({
       set({
         activities: {
           ...currentActivities,
-          [data.itinerary_id]: [...itineraryActivities, newActivity]
+          // The real-time insert may have already added it
+          [data.itinerary_id]: [
+            ...itineraryActivities.filter(activity => activity.id !== newActivity.id),
+            newActivity
+          ]
         }
       });
       
@@ -168,6 +202,34 @@ export const useActivitiesStore = create<ActivitiesStoreState>((set, get) => ({
     }
   },
   
+  rescheduleActivities: async (itineraryId: string, adjustments: ScheduleAdjustment[]) => {
+    set({ isLoading: true, error: null });
+    try {
+      const updatedActivities = new Map<string, Activity>();
+      for (const { activityId, start_time, end_time } of adjustments) {
+        const updatedActivity = await updateActivityFromApi(activityId, { start_time, end_time });
+        updatedActivities.set(activityId, updatedActivity);
+      }
+
+      const currentActivities = get().activities;
+      set({
+        activities: {
+          ...currentActivities,
+          [itineraryId]: (currentActivities[itineraryId] || []).map(activity =>
+            updatedActivities.get(activity.id) || activity
+          )
+        }
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to reschedule activities';
+      set({ error: message });
+      console.error('Error rescheduling activities:', error);
+      throw error;
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
   deleteActivity: async (id: string) => {
     set({ isLoading: true, error: null });
     try {
@@ -205,6 +267,125 @@ export const useActivitiesStore = create<ActivitiesStoreState>((set, get) => ({
     }
   },
   
+  subscribeToActivityUpdates: (itineraryId: string) => {
+    const { realtimeState } = get();
+    
+    // Don't subscribe if already subscribed
+    if (realtimeState.subscriptions.has(itineraryId)) {
+      return;
+    }
+    
+    const channel = supabase
+      .channel(`activities:${itineraryId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'activities',
+          filter: `itinerary_id=eq.${itineraryId}`,
+        },
+        (payload) => {
+          // Deletes are handled by the unfiltered listener below
+          if (payload.eventType === 'DELETE') {
+            return;
+          }
+          
+          const currentActivities = get().activities;
+          const itineraryActivities = currentActivities[itineraryId] || [];
+          
+          // Inserts and updates carry the full row, so apply them directly.
+          // Our own changes are already in the list and are simply replaced.
+          const changedActivity = payload.new as Activity;
+          const exists = itineraryActivities.some(activity => activity.id === changedActivity.id);
+          set({
+            activities: {
+              ...currentActivities,
+              [itineraryId]: exists
+                ? itineraryActivities.map(activity =>
+                    activity.id === changedActivity.id ? changedActivity : activity
+                  )
+                : [...itineraryActivities, changedActivity]
+            }
+          });
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          // Realtime cannot filter deletes, and under RLS their old row only carries the primary key,
+          // so listen to every delete and drop the activity if it is in this itinerary
+          event: 'DELETE',
+          schema: 'public',
+          table: 'activities',
+        },
+        (payload) => {
+          const deletedActivity = payload.old as Partial<Activity>;
+          const currentActivities = get().activities;
+          const itineraryActivities = currentActivities[itineraryId] || [];
+          
+          if (!itineraryActivities.some(activity => activity.id === deletedActivity.id)) {
+            return;
+          }
+          
+          set({
+            activities: {
+              ...currentActivities,
+              [itineraryId]: itineraryActivities.filter(activity => activity.id !== deletedActivity.id)
+            }
+          });
+        }
+      )
+      .subscribe();
+    
+    // Update subscriptions
+    const newSubscriptions = new Map(realtimeState.subscriptions);
+    newSubscriptions.set(itineraryId, channel);
+    
+    set({
+      realtimeState: {
+        ...realtimeState,
+        subscriptions: newSubscriptions,
+        isConnected: true,
+      },
+    });
+  },
+  
+  unsubscribeFromActivityUpdates: (itineraryId: string) => {
+    const { realtimeState } = get();
+    const channel = realtimeState.subscriptions.get(itineraryId);
+    
+    if (channel) {
+      supabase.removeChannel(channel);
+      
+      const newSubscriptions = new Map(realtimeState.subscriptions);
+      newSubscriptions.delete(itineraryId);
+      
+      set({
+        realtimeState: {
+          ...realtimeState,
+          subscriptions: newSubscriptions,
+          isConnected: newSubscriptions.size > 0,
+        },
+      });
+    }
+  },
+  
+  unsubscribeFromAll: () => {
+    const { realtimeState } = get();
+    
+    realtimeState.subscriptions.forEach((channel) => {
+      supabase.removeChannel(channel);
+    });
+    
+    set({
+      realtimeState: {
+        subscriptions: new Map(),
+        isConnected: false,
+      },
+    });
+  },
+  
   getActivitiesForItinerary: (itineraryId: string) => {
     return get().activities[itineraryId] || [];
   },
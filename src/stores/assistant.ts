@@ -0,0 +1,265 @@
+/**
+ * @file This file contains the Zustand store for the AI trip assistant conversation.
+ * It runs the assistant's turns, executes its read-only tool calls straight away and holds
+ * changes to itineraries as pending actions until the user confirms or declines them.
+ */
+
+import { requestAssistantReply } from '@/api/ai';
+import {
+  applyAssistantAction,
+  clearAssistantMessages as clearAssistantMessagesFromApi,
+  createAssistantMessage,
+  getAssistantMessages as getAssistantMessagesFromApi,
+  parseToolArguments,
+  prepareAssistantAction,
+  runAssistantReadTool,
+  updateAssistantMessage,
+} from '@/api/assistant';
+import type { AssistantAction, AssistantMessage } from '@/types/assistant';
+import { isMutatingTool } from '@/utils/assistantTools';
+import { create } from 'zustand';
+import { useActivitiesStore } from './activitiesStore';
+import { useItinerariesStore } from './itinerariesStore';
+
+/**
+ * Most assistant turns run for a single user message before handing back to the user,
+ * so a confused model cannot loop on tool calls indefinitely
+ */
+const MAX_ASSISTANT_TURNS = 6;
+
+const DECLINED_RESULT = JSON.stringify({ status: 'declined', message: 'The user declined this change.' });
+
+/**
+ * Interface for the assistant store state and its actions
+ */
+interface AssistantState {
+  // State properties
+  messages: AssistantMessage[];
+  isLoading: boolean;
+  /** True while waiting on the assistant or running its tools */
+  isThinking: boolean;
+  error: string | null;
+
+  // Actions
+  fetchMessages: () => Promise<void>;
+  sendMessage: (content: string) => Promise<void>;
+  confirmAction: (messageId: string) => Promise<void>;
+  declineAction: (messageId: string) => Promise<void>;
+  clearConversation: () => Promise<void>;
+  clearError: () => void;
+
+  // Helper methods
+  hasPendingAction: () => boolean;
+}
+
+/**
+ * A Zustand store for the AI trip assistant.
+ *
+ * @returns A store with state and actions for the assistant conversation
+ */
+export const useAssistantStore = create<AssistantState>((set, get) => {
+  const appendMessage = (message: AssistantMessage) => {
+    set(state => ({ messages: [...state.messages, message] }));
+  };
+
+  const replaceMessage = (message: AssistantMessage) => {
+    set(state => ({ messages: state.messages.map(m => (m.id === message.id ? message : m)) }));
+  };
+
+  /**
+   * Runs assistant turns until it replies without tool calls or proposes a change that needs confirmation
+   */
+  const runAssistant = async () => {
+    for (let turn = 0; turn < MAX_ASSISTANT_TURNS; turn++) {
+      if (get().hasPendingAction()) return;
+
+      const reply = await requestAssistantReply(get().messages);
+      appendMessage(await createAssistantMessage({
+        role: 'assistant',
+        content: reply.content,
+        toolCalls: reply.toolCalls.length > 0 ? reply.toolCalls : null,
+      }));
+
+      if (reply.toolCalls.length === 0) return;
+
+      // Every tool call needs a tool message before the next request
+      for (const call of reply.toolCalls) {
+        const args = parseToolArguments(call);
+
+        if (isMutatingTool(call.name)) {
+          try {
+            const action = await prepareAssistantAction(call.name, args);
+            appendMessage(await createAssistantMessage({
+              role: 'tool',
+              toolCallId: call.id,
+              action,
+              actionStatus: 'pending',
+            }));
+          } catch (error) {
+            appendMessage(await createAssistantMessage({
+              role: 'tool',
+              toolCallId: call.id,
+              content: toErrorResult(error),
+            }));
+          }
+          continue;
+        }
+
+        let result: string;
+        try {
+          result = await runAssistantReadTool(call.name, args);
+        } catch (error) {
+          result = toErrorResult(error);
+        }
+        appendMessage(await createAssistantMessage({ role: 'tool', toolCallId: call.id, content: result }));
+      }
+    }
+  };
+
+  /**
+   * Runs the assistant, surfacing failures as the store error
+   */
+  const continueConversation = async () => {
+    set({ isThinking: true, error: null });
+    try {
+      await runAssistant();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to get a reply from the assistant';
+      set({ error: message });
+      console.error('Error running assistant:', error);
+    } finally {
+      set({ isThinking: false });
+    }
+  };
+
+  /**
+   * Records the user's decision on a pending action
+   */
+  const resolveAction = async (messageId: string, confirmed: boolean) => {
+    const message = get().messages.find(m => m.id === messageId);
+    if (!message?.action || message.actionStatus !== 'pending') return;
+
+    if (!confirmed) {
+      replaceMessage(await updateAssistantMessage(messageId, { content: DECLINED_RESULT, actionStatus: 'declined' }));
+      return;
+    }
+
+    try {
+      const result = await applyAssistantAction(message.action);
+      replaceMessage(await updateAssistantMessage(messageId, { content: result, actionStatus: 'applied' }));
+      refreshAffectedData(message.action);
+    } catch (error) {
+      replaceMessage(await updateAssistantMessage(messageId, { content: toErrorResult(error), actionStatus: 'failed' }));
+    }
+  };
+
+  /**
+   * Resolves an action and, once nothing else awaits the user, lets the assistant respond
+   */
+  const decideAndContinue = async (messageId: string, confirmed: boolean) => {
+    if (get().isThinking) return;
+
+    set({ isThinking: true, error: null });
+    try {
+      await resolveAction(messageId, confirmed);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update the change';
+      set({ error: message, isThinking: false });
+      console.error('Error resolving assistant action:', error);
+      return;
+    }
+
+    if (get().hasPendingAction()) {
+      set({ isThinking: false });
+      return;
+    }
+    await continueConversation();
+  };
+
+  return {
+    // Initial state
+    messages: [],
+    isLoading: false,
+    isThinking: false,
+    error: null,
+
+    // Actions
+    clearError: () => set({ error: null }),
+
+    fetchMessages: async () => {
+      set({ isLoading: true, error: null });
+      try {
+        const messages = await getAssistantMessagesFromApi();
+        set({ messages });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to load the assistant conversation';
+        set({ error: message });
+        console.error('Error fetching assistant messages:', error);
+      } finally {
+        set({ isLoading: false });
+      }
+    },
+
+    sendMessage: async (content: string) => {
+      const trimmed = content.trim();
+      if (!trimmed || get().isThinking) return;
+
+      set({ isThinking: true, error: null });
+      try {
+        // A new message supersedes any change still awaiting confirmation
+        for (const message of get().messages.filter(m => m.actionStatus === 'pending')) {
+          await resolveAction(message.id, false);
+        }
+        appendMessage(await createAssistantMessage({ role: 'user', content: trimmed }));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to send message';
+        set({ error: message, isThinking: false });
+        console.error('Error sending assistant message:', error);
+        return;
+      }
+
+      await continueConversation();
+    },
+
+    confirmAction: async (messageId: string) => {
+      await decideAndContinue(messageId, true);
+    },
+
+    declineAction: async (messageId: string) => {
+      await decideAndContinue(messageId, false);
+    },
+
+    clearConversation: async () => {
+      try {
+        await clearAssistantMessagesFromApi();
+        set({ messages: [], error: null });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to clear the conversation';
+        set({ error: message });
+        console.error('Error clearing assistant conversation:', error);
+      }
+    },
+
+    // Helper methods
+    hasPendingAction: () => get().messages.some(m => m.actionStatus === 'pending'),
+  };
+});
+
+function toErrorResult(error: unknown): string {
+  return JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' });
+}
+
+/**
+ * Reloads data other screens may be showing after the assistant changed it
+ */
+function refreshAffectedData(action: AssistantAction) {
+  if (action.tool === 'update_itinerary') {
+    useItinerariesStore.getState().refreshItinerary(action.itineraryId);
+    return;
+  }
+
+  const activitiesStore = useActivitiesStore.getState();
+  if (activitiesStore.activities[action.itineraryId]) {
+    activitiesStore.fetchActivitiesForItinerary(action.itineraryId);
+  }
+}
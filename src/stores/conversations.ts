@@ -10,12 +10,23 @@ import {
   fetchUserConversations as apiFetchUserConversations,
   getOrCreateDirectConversation as apiGetOrCreateDirectConversation,
   leaveConversation as apiLeaveConversation,
+  removeParticipant as apiRemoveParticipant,
+  renameConversation as apiRenameConversation,
+  setConversationAvatar as apiSetConversationAvatar,
+  setConversationMessageExpiry as apiSetConversationMessageExpiry,
+  setParticipantRole as apiSetParticipantRole,
+  updateConversationPreferences as apiUpdateConversationPreferences,
   type AddParticipantData,
   type CreateConversationData,
 } from '@/api/conversations';
 import {
+  type ConversationPreferences,
   type ConversationWithDetails,
+  type MessageExpiry,
+  type ParticipantRole,
 } from '@/api/messages';
+import { getMutedUntil, isConversationMuted, type MuteDuration } from '@/utils/conversationMute';
+import { uploadPhoto } from '@/utils/photoStorage';
 import { supabase } from '@/utils/supabase';
 import { RealtimeChannel } from '@supabase/supabase-js';
 import { create } from 'zustand';
@@ -51,6 +62,15 @@ interface ConversationsRealtimeState {
   isConnected: boolean;
 }
 
+/**
+ * Interface for online presence state. Each conversation has a presence channel its participants
+ * join, so users only see whether people they share a conversation with are online.
+ */
+interface PresenceState {
+  channels: Map<string, RealtimeChannel>; // conversationId -> presence channel
+  onlineUserIds: Record<string, string[]>; // conversationId -> users present in its channel
+}
+
 /**
  * Interface for the Conversations store state and its actions
  */
@@ -69,6 +89,9 @@ interface ConversationsState {
   
   // Real-time state
   realtimeState: ConversationsRealtimeState;
+
+  // Online presence state
+  presenceState: PresenceState;
   
   // Actions - Conversation Management
   fetchConversations: (currentUserId: string) => Promise<void>;
@@ -76,8 +99,17 @@ interface ConversationsState {
   startDirectConversation: (currentUserId: string, friendId: string) => Promise<{ success: boolean; conversation?: Conversation; error?: string }>;
   refreshConversation: (conversationId: string, currentUserId: string) => Promise<void>;
   updateConversationUnreadCount: (conversationId: string, unreadCount: number) => void;
+  updateParticipantReadReceipt: (conversationId: string, userId: string, readReceiptAt: string | null) => void;
   addParticipants: (addParticipantData: AddParticipantData, currentUserId: string) => Promise<{ success: boolean; error?: string }>;
   leaveConversation: (conversationId: string, currentUserId: string) => Promise<{ success: boolean; error?: string }>;
+  removeParticipant: (conversationId: string, userId: string, currentUserId: string) => Promise<{ success: boolean; error?: string }>;
+  setParticipantRole: (conversationId: string, userId: string, role: ParticipantRole, currentUserId: string) => Promise<{ success: boolean; error?: string }>;
+  renameConversation: (conversationId: string, title: string, currentUserId: string) => Promise<{ success: boolean; error?: string }>;
+  setGroupAvatar: (conversationId: string, photo: { uri: string; mimeType?: string } | null, currentUserId: string) => Promise<{ success: boolean; error?: string }>;
+  setMessageExpiry: (conversationId: string, messageExpiry: MessageExpiry) => Promise<{ success: boolean; error?: string }>;
+  setConversationPinned: (conversationId: string, isPinned: boolean, currentUserId: string) => Promise<{ success: boolean; error?: string }>;
+  setConversationArchived: (conversationId: string, isArchived: boolean, currentUserId: string) => Promise<{ success: boolean; error?: string }>;
+  muteConversation: (conversationId: string, duration: MuteDuration | null, currentUserId: string) => Promise<{ success: boolean; error?: string }>;
   clearConversations: () => void;
   clearError: () => void;
   
@@ -85,6 +117,8 @@ interface ConversationsState {
   subscribeToConversationUpdates: (currentUserId: string) => void;
   unsubscribeFromConversationUpdates: (currentUserId: string) => void;
   unsubscribeFromAll: () => void;
+  subscribeToPresence: (currentUserId: string) => void;
+  unsubscribeFromPresence: () => void;
   
   // Helper methods
   getConversationById: (conversationId: string) => Conversation | undefined;
@@ -92,6 +126,19 @@ interface ConversationsState {
   isConversationActionInProgress: (conversationId: string, action: 'leaving' | 'addingParticipants') => boolean;
   getDirectConversationWithUser: (userId: string) => Conversation | undefined;
   sortConversationsByActivity: () => void;
+  isUserOnline: (userId: string) => boolean;
+  isConversationAdmin: (conversationId: string, userId: string) => boolean;
+}
+
+/**
+ * Orders conversations with pinned ones first, then by last activity (most recent first)
+ */
+function compareConversationsByActivity(a: Conversation, b: Conversation): number {
+  if (a.preferences.isPinned !== b.preferences.isPinned) {
+    return a.preferences.isPinned ? -1 : 1;
+  }
+
+  return new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime();
 }
 
 /**
@@ -114,6 +161,10 @@ export const useConversationsStore = create<ConversationsState>((set, get) => ({
     subscriptions: new Map(),
     isConnected: false,
   },
+  presenceState: {
+    channels: new Map(),
+    onlineUserIds: {},
+  },
 
   // --- CONVERSATION MANAGEMENT ACTIONS ---
 
@@ -135,10 +186,8 @@ export const useConversationsStore = create<ConversationsState>((set, get) => ({
     try {
       const conversations = await apiFetchUserConversations(currentUserId);
       
-      // Sort conversations by last activity (most recent first)
-      const sortedConversations = conversations.sort((a, b) => 
-        new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
-      );
+      // Sort conversations by last activity (most recent first), keeping pinned ones on top
+      const sortedConversations = conversations.sort(compareConversationsByActivity);
 
       set({ 
         conversations: sortedConversations, 
@@ -321,6 +370,30 @@ export const useConversationsStore = create<ConversationsState>((set, get) => ({
     }
   },
 
+  /**
+   * Updates how far a participant has read in a conversation, as shown by read receipts
+   * 
+   * @param conversationId - The conversation ID
+   * @param userId - The participant's user ID
+   * @param readReceiptAt - The participant's shared read position
+   */
+  updateParticipantReadReceipt: (conversationId, userId, readReceiptAt) => {
+    const { conversations } = get();
+
+    set({
+      conversations: conversations.map(conv =>
+        conv.id === conversationId
+          ? {
+              ...conv,
+              participants: conv.participants.map(participant =>
+                participant.userId === userId ? { ...participant, readReceiptAt } : participant
+              ),
+            }
+          : conv
+      ),
+    });
+  },
+
   /**
    * Adds participants to a group conversation
    * 
@@ -436,6 +509,235 @@ export const useConversationsStore = create<ConversationsState>((set, get) => ({
     }
   },
 
+  // --- GROUP ADMIN ACTIONS ---
+
+  /**
+   * Removes another member from a group conversation. Only group admins can do this.
+   * 
+   * @param conversationId - The conversation ID
+   * @param userId - The ID of the member to remove
+   * @param currentUserId - The current user's ID
+   * @returns Promise with success status and optional error message
+   */
+  removeParticipant: async (conversationId, userId, currentUserId) => {
+    try {
+      await apiRemoveParticipant(conversationId, userId, currentUserId);
+      await get().refreshConversation(conversationId, currentUserId);
+
+      return { success: true };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to remove member';
+      console.error('Error removing member:', error);
+      return { success: false, error: message };
+    }
+  },
+
+  /**
+   * Makes another member of a group conversation an admin, or a member again
+   * 
+   * @param conversationId - The conversation ID
+   * @param userId - The ID of the member
+   * @param role - The member's new role
+   * @param currentUserId - The current user's ID
+   * @returns Promise with success status and optional error message
+   */
+  setParticipantRole: async (conversationId, userId, role, currentUserId) => {
+    try {
+      await apiSetParticipantRole(conversationId, userId, role, currentUserId);
+      await get().refreshConversation(conversationId, currentUserId);
+
+      return { success: true };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to change member role';
+      console.error('Error changing member role:', error);
+      return { success: false, error: message };
+    }
+  },
+
+  /**
+   * Renames a group conversation
+   * 
+   * @param conversationId - The conversation ID
+   * @param title - The new group name
+   * @param currentUserId - The current user's ID
+   * @returns Promise with success status and optional error message
+   */
+  renameConversation: async (conversationId, title, currentUserId) => {
+    try {
+      const savedTitle = await apiRenameConversation(conversationId, title, currentUserId);
+
+      set((state) => ({
+        conversations: state.conversations.map(conv =>
+          conv.id === conversationId ? { ...conv, title: savedTitle } : conv
+        ),
+      }));
+
+      return { success: true };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to rename group';
+      console.error('Error renaming group:', error);
+      return { success: false, error: message };
+    }
+  },
+
+  /**
+   * Uploads a new photo for a group conversation, or removes its photo
+   * 
+   * @param conversationId - The conversation ID
+   * @param photo - The picked photo to upload, or null to remove the current one
+   * @param currentUserId - The current user's ID
+   * @returns Promise with success status and optional error message
+   */
+  setGroupAvatar: async (conversationId, photo, currentUserId) => {
+    try {
+      let avatarUrl: string | null = null;
+
+      if (photo) {
+        const uploadResult = await uploadPhoto(photo.uri, currentUserId, {
+          bucket: 'avatars',
+          mimeType: photo.mimeType,
+          compress: false, // Avatar images should maintain quality
+        });
+
+        if (!uploadResult.success || !uploadResult.publicUrl) {
+          throw new Error(uploadResult.error || 'Upload failed');
+        }
+
+        avatarUrl = uploadResult.publicUrl;
+      }
+
+      await apiSetConversationAvatar(conversationId, avatarUrl, currentUserId);
+
+      set((state) => ({
+        conversations: state.conversations.map(conv =>
+          conv.id === conversationId ? { ...conv, avatarUrl } : conv
+        ),
+      }));
+
+      return { success: true };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to change group photo';
+      console.error('Error changing group photo:', error);
+      return { success: false, error: message };
+    }
+  },
+
+  /**
+   * Changes how long new messages last in a conversation
+   * 
+   * @param conversationId - The conversation ID
+   * @param messageExpiry - The new setting
+   * @returns Promise with success status and optional error message
+   */
+  setMessageExpiry: async (conversationId, messageExpiry) => {
+    try {
+      await apiSetConversationMessageExpiry(conversationId, messageExpiry);
+
+      set((state) => ({
+        conversations: state.conversations.map(conv =>
+          conv.id === conversationId ? { ...conv, messageExpiry } : conv
+        ),
+      }));
+
+      return { success: true };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to change disappearing messages';
+      console.error('Error changing disappearing messages:', error);
+      return { success: false, error: message };
+    }
+  },
+
+  // --- CONVERSATION PREFERENCE ACTIONS ---
+
+  /**
+   * Pins a conversation to the top of the chat list, or unpins it
+   * 
+   * @param conversationId - The conversation ID
+   * @param isPinned - Whether the conversation should be pinned
+   * @param currentUserId - The current user's ID
+   * @returns Promise with success status and optional error message
+   */
+  setConversationPinned: async (conversationId, isPinned, currentUserId) => {
+    const preferences: Partial<ConversationPreferences> = { isPinned };
+
+    try {
+      await apiUpdateConversationPreferences(conversationId, preferences, currentUserId);
+
+      set((state) => ({
+        conversations: state.conversations.map(conv =>
+          conv.id === conversationId ? { ...conv, preferences: { ...conv.preferences, ...preferences } } : conv
+        ),
+      }));
+      get().sortConversationsByActivity();
+
+      return { success: true };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to pin conversation';
+      console.error('Error pinning conversation:', error);
+      return { success: false, error: message };
+    }
+  },
+
+  /**
+   * Archives a conversation, or moves it back into the chat list. Archived conversations are unpinned.
+   * 
+   * @param conversationId - The conversation ID
+   * @param isArchived - Whether the conversation should be archived
+   * @param currentUserId - The current user's ID
+   * @returns Promise with success status and optional error message
+   */
+  setConversationArchived: async (conversationId, isArchived, currentUserId) => {
+    const preferences: Partial<ConversationPreferences> = isArchived ? { isArchived, isPinned: false } : { isArchived };
+
+    try {
+      await apiUpdateConversationPreferences(conversationId, preferences, currentUserId);
+
+      set((state) => ({
+        conversations: state.conversations.map(conv =>
+          conv.id === conversationId ? { ...conv, preferences: { ...conv.preferences, ...preferences } } : conv
+        ),
+      }));
+      get().sortConversationsByActivity();
+
+      return { success: true };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to archive conversation';
+      console.error('Error archiving conversation:', error);
+      return { success: false, error: message };
+    }
+  },
+
+  /**
+   * Mutes a conversation for a while, or unmutes it
+   * 
+   * @param conversationId - The conversation ID
+   * @param duration - How long to mute for, or null to unmute
+   * @param currentUserId - The current user's ID
+   * @returns Promise with success status and optional error message
+   */
+  muteConversation: async (conversationId, duration, currentUserId) => {
+    const preferences: Partial<ConversationPreferences> = duration
+      ? { isMuted: true, mutedUntil: getMutedUntil(duration) }
+      : { isMuted: false, mutedUntil: null };
+
+    try {
+      await apiUpdateConversationPreferences(conversationId, preferences, currentUserId);
+
+      set((state) => ({
+        conversations: state.conversations.map(conv =>
+          conv.id === conversationId ? { ...conv, preferences: { ...conv.preferences, ...preferences } } : conv
+        ),
+      }));
+      get().sortConversationsByActivity();
+
+      return { success: true };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to mute conversation';
+      console.error('Error muting conversation:', error);
+      return { success: false, error: message };
+    }
+  },
+
   /**
    * Clears conversations data
    */
@@ -446,6 +748,7 @@ export const useConversationsStore = create<ConversationsState>((set, get) => ({
     realtimeState.subscriptions.forEach((channel) => {
       supabase.removeChannel(channel);
     });
+    get().unsubscribeFromPresence();
 
     set({ 
       conversations: [], 
@@ -516,6 +819,70 @@ export const useConversationsStore = create<ConversationsState>((set, get) => ({
           get().fetchConversations(currentUserId);
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'conversation_participants',
+          filter: `user_id=eq.${currentUserId}`,
+        },
+        (payload) => {
+          const updatedParticipant = payload.new as any;
+          const existing = get().getConversationById(updatedParticipant.conversation_id);
+
+          if (!updatedParticipant.is_active) {
+            // The user was removed from a group, or left it on another device
+            if (existing) {
+              set((state) => ({
+                conversations: state.conversations.filter(conv => conv.id !== updatedParticipant.conversation_id),
+              }));
+            }
+          } else if (!existing) {
+            // The user was added back to a group they had left
+            get().fetchConversations(currentUserId);
+          } else {
+            const participant = existing.participants.find(p => p.userId === currentUserId);
+            if (participant && participant.role !== updatedParticipant.role) {
+              get().refreshConversation(updatedParticipant.conversation_id, currentUserId);
+            }
+          }
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'conversation_preferences',
+          filter: `user_id=eq.${currentUserId}`,
+        },
+        (payload) => {
+          // Pinned, archived and muted may have been changed on another device
+          const updatedPreferences = payload.new as any;
+          const existing = updatedPreferences.conversation_id
+            ? get().getConversationById(updatedPreferences.conversation_id)
+            : undefined;
+          if (!existing) return;
+
+          const preferences: ConversationPreferences = {
+            isPinned: updatedPreferences.is_pinned,
+            isArchived: updatedPreferences.is_archived,
+            isMuted: updatedPreferences.is_muted,
+            mutedUntil: updatedPreferences.muted_until,
+          };
+          const hasChanged = (Object.keys(preferences) as (keyof ConversationPreferences)[])
+            .some(key => preferences[key] !== existing.preferences[key]);
+          if (hasChanged) {
+            set((state) => ({
+              conversations: state.conversations.map(conv =>
+                conv.id === existing.id ? { ...conv, preferences } : conv
+              ),
+            }));
+            get().sortConversationsByActivity();
+          }
+        }
+      )
       .subscribe();
 
     // Update subscriptions
@@ -574,6 +941,76 @@ export const useConversationsStore = create<ConversationsState>((set, get) => ({
     });
   },
 
+  /**
+   * Joins the presence channel of each loaded conversation, announcing the current user as online
+   * and tracking which participants are online. Channels of conversations no longer in the list are left.
+   * 
+   * @param currentUserId - The current user's ID
+   */
+  subscribeToPresence: (currentUserId) => {
+    const { conversations, presenceState } = get();
+    const conversationIds = new Set(conversations.map(conv => conv.id));
+    const channels = new Map(presenceState.channels);
+    const onlineUserIds = { ...presenceState.onlineUserIds };
+
+    channels.forEach((channel, conversationId) => {
+      if (!conversationIds.has(conversationId)) {
+        supabase.removeChannel(channel);
+        channels.delete(conversationId);
+        delete onlineUserIds[conversationId];
+      }
+    });
+
+    conversationIds.forEach((conversationId) => {
+      if (channels.has(conversationId)) return;
+
+      const channel = supabase
+        .channel(`presence:${conversationId}`, {
+          // Private, so only participants can join; see 0021_add_realtime_authorization.sql
+          config: { private: true, presence: { key: currentUserId } },
+        })
+        .on('presence', { event: 'sync' }, () => {
+          const presentUserIds = Object.keys(channel.presenceState());
+          set((state) => ({
+            presenceState: {
+              ...state.presenceState,
+              onlineUserIds: {
+                ...state.presenceState.onlineUserIds,
+                [conversationId]: presentUserIds,
+              },
+            },
+          }));
+        })
+        .subscribe(async (status) => {
+          if (status === 'SUBSCRIBED') {
+            await channel.track({ onlineAt: new Date().toISOString() });
+          }
+        });
+
+      channels.set(conversationId, channel);
+    });
+
+    set({ presenceState: { channels, onlineUserIds } });
+  },
+
+  /**
+   * Leaves all presence channels, so the current user no longer appears online
+   */
+  unsubscribeFromPresence: () => {
+    const { presenceState } = get();
+
+    presenceState.channels.forEach((channel) => {
+      supabase.removeChannel(channel);
+    });
+
+    set({
+      presenceState: {
+        channels: new Map(),
+        onlineUserIds: {},
+      },
+    });
+  },
+
   // --- HELPER METHODS ---
 
   /**
@@ -588,13 +1025,15 @@ export const useConversationsStore = create<ConversationsState>((set, get) => ({
   },
 
   /**
-   * Gets the total unread count across all conversations
+   * Gets the total unread count across all conversations, leaving out muted ones
    * 
    * @returns Total unread message count
    */
   getTotalUnreadCount: () => {
     const { conversations } = get();
-    return conversations.reduce((total, conv) => total + conv.unreadCount, 0);
+    return conversations
+      .filter(conv => !isConversationMuted(conv.preferences))
+      .reduce((total, conv) => total + conv.unreadCount, 0);
   },
 
   /**
@@ -633,14 +1072,36 @@ export const useConversationsStore = create<ConversationsState>((set, get) => ({
   },
 
   /**
-   * Sorts conversations by last activity
+   * Sorts conversations by last activity, keeping pinned conversations on top
    */
   sortConversationsByActivity: () => {
     const { conversations } = get();
-    const sortedConversations = [...conversations].sort((a, b) => 
-      new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
-    );
+    const sortedConversations = [...conversations].sort(compareConversationsByActivity);
     
     set({ conversations: sortedConversations });
   },
+
+  /**
+   * Checks if a user is online in any of the current user's conversations
+   * 
+   * @param userId - The user's ID
+   * @returns Whether the user is online
+   */
+  isUserOnline: (userId) => {
+    const { presenceState } = get();
+    return Object.values(presenceState.onlineUserIds).some(userIds => userIds.includes(userId));
+  },
+
+  /**
+   * Checks if a user is an admin of a group conversation
+   * 
+   * @param conversationId - The conversation ID
+   * @param userId - The user's ID
+   * @returns Whether the user is an admin
+   */
+  isConversationAdmin: (conversationId, userId) => {
+    const conversation = get().getConversationById(conversationId);
+    return conversation?.type === 'group'
+      && conversation.participants.some(p => p.userId === userId && p.role === 'admin');
+  },
 })); 
\ No newline at end of file
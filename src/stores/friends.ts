@@ -4,10 +4,14 @@
  */
 
 import {
+  blockUser as apiBlockUser,
+  fetchBlockedUsers as apiFetchBlockedUsers,
   fetchFriends as apiFetchFriends,
   removeFriend as apiRemoveFriend,
   searchFriends as apiSearchFriends,
   searchUsersWithStatus,
+  unblockUser as apiUnblockUser,
+  type BlockedUser,
   type Friend as ApiFriend,
   type UserSearchResultWithStatus
 } from '@/api/friends';
@@ -43,6 +47,10 @@ interface FriendsState {
   searchQuery: string;
   isSearchLoading: boolean;
   searchError: string | null;
+
+  // Blocked users state
+  blockedUsers: BlockedUser[];
+  isBlockedUsersLoading: boolean;
   
   // Actions
   setSearchQuery: (query: string) => void;
@@ -57,10 +65,16 @@ interface FriendsState {
   clearFriends: () => void;
   clearFriendsError: () => void;
   setFriendsSearchQuery: (query: string) => void;
+
+  // Block actions
+  fetchBlockedUsers: (currentUserId: string) => Promise<void>;
+  blockUser: (currentUserId: string, userId: string) => Promise<{ success: boolean; error?: string }>;
+  unblockUser: (currentUserId: string, userId: string) => Promise<{ success: boolean; error?: string }>;
   
   // Helper methods
   getFriendById: (friendId: string) => Friend | undefined;
   isFriendRemovalInProgress: (friendId: string) => boolean;
+  isUserBlocked: (userId: string) => boolean;
 }
 
 /**
@@ -81,6 +95,9 @@ export const useFriendsStore = create<FriendsState>((set, get) => ({
   isSearchLoading: false,
   searchError: null,
 
+  blockedUsers: [],
+  isBlockedUsersLoading: false,
+
   // --- SEARCH ACTIONS (for finding new users) ---
 
   /**
@@ -259,6 +276,75 @@ export const useFriendsStore = create<FriendsState>((set, get) => ({
     set({ friendsError: null });
   },
 
+  // --- BLOCK ACTIONS ---
+
+  /**
+   * Fetches the users the current user has blocked
+   * 
+   * @param currentUserId - The current user's ID
+   */
+  fetchBlockedUsers: async (currentUserId) => {
+    set({ isBlockedUsersLoading: true });
+
+    try {
+      const blockedUsers = await apiFetchBlockedUsers(currentUserId);
+      set({ blockedUsers, isBlockedUsersLoading: false });
+    } catch (error) {
+      console.error('Error fetching blocked users:', error);
+      set({ isBlockedUsersLoading: false });
+    }
+  },
+
+  /**
+   * Blocks a user and removes them from the friends list and search results
+   * 
+   * @param currentUserId - The current user's ID
+   * @param userId - The ID of the user to block
+   * @returns Promise with success status and optional error message
+   */
+  blockUser: async (currentUserId, userId) => {
+    try {
+      await apiBlockUser(currentUserId, userId);
+
+      set((state) => ({
+        friends: state.friends.filter(friend => friend.friendId !== userId),
+        searchResults: state.searchResults.filter(user => user.id !== userId),
+      }));
+
+      // Reload for the blocked user's profile
+      await get().fetchBlockedUsers(currentUserId);
+
+      return { success: true };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to block user';
+      console.error('Error blocking user:', error);
+      return { success: false, error: message };
+    }
+  },
+
+  /**
+   * Unblocks a user
+   * 
+   * @param currentUserId - The current user's ID
+   * @param userId - The ID of the user to unblock
+   * @returns Promise with success status and optional error message
+   */
+  unblockUser: async (currentUserId, userId) => {
+    try {
+      await apiUnblockUser(currentUserId, userId);
+
+      set((state) => ({
+        blockedUsers: state.blockedUsers.filter(blockedUser => blockedUser.userId !== userId),
+      }));
+
+      return { success: true };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to unblock user';
+      console.error('Error unblocking user:', error);
+      return { success: false, error: message };
+    }
+  },
+
   // --- HELPER METHODS ---
 
   /**
@@ -282,4 +368,15 @@ export const useFriendsStore = create<FriendsState>((set, get) => ({
     const { actionStates } = get();
     return actionStates[friendId]?.isRemoving || false;
   },
-})); 
\ No newline at end of file
+
+  /**
+   * Checks if the current user has blocked a user
+   * 
+   * @param userId - The user's ID
+   * @returns Whether the user is blocked
+   */
+  isUserBlocked: (userId) => {
+    const { blockedUsers } = get();
+    return blockedUsers.some(blockedUser => blockedUser.userId === userId);
+  },
+}));
\ No newline at end of file
@@ -1,8 +1,11 @@
 /**
  * @file This file contains the Zustand store for managing itineraries data.
- * It handles fetching, creating, updating, searching, and holding the state for itineraries.
+ * It handles fetching, creating, updating, searching, and holding the state for itineraries,
+ * as well as itinerary members, pending invites and real-time itinerary updates.
  */
 
+import { supabase } from '@/utils/supabase';
+import { RealtimeChannel } from '@supabase/supabase-js';
 import { create } from 'zustand';
 import {
   getItineraries as getItinerariesFromApi,
@@ -11,10 +14,26 @@ import {
   updateItinerary as updateItineraryFromApi,
   deleteItinerary as deleteItineraryFromApi,
   searchItineraries as searchItinerariesFromApi,
+  getItineraryMembers as getItineraryMembersFromApi,
+  inviteToItinerary as inviteToItineraryFromApi,
+  updateItineraryMemberRole as updateItineraryMemberRoleFromApi,
+  removeItineraryMember as removeItineraryMemberFromApi,
+  getItineraryInvites as getItineraryInvitesFromApi,
+  acceptItineraryInvite as acceptItineraryInviteFromApi,
+  declineItineraryInvite as declineItineraryInviteFromApi,
   type Itinerary,
   type CreateItineraryData,
   type UpdateItineraryData
 } from '@/api/itineraries';
+import type { ItineraryInvite, ItineraryMember, ItineraryRole } from '@/types/itineraries';
+
+/**
+ * Interface for real-time subscription state
+ */
+interface ItinerariesRealtimeState {
+  subscriptions: Map<string, RealtimeChannel>; // userId -> channel
+  isConnected: boolean;
+}
 
 /**
  * Interface for the Itineraries store state and its actions
@@ -25,19 +44,41 @@ interface ItinerariesStoreState {
   isLoading: boolean;
   error: string | null;
   searchQuery: string;
+  members: { [itineraryId: string]: ItineraryMember[] };
+  invites: ItineraryInvite[];
+  realtimeState: ItinerariesRealtimeState;
   
   // Actions
   fetchItineraries: () => Promise<void>;
   fetchItinerary: (id: string) => Promise<Itinerary | null>;
+  refreshItinerary: (id: string) => Promise<void>;
   createItinerary: (data: CreateItineraryData) => Promise<Itinerary>;
   updateItinerary: (id: string, data: UpdateItineraryData) => Promise<Itinerary>;
   deleteItinerary: (id: string) => Promise<void>;
   searchItineraries: (query: string) => Promise<void>;
   setSearchQuery: (query: string) => void;
   clearError: () => void;
+
+  // Membership actions
+  fetchMembers: (itineraryId: string) => Promise<void>;
+  inviteMember: (itineraryId: string, friendId: string, role: Exclude<ItineraryRole, 'owner'>) => Promise<void>;
+  updateMemberRole: (itineraryId: string, userId: string, role: Exclude<ItineraryRole, 'owner'>) => Promise<void>;
+  removeMember: (itineraryId: string, userId: string) => Promise<void>;
+  leaveItinerary: (itineraryId: string, currentUserId: string) => Promise<void>;
+  fetchInvites: () => Promise<void>;
+  acceptInvite: (itineraryId: string) => Promise<void>;
+  declineInvite: (itineraryId: string) => Promise<void>;
+
+  // Real-time actions
+  subscribeToItineraryUpdates: (currentUserId: string) => void;
+  unsubscribeFromItineraryUpdates: (currentUserId: string) => void;
+  unsubscribeFromAll: () => void;
   
   // Helper methods
   getItineraryById: (id: string) => Itinerary | undefined;
+  getMembersForItinerary: (itineraryId: string) => ItineraryMember[];
+  canEditItinerary: (id: string) => boolean;
+  isItineraryOwner: (id: string) => boolean;
 }
 
 /**
@@ -51,6 +92,12 @@ export const useItinerariesStore = create<ItinerariesStoreState>((set, get) => (
   isLoading: false,
   error: null,
   searchQuery: '',
+  members: {},
+  invites: [],
+  realtimeState: {
+    subscriptions: new Map(),
+    isConnected: false,
+  },
 
   // Actions
   clearError: () => set({ error: null }),
@@ -100,13 +147,38 @@ export const useItinerariesStore = create<ItinerariesStoreState>((set, get) => (
     }
   },
   
+  refreshItinerary: async (id: string) => {
+    // Refetches a single itinerary without toggling loading state, for real-time updates
+    try {
+      const data = await getItineraryFromApi(id);
+      const currentItineraries = get().itineraries;
+      
+      if (!data) {
+        set({ itineraries: currentItineraries.filter(itinerary => itinerary.id !== id) });
+        return;
+      }
+      
+      if (currentItineraries.find(i => i.id === id)) {
+        set({
+          itineraries: currentItineraries.map(itinerary =>
+            itinerary.id === id ? data : itinerary
+          )
+        });
+      } else {
+        set({ itineraries: [data, ...currentItineraries] });
+      }
+    } catch (error) {
+      console.error('Error refreshing itinerary:', error);
+    }
+  },
+  
   createItinerary: async (data: CreateItineraryData) => {
     set({ isLoading: true, error: null });
     try {
       const newItinerary = await createItineraryFromApi(data);
       
-      // Add the new itinerary to the list
-      const currentItineraries = get().itineraries;
+      // Add the new itinerary to the list (the real-time owner membership may have already added it)
+      const currentItineraries = get().itineraries.filter(itinerary => itinerary.id !== newItinerary.id);
       set({ itineraries: [newItinerary, ...currentItineraries] });
       
       return newItinerary;
@@ -129,7 +201,8 @@ export const useItinerariesStore = create<ItinerariesStoreState>((set, get) => (
       const currentItineraries = get().itineraries;
       set({
         itineraries: currentItineraries.map(itinerary =>
-          itinerary.id === id ? updatedItinerary : itinerary
+          // Keep the current user's role, which the update response does not include
+          itinerary.id === id ? { ...itinerary, ...updatedItinerary } : itinerary
         )
       });
       
@@ -178,7 +251,265 @@ export const useItinerariesStore = create<ItinerariesStoreState>((set, get) => (
     }
   },
   
+  fetchMembers: async (itineraryId: string) => {
+    set({ error: null });
+    try {
+      const data = await getItineraryMembersFromApi(itineraryId);
+      set({ members: { ...get().members, [itineraryId]: data } });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to fetch itinerary members';
+      set({ error: message });
+      console.error('Error fetching itinerary members:', error);
+    }
+  },
+  
+  inviteMember: async (itineraryId: string, friendId: string, role: Exclude<ItineraryRole, 'owner'>) => {
+    try {
+      await inviteToItineraryFromApi(itineraryId, friendId, role);
+      await get().fetchMembers(itineraryId);
+    } catch (error) {
+      console.error('Error inviting itinerary member:', error);
+      throw error;
+    }
+  },
+  
+  updateMemberRole: async (itineraryId: string, userId: string, role: Exclude<ItineraryRole, 'owner'>) => {
+    try {
+      await updateItineraryMemberRoleFromApi(itineraryId, userId, role);
+      
+      // Update the member in the list
+      const currentMembers = get().members[itineraryId] || [];
+      set({
+        members: {
+          ...get().members,
+          [itineraryId]: currentMembers.map(member =>
+            member.userId === userId ? { ...member, role } : member
+          )
+        }
+      });
+    } catch (error) {
+      console.error('Error updating itinerary member role:', error);
+      throw error;
+    }
+  },
+  
+  removeMember: async (itineraryId: string, userId: string) => {
+    try {
+      await removeItineraryMemberFromApi(itineraryId, userId);
+      
+      // Remove the member from the list
+      const currentMembers = get().members[itineraryId] || [];
+      set({
+        members: {
+          ...get().members,
+          [itineraryId]: currentMembers.filter(member => member.userId !== userId)
+        }
+      });
+    } catch (error) {
+      console.error('Error removing itinerary member:', error);
+      throw error;
+    }
+  },
+  
+  leaveItinerary: async (itineraryId: string, currentUserId: string) => {
+    try {
+      await removeItineraryMemberFromApi(itineraryId, currentUserId);
+      
+      // Drop the itinerary and its members from local state
+      const { [itineraryId]: _removed, ...remainingMembers } = get().members;
+      set({
+        itineraries: get().itineraries.filter(itinerary => itinerary.id !== itineraryId),
+        members: remainingMembers
+      });
+    } catch (error) {
+      console.error('Error leaving itinerary:', error);
+      throw error;
+    }
+  },
+  
+  fetchInvites: async () => {
+    try {
+      const data = await getItineraryInvitesFromApi();
+      set({ invites: data });
+    } catch (error) {
+      console.error('Error fetching itinerary invites:', error);
+    }
+  },
+  
+  acceptInvite: async (itineraryId: string) => {
+    try {
+      await acceptItineraryInviteFromApi(itineraryId);
+      set({ invites: get().invites.filter(invite => invite.itineraryId !== itineraryId) });
+      
+      // Pull the newly shared itinerary into the list
+      await get().fetchItinerary(itineraryId);
+    } catch (error) {
+      console.error('Error accepting itinerary invite:', error);
+      throw error;
+    }
+  },
+  
+  declineInvite: async (itineraryId: string) => {
+    try {
+      await declineItineraryInviteFromApi(itineraryId);
+      set({ invites: get().invites.filter(invite => invite.itineraryId !== itineraryId) });
+    } catch (error) {
+      console.error('Error declining itinerary invite:', error);
+      throw error;
+    }
+  },
+  
+  subscribeToItineraryUpdates: (currentUserId: string) => {
+    const { realtimeState } = get();
+    
+    // Don't subscribe if already subscribed
+    if (realtimeState.subscriptions.has(currentUserId)) {
+      return;
+    }
+    
+    const channel = supabase
+      .channel(`itineraries:${currentUserId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'itineraries',
+        },
+        (payload) => {
+          const updatedItinerary = payload.new as Itinerary;
+          
+          // Merge the change, keeping the current user's role
+          set({
+            itineraries: get().itineraries.map(itinerary =>
+              itinerary.id === updatedItinerary.id ? { ...itinerary, ...updatedItinerary, role: itinerary.role } : itinerary
+            )
+          });
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'DELETE',
+          schema: 'public',
+          table: 'itineraries',
+        },
+        (payload) => {
+          const deletedItinerary = payload.old as Partial<Itinerary>;
+          
+          set({
+            itineraries: get().itineraries.filter(itinerary => itinerary.id !== deletedItinerary.id)
+          });
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'itinerary_members',
+          filter: `user_id=eq.${currentUserId}`,
+        },
+        (payload) => {
+          // Deletes are handled by the unfiltered listener below
+          if (payload.eventType === 'DELETE') {
+            return;
+          }
+          
+          const membership = payload.new as any;
+          if (membership.status === 'pending') {
+            get().fetchInvites();
+          } else {
+            // Joined an itinerary or had their role changed
+            get().refreshItinerary(membership.itinerary_id);
+          }
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          // Realtime cannot filter deletes; their old row carries the primary key, which holds the user
+          event: 'DELETE',
+          schema: 'public',
+          table: 'itinerary_members',
+        },
+        (payload) => {
+          const membership = payload.old as any;
+          if (membership.user_id !== currentUserId) {
+            return;
+          }
+          
+          // The user was removed from an itinerary or an invite was withdrawn
+          set({
+            itineraries: get().itineraries.filter(itinerary => itinerary.id !== membership.itinerary_id),
+            invites: get().invites.filter(invite => invite.itineraryId !== membership.itinerary_id)
+          });
+        }
+      )
+      .subscribe();
+    
+    // Update subscriptions
+    const newSubscriptions = new Map(realtimeState.subscriptions);
+    newSubscriptions.set(currentUserId, channel);
+    
+    set({
+      realtimeState: {
+        ...realtimeState,
+        subscriptions: newSubscriptions,
+        isConnected: true,
+      },
+    });
+  },
+  
+  unsubscribeFromItineraryUpdates: (currentUserId: string) => {
+    const { realtimeState } = get();
+    const channel = realtimeState.subscriptions.get(currentUserId);
+    
+    if (channel) {
+      supabase.removeChannel(channel);
+      
+      const newSubscriptions = new Map(realtimeState.subscriptions);
+      newSubscriptions.delete(currentUserId);
+      
+      set({
+        realtimeState: {
+          ...realtimeState,
+          subscriptions: newSubscriptions,
+          isConnected: newSubscriptions.size > 0,
+        },
+      });
+    }
+  },
+  
+  unsubscribeFromAll: () => {
+    const { realtimeState } = get();
+    
+    realtimeState.subscriptions.forEach((channel) => {
+      supabase.removeChannel(channel);
+    });
+    
+    set({
+      realtimeState: {
+        subscriptions: new Map(),
+        isConnected: false,
+      },
+    });
+  },
+  
   getItineraryById: (id: string) => {
     return get().itineraries.find(itinerary => itinerary.id === id);
+  },
+  
+  getMembersForItinerary: (itineraryId: string) => {
+    return get().members[itineraryId] || [];
+  },
+  
+  canEditItinerary: (id: string) => {
+    const role = get().getItineraryById(id)?.role;
+    return role === 'owner' || role === 'editor';
+  },
+  
+  isItineraryOwner: (id: string) => {
+    return get().getItineraryById(id)?.role === 'owner';
   }
 }));
\ No newline at end of file
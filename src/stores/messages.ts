@@ -4,17 +4,34 @@
  */
 
 import {
+  addReaction as apiAddReaction,
+  deleteMessageForMe as apiDeleteMessageForMe,
+  editMessage as apiEditMessage,
+  fetchMessageContext as apiFetchMessageContext,
   fetchMessages as apiFetchMessages,
   getUnreadMessageCount as apiGetUnreadMessageCount,
   markMessagesAsRead as apiMarkMessagesAsRead,
+  openViewOnce as apiOpenViewOnce,
+  removeReaction as apiRemoveReaction,
+  searchMessages as apiSearchMessages,
   sendMessage as apiSendMessage,
+  unsendMessage as apiUnsendMessage,
+  ConversationAccessError,
+  MessageRejectedError,
+  MessageValidationError,
+  RateLimitError,
   type CreateMessageData,
+  type MessageReaction,
+  type MessageSearchResult,
   type MessageWithSender,
 } from '@/api/messages';
+import { generateUUID } from '@/utils';
+import { uploadPhoto } from '@/utils/photoStorage';
 import { supabase } from '@/utils/supabase';
 import { RealtimeChannel } from '@supabase/supabase-js';
 import { create } from 'zustand';
 import { useConversationsStore } from './conversations';
+import { useOutboxStore } from './outbox';
 
 /**
  * Interface for message data (from API)
@@ -33,6 +50,7 @@ interface ConversationMessages {
   lastFetch: string | null; // Timestamp of last fetch for pagination
   unreadCount: number;
   isMarkingAsRead: boolean;
+  typingUserIds: string[]; // Other participants currently typing
 }
 
 /**
@@ -43,6 +61,16 @@ interface MessageSendingState {
   error: string | null;
 }
 
+/**
+ * Interface for message search state
+ */
+interface MessageSearchState {
+  query: string;
+  results: MessageSearchResult[];
+  isSearching: boolean;
+  error: string | null;
+}
+
 /**
  * Interface for real-time subscription state
  */
@@ -63,18 +91,37 @@ interface MessagesState {
   
   // Real-time state
   realtimeState: RealtimeState;
+
+  // Message search state
+  searchState: MessageSearchState;
   
   // Actions - Message Management
   fetchMessages: (conversationId: string, currentUserId: string, loadMore?: boolean) => Promise<void>;
-  sendMessage: (messageData: CreateMessageData, currentUserId: string) => Promise<{ success: boolean; error?: string }>;
+  sendMessage: (messageData: CreateMessageData, currentUserId: string) => Promise<{ success: boolean; queued?: boolean; error?: string }>;
   markAsRead: (conversationId: string, currentUserId: string) => Promise<void>;
+  editMessage: (conversationId: string, messageId: string, content: string, currentUserId: string) => Promise<{ success: boolean; error?: string }>;
+  unsendMessage: (conversationId: string, messageId: string) => Promise<{ success: boolean; error?: string }>;
+  deleteMessageForMe: (conversationId: string, messageId: string, currentUserId: string) => Promise<{ success: boolean; error?: string }>;
+  openViewOnce: (conversationId: string, messageId: string, currentUserId: string) => Promise<{ success: boolean; uri?: string; error?: string }>;
+  toggleReaction: (conversationId: string, messageId: string, emoji: string, currentUserId: string) => Promise<{ success: boolean; error?: string }>;
   clearConversationMessages: (conversationId: string) => void;
   clearAllMessages: () => void;
+
+  // Actions - Search
+  searchMessages: (query: string, conversationId?: string) => Promise<void>;
+  clearSearch: () => void;
+  loadMessageContext: (conversationId: string, messageId: string, currentUserId: string) => Promise<{ success: boolean; error?: string }>;
+
+  // Actions - Outbox
+  deliverOutboxMessage: (clientId: string) => Promise<{ success: boolean; retryable?: boolean; error?: string }>;
+  retryOutbox: (currentUserId: string, force?: boolean) => Promise<void>;
+  discardOutboxMessage: (clientId: string) => void;
   
   // Actions - Real-time
   subscribeToConversation: (conversationId: string, currentUserId: string) => void;
   unsubscribeFromConversation: (conversationId: string) => void;
   unsubscribeFromAll: () => void;
+  sendTypingStatus: (conversationId: string, currentUserId: string, isTyping: boolean) => void;
   
   // Helper methods
   getConversationMessages: (conversationId: string) => Message[];
@@ -83,8 +130,19 @@ interface MessagesState {
   getUnreadCount: (conversationId: string) => number;
   hasMoreMessages: (conversationId: string) => boolean;
   isLoadingMoreMessages: (conversationId: string) => boolean;
+  getTypingUserIds: (conversationId: string) => string[];
 }
 
+/**
+ * Initial state for message search
+ */
+const createInitialSearchState = (): MessageSearchState => ({
+  query: '',
+  results: [],
+  isSearching: false,
+  error: null,
+});
+
 /**
  * Initial state for a conversation's messages
  */
@@ -97,6 +155,156 @@ const createInitialConversationState = (): ConversationMessages => ({
   lastFetch: null,
   unreadCount: 0,
   isMarkingAsRead: false,
+  typingUserIds: [],
+});
+
+/**
+ * How long a participant shows as typing without a new typing event, in case their stop event is lost
+ */
+const TYPING_TIMEOUT_MS = 6000;
+
+/**
+ * Timers that clear stale typing status, keyed by `${conversationId}:${userId}`
+ */
+const typingTimeouts = new Map<string, ReturnType<typeof setTimeout>>();
+
+/**
+ * Conversations where the current user has announced typing -> the current user's ID,
+ * so a stop event can be sent when leaving the conversation
+ */
+const ownTypingConversations = new Map<string, string>();
+
+/**
+ * Returns the conversation messages with a participant added to or removed from the typing list
+ */
+const updateTypingInState = (
+  conversationMessages: Record<string, ConversationMessages>,
+  conversationId: string,
+  userId: string,
+  isTyping: boolean
+): Record<string, ConversationMessages> => {
+  const currentState = conversationMessages[conversationId] || createInitialConversationState();
+  const isListed = currentState.typingUserIds.includes(userId);
+  if (isListed === isTyping) return conversationMessages;
+
+  return {
+    ...conversationMessages,
+    [conversationId]: {
+      ...currentState,
+      typingUserIds: isTyping
+        ? [...currentState.typingUserIds, userId]
+        : currentState.typingUserIds.filter(id => id !== userId),
+    },
+  };
+};
+
+/**
+ * Cancels the stale typing timers of a conversation, or of all conversations
+ */
+const clearTypingTimeouts = (conversationId?: string) => {
+  typingTimeouts.forEach((timeout, key) => {
+    if (!conversationId || key.startsWith(`${conversationId}:`)) {
+      clearTimeout(timeout);
+      typingTimeouts.delete(key);
+    }
+  });
+};
+
+/**
+ * Outbox retry timing: the delay doubles after each failed attempt up to the maximum,
+ * and automatic retries stop after MAX_AUTO_ATTEMPTS until the app is reopened or the user retries
+ */
+const OUTBOX_RETRY = {
+  BASE_DELAY_MS: 2000,
+  MAX_DELAY_MS: 60000,
+  MAX_AUTO_ATTEMPTS: 6,
+} as const;
+
+/**
+ * Upload settings for queued photos, matching photos shared from the camera
+ */
+const OUTBOX_PHOTO_UPLOAD_OPTIONS = {
+  quality: 0.8,
+  maxWidth: 1920,
+  maxHeight: 1920,
+  compress: true,
+};
+
+/**
+ * Outbox messages currently being delivered, so a message is never sent twice at once
+ */
+const deliveringClientIds = new Set<string>();
+
+/**
+ * Timer for the next automatic outbox retry
+ */
+let outboxRetryTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Returns the conversation messages with a delivered message added, unless it is already there
+ */
+const addMessageToState = (
+  conversationMessages: Record<string, ConversationMessages>,
+  message: Message
+): Record<string, ConversationMessages> => {
+  const currentState = conversationMessages[message.conversationId] || createInitialConversationState();
+  if (currentState.messages.some(existing => existing.id === message.id)) return conversationMessages;
+
+  return {
+    ...conversationMessages,
+    [message.conversationId]: {
+      ...currentState,
+      messages: [message, ...currentState.messages],
+    },
+  };
+};
+
+/**
+ * Returns the conversation messages with one message replaced, or removed when `update` returns null.
+ * Quoted previews in replies to the message pick up its new content.
+ */
+const updateMessageInState = (
+  conversationMessages: Record<string, ConversationMessages>,
+  conversationId: string,
+  messageId: string,
+  update: (message: Message) => Message | null
+): Record<string, ConversationMessages> => {
+  const currentState = conversationMessages[conversationId];
+  if (!currentState) return conversationMessages;
+
+  const target = currentState.messages.find(message => message.id === messageId);
+  if (!target) return conversationMessages;
+  const updated = update(target);
+
+  return {
+    ...conversationMessages,
+    [conversationId]: {
+      ...currentState,
+      messages: currentState.messages.flatMap(message => {
+        if (message.id === messageId) return updated ? [updated] : [];
+        if (updated && message.replyTo?.id === messageId) {
+          return [{ ...message, replyTo: { ...message.replyTo, content: updated.content, deletedAt: updated.deletedAt } }];
+        }
+        return [message];
+      }),
+    },
+  };
+};
+
+/**
+ * Returns the message with a reaction added, unless it is already there
+ */
+const withReaction = (message: Message, reaction: MessageReaction): Message => {
+  const exists = message.reactions.some(r => r.userId === reaction.userId && r.emoji === reaction.emoji);
+  return exists ? message : { ...message, reactions: [...message.reactions, reaction] };
+};
+
+/**
+ * Returns the message with a reaction removed
+ */
+const withoutReaction = (message: Message, reaction: MessageReaction): Message => ({
+  ...message,
+  reactions: message.reactions.filter(r => !(r.userId === reaction.userId && r.emoji === reaction.emoji)),
 });
 
 /**
@@ -115,6 +323,7 @@ export const useMessagesStore = create<MessagesState>((set, get) => ({
     subscriptions: new Map(),
     isConnected: false,
   },
+  searchState: createInitialSearchState(),
 
   // --- MESSAGE MANAGEMENT ACTIONS ---
 
@@ -158,7 +367,7 @@ export const useMessagesStore = create<MessagesState>((set, get) => ({
 
       // Filter out expired messages (client-side safety check)
       const now = new Date();
-      const validMessages = newMessages.filter(msg => new Date(msg.expiresAt) > now);
+      const validMessages = newMessages.filter(msg => !msg.expiresAt || new Date(msg.expiresAt) > now);
 
       // Determine pagination state
       const hasMore = validMessages.length === 50; // If we got a full page, there might be more
@@ -203,20 +412,39 @@ export const useMessagesStore = create<MessagesState>((set, get) => ({
   },
 
   /**
-   * Sends a message with optimistic updates
+   * Sends a message through the outbox. The message shows as sending straight away; if it cannot
+   * be delivered it stays queued and is retried, so only invalid messages return an error.
    * 
    * @param messageData - The message data to send
    * @param currentUserId - The current user's ID
-   * @returns Promise with success status and optional error message
+   * @returns Promise with success status, whether the message is still queued, and optional error message
    */
   sendMessage: async (messageData, currentUserId) => {
-    const { conversationMessages, sendingState } = get();
+    const { sendingState } = get();
 
     // Don't send if already sending
     if (sendingState.isSending) {
       return { success: false, error: 'Another message is being sent' };
     }
 
+    const type = messageData.type || 'text';
+    const clientId = messageData.id || generateUUID();
+
+    useOutboxStore.getState().addMessage({
+      clientId,
+      conversationId: messageData.conversationId,
+      senderId: currentUserId,
+      content: messageData.content,
+      type,
+      replyToId: messageData.replyToId || null,
+      isLocalPhoto: type === 'photo' && !/^https?:\/\//.test(messageData.content),
+      status: 'sending',
+      attempts: 0,
+      nextAttemptAt: 0,
+      createdAt: new Date().toISOString(),
+      error: null,
+    });
+
     // Set sending state
     set({
       sendingState: {
@@ -225,40 +453,26 @@ export const useMessagesStore = create<MessagesState>((set, get) => ({
       },
     });
 
-    try {
-      const sentMessage = await apiSendMessage(messageData, currentUserId);
+    const result = await get().deliverOutboxMessage(clientId);
 
-      // Add message to local state (optimistic update)
-      const currentState = conversationMessages[messageData.conversationId] || createInitialConversationState();
-      
-      set({
-        conversationMessages: {
-          ...conversationMessages,
-          [messageData.conversationId]: {
-            ...currentState,
-            messages: [sentMessage, ...currentState.messages],
-          },
-        },
-        sendingState: {
-          isSending: false,
-          error: null,
-        },
-      });
+    set({
+      sendingState: {
+        isSending: false,
+        error: result.retryable === false ? result.error || 'Failed to send message' : null,
+      },
+    });
 
+    if (result.success) {
+      // Connectivity is back, so send anything else still waiting
+      get().retryOutbox(currentUserId, true);
       return { success: true };
-    } catch (error) {
-      const message = error instanceof Error ? error.message : 'Failed to send message';
-      console.error('Error sending message:', error);
-      
-      set({
-        sendingState: {
-          isSending: false,
-          error: message,
-        },
-      });
+    }
 
-      return { success: false, error: message };
+    if (result.retryable) {
+      return { success: true, queued: true };
     }
+
+    return { success: false, error: result.error };
   },
 
   /**
@@ -319,6 +533,179 @@ export const useMessagesStore = create<MessagesState>((set, get) => ({
     }
   },
 
+  /**
+   * Edits the text of one of the current user's messages
+   * 
+   * @param conversationId - The conversation the message belongs to
+   * @param messageId - The message to edit
+   * @param content - The new message text
+   * @param currentUserId - The current user's ID
+   * @returns Promise with success status and optional error message
+   */
+  editMessage: async (conversationId, messageId, content, currentUserId) => {
+    try {
+      const edited = await apiEditMessage(messageId, content, currentUserId);
+
+      set({
+        conversationMessages: updateMessageInState(
+          get().conversationMessages,
+          conversationId,
+          messageId,
+          message => ({ ...message, ...edited })
+        ),
+      });
+
+      return { success: true };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to edit message';
+      console.error('Error editing message:', error);
+      return { success: false, error: message };
+    }
+  },
+
+  /**
+   * Unsends one of the current user's messages for everyone
+   * 
+   * @param conversationId - The conversation the message belongs to
+   * @param messageId - The message to unsend
+   * @returns Promise with success status and optional error message
+   */
+  unsendMessage: async (conversationId, messageId) => {
+    try {
+      const deletedAt = await apiUnsendMessage(messageId);
+
+      set({
+        conversationMessages: updateMessageInState(
+          get().conversationMessages,
+          conversationId,
+          messageId,
+          message => ({ ...message, content: '', deletedAt })
+        ),
+      });
+
+      return { success: true };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to unsend message';
+      console.error('Error unsending message:', error);
+      return { success: false, error: message };
+    }
+  },
+
+  /**
+   * Removes a message from the current user's view of the conversation
+   * 
+   * @param conversationId - The conversation the message belongs to
+   * @param messageId - The message to hide
+   * @param currentUserId - The current user's ID
+   * @returns Promise with success status and optional error message
+   */
+  deleteMessageForMe: async (conversationId, messageId, currentUserId) => {
+    try {
+      await apiDeleteMessageForMe(messageId, currentUserId);
+
+      set({
+        conversationMessages: updateMessageInState(
+          get().conversationMessages,
+          conversationId,
+          messageId,
+          () => null
+        ),
+      });
+
+      return { success: true };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to delete message';
+      console.error('Error deleting message for user:', error);
+      return { success: false, error: message };
+    }
+  },
+
+  /**
+   * Opens a view-once photo and marks it as viewed by the current user, so it can only be
+   * shown once. The photo is not kept in the store.
+   * 
+   * @param conversationId - The conversation the message belongs to
+   * @param messageId - The view-once message
+   * @param currentUserId - The current user's ID
+   * @returns Promise with success status, the photo URL, and optional error message
+   */
+  openViewOnce: async (conversationId, messageId, currentUserId) => {
+    try {
+      const uri = await apiOpenViewOnce(messageId);
+
+      set({
+        conversationMessages: updateMessageInState(
+          get().conversationMessages,
+          conversationId,
+          messageId,
+          message => ({
+            ...message,
+            viewedBy: [...message.viewedBy, currentUserId],
+          })
+        ),
+      });
+
+      return { success: true, uri };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to open photo';
+      console.error('Error opening view-once photo:', error);
+      return { success: false, error: message };
+    }
+  },
+
+  /**
+   * Adds the current user's reaction to a message, or removes it if they already reacted with
+   * that emoji. The change is shown straight away and undone if it fails.
+   * 
+   * @param conversationId - The conversation the message belongs to
+   * @param messageId - The message to react to
+   * @param emoji - The reaction emoji
+   * @param currentUserId - The current user's ID
+   * @returns Promise with success status and optional error message
+   */
+  toggleReaction: async (conversationId, messageId, emoji, currentUserId) => {
+    const message = get().conversationMessages[conversationId]?.messages.find(m => m.id === messageId);
+    if (!message) {
+      return { success: false, error: 'Message not found' };
+    }
+
+    const reaction: MessageReaction = { userId: currentUserId, emoji };
+    const isRemoving = message.reactions.some(r => r.userId === currentUserId && r.emoji === emoji);
+
+    set({
+      conversationMessages: updateMessageInState(
+        get().conversationMessages,
+        conversationId,
+        messageId,
+        m => isRemoving ? withoutReaction(m, reaction) : withReaction(m, reaction)
+      ),
+    });
+
+    try {
+      if (isRemoving) {
+        await apiRemoveReaction(messageId, emoji, currentUserId);
+      } else {
+        await apiAddReaction(message, emoji, currentUserId);
+      }
+
+      return { success: true };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to update reaction';
+      console.error('Error toggling reaction:', error);
+
+      set({
+        conversationMessages: updateMessageInState(
+          get().conversationMessages,
+          conversationId,
+          messageId,
+          m => isRemoving ? withReaction(m, reaction) : withoutReaction(m, reaction)
+        ),
+      });
+
+      return { success: false, error: errorMessage };
+    }
+  },
+
   /**
    * Clears messages for a specific conversation
    * 
@@ -343,6 +730,8 @@ export const useMessagesStore = create<MessagesState>((set, get) => ({
     realtimeState.subscriptions.forEach((channel) => {
       supabase.removeChannel(channel);
     });
+    clearTypingTimeouts();
+    ownTypingConversations.clear();
 
     set({
       conversationMessages: {},
@@ -354,9 +743,232 @@ export const useMessagesStore = create<MessagesState>((set, get) => ({
         subscriptions: new Map(),
         isConnected: false,
       },
+      searchState: createInitialSearchState(),
     });
   },
 
+  // --- SEARCH ACTIONS ---
+
+  /**
+   * Searches message history, across all conversations or within one
+   *
+   * @param query - The words to search for
+   * @param conversationId - Only search this conversation, if provided
+   */
+  searchMessages: async (query, conversationId) => {
+    if (!query.trim()) {
+      get().clearSearch();
+      return;
+    }
+
+    set({ searchState: { ...get().searchState, query, isSearching: true, error: null } });
+
+    try {
+      const results = await apiSearchMessages(query, conversationId);
+
+      // Ignore results for a query that has since changed
+      if (get().searchState.query !== query) return;
+
+      set({ searchState: { query, results, isSearching: false, error: null } });
+    } catch (error) {
+      if (get().searchState.query !== query) return;
+
+      const message = error instanceof Error ? error.message : 'Failed to search messages';
+      console.error('Error searching messages:', error);
+      set({ searchState: { query, results: [], isSearching: false, error: message } });
+    }
+  },
+
+  /**
+   * Clears the search query and results
+   */
+  clearSearch: () => {
+    set({ searchState: createInitialSearchState() });
+  },
+
+  /**
+   * Loads the messages around a message opened from search, replacing the conversation's loaded messages
+   *
+   * @param conversationId - The conversation ID
+   * @param messageId - The ID of the message to open
+   * @param currentUserId - The current user's ID
+   * @returns Promise with success status and optional error message
+   */
+  loadMessageContext: async (conversationId, messageId, currentUserId) => {
+    const currentState = get().conversationMessages[conversationId] || createInitialConversationState();
+
+    set({
+      conversationMessages: {
+        ...get().conversationMessages,
+        [conversationId]: { ...currentState, isLoading: true, error: null },
+      },
+    });
+
+    try {
+      const { messages, hasMore } = await apiFetchMessageContext(conversationId, messageId, currentUserId);
+      const unreadCount = await apiGetUnreadMessageCount(conversationId, currentUserId);
+
+      set({
+        conversationMessages: {
+          ...get().conversationMessages,
+          [conversationId]: {
+            ...(get().conversationMessages[conversationId] || currentState),
+            messages,
+            isLoading: false,
+            isLoadingMore: false,
+            hasMore,
+            lastFetch: messages.length > 0 ? messages[messages.length - 1].createdAt : null,
+            unreadCount,
+            error: null,
+          },
+        },
+      });
+
+      return { success: true };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to load message';
+      console.error('Error loading message context:', error);
+
+      set({
+        conversationMessages: {
+          ...get().conversationMessages,
+          [conversationId]: {
+            ...(get().conversationMessages[conversationId] || currentState),
+            isLoading: false,
+          },
+        },
+      });
+
+      return { success: false, error: message };
+    }
+  },
+
+  // --- OUTBOX ACTIONS ---
+
+  /**
+   * Delivers one outbox message, uploading its photo first if needed. Delivered messages move into
+   * the conversation; invalid ones are dropped; others stay queued with a backoff before the next retry.
+   * 
+   * @param clientId - The outbox message's client ID
+   * @returns Promise with success status, whether a failure can be retried, and optional error message
+   */
+  deliverOutboxMessage: async (clientId) => {
+    const outbox = useOutboxStore.getState();
+    const queued = outbox.getMessage(clientId);
+
+    if (!queued) {
+      return { success: false, retryable: false, error: 'Message is no longer queued' };
+    }
+
+    if (deliveringClientIds.has(clientId)) {
+      return { success: false, retryable: true, error: 'Message is already being sent' };
+    }
+
+    deliveringClientIds.add(clientId);
+    outbox.updateMessage(clientId, { status: 'sending', error: null });
+
+    try {
+      let content = queued.content;
+
+      if (queued.isLocalPhoto) {
+        const uploadResult = await uploadPhoto(queued.content, queued.senderId, OUTBOX_PHOTO_UPLOAD_OPTIONS);
+        if (!uploadResult.success || !uploadResult.publicUrl) {
+          throw new Error(uploadResult.error || 'Failed to upload photo');
+        }
+
+        // Keep the uploaded URL so a retry does not upload the photo again
+        content = uploadResult.publicUrl;
+        outbox.updateMessage(clientId, { content, isLocalPhoto: false });
+      }
+
+      const sentMessage = await apiSendMessage(
+        {
+          id: clientId,
+          conversationId: queued.conversationId,
+          content,
+          type: queued.type,
+          replyToId: queued.replyToId || undefined,
+        },
+        queued.senderId
+      );
+
+      useOutboxStore.getState().removeMessage(clientId);
+      set({ conversationMessages: addMessageToState(get().conversationMessages, sentMessage) });
+
+      return { success: true };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to send message';
+      console.error('Error delivering queued message:', error);
+
+      // Invalid messages would fail every time
+      if (
+        error instanceof MessageValidationError ||
+        error instanceof ConversationAccessError ||
+        error instanceof MessageRejectedError
+      ) {
+        useOutboxStore.getState().removeMessage(clientId);
+        return { success: false, retryable: false, error: message };
+      }
+
+      const attempts = queued.attempts + 1;
+      const delay = error instanceof RateLimitError
+        ? error.retryAfter * 1000
+        : Math.min(OUTBOX_RETRY.BASE_DELAY_MS * 2 ** (attempts - 1), OUTBOX_RETRY.MAX_DELAY_MS);
+
+      useOutboxStore.getState().updateMessage(clientId, {
+        status: 'failed',
+        attempts,
+        nextAttemptAt: Date.now() + delay,
+        error: message,
+      });
+
+      if (attempts < OUTBOX_RETRY.MAX_AUTO_ATTEMPTS) {
+        if (outboxRetryTimer) clearTimeout(outboxRetryTimer);
+        outboxRetryTimer = setTimeout(() => {
+          outboxRetryTimer = null;
+          get().retryOutbox(queued.senderId);
+        }, delay);
+      }
+
+      return { success: false, retryable: true, error: message };
+    } finally {
+      deliveringClientIds.delete(clientId);
+    }
+  },
+
+  /**
+   * Retries the current user's queued messages, oldest first. When one still fails, later messages
+   * in its conversation wait so they arrive in order; other conversations carry on.
+   * 
+   * @param currentUserId - The current user's ID
+   * @param force - Retry now, ignoring the backoff and the automatic retry limit (e.g., when connectivity returns)
+   */
+  retryOutbox: async (currentUserId, force = false) => {
+    const queued = useOutboxStore.getState().getSenderMessages(currentUserId);
+    const waitingConversationIds = new Set<string>();
+
+    for (const message of queued) {
+      if (waitingConversationIds.has(message.conversationId)) continue;
+
+      const isDue = message.attempts < OUTBOX_RETRY.MAX_AUTO_ATTEMPTS && message.nextAttemptAt <= Date.now();
+      if (!force && !isDue) continue;
+
+      const result = await get().deliverOutboxMessage(message.clientId);
+      if (!result.success && result.retryable) {
+        waitingConversationIds.add(message.conversationId);
+      }
+    }
+  },
+
+  /**
+   * Removes a message that failed to send from the outbox without sending it
+   * 
+   * @param clientId - The outbox message's client ID
+   */
+  discardOutboxMessage: (clientId) => {
+    useOutboxStore.getState().removeMessage(clientId);
+  },
+
   // --- REAL-TIME ACTIONS ---
 
   /**
@@ -377,7 +989,8 @@ export const useMessagesStore = create<MessagesState>((set, get) => ({
     console.log(`Subscribing to real-time updates for conversation ${conversationId}`);
 
     const channel = supabase
-      .channel(`messages:${conversationId}`)
+      // Private, so only participants can send and receive typing status; see 0021_add_realtime_authorization.sql
+      .channel(`messages:${conversationId}`, { config: { private: true } })
       .on(
         'postgres_changes',
         {
@@ -390,8 +1003,9 @@ export const useMessagesStore = create<MessagesState>((set, get) => ({
           console.log('Received real-time message insert:', payload);
           const newMessage = payload.new as any;
           
-          // Don't add our own messages (they're already added optimistically)
-          if (newMessage.sender_id === currentUserId) {
+          // Don't add our own messages (they're already added optimistically), except system
+          // messages, which the database writes on our behalf
+          if (newMessage.sender_id === currentUserId && newMessage.type !== 'system') {
             console.log('Skipping own message');
             return;
           }
@@ -412,20 +1026,26 @@ export const useMessagesStore = create<MessagesState>((set, get) => ({
                 const existingMessage = currentState.messages.find(msg => msg.id === latestMessage.id);
                 if (!existingMessage) {
                   console.log('Adding new message to store');
+                  const unreadCount = latestMessage.senderId === currentUserId
+                    ? currentState.unreadCount
+                    : currentState.unreadCount + 1;
+
+                  // The sender has stopped typing once their message arrives
                   set({
                     conversationMessages: {
                       ...conversationMessages,
                       [conversationId]: {
                         ...currentState,
                         messages: [latestMessage, ...currentState.messages],
-                        unreadCount: currentState.unreadCount + 1,
+                        unreadCount,
+                        typingUserIds: currentState.typingUserIds.filter(id => id !== latestMessage.senderId),
                       },
                     },
                   });
                   
                   // Update the conversations store with the new unread count
                   const conversationsStore = useConversationsStore.getState();
-                  conversationsStore.updateConversationUnreadCount(conversationId, currentState.unreadCount + 1);
+                  conversationsStore.updateConversationUnreadCount(conversationId, unreadCount);
                 } else {
                   console.log('Message already exists, skipping');
                 }
@@ -436,10 +1056,127 @@ export const useMessagesStore = create<MessagesState>((set, get) => ({
           }
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'messages',
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        (payload) => {
+          // Edits, unsends and opened view-once photos from any participant, including ours from another device
+          const updatedMessage = payload.new as any;
+
+          set({
+            conversationMessages: updateMessageInState(
+              get().conversationMessages,
+              conversationId,
+              updatedMessage.id,
+              message => ({
+                ...message,
+                content: updatedMessage.content,
+                editedAt: updatedMessage.edited_at,
+                deletedAt: updatedMessage.deleted_at,
+                openedAt: updatedMessage.opened_at,
+              })
+            ),
+          });
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'message_reactions',
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        (payload) => {
+          // Merge the reaction into the message; our own are already there optimistically
+          const row = payload.new as any;
+          const reaction: MessageReaction = { userId: row.user_id, emoji: row.emoji };
+
+          set({
+            conversationMessages: updateMessageInState(
+              get().conversationMessages,
+              conversationId,
+              row.message_id,
+              message => withReaction(message, reaction)
+            ),
+          });
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          // Realtime cannot filter deletes, and under RLS their old row only carries the primary key,
+          // so listen to every delete and only update messages loaded for this conversation
+          event: 'DELETE',
+          schema: 'public',
+          table: 'message_reactions',
+        },
+        (payload) => {
+          const row = payload.old as any;
+          const reaction: MessageReaction = { userId: row.user_id, emoji: row.emoji };
+
+          set({
+            conversationMessages: updateMessageInState(
+              get().conversationMessages,
+              conversationId,
+              row.message_id,
+              message => withoutReaction(message, reaction)
+            ),
+          });
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'conversation_participants',
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        (payload) => {
+          // Read receipts of the other participants
+          const participant = payload.new as any;
+          if (participant.user_id === currentUserId) return;
+
+          useConversationsStore.getState().updateParticipantReadReceipt(
+            conversationId,
+            participant.user_id,
+            participant.read_receipt_at
+          );
+        }
+      )
+      .on('broadcast', { event: 'typing' }, ({ payload }) => {
+        const { userId, isTyping } = payload as { userId: string; isTyping: boolean };
+        if (!userId || userId === currentUserId) return;
+
+        const timeoutKey = `${conversationId}:${userId}`;
+        clearTimeout(typingTimeouts.get(timeoutKey));
+        typingTimeouts.delete(timeoutKey);
+
+        if (isTyping) {
+          typingTimeouts.set(timeoutKey, setTimeout(() => {
+            typingTimeouts.delete(timeoutKey);
+            set({
+              conversationMessages: updateTypingInState(get().conversationMessages, conversationId, userId, false),
+            });
+          }, TYPING_TIMEOUT_MS));
+        }
+
+        set({
+          conversationMessages: updateTypingInState(get().conversationMessages, conversationId, userId, isTyping),
+        });
+      })
       .subscribe((status) => {
         console.log(`Subscription status for ${conversationId}:`, status);
         if (status === 'SUBSCRIBED') {
           console.log(`Successfully subscribed to conversation ${conversationId}`);
+          // Subscribing again after a dropped connection means we are back online
+          get().retryOutbox(currentUserId, true);
         } else if (status === 'CHANNEL_ERROR') {
           console.error(`Failed to subscribe to conversation ${conversationId}`);
         }
@@ -468,12 +1205,24 @@ export const useMessagesStore = create<MessagesState>((set, get) => ({
     const channel = realtimeState.subscriptions.get(conversationId);
 
     if (channel) {
+      // Tell the other participants we stopped typing before leaving the channel
+      const typingUserId = ownTypingConversations.get(conversationId);
+      if (typingUserId) {
+        get().sendTypingStatus(conversationId, typingUserId, false);
+      }
       supabase.removeChannel(channel);
+      clearTypingTimeouts(conversationId);
       
       const newSubscriptions = new Map(realtimeState.subscriptions);
       newSubscriptions.delete(conversationId);
       
+      const { conversationMessages } = get();
+      const currentState = conversationMessages[conversationId];
+
       set({
+        conversationMessages: currentState
+          ? { ...conversationMessages, [conversationId]: { ...currentState, typingUserIds: [] } }
+          : conversationMessages,
         realtimeState: {
           ...realtimeState,
           subscriptions: newSubscriptions,
@@ -489,11 +1238,21 @@ export const useMessagesStore = create<MessagesState>((set, get) => ({
   unsubscribeFromAll: () => {
     const { realtimeState } = get();
     
-    realtimeState.subscriptions.forEach((channel) => {
+    realtimeState.subscriptions.forEach((channel, conversationId) => {
+      const typingUserId = ownTypingConversations.get(conversationId);
+      if (typingUserId) {
+        get().sendTypingStatus(conversationId, typingUserId, false);
+      }
       supabase.removeChannel(channel);
     });
+    clearTypingTimeouts();
+
+    const conversationMessages = Object.fromEntries(
+      Object.entries(get().conversationMessages).map(([id, state]) => [id, { ...state, typingUserIds: [] }])
+    );
 
     set({
+      conversationMessages,
       realtimeState: {
         subscriptions: new Map(),
         isConnected: false,
@@ -501,6 +1260,35 @@ export const useMessagesStore = create<MessagesState>((set, get) => ({
     });
   },
 
+  /**
+   * Broadcasts whether the current user is typing to the other participants of a conversation.
+   * Does nothing if the conversation is not subscribed.
+   * 
+   * @param conversationId - The conversation ID
+   * @param currentUserId - The current user's ID
+   * @param isTyping - Whether the user is typing
+   */
+  sendTypingStatus: (conversationId, currentUserId, isTyping) => {
+    const channel = get().realtimeState.subscriptions.get(conversationId);
+    if (!channel) return;
+
+    if (isTyping) {
+      ownTypingConversations.set(conversationId, currentUserId);
+    } else {
+      ownTypingConversations.delete(conversationId);
+    }
+
+    channel
+      .send({
+        type: 'broadcast',
+        event: 'typing',
+        payload: { userId: currentUserId, isTyping },
+      })
+      .catch((error) => {
+        console.error('Error sending typing status:', error);
+      });
+  },
+
   // --- HELPER METHODS ---
 
   /**
@@ -568,4 +1356,15 @@ export const useMessagesStore = create<MessagesState>((set, get) => ({
     const { conversationMessages } = get();
     return conversationMessages[conversationId]?.isLoadingMore || false;
   },
+
+  /**
+   * Gets the other participants currently typing in a conversation
+   * 
+   * @param conversationId - The conversation ID
+   * @returns Array of user IDs
+   */
+  getTypingUserIds: (conversationId) => {
+    const { conversationMessages } = get();
+    return conversationMessages[conversationId]?.typingUserIds || [];
+  },
 })); 
\ No newline at end of file
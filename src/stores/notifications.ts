@@ -0,0 +1,74 @@
+/**
+ * @file This file contains the Zustand store for this device's push notification registration.
+ * It keeps the registered token so it can be removed from the account on sign out.
+ */
+
+import { registerPushToken, unregisterPushToken } from '@/api/notifications';
+import { getDevicePushToken } from '@/utils/pushNotifications';
+import { create } from 'zustand';
+
+/**
+ * Interface for the Notifications store state and actions
+ */
+interface NotificationsState {
+  /** Push token registered for the current user, or null when the device is not registered */
+  pushToken: string | null;
+
+  // Actions
+  registerDevice: (currentUserId: string) => Promise<{ success: boolean; error?: string }>;
+  unregisterDevice: () => Promise<{ success: boolean; error?: string }>;
+}
+
+/**
+ * Zustand store for this device's push notification registration
+ */
+export const useNotificationsStore = create<NotificationsState>((set, get) => ({
+  pushToken: null,
+
+  // --- ACTIONS ---
+
+  /**
+   * Registers this device to receive the current user's push notifications, asking for
+   * permission the first time. Succeeds without registering when permission is denied.
+   * @param currentUserId - The current user's ID
+   */
+  registerDevice: async (currentUserId) => {
+    try {
+      const device = await getDevicePushToken();
+      if (!device) {
+        set({ pushToken: null });
+        return { success: true };
+      }
+
+      await registerPushToken(device.token, device.platform);
+      set({ pushToken: device.token });
+      console.log('Registered device for push notifications for user:', currentUserId);
+      return { success: true };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to register for notifications';
+      console.error('Error registering device for notifications:', error);
+      return { success: false, error: errorMessage };
+    }
+  },
+
+  /**
+   * Stops this device receiving the current user's push notifications. Call it before signing
+   * out, while the user can still remove their token.
+   */
+  unregisterDevice: async () => {
+    const { pushToken } = get();
+    if (!pushToken) {
+      return { success: true };
+    }
+
+    try {
+      await unregisterPushToken(pushToken);
+      set({ pushToken: null });
+      return { success: true };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to unregister from notifications';
+      console.error('Error unregistering device from notifications:', error);
+      return { success: false, error: errorMessage };
+    }
+  },
+}));
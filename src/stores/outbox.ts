@@ -0,0 +1,173 @@
+/**
+ * @file This file contains the Zustand store for the outgoing message outbox.
+ * Messages wait here until the server has them, and the outbox is persisted so they survive restarts.
+ * Delivery and retries are handled by the messages store.
+ */
+
+import { type MessageWithSender, type SendableMessageType } from '@/api/messages';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+
+/**
+ * Delivery state of an outbox message
+ */
+export type OutboxStatus = 'sending' | 'failed';
+
+/**
+ * A message that has not reached the server yet
+ */
+export interface OutboxMessage {
+  /** Client-generated ID, used as the message ID so retries never post twice */
+  clientId: string;
+  conversationId: string;
+  senderId: string;
+  /** Message text or card, the photo's public URL, or its local file URI until it is uploaded */
+  content: string;
+  type: SendableMessageType;
+  replyToId: string | null;
+  /** Whether content is a local photo that still has to be uploaded */
+  isLocalPhoto: boolean;
+  status: OutboxStatus;
+  /** Failed delivery attempts so far */
+  attempts: number;
+  /** Earliest time of the next automatic retry, in milliseconds */
+  nextAttemptAt: number;
+  createdAt: string;
+  error: string | null;
+}
+
+/**
+ * Interface for the Outbox store state and its actions
+ */
+interface OutboxState {
+  messages: OutboxMessage[];
+
+  // Actions
+  addMessage: (message: OutboxMessage) => void;
+  updateMessage: (clientId: string, updates: Partial<Omit<OutboxMessage, 'clientId'>>) => void;
+  removeMessage: (clientId: string) => void;
+
+  // Helper methods
+  getMessage: (clientId: string) => OutboxMessage | undefined;
+  getSenderMessages: (senderId: string) => OutboxMessage[];
+}
+
+/**
+ * A Zustand store for messages waiting to be delivered, persisted to AsyncStorage.
+ *
+ * @returns A store with state and actions for the outbox
+ */
+export const useOutboxStore = create<OutboxState>()(
+  persist(
+    (set, get) => ({
+      // Initial state
+      messages: [],
+
+      // --- ACTIONS ---
+
+      /**
+       * Adds a message to the outbox
+       *
+       * @param message - The message to queue
+       */
+      addMessage: (message) => {
+        set({ messages: [...get().messages, message] });
+      },
+
+      /**
+       * Updates a queued message
+       *
+       * @param clientId - The message's client ID
+       * @param updates - Fields to change
+       */
+      updateMessage: (clientId, updates) => {
+        set({
+          messages: get().messages.map(message =>
+            message.clientId === clientId ? { ...message, ...updates } : message
+          ),
+        });
+      },
+
+      /**
+       * Removes a message from the outbox, once delivered or discarded
+       *
+       * @param clientId - The message's client ID
+       */
+      removeMessage: (clientId) => {
+        set({ messages: get().messages.filter(message => message.clientId !== clientId) });
+      },
+
+      // --- HELPER METHODS ---
+
+      /**
+       * Gets a queued message
+       *
+       * @param clientId - The message's client ID
+       * @returns The message, or undefined if it is not in the outbox
+       */
+      getMessage: (clientId) => {
+        return get().messages.find(message => message.clientId === clientId);
+      },
+
+      /**
+       * Gets a user's queued messages, oldest first
+       *
+       * @param senderId - The sender's user ID
+       * @returns Array of queued messages
+       */
+      getSenderMessages: (senderId) => {
+        return get().messages
+          .filter(message => message.senderId === senderId)
+          .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+      },
+    }),
+    {
+      name: 'message-outbox-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({ messages: state.messages }),
+    }
+  )
+);
+
+/**
+ * Builds the message shown in the chat while an outbox message is on its way
+ *
+ * @param message - The outbox message
+ * @param sender - The sender's profile
+ * @param repliedMessage - The message it replies to, if loaded
+ * @returns A message for the message list
+ */
+export function toPendingMessage(
+  message: OutboxMessage,
+  sender: MessageWithSender['sender'],
+  repliedMessage?: MessageWithSender
+): MessageWithSender {
+  return {
+    id: message.clientId,
+    conversationId: message.conversationId,
+    senderId: message.senderId,
+    content: message.content,
+    type: message.type,
+    createdAt: message.createdAt,
+    expiresAt: null,
+    editedAt: null,
+    deletedAt: null,
+    viewOnce: false,
+    openedAt: null,
+    viewedBy: [],
+    replyToId: message.replyToId,
+    replyTo: repliedMessage
+      ? {
+          id: repliedMessage.id,
+          senderId: repliedMessage.senderId,
+          senderName: repliedMessage.sender.fullName || repliedMessage.sender.username,
+          content: repliedMessage.content,
+          type: repliedMessage.type,
+          deletedAt: repliedMessage.deletedAt,
+        }
+      : null,
+    reactions: [],
+    sender,
+  };
+}
@@ -3,6 +3,7 @@
  * It handles fetching, updating, and holding the state for the user's public profile.
  */
 
+import type { NotificationCategory, NotificationPreferences } from '@/types/notifications';
 import { supabase } from '@/utils/supabase';
 import { Session } from '@supabase/supabase-js';
 import { create } from 'zustand';
@@ -18,10 +19,14 @@ interface ProfileState {
   fullName: string | null;
   about: string | null;
   avatarUrl: string | null;
+  readReceiptsEnabled: boolean;
+  notificationPreferences: NotificationPreferences;
   setUsername: (username: string) => void;
   setFullName: (fullName: string) => void;
   setAbout: (about: string) => void;
   setAvatarUrl: (avatarUrl: string) => void;
+  setReadReceiptsEnabled: (readReceiptsEnabled: boolean) => void;
+  setNotificationPreference: (category: NotificationCategory, enabled: boolean) => void;
   clearError: () => void;
   fetchProfile: (session: Session) => Promise<void>;
   saveProfile: (session: Session) => Promise<void>;
@@ -40,6 +45,8 @@ export const useProfileStore = create<ProfileState>((set, get) => ({
   fullName: null,
   about: null,
   avatarUrl: null,
+  readReceiptsEnabled: true,
+  notificationPreferences: { message: true, friend_request: true, trip_invite: true },
 
   // --- ACTIONS ---
 
@@ -67,6 +74,22 @@ export const useProfileStore = create<ProfileState>((set, get) => ({
    */
   setAvatarUrl: (avatarUrl) => set({ avatarUrl }),
 
+  /**
+   * Sets whether others can see when the user has read their messages.
+   * @param {boolean} readReceiptsEnabled - Whether read receipts are shared.
+   */
+  setReadReceiptsEnabled: (readReceiptsEnabled) => set({ readReceiptsEnabled }),
+
+  /**
+   * Sets whether the user gets push notifications of one kind.
+   * @param {NotificationCategory} category - The kind of notification.
+   * @param {boolean} enabled - Whether to push it to the user's devices.
+   */
+  setNotificationPreference: (category, enabled) =>
+    set((state) => ({
+      notificationPreferences: { ...state.notificationPreferences, [category]: enabled },
+    })),
+
   /**
    * Clears any existing error message from the state.
    */
@@ -84,7 +107,7 @@ export const useProfileStore = create<ProfileState>((set, get) => ({
 
       const { data, error, status } = await supabase
         .from('profiles')
-        .select(`username, full_name, about, avatar_url`)
+        .select(`username, full_name, about, avatar_url, read_receipts_enabled, notify_messages, notify_friend_requests, notify_trip_updates`)
         .eq('id', user.id)
         .single();
 
@@ -99,6 +122,12 @@ export const useProfileStore = create<ProfileState>((set, get) => ({
           fullName: data.full_name,
           about: data.about,
           avatarUrl: data.avatar_url,
+          readReceiptsEnabled: data.read_receipts_enabled ?? true,
+          notificationPreferences: {
+            message: data.notify_messages ?? true,
+            friend_request: data.notify_friend_requests ?? true,
+            trip_invite: data.notify_trip_updates ?? true,
+          },
         });
       }
     } catch (error) {
@@ -121,7 +150,7 @@ export const useProfileStore = create<ProfileState>((set, get) => ({
       if (!user) throw new Error('No user on the session!');
 
       // Get current state from the store for the update
-      const { username, fullName, about, avatarUrl } = get();
+      const { username, fullName, about, avatarUrl, readReceiptsEnabled, notificationPreferences } = get();
 
       const updates = {
         id: user.id,
@@ -129,6 +158,10 @@ export const useProfileStore = create<ProfileState>((set, get) => ({
         full_name: fullName,
         about,
         avatar_url: avatarUrl,
+        read_receipts_enabled: readReceiptsEnabled,
+        notify_messages: notificationPreferences.message,
+        notify_friend_requests: notificationPreferences.friend_request,
+        notify_trip_updates: notificationPreferences.trip_invite,
         updated_at: new Date(),
       };
 
@@ -12,6 +12,8 @@ export interface StoryContent {
   user_id: string;
   type: 'photo' | 'video';
   content_url: string;
+  /** Text of the caption drawn onto the photo, if any */
+  caption?: string | null;
   index: number;
   created_at: string;
 }
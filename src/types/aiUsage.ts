@@ -0,0 +1,57 @@
+/**
+ * @file This file contains type definitions for AI usage accounting and quotas.
+ */
+
+/**
+ * Request types of the AI route that count against a quota
+ */
+export type AIRequestType =
+  | 'fill-activity-data'
+  | 'generate-activity-image'
+  | 'create-activity-from-prompt'
+  | 'fill-itinerary-data'
+  | 'generate-itinerary-image'
+  | 'create-itinerary-from-prompt'
+  | 'assistant-chat'
+  | 'generate-image-caption';
+
+/**
+ * A user's usage of one request type in the current quota window
+ */
+export interface AIUsageEntry {
+  type: AIRequestType;
+  /** Requests made since the window started */
+  used: number;
+  /** Requests allowed per window */
+  limit: number;
+  inputTokens: number;
+  outputTokens: number;
+  imageCount: number;
+  /** Estimated cost in US dollars */
+  costUsd: number;
+}
+
+/**
+ * A user's AI usage, as shown on the account screen
+ */
+export interface AIUsageSummary {
+  /** Usage per request type today */
+  today: AIUsageEntry[];
+  /** ISO 8601 time the daily quotas reset */
+  resetsAt: string;
+  /** Estimated cost in US dollars over the last 30 days */
+  monthCostUsd: number;
+}
+
+/**
+ * Body of the 429 response returned when a daily quota is used up
+ */
+export interface AIQuotaErrorBody {
+  error: string;
+  code: 'quota_exceeded';
+  type: AIRequestType;
+  limit: number;
+  used: number;
+  /** Seconds until the quota resets */
+  retryAfter: number;
+}
@@ -0,0 +1,102 @@
+/**
+ * @file This file contains type definitions for the AI trip assistant conversation.
+ */
+
+/**
+ * Author of an assistant conversation message, following the chat completions roles
+ */
+export type AssistantMessageRole = 'user' | 'assistant' | 'tool';
+
+/**
+ * Outcome of a change the assistant proposed
+ */
+export type AssistantActionStatus = 'pending' | 'applied' | 'declined' | 'failed';
+
+/**
+ * Tools that only read the user's itineraries and run without confirmation
+ */
+export type AssistantReadToolName = 'list_itineraries' | 'get_itinerary_activities';
+
+/**
+ * Tools that change the user's itineraries and must be confirmed first
+ */
+export type AssistantMutatingToolName = 'create_activity' | 'update_activity' | 'delete_activity' | 'update_itinerary';
+
+export type AssistantToolName = AssistantReadToolName | AssistantMutatingToolName;
+
+/**
+ * A tool call requested by the assistant; `arguments` is the raw JSON produced by the model
+ */
+export interface AssistantToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+/**
+ * A single field changed by a proposed action, formatted for display
+ */
+export interface AssistantActionChange {
+  label: string;
+  from: string | null;
+  to: string | null;
+}
+
+/**
+ * A change to the user's itineraries proposed by the assistant and awaiting confirmation
+ */
+export interface AssistantAction {
+  tool: AssistantMutatingToolName;
+  args: Record<string, any>;
+  /** One-line description, e.g. "Move Louvre Museum" */
+  summary: string;
+  /** The itinerary the change belongs to, for linking */
+  itineraryId: string;
+  changes: AssistantActionChange[];
+}
+
+/**
+ * Interface for assistant conversation message data
+ */
+export interface AssistantMessage {
+  id: string;
+  userId: string;
+  role: AssistantMessageRole;
+  content: string | null;
+  /** Tool calls requested by an assistant message */
+  toolCalls: AssistantToolCall[] | null;
+  /** The tool call a tool message answers */
+  toolCallId: string | null;
+  /** The proposed change carried by a tool message for a mutating tool */
+  action: AssistantAction | null;
+  actionStatus: AssistantActionStatus | null;
+  createdAt: string;
+}
+
+/**
+ * Interface for creating a new assistant conversation message
+ */
+export interface CreateAssistantMessageData {
+  role: AssistantMessageRole;
+  content?: string | null;
+  toolCalls?: AssistantToolCall[] | null;
+  toolCallId?: string | null;
+  action?: AssistantAction | null;
+  actionStatus?: AssistantActionStatus | null;
+}
+
+/**
+ * Interface for recording the outcome of a tool message
+ */
+export interface UpdateAssistantMessageData {
+  content?: string | null;
+  actionStatus?: AssistantActionStatus | null;
+}
+
+/**
+ * The assistant's next turn as returned by the server
+ */
+export interface AssistantReply {
+  content: string | null;
+  toolCalls: AssistantToolCall[];
+}
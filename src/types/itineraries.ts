@@ -2,6 +2,16 @@
  * @file This file contains type definitions for itineraries.
  */
 
+/**
+ * Role a user has on an itinerary
+ */
+export type ItineraryRole = 'owner' | 'editor' | 'viewer';
+
+/**
+ * Status of an itinerary membership
+ */
+export type ItineraryMemberStatus = 'pending' | 'accepted';
+
 /**
  * Interface for itinerary data
  */
@@ -12,9 +22,13 @@ export interface Itinerary {
   start_time?: string | null;
   end_time?: string | null;
   cover_image_url?: string | null;
+  /** Whether other travelers' AI suggestions may draw on this itinerary and its activities */
+  share_with_community?: boolean;
   created_by: string;
   created_at: string;
   updated_at: string;
+  /** The current user's role on this itinerary */
+  role?: ItineraryRole;
 }
 
 /**
@@ -26,6 +40,7 @@ export interface CreateItineraryData {
   start_time?: string;
   end_time?: string;
   cover_image_url?: string;
+  share_with_community?: boolean;
 }
 
 /**
@@ -37,4 +52,40 @@ export interface UpdateItineraryData {
   start_time?: string | null;
   end_time?: string | null;
   cover_image_url?: string | null;
-} 
\ No newline at end of file
+  /** Only the owner can change this */
+  share_with_community?: boolean;
+}
+
+/**
+ * Interface for the public profile of an itinerary member
+ */
+export interface ItineraryMemberProfile {
+  id: string;
+  username: string | null;
+  fullName: string | null;
+  avatarUrl: string | null;
+}
+
+/**
+ * Interface for an itinerary member with profile information
+ */
+export interface ItineraryMember {
+  itineraryId: string;
+  userId: string;
+  role: ItineraryRole;
+  status: ItineraryMemberStatus;
+  invitedBy: string | null;
+  createdAt: string;
+  user: ItineraryMemberProfile;
+}
+
+/**
+ * Interface for a pending itinerary invite received by the current user
+ */
+export interface ItineraryInvite {
+  itineraryId: string;
+  role: ItineraryRole;
+  createdAt: string;
+  itinerary: Pick<Itinerary, 'id' | 'title' | 'description' | 'start_time' | 'end_time' | 'cover_image_url'>;
+  inviter: ItineraryMemberProfile | null;
+}
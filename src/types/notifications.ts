@@ -0,0 +1,22 @@
+/**
+ * @file This file contains type definitions for push notifications.
+ */
+
+/**
+ * Kinds of push notification; users can turn each one off on the account screen
+ */
+export type NotificationCategory = 'message' | 'friend_request' | 'trip_invite';
+
+/**
+ * Whether the user wants each kind of notification pushed to their devices
+ */
+export type NotificationPreferences = Record<NotificationCategory, boolean>;
+
+/**
+ * Data sent with a push notification, read by the app when the notification is tapped
+ */
+export interface PushNotificationData {
+  category: NotificationCategory;
+  /** App path to open, e.g. `/chat/<conversationId>` or `/friends` */
+  url: string;
+}
@@ -0,0 +1,30 @@
+/**
+ * @file This file contains type definitions for content retrieved from other travelers.
+ */
+
+/**
+ * Kind of content a retrieved excerpt came from
+ */
+export type CommunitySourceType = 'activity' | 'itinerary' | 'story';
+
+/**
+ * A single piece of content used to ground an AI suggestion
+ */
+export interface CommunitySource {
+  type: CommunitySourceType;
+  /** Short excerpt of the retrieved text */
+  excerpt: string;
+  /** Cosine similarity to the request, from 0 to 1 */
+  similarity: number;
+}
+
+/**
+ * Citation for the community content an AI suggestion was based on
+ */
+export interface CommunitySources {
+  /** Distinct trips by other travelers that contributed activities or itineraries */
+  tripCount: number;
+  /** Story captions that contributed */
+  storyCount: number;
+  items: CommunitySource[];
+}
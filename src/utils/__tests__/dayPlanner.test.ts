@@ -0,0 +1,129 @@
+import type { Activity } from '@/types/activities';
+import { getTravelLegs, planDay } from '../dayPlanner';
+
+const at = (hour: number, minute = 0) => Date.UTC(2024, 5, 1, hour, minute);
+const iso = (hour: number, minute = 0) => new Date(at(hour, minute)).toISOString();
+
+// Points north of a start along one meridian; a degree of latitude is ~111 km
+const KM_PER_DEGREE = 111.195;
+const point = (km: number): [number, number] => [48.85 + km / KM_PER_DEGREE, 2.35];
+
+/**
+ * Builds an activity at a point, scheduled when start and end are given
+ */
+function makeActivity(id: string, km: number | null, start: string | null, end: string | null): Activity {
+  return {
+    id,
+    title: id,
+    start_time: start,
+    end_time: end,
+    gps_coords: km === null ? null : point(km),
+    created_by: 'user-1',
+    created_at: iso(0),
+    updated_at: iso(0),
+    itinerary_id: 'itinerary-1',
+  };
+}
+
+describe('getTravelLegs', () => {
+  it('lists legs between consecutive activities in time order with the gap between them', () => {
+    const legs = getTravelLegs([
+      makeActivity('lunch', 1, iso(12), iso(13)),
+      makeActivity('coffee', 0, iso(9), iso(10)),
+      makeActivity('unplaced', null, iso(14), iso(15)),
+      makeActivity('someday', 0, null, null),
+    ]);
+
+    expect(legs).toHaveLength(1);
+    expect(legs[0]).toMatchObject({ fromActivityId: 'coffee', toActivityId: 'lunch', mode: 'walk', gapMinutes: 120 });
+  });
+});
+
+describe('planDay', () => {
+  it('reorders the day to travel less while keeping activities near their planned times', () => {
+    const plan = planDay([
+      makeActivity('a', 0, iso(9), iso(10)),
+      makeActivity('c', 6, iso(10, 30), iso(11, 30)),
+      makeActivity('b', 3, iso(12), iso(13)),
+    ]);
+
+    expect(plan.feasible).toBe(true);
+    expect(plan.order).toEqual(['a', 'b', 'c']);
+    expect(plan.totalDistanceKm).toBeCloseTo(6, 1);
+    expect(plan.adjustments).toEqual([
+      { activityId: 'b', start_time: iso(10, 30), end_time: iso(11, 30) },
+      { activityId: 'c', start_time: iso(11, 50), end_time: iso(12, 50) },
+    ]);
+  });
+
+  it('keeps a booked dinner in the evening', () => {
+    const activities = [
+      makeActivity('lunch', 0, iso(12), iso(13)),
+      makeActivity('museum', 6, iso(14), iso(16)),
+      makeActivity('dinner', 0, iso(19), iso(21)),
+    ];
+
+    const plan = planDay(activities, { dayEnd: at(23, 59) });
+
+    expect(plan.feasible).toBe(true);
+    expect(plan.order).toEqual(['lunch', 'museum', 'dinner']);
+    // Without a window an activity may only move 90 minutes from its planned start
+    expect(plan.adjustments).toContainEqual({ activityId: 'dinner', start_time: iso(17, 30), end_time: iso(19, 30) });
+  });
+
+  it('follows explicit time windows', () => {
+    const activities = [
+      makeActivity('lunch', 0, iso(12), iso(13)),
+      makeActivity('museum', 6, iso(14), iso(16)),
+      makeActivity('dinner', 0, iso(19), iso(21)),
+    ];
+
+    const plan = planDay(activities, {
+      dayEnd: at(23, 59),
+      windows: { dinner: { earliest: at(12), latest: at(21) } },
+    });
+
+    expect(plan.order).toEqual(['lunch', 'dinner', 'museum']);
+    expect(plan.adjustments).toEqual([
+      { activityId: 'dinner', start_time: iso(13), end_time: iso(15) },
+      { activityId: 'museum', start_time: iso(15, 30), end_time: iso(17, 30) },
+    ]);
+  });
+
+  it('reports days that cannot fit before the end of the day', () => {
+    const activities = [
+      makeActivity('museum', 0, iso(20), iso(22)),
+      makeActivity('show', 6, iso(22), iso(23, 30)),
+    ];
+
+    const plan = planDay(activities, { dayEnd: at(23, 30) });
+
+    expect(plan.feasible).toBe(false);
+    expect(plan.order).toEqual(['museum', 'show']);
+    expect(plan.adjustments).toEqual([]);
+  });
+
+  it('plans busy days with the heuristic search', () => {
+    const kms = [0, 8, 1, 7, 2, 6, 3, 5, 4];
+    const activities = kms.map((km, index) =>
+      makeActivity(`km${km}`, km, iso(8, index * 45), iso(8, index * 45 + 30))
+    );
+
+    const plan = planDay(activities, { dayEnd: at(23, 59), flexMinutes: 12 * 60 });
+
+    expect(plan.feasible).toBe(true);
+    expect(plan.order).toEqual(['km0', 'km1', 'km2', 'km3', 'km4', 'km5', 'km6', 'km7', 'km8']);
+    expect(plan.totalDistanceKm).toBeCloseTo(8, 1);
+  });
+
+  it('returns an empty plan for days without scheduled activities', () => {
+    expect(planDay([makeActivity('someday', 0, null, null)])).toEqual({
+      order: [],
+      adjustments: [],
+      legs: [],
+      totalDistanceKm: 0,
+      totalTravelMinutes: 0,
+      feasible: true,
+    });
+  });
+});
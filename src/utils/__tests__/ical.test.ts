@@ -0,0 +1,399 @@
+import type { Activity } from '@/types/activities';
+import type { Itinerary } from '@/types/itineraries';
+import { exportItineraryToICS, ICalParseError, parseICS } from '../ical';
+
+const NOW = new Date('2024-03-01T12:00:00Z');
+
+const itinerary: Itinerary = {
+  id: 'itinerary-1',
+  title: 'New York; the long weekend',
+  description: 'Museums, food\nand a show',
+  start_time: '2024-03-09T05:00:00.000Z',
+  end_time: '2024-03-12T04:00:00.000Z',
+  cover_image_url: 'https://example.com/cover.jpg',
+  created_by: 'user-1',
+  created_at: '2024-02-01T00:00:00.000Z',
+  updated_at: '2024-02-01T00:00:00.000Z',
+};
+
+/**
+ * Builds an activity with the fields the export does not care about filled in
+ */
+function makeActivity(overrides: Partial<Activity> & Pick<Activity, 'id' | 'title'>): Activity {
+  return {
+    created_by: 'user-1',
+    created_at: '2024-02-01T00:00:00.000Z',
+    updated_at: '2024-02-01T00:00:00.000Z',
+    itinerary_id: itinerary.id,
+    ...overrides,
+  };
+}
+
+/**
+ * Joins lines the way calendar apps write them
+ */
+function ics(lines: string[]): string {
+  return lines.join('\r\n') + '\r\n';
+}
+
+describe('exportItineraryToICS and parseICS', () => {
+  // America/New_York springs forward on 2024-03-10, between these two activities
+  const activities = [
+    makeActivity({
+      id: 'activity-2',
+      title: 'Brunch, then the Met',
+      description: 'Path: C:\\tickets; bring IDs,\nmeet at the steps',
+      location: '1000 5th Ave, New York',
+      start_time: '2024-03-11T14:00:00.000Z',
+      end_time: '2024-03-11T17:30:00.000Z',
+      timezone: 'America/New_York',
+      gps_coords: [40.7794, -73.9632],
+      tags: ['museum', 'food, drinks'],
+      image_url: 'https://example.com/met.jpg',
+    }),
+    makeActivity({
+      id: 'activity-1',
+      title: 'Check in',
+      start_time: '2024-03-09T15:00:00.000Z',
+      end_time: '2024-03-09T16:00:00.000Z',
+      timezone: 'America/New_York',
+    }),
+    makeActivity({
+      id: 'activity-3',
+      title: 'Buy show tickets',
+      description: 'Any evening works',
+    }),
+  ];
+
+  it('round-trips an itinerary and its activities', () => {
+    const parsed = parseICS(exportItineraryToICS(itinerary, activities, NOW));
+
+    expect(parsed.itinerary).toEqual({
+      title: itinerary.title,
+      description: itinerary.description,
+      start_time: itinerary.start_time,
+      end_time: itinerary.end_time,
+      cover_image_url: itinerary.cover_image_url,
+    });
+
+    expect(parsed.activities).toEqual([
+      {
+        title: 'Check in',
+        timezone: 'America/New_York',
+        start_time: '2024-03-09T15:00:00.000Z',
+        end_time: '2024-03-09T16:00:00.000Z',
+      },
+      {
+        title: 'Brunch, then the Met',
+        description: 'Path: C:\\tickets; bring IDs,\nmeet at the steps',
+        location: '1000 5th Ave, New York',
+        gps_coords: [40.7794, -73.9632],
+        tags: ['museum', 'food, drinks'],
+        image_url: 'https://example.com/met.jpg',
+        timezone: 'America/New_York',
+        start_time: '2024-03-11T14:00:00.000Z',
+        end_time: '2024-03-11T17:30:00.000Z',
+      },
+      {
+        title: 'Buy show tickets',
+        description: 'Any evening works',
+      },
+    ]);
+  });
+
+  it('writes scheduled activities as wall-clock times on each side of a DST change', () => {
+    const text = exportItineraryToICS(itinerary, activities, NOW);
+
+    expect(text).toContain('DTSTART;TZID=America/New_York:20240309T100000\r\n');
+    expect(text).toContain('DTSTART;TZID=America/New_York:20240311T100000\r\n');
+    expect(text).toContain('DTSTAMP:20240301T120000Z\r\n');
+  });
+
+  it('writes one VTIMEZONE with the transitions the activities span', () => {
+    const text = exportItineraryToICS(itinerary, activities, NOW);
+
+    expect(text.match(/BEGIN:VTIMEZONE/g)).toHaveLength(1);
+    expect(text).toContain('TZID:America/New_York\r\n');
+    expect(text).toContain(
+      ['BEGIN:DAYLIGHT', 'DTSTART:20240310T020000', 'TZOFFSETFROM:-0500', 'TZOFFSETTO:-0400', 'END:DAYLIGHT'].join('\r\n')
+    );
+    expect(text).toContain(
+      ['BEGIN:STANDARD', 'DTSTART:20241103T020000', 'TZOFFSETFROM:-0400', 'TZOFFSETTO:-0500', 'END:STANDARD'].join('\r\n')
+    );
+  });
+
+  it('exports unscheduled activities as VTODOs', () => {
+    const text = exportItineraryToICS(itinerary, activities, NOW);
+    const todo = text.slice(text.indexOf('BEGIN:VTODO'), text.indexOf('END:VTODO'));
+
+    expect(text.match(/BEGIN:VTODO/g)).toHaveLength(1);
+    expect(todo).toContain('UID:activity-3@snapconnect');
+    expect(todo).toContain('SUMMARY:Buy show tickets');
+    expect(todo).not.toContain('DTSTART');
+  });
+
+  it('writes a VTIMEZONE for the TZID of a to-do due date', () => {
+    const text = exportItineraryToICS(
+      itinerary,
+      [makeActivity({ id: 'a', title: 'Book dinner', end_time: '2024-03-10T23:00:00.000Z', timezone: 'Europe/Paris' })],
+      NOW
+    );
+
+    expect(text).toContain('DUE;TZID=Europe/Paris:20240311T000000\r\n');
+    expect(text.match(/BEGIN:VTIMEZONE/g)).toHaveLength(1);
+    expect(text).toContain('TZID:Europe/Paris\r\n');
+  });
+
+  it('writes activities without a valid timezone in UTC', () => {
+    const text = exportItineraryToICS(
+      itinerary,
+      [makeActivity({ id: 'a', title: 'Walk', start_time: '2024-03-09T15:00:00.000Z', timezone: 'Not/AZone' })],
+      NOW
+    );
+
+    expect(text).toContain('DTSTART:20240309T150000Z\r\n');
+    expect(text).not.toContain('BEGIN:VTIMEZONE');
+  });
+
+  it('folds long lines without splitting multi-byte characters', () => {
+    const description = 'Café crawl ☕ through Greenwich Village, '.repeat(8).trim();
+    const text = exportItineraryToICS(
+      itinerary,
+      [makeActivity({ id: 'a', title: 'Coffee', description })],
+      NOW
+    );
+
+    const lines = text.split('\r\n').filter(line => line.length > 0);
+    lines.forEach(line => {
+      expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75);
+      expect(line).not.toContain('\uFFFD');
+    });
+    expect(lines.some(line => line.startsWith(' '))).toBe(true);
+    expect(parseICS(text).activities[0].description).toBe(description);
+  });
+});
+
+describe('parseICS', () => {
+  it('unfolds continuation lines that start with a space or a tab', () => {
+    const parsed = parseICS(ics([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'BEGIN:VEVENT',
+      'SUMMARY:Harbour ',
+      ' cruise',
+      'DESCRIPTION:Boarding at pier ',
+      '\t7',
+      'DTSTART:20240601T090000Z',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ]));
+
+    expect(parsed.activities[0].title).toBe('Harbour cruise');
+    expect(parsed.activities[0].description).toBe('Boarding at pier 7');
+  });
+
+  it('uses VTIMEZONE definitions for TZIDs the runtime does not know', () => {
+    const parsed = parseICS(ics([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'BEGIN:VTIMEZONE',
+      'TZID:Eastern Standard Time',
+      'BEGIN:STANDARD',
+      'DTSTART:16011104T020000',
+      'RRULE:FREQ=YEARLY;BYDAY=1SU;BYMONTH=11',
+      'TZOFFSETFROM:-0400',
+      'TZOFFSETTO:-0500',
+      'END:STANDARD',
+      'BEGIN:DAYLIGHT',
+      'DTSTART:16010311T020000',
+      'RRULE:FREQ=YEARLY;BYDAY=2SU;BYMONTH=3',
+      'TZOFFSETFROM:-0500',
+      'TZOFFSETTO:-0400',
+      'END:DAYLIGHT',
+      'END:VTIMEZONE',
+      'BEGIN:VEVENT',
+      'SUMMARY:Winter',
+      'DTSTART;TZID=Eastern Standard Time:20240115T100000',
+      'DTEND;TZID=Eastern Standard Time:20240115T110000',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'SUMMARY:Spring',
+      'DTSTART;TZID="Eastern Standard Time":20240315T100000',
+      'DURATION:PT90M',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ]));
+
+    expect(parsed.activities).toEqual([
+      { title: 'Winter', start_time: '2024-01-15T15:00:00.000Z', end_time: '2024-01-15T16:00:00.000Z' },
+      { title: 'Spring', start_time: '2024-03-15T14:00:00.000Z', end_time: '2024-03-15T15:30:00.000Z' },
+    ]);
+  });
+
+  it('prefers the runtime timezone data for IANA TZIDs', () => {
+    const parsed = parseICS(ics([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'BEGIN:VEVENT',
+      'SUMMARY:Fado night',
+      'DTSTART;TZID=/Europe/Lisbon:20240601T200000',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ]));
+
+    expect(parsed.activities[0]).toEqual({
+      title: 'Fado night',
+      timezone: 'Europe/Lisbon',
+      start_time: '2024-06-01T19:00:00.000Z',
+    });
+  });
+
+  it('imports a calendar exported from Google Calendar', () => {
+    const parsed = parseICS(ics([
+      'BEGIN:VCALENDAR',
+      'PRODID:-//Google Inc//Google Calendar 70.9054//EN',
+      'VERSION:2.0',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      'X-WR-CALNAME:Lisbon',
+      'X-WR-TIMEZONE:Europe/Lisbon',
+      'X-WR-CALDESC:Long weekend in Lisbon',
+      'BEGIN:VEVENT',
+      'DTSTART:20240601T090000Z',
+      'DTEND:20240601T110000Z',
+      'DTSTAMP:20240520T101010Z',
+      'UID:1a2b3c4d5e6f@google.com',
+      'CREATED:20240510T080000Z',
+      'DESCRIPTION:Tickets at the door\\, bring cash',
+      'LAST-MODIFIED:20240510T080000Z',
+      'LOCATION:Torre de Belém\\, Av. Brasília\\, 1400-038 Lisboa\\, Portugal',
+      'SEQUENCE:0',
+      'STATUS:CONFIRMED',
+      'SUMMARY:Belém Tower',
+      'TRANSP:OPAQUE',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART:20240601T200000',
+      'DTEND:20240601T220000',
+      'DTSTAMP:20240520T101010Z',
+      'UID:7a8b9c@google.com',
+      'SUMMARY:Dinner in Alfama',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20240602',
+      'DTEND;VALUE=DATE:20240603',
+      'DTSTAMP:20240520T101010Z',
+      'UID:0f0e0d@google.com',
+      'SUMMARY:Sintra day trip',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ]));
+
+    expect(parsed.itinerary.title).toBe('Lisbon');
+    expect(parsed.itinerary.description).toBe('Long weekend in Lisbon');
+
+    const [tower, dinner, sintra] = parsed.activities;
+    expect(tower).toEqual({
+      title: 'Belém Tower',
+      description: 'Tickets at the door, bring cash',
+      location: 'Torre de Belém, Av. Brasília, 1400-038 Lisboa, Portugal',
+      start_time: '2024-06-01T09:00:00.000Z',
+      end_time: '2024-06-01T11:00:00.000Z',
+    });
+    // Floating times use the calendar's timezone
+    expect(dinner).toEqual({
+      title: 'Dinner in Alfama',
+      timezone: 'Europe/Lisbon',
+      start_time: '2024-06-01T19:00:00.000Z',
+      end_time: '2024-06-01T21:00:00.000Z',
+    });
+    // All-day events are whole days on the device
+    expect(sintra.start_time).toBe(new Date(2024, 5, 2).toISOString());
+    expect(sintra.end_time).toBe(new Date(2024, 5, 3).toISOString());
+
+    expect(parsed.itinerary.start_time).toBe('2024-06-01T09:00:00.000Z');
+    expect(parsed.itinerary.end_time).toBe(sintra.end_time);
+  });
+
+  it('imports a calendar exported from Apple Calendar', () => {
+    const parsed = parseICS(ics([
+      'BEGIN:VCALENDAR',
+      'METHOD:PUBLISH',
+      'VERSION:2.0',
+      'X-WR-CALNAME:NYC',
+      'PRODID:-//Apple Inc.//macOS 14.5//EN',
+      'X-APPLE-CALENDAR-COLOR:#1BADF8',
+      'X-WR-TIMEZONE:America/New_York',
+      'CALSCALE:GREGORIAN',
+      'BEGIN:VTIMEZONE',
+      'TZID:America/New_York',
+      'BEGIN:DAYLIGHT',
+      'TZOFFSETFROM:-0500',
+      'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU',
+      'DTSTART:20070311T020000',
+      'TZNAME:EDT',
+      'TZOFFSETTO:-0400',
+      'END:DAYLIGHT',
+      'BEGIN:STANDARD',
+      'TZOFFSETFROM:-0400',
+      'RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU',
+      'DTSTART:20071104T020000',
+      'TZNAME:EST',
+      'TZOFFSETTO:-0500',
+      'END:STANDARD',
+      'END:VTIMEZONE',
+      'BEGIN:VEVENT',
+      'TRANSP:OPAQUE',
+      'DTEND;TZID=America/New_York:20240311T123000',
+      'UID:4F0E1C2B-7D3A-4B5C-9E8F-0A1B2C3D4E5F',
+      'DTSTAMP:20240301T150000Z',
+      'LOCATION:Central Park\\nNew York\\, NY\\, United States',
+      'X-APPLE-STRUCTURED-LOCATION;VALUE=URI;X-ADDRESS="New York, NY, United St',
+      ' ates";X-APPLE-RADIUS=530;X-TITLE="Central Park":geo:40.782865,-73.965355',
+      'SEQUENCE:0',
+      'SUMMARY:Picnic',
+      'GEO:40.782865;-73.965355',
+      'LAST-MODIFIED:20240301T150000Z',
+      'CREATED:20240301T145900Z',
+      'DTSTART;TZID=America/New_York:20240311T110000',
+      'CATEGORIES:Outdoors,Food',
+      'BEGIN:VALARM',
+      'TRIGGER:-PT30M',
+      'ACTION:DISPLAY',
+      'DESCRIPTION:Reminder',
+      'END:VALARM',
+      'END:VEVENT',
+      'BEGIN:VTODO',
+      'UID:9C8B7A6F-5E4D-3C2B-1A09-F8E7D6C5B4A3',
+      'DTSTAMP:20240301T150000Z',
+      'SUMMARY:Book a table',
+      'END:VTODO',
+      'END:VCALENDAR',
+    ]));
+
+    expect(parsed.itinerary.title).toBe('NYC');
+    expect(parsed.activities).toEqual([
+      {
+        title: 'Picnic',
+        location: 'Central Park\nNew York, NY, United States',
+        gps_coords: [40.782865, -73.965355],
+        tags: ['Outdoors', 'Food'],
+        timezone: 'America/New_York',
+        start_time: '2024-03-11T15:00:00.000Z',
+        end_time: '2024-03-11T16:30:00.000Z',
+      },
+      { title: 'Book a table' },
+    ]);
+  });
+
+  it('rejects files without a calendar', () => {
+    expect(() => parseICS('BEGIN:VCARD\r\nFN:Someone\r\nEND:VCARD\r\n')).toThrow(ICalParseError);
+  });
+
+  it('rejects unbalanced components', () => {
+    expect(() => parseICS(ics(['BEGIN:VCALENDAR', 'BEGIN:VEVENT', 'SUMMARY:Lost', 'END:VCALENDAR']))).toThrow(
+      ICalParseError
+    );
+    expect(() => parseICS(ics(['BEGIN:VCALENDAR', 'BEGIN:VEVENT', 'SUMMARY:Lost']))).toThrow('Missing END:VEVENT');
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * @jest-environment node
+ */
+
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { purgeExpiredMessages } from '../messagePurge';
+import { getPhotoPathFromUrl, PHOTOS_BUCKET } from '../photoBucket';
+
+/**
+ * Runs against a local Supabase with the migrations applied (`npx supabase start`), using the
+ * API URL and keys it prints. Skipped unless they are set, as it writes to the database.
+ */
+const SUPABASE_URL = process.env.SUPABASE_TEST_URL;
+const ANON_KEY = process.env.SUPABASE_TEST_ANON_KEY;
+const SERVICE_KEY = process.env.SUPABASE_TEST_SERVICE_KEY;
+
+const describeWithSupabase = SUPABASE_URL && ANON_KEY && SERVICE_KEY ? describe : describe.skip;
+
+const HOUR_MS = 60 * 60 * 1000;
+const PASSWORD = 'purge-test-password';
+
+/**
+ * Creates a confirmed user and signs them in
+ */
+async function createTestUser(admin: SupabaseClient, name: string) {
+  const email = `${name}-${Date.now()}@purge.test`;
+  const { data, error } = await admin.auth.admin.createUser({
+    email,
+    password: PASSWORD,
+    email_confirm: true,
+    user_metadata: { username: `${name}_${Date.now()}` },
+  });
+  if (error) throw error;
+
+  const client = createClient(SUPABASE_URL!, ANON_KEY!, { auth: { persistSession: false, autoRefreshToken: false } });
+  const { error: signInError } = await client.auth.signInWithPassword({ email, password: PASSWORD });
+  if (signInError) throw signInError;
+
+  return { id: data.user.id, client };
+}
+
+/**
+ * Uploads a placeholder photo and returns its public URL
+ */
+async function uploadTestPhoto(admin: SupabaseClient, userId: string, name: string): Promise<string> {
+  const path = `${userId}/${name}.jpeg`;
+  const { error } = await admin.storage
+    .from(PHOTOS_BUCKET)
+    .upload(path, new Uint8Array([0xff, 0xd8, 0xff, 0xd9]), { contentType: 'image/jpeg' });
+  if (error) throw error;
+
+  return admin.storage.from(PHOTOS_BUCKET).getPublicUrl(path).data.publicUrl;
+}
+
+async function photoExists(admin: SupabaseClient, url: string): Promise<boolean> {
+  const path = getPhotoPathFromUrl(url)!;
+  const [folder, file] = path.split('/');
+  const { data, error } = await admin.storage.from(PHOTOS_BUCKET).list(folder, { search: file });
+  if (error) throw error;
+  return (data || []).some(object => object.name === file);
+}
+
+describeWithSupabase('purgeExpiredMessages against a local Supabase', () => {
+  let admin: SupabaseClient;
+  let senderId: string;
+  let recipientId: string;
+  let expiredPhoto: string;
+  let unsentPhoto: string;
+  let livePhoto: string;
+  let expiredMessageId: string;
+  let conversationId: string;
+
+  beforeAll(async () => {
+    admin = createClient(SUPABASE_URL!, SERVICE_KEY!, { auth: { persistSession: false, autoRefreshToken: false } });
+
+    const sender = await createTestUser(admin, 'sender');
+    const recipient = await createTestUser(admin, 'recipient');
+    senderId = sender.id;
+    recipientId = recipient.id;
+
+    const { data: conversation, error: conversationError } = await admin
+      .from('conversations')
+      .insert({ type: 'direct' })
+      .select('id')
+      .single();
+    if (conversationError) throw conversationError;
+    conversationId = conversation.id;
+
+    const { error: participantsError } = await admin.from('conversation_participants').insert([
+      { conversation_id: conversation.id, user_id: senderId },
+      { conversation_id: conversation.id, user_id: recipientId },
+    ]);
+    if (participantsError) throw participantsError;
+
+    expiredPhoto = await uploadTestPhoto(admin, senderId, 'expired');
+    unsentPhoto = await uploadTestPhoto(admin, senderId, 'unsent');
+    livePhoto = await uploadTestPhoto(admin, senderId, 'live');
+
+    const message = (content: string, expiresIn: number) => ({
+      conversation_id: conversation.id,
+      sender_id: senderId,
+      type: 'photo',
+      content,
+      expires_at: new Date(Date.now() + expiresIn).toISOString(),
+    });
+
+    const { data: messages, error: messagesError } = await admin
+      .from('messages')
+      .insert([message(expiredPhoto, -HOUR_MS), message(unsentPhoto, HOUR_MS), message(livePhoto, HOUR_MS)])
+      .select('id, content');
+    if (messagesError) throw messagesError;
+
+    expiredMessageId = messages.find(row => row.content === expiredPhoto)!.id;
+    const unsentMessageId = messages.find(row => row.content === unsentPhoto)!.id;
+
+    // Unsending clears the message content and queues its photo
+    const { error: unsendError } = await sender.client.rpc('unsend_message', { p_message_id: unsentMessageId });
+    if (unsendError) throw unsendError;
+  });
+
+  afterAll(async () => {
+    if (!admin) return;
+    const photos = [expiredPhoto, unsentPhoto, livePhoto].filter(Boolean);
+    await admin.storage.from(PHOTOS_BUCKET).remove(photos.map(url => getPhotoPathFromUrl(url)!));
+    await admin.from('photo_removals').delete().in('content_url', photos);
+    // Deleting the conversation deletes its participants and messages
+    if (conversationId) await admin.from('conversations').delete().eq('id', conversationId);
+    for (const id of [senderId, recipientId].filter(Boolean)) {
+      await admin.auth.admin.deleteUser(id);
+    }
+  });
+
+  it('reports what it would delete in a dry run without deleting anything', async () => {
+    const result = await purgeExpiredMessages(admin, { dryRun: true });
+
+    expect(result.photoPaths).toEqual(
+      expect.arrayContaining([getPhotoPathFromUrl(expiredPhoto), getPhotoPathFromUrl(unsentPhoto)])
+    );
+    expect(result.photoPaths).not.toContain(getPhotoPathFromUrl(livePhoto));
+    await expect(photoExists(admin, expiredPhoto)).resolves.toBe(true);
+    await expect(photoExists(admin, unsentPhoto)).resolves.toBe(true);
+  });
+
+  it('deletes expired messages and the photos of expired and unsent messages', async () => {
+    const result = await purgeExpiredMessages(admin);
+
+    expect(result.failedMessages).toBe(0);
+    expect(result.failedPhotos).toBe(0);
+
+    const { data: expiredRows } = await admin.from('messages').select('id').eq('id', expiredMessageId);
+    expect(expiredRows).toEqual([]);
+
+    const { data: queuedRows } = await admin.from('photo_removals').select('content_url').eq('content_url', unsentPhoto);
+    expect(queuedRows).toEqual([]);
+
+    await expect(photoExists(admin, expiredPhoto)).resolves.toBe(false);
+    await expect(photoExists(admin, unsentPhoto)).resolves.toBe(false);
+    await expect(photoExists(admin, livePhoto)).resolves.toBe(true);
+  });
+});
@@ -0,0 +1,312 @@
+/**
+ * @jest-environment node
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { dispatchNotifications } from '../notificationDispatch';
+import type { PushGateway, PushMessage, PushTicket } from '../pushGateway';
+
+type Row = Record<string, unknown>;
+type Tables = Record<string, Row[]>;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const BOB_TOKEN = 'ExponentPushToken[bob-phone]';
+const BOB_OLD_TOKEN = 'ExponentPushToken[bob-old-phone]';
+
+/**
+ * Holds the tables the dispatcher reads and writes, and answers its queries like PostgREST
+ */
+function createFakeDatabase(tables: Tables): SupabaseClient {
+  const client = {
+    from: (table: string) => {
+      const filters: ((row: Row) => boolean)[] = [];
+      let action: { kind: 'select' } | { kind: 'delete' } | { kind: 'update'; values: Row } = { kind: 'select' };
+      let max = Infinity;
+
+      const run = () => {
+        const rows = tables[table] || [];
+        const matched = rows.filter(row => filters.every(filter => filter(row)));
+
+        if (action.kind === 'delete') {
+          tables[table] = rows.filter(row => !matched.includes(row));
+        } else if (action.kind === 'update') {
+          const { values } = action;
+          matched.forEach(row => Object.assign(row, values));
+        } else {
+          return { data: matched.slice(0, max).map(row => ({ ...row })), error: null };
+        }
+        return { data: null, error: null };
+      };
+
+      const query = {
+        select: () => query,
+        delete: () => {
+          action = { kind: 'delete' };
+          return query;
+        },
+        update: (values: Row) => {
+          action = { kind: 'update', values };
+          return query;
+        },
+        eq: (column: string, value: unknown) => {
+          filters.push(row => row[column] === value);
+          return query;
+        },
+        in: (column: string, values: unknown[]) => {
+          filters.push(row => values.includes(row[column]));
+          return query;
+        },
+        lt: (column: string, value: number) => {
+          filters.push(row => (row[column] as number) < value);
+          return query;
+        },
+        order: () => query,
+        limit: (count: number) => {
+          max = count;
+          return query;
+        },
+        then: <T>(resolve: (result: ReturnType<typeof run>) => T, reject?: (error: unknown) => T) =>
+          Promise.resolve().then(run).then(resolve, reject),
+      };
+      return query;
+    },
+    rpc: async (name: string, params: { p_limit: number }) => {
+      if (name !== 'claim_notification_events') {
+        return { data: null, error: new Error(`Unexpected rpc ${name}`) };
+      }
+
+      const claimed = (tables.notification_events || [])
+        .filter(event => event.claimed_at === null && (event.attempts as number) < 5)
+        .slice(0, params.p_limit);
+      claimed.forEach(event => {
+        event.claimed_at = new Date().toISOString();
+        event.attempts = (event.attempts as number) + 1;
+      });
+      return { data: claimed.map(event => ({ ...event })), error: null };
+    },
+  };
+  // Only the parts of the client the dispatcher uses are implemented
+  return client as unknown as SupabaseClient;
+}
+
+interface FakeGateway extends PushGateway {
+  /** Messages the gateway took */
+  received: PushMessage[];
+  /** Fails every request, as when the gateway is down */
+  unavailable: boolean;
+}
+
+/**
+ * Answers like the Expo push API: tokens listed in `rejections` get an error ticket
+ */
+function createFakeGateway(rejections: Record<string, { message: string; error: string }> = {}): FakeGateway {
+  const gateway: FakeGateway = {
+    received: [],
+    unavailable: false,
+    async send(messages) {
+      if (gateway.unavailable) {
+        throw new Error('Push gateway responded with 503: Service Unavailable');
+      }
+
+      return messages.map((message, index): PushTicket => {
+        const rejection = rejections[message.to];
+        if (rejection) {
+          return { status: 'error', message: rejection.message, details: { error: rejection.error } };
+        }
+
+        gateway.received.push(message);
+        return { status: 'ok', id: `ticket-${index}` };
+      });
+    },
+  };
+  return gateway;
+}
+
+/**
+ * Alice has sent Bob a message in their direct conversation, and its notification is queued
+ */
+function createTables(): Tables {
+  const profile = (id: string, fullName: string) => ({
+    id,
+    username: fullName.toLowerCase(),
+    full_name: fullName,
+    notify_messages: true,
+    notify_friend_requests: true,
+    notify_trip_updates: true,
+  });
+
+  return {
+    profiles: [profile('alice', 'Alice'), profile('bob', 'Bob')],
+    push_tokens: [{ token: BOB_TOKEN, user_id: 'bob' }],
+    conversations: [{ id: 'conversation-1', type: 'direct', title: null }],
+    conversation_participants: [
+      { conversation_id: 'conversation-1', user_id: 'alice', is_active: true },
+      { conversation_id: 'conversation-1', user_id: 'bob', is_active: true },
+    ],
+    conversation_preferences: [],
+    messages: [{
+      id: 'message-1',
+      conversation_id: 'conversation-1',
+      type: 'text',
+      content: 'Dinner at eight?',
+      view_once: false,
+      deleted_at: null,
+    }],
+    friend_requests: [],
+    itineraries: [],
+    itinerary_members: [],
+    notification_events: [{
+      id: 'event-1',
+      recipient_id: 'bob',
+      actor_id: 'alice',
+      category: 'message',
+      message_id: 'message-1',
+      friend_request_id: null,
+      itinerary_id: null,
+      attempts: 0,
+      claimed_at: null,
+      last_error: null,
+      created_at: '2024-03-01T18:00:00.000Z',
+    }],
+  };
+}
+
+describe('dispatchNotifications', () => {
+  let tables: Tables;
+  let supabaseAdmin: SupabaseClient;
+  let consoleErrorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    tables = createTables();
+    supabaseAdmin = createFakeDatabase(tables);
+    consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleErrorSpy.mockRestore();
+  });
+
+  it('sends a queued message notification and removes it from the queue', async () => {
+    const gateway = createFakeGateway();
+
+    const result = await dispatchNotifications(supabaseAdmin, gateway);
+
+    expect(result).toEqual({ dryRun: false, sent: 1, skipped: 0, failed: 0, removedTokens: 0, messages: undefined });
+    expect(gateway.received).toEqual([{
+      to: BOB_TOKEN,
+      title: 'Alice',
+      body: 'Dinner at eight?',
+      data: { category: 'message', url: '/chat/conversation-1' },
+      sound: 'default',
+      channelId: 'default',
+    }]);
+    expect(tables.notification_events).toHaveLength(0);
+  });
+
+  it('skips conversations the recipient muted', async () => {
+    tables.conversation_preferences.push({
+      conversation_id: 'conversation-1',
+      user_id: 'bob',
+      is_muted: true,
+      muted_until: new Date(Date.now() + HOUR_MS).toISOString(),
+    });
+    const gateway = createFakeGateway();
+
+    const result = await dispatchNotifications(supabaseAdmin, gateway);
+
+    expect(result).toMatchObject({ sent: 0, skipped: 1, failed: 0 });
+    expect(gateway.received).toHaveLength(0);
+    expect(tables.notification_events).toHaveLength(0);
+  });
+
+  it('sends again once a mute has ended', async () => {
+    tables.conversation_preferences.push({
+      conversation_id: 'conversation-1',
+      user_id: 'bob',
+      is_muted: true,
+      muted_until: new Date(Date.now() - HOUR_MS).toISOString(),
+    });
+    const gateway = createFakeGateway();
+
+    const result = await dispatchNotifications(supabaseAdmin, gateway);
+
+    expect(result).toMatchObject({ sent: 1, skipped: 0 });
+    expect(gateway.received).toHaveLength(1);
+  });
+
+  it('skips notifications the recipient turned off', async () => {
+    tables.profiles.find(profile => profile.id === 'bob')!.notify_messages = false;
+    const gateway = createFakeGateway();
+
+    const result = await dispatchNotifications(supabaseAdmin, gateway);
+
+    expect(result).toMatchObject({ sent: 0, skipped: 1, failed: 0 });
+    expect(gateway.received).toHaveLength(0);
+    expect(tables.notification_events).toHaveLength(0);
+  });
+
+  it('removes tokens of devices the app was uninstalled from', async () => {
+    tables.push_tokens.push({ token: BOB_OLD_TOKEN, user_id: 'bob' });
+    const gateway = createFakeGateway({
+      [BOB_OLD_TOKEN]: { message: 'Not a registered push notification recipient', error: 'DeviceNotRegistered' },
+    });
+
+    const result = await dispatchNotifications(supabaseAdmin, gateway);
+
+    expect(result).toMatchObject({ sent: 1, failed: 0, removedTokens: 1 });
+    expect(gateway.received.map(message => message.to)).toEqual([BOB_TOKEN]);
+    expect(tables.push_tokens).toEqual([{ token: BOB_TOKEN, user_id: 'bob' }]);
+    expect(tables.notification_events).toHaveLength(0);
+  });
+
+  it('keeps notifications queued while the gateway is down and sends them on the next run', async () => {
+    const gateway = createFakeGateway();
+    gateway.unavailable = true;
+
+    const failedRun = await dispatchNotifications(supabaseAdmin, gateway);
+
+    expect(failedRun).toMatchObject({ sent: 0, failed: 1 });
+    expect(tables.notification_events).toEqual([expect.objectContaining({
+      id: 'event-1',
+      attempts: 1,
+      claimed_at: null,
+      last_error: 'Push gateway responded with 503: Service Unavailable',
+    })]);
+
+    gateway.unavailable = false;
+    const retryRun = await dispatchNotifications(supabaseAdmin, gateway);
+
+    expect(retryRun).toMatchObject({ sent: 1, failed: 0 });
+    expect(gateway.received).toHaveLength(1);
+    expect(tables.notification_events).toHaveLength(0);
+  });
+
+  it('retries notifications the gateway rejected for other reasons', async () => {
+    const gateway = createFakeGateway({
+      [BOB_TOKEN]: { message: 'Too many messages sent to this device', error: 'MessageRateExceeded' },
+    });
+
+    const result = await dispatchNotifications(supabaseAdmin, gateway);
+
+    expect(result).toMatchObject({ sent: 0, failed: 1, removedTokens: 0 });
+    expect(tables.push_tokens).toHaveLength(1);
+    expect(tables.notification_events).toEqual([expect.objectContaining({
+      id: 'event-1',
+      claimed_at: null,
+      last_error: 'Too many messages sent to this device',
+    })]);
+  });
+
+  it('lists what would be sent in a dry run without sending or claiming anything', async () => {
+    const gateway = createFakeGateway();
+
+    const result = await dispatchNotifications(supabaseAdmin, gateway, { dryRun: true });
+
+    expect(result).toMatchObject({ dryRun: true, sent: 1, skipped: 0 });
+    expect(result.messages).toHaveLength(1);
+    expect(result.messages?.[0]).toMatchObject({ to: BOB_TOKEN, title: 'Alice', body: 'Dinner at eight?' });
+    expect(gateway.received).toHaveLength(0);
+    expect(tables.notification_events).toEqual([expect.objectContaining({ id: 'event-1', attempts: 0, claimed_at: null })]);
+  });
+});
@@ -0,0 +1,166 @@
+import type { Activity } from '@/types/activities';
+import { analyzeScheduleConflicts, estimateTravel, planScheduleFix } from '../scheduleConflicts';
+
+// Times are built in device-local time, as the itinerary's days are
+const at = (day: number, hour: number, minute = 0) => new Date(2024, 5, day, hour, minute).toISOString();
+
+const trip = { start_time: at(1, 0), end_time: at(3, 0) };
+
+const LOUVRE: [number, number] = [48.8606, 2.3376];
+const VERSAILLES: [number, number] = [48.8049, 2.1204];
+
+// Points north of the Louvre along its meridian; a degree of latitude is ~111 km
+const northOfLouvre = (km: number): [number, number] => [LOUVRE[0] + km / 111.195, LOUVRE[1]];
+
+/**
+ * Builds a scheduled activity
+ */
+function makeActivity(id: string, start: string, end: string | null, overrides: Partial<Activity> = {}): Activity {
+  return {
+    id,
+    title: id,
+    start_time: start,
+    end_time: end,
+    created_by: 'user-1',
+    created_at: at(1, 0),
+    updated_at: at(1, 0),
+    itinerary_id: 'itinerary-1',
+    ...overrides,
+  };
+}
+
+describe('estimateTravel', () => {
+  const start = makeActivity('start', at(1, 9), null, { gps_coords: LOUVRE });
+  const to = (km: number) => makeActivity('to', at(1, 10), null, { gps_coords: northOfLouvre(km) });
+
+  it('walks short distances and takes transit for longer ones', () => {
+    expect(estimateTravel(start, to(1))).toMatchObject({ mode: 'walk', minutes: 13 });
+    // 20 km/h plus 8 minutes to reach a stop
+    expect(estimateTravel(start, to(5))).toMatchObject({ mode: 'transit', minutes: 23 });
+  });
+
+  it('treats activities within 200 m as being in the same place', () => {
+    expect(estimateTravel(start, to(0.1))).toMatchObject({ mode: 'walk', minutes: 0 });
+  });
+
+  it('cannot estimate travel without coordinates', () => {
+    expect(estimateTravel(start, makeActivity('to', at(1, 10), null))).toBeNull();
+  });
+});
+
+describe('analyzeScheduleConflicts', () => {
+  it('flags overlaps, activities outside the trip and transitions without time to travel', () => {
+    const activities = [
+      makeActivity('museum', at(1, 9), at(1, 12), { gps_coords: LOUVRE }),
+      makeActivity('lunch', at(1, 11), at(1, 13), { gps_coords: LOUVRE }),
+      makeActivity('palace', at(1, 13, 5), at(1, 16), { gps_coords: VERSAILLES }),
+      makeActivity('flight', at(5, 9), at(5, 11)),
+    ];
+
+    const { conflicts, byActivity, conflictedDays } = analyzeScheduleConflicts(activities, trip);
+
+    expect(conflicts.map(conflict => [conflict.type, conflict.activityId])).toEqual([
+      ['out_of_range', 'flight'],
+      ['overlap', 'museum'],
+      ['overlap', 'lunch'],
+      ['impossible_transition', 'palace'],
+    ]);
+    expect(byActivity.palace[0].relatedActivityId).toBe('lunch');
+    expect(conflictedDays.size).toBe(2);
+  });
+
+  it('ignores unscheduled activities and back-to-back activities in the same place', () => {
+    const activities = [
+      makeActivity('breakfast', at(1, 8), at(1, 9), { gps_coords: LOUVRE }),
+      makeActivity('museum', at(1, 9), at(1, 12), { gps_coords: LOUVRE }),
+      makeActivity('someday', at(1, 0), null, { start_time: null }),
+    ];
+
+    expect(analyzeScheduleConflicts(activities, trip).conflicts).toEqual([]);
+  });
+});
+
+describe('planScheduleFix', () => {
+  it('shifts overlapping activities later and keeps their durations', () => {
+    const plan = planScheduleFix(
+      [
+        makeActivity('museum', at(1, 9), at(1, 12)),
+        makeActivity('lunch', at(1, 11), at(1, 13)),
+        makeActivity('walk', at(1, 15), at(1, 16)),
+      ],
+      trip
+    );
+
+    expect(plan).toEqual({
+      feasible: true,
+      adjustments: [{ activityId: 'lunch', start_time: at(1, 12), end_time: at(1, 14) }],
+    });
+  });
+
+  it('leaves time to travel and rounds the new start up to five minutes', () => {
+    const plan = planScheduleFix(
+      [
+        makeActivity('museum', at(1, 9), at(1, 12), { gps_coords: LOUVRE }),
+        makeActivity('palace', at(1, 12), at(1, 15), { gps_coords: VERSAILLES }),
+      ],
+      trip
+    );
+
+    // ~17 km by transit is 60 minutes
+    expect(plan.adjustments).toEqual([{ activityId: 'palace', start_time: at(1, 13), end_time: at(1, 16) }]);
+  });
+
+  it('packs the day back to back in compact mode', () => {
+    const plan = planScheduleFix(
+      [
+        makeActivity('museum', at(1, 9), at(1, 12)),
+        makeActivity('lunch', at(1, 11), at(1, 13)),
+        makeActivity('walk', at(1, 16), at(1, 17)),
+      ],
+      trip,
+      'compact'
+    );
+
+    expect(plan.adjustments).toEqual([
+      { activityId: 'lunch', start_time: at(1, 12), end_time: at(1, 14) },
+      { activityId: 'walk', start_time: at(1, 14), end_time: at(1, 15) },
+    ]);
+  });
+
+  it('moves activities that start before the trip to its first day', () => {
+    const plan = planScheduleFix([makeActivity('arrival', at(0, 22), at(0, 23))], trip);
+
+    expect(plan.adjustments).toEqual([{ activityId: 'arrival', start_time: at(1, 0), end_time: at(1, 1) }]);
+  });
+
+  it('reports the day as unfixable when shifting would run past midnight', () => {
+    const plan = planScheduleFix(
+      [
+        makeActivity('dinner', at(1, 20), at(1, 23)),
+        makeActivity('club', at(1, 22), at(1, 23, 30)),
+      ],
+      trip
+    );
+
+    expect(plan).toEqual({ feasible: false, adjustments: [] });
+  });
+
+  it('reports the last day of the trip as unfixable when shifting would run past the trip', () => {
+    const plan = planScheduleFix(
+      [
+        makeActivity('checkout', at(3, 21), at(3, 23)),
+        makeActivity('train', at(3, 22, 30), at(3, 23, 30)),
+      ],
+      trip,
+      'compact'
+    );
+
+    expect(plan).toEqual({ feasible: false, adjustments: [] });
+  });
+
+  it('keeps activities that already end after midnight when nothing moves them', () => {
+    const plan = planScheduleFix([makeActivity('night-bus', at(1, 23), at(2, 1))], trip);
+
+    expect(plan).toEqual({ feasible: true, adjustments: [] });
+  });
+});
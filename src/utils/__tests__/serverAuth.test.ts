@@ -0,0 +1,434 @@
+import { POST } from '@/app/server/ai/openai-request+api';
+import type { Itinerary } from '@/types/itineraries';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import {
+  authenticateRequest,
+  authorizeActivityEdit,
+  authorizeItineraryEdit,
+  getBearerToken,
+  ServerAuthError,
+} from '../serverAuth';
+
+jest.mock('@supabase/supabase-js', () => ({
+  createClient: jest.fn(),
+}));
+
+// The clients the code under test creates all use the default schema types
+const mockCreateClient = jest.mocked(createClient as (...args: Parameters<typeof createClient>) => SupabaseClient);
+
+interface FakeSupabaseOptions {
+  /** Users by access token */
+  users?: Record<string, { id: string }>;
+  /** Rows row level security lets the caller see, by table */
+  rows?: Record<string, { id: string; itinerary_id?: string }[]>;
+  /** Role returned by `get_itinerary_role` */
+  role?: string | null;
+  /** Receives the rows inserted, by table */
+  inserted?: Record<string, unknown[]>;
+}
+
+/**
+ * Builds a client that answers the queries the server routes make from fixed data
+ */
+function createFakeSupabase({ users = {}, rows = {}, role = null, inserted = {} }: FakeSupabaseOptions = {}): SupabaseClient {
+  const client = {
+    auth: {
+      getUser: jest.fn(async (token: string) =>
+        users[token]
+          ? { data: { user: users[token] }, error: null }
+          : { data: { user: null }, error: new Error('invalid JWT') }
+      ),
+    },
+    from: jest.fn((table: string) => {
+      const filters: Record<string, unknown> = {};
+      const query = {
+        select: () => query,
+        insert: async (values: unknown) => {
+          (inserted[table] ||= []).push(...(Array.isArray(values) ? values : [values]));
+          return { error: null };
+        },
+        eq: (column: string, value: unknown) => {
+          filters[column] = value;
+          return query;
+        },
+        maybeSingle: async () => ({
+          data: (rows[table] || []).find(row => Object.entries(filters).every(([column, value]) => row[column as keyof typeof row] === value)) ?? null,
+          error: null,
+        }),
+      };
+      return query;
+    }),
+    rpc: jest.fn(async (name: string) => {
+      switch (name) {
+        case 'get_itinerary_role':
+          return { data: role, error: null };
+        case 'reserve_ai_request':
+          return { data: [{ allowed: true, used: 0 }], error: null };
+        case 'match_community_content':
+        case 'get_ai_usage_summary':
+          return { data: [], error: null };
+        default:
+          return { data: null, error: new Error(`Unexpected rpc ${name}`) };
+      }
+    }),
+    storage: {
+      from: (bucket: string) => ({
+        upload: async (path: string) => ({ data: { path }, error: null }),
+        getPublicUrl: (path: string) => ({ data: { publicUrl: `https://storage.example.com/${bucket}/${path}` } }),
+      }),
+    },
+  };
+  // Only the parts of the client the code under test uses are implemented
+  return client as unknown as SupabaseClient;
+}
+
+const itinerary: Itinerary = {
+  id: 'itinerary-1',
+  title: 'Lisbon',
+  created_by: 'user-1',
+  created_at: '2024-02-01T00:00:00.000Z',
+  updated_at: '2024-02-01T00:00:00.000Z',
+};
+
+const activity = {
+  id: 'activity-1',
+  title: 'Tram 28',
+  itinerary_id: itinerary.id,
+};
+
+/**
+ * Makes the clients the code under test creates answer from fixed data
+ */
+function useFakeSupabase(options: FakeSupabaseOptions) {
+  const supabase = createFakeSupabase(options);
+  mockCreateClient.mockReturnValue(supabase);
+  return supabase;
+}
+
+async function expectAuthError(promise: Promise<unknown>, status: number) {
+  await expect(promise).rejects.toBeInstanceOf(ServerAuthError);
+  await expect(promise).rejects.toMatchObject({ status });
+}
+
+describe('getBearerToken', () => {
+  it('extracts the token from a Bearer header', () => {
+    expect(getBearerToken('Bearer abc.def.ghi')).toBe('abc.def.ghi');
+    expect(getBearerToken('bearer   token')).toBe('token');
+  });
+
+  it('rejects missing and malformed headers', () => {
+    expect(getBearerToken(null)).toBeNull();
+    expect(getBearerToken('')).toBeNull();
+    expect(getBearerToken('Basic dXNlcjpwYXNz')).toBeNull();
+    expect(getBearerToken('Bearer')).toBeNull();
+    expect(getBearerToken('Bearer two tokens')).toBeNull();
+  });
+});
+
+describe('authenticateRequest', () => {
+  const request = (authorization?: string) =>
+    new Request('https://example.com/server/ai/openai-request', {
+      method: 'POST',
+      headers: authorization ? { Authorization: authorization } : {},
+    });
+
+  it('returns the user that owns the token', async () => {
+    useFakeSupabase({ users: { 'good-token': { id: 'user-1' } } });
+
+    const { user } = await authenticateRequest(request('Bearer good-token'));
+
+    expect(user.id).toBe('user-1');
+  });
+
+  it('rejects requests without a token', async () => {
+    useFakeSupabase({});
+
+    await expectAuthError(authenticateRequest(request()), 401);
+  });
+
+  it('rejects invalid or expired tokens', async () => {
+    useFakeSupabase({ users: { 'good-token': { id: 'user-1' } } });
+
+    await expectAuthError(authenticateRequest(request('Bearer expired-token')), 401);
+  });
+});
+
+describe('authorizeItineraryEdit', () => {
+  it('returns the stored itinerary with the caller role', async () => {
+    const supabase = createFakeSupabase({ rows: { itineraries: [itinerary] }, role: 'editor' });
+
+    await expect(authorizeItineraryEdit(supabase, itinerary.id)).resolves.toEqual({ ...itinerary, role: 'editor' });
+  });
+
+  it('reports itineraries that are missing or not shared with the caller as not found', async () => {
+    const supabase = createFakeSupabase({ rows: { itineraries: [itinerary] }, role: 'owner' });
+
+    await expectAuthError(authorizeItineraryEdit(supabase, 'itinerary-2'), 404);
+    await expectAuthError(authorizeItineraryEdit(supabase, undefined), 404);
+  });
+
+  it('forbids viewers from editing', async () => {
+    const supabase = createFakeSupabase({ rows: { itineraries: [itinerary] }, role: 'viewer' });
+
+    await expectAuthError(authorizeItineraryEdit(supabase, itinerary.id), 403);
+  });
+});
+
+describe('authorizeActivityEdit', () => {
+  const supabase = createFakeSupabase({ rows: { activities: [activity] } });
+
+  it('accepts activities in the itinerary and drafts without an id', async () => {
+    await expect(authorizeActivityEdit(supabase, activity, itinerary)).resolves.toBeUndefined();
+    await expect(authorizeActivityEdit(supabase, { title: 'Draft' }, itinerary)).resolves.toBeUndefined();
+  });
+
+  it('reports activities from another itinerary as not found', async () => {
+    const otherItinerary = { ...itinerary, id: 'itinerary-2' };
+
+    await expectAuthError(authorizeActivityEdit(supabase, activity, otherItinerary), 404);
+  });
+});
+
+describe('AI route', () => {
+  const originalProvider = process.env.AI_PROVIDER;
+
+  beforeAll(() => {
+    process.env.AI_PROVIDER = 'stub';
+  });
+
+  afterAll(() => {
+    if (originalProvider === undefined) {
+      delete process.env.AI_PROVIDER;
+    } else {
+      process.env.AI_PROVIDER = originalProvider;
+    }
+  });
+
+  const aiRequest = (authorization: string | null, type: string, body: Record<string, unknown> = {}) =>
+    new Request('https://example.com/server/ai/openai-request', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(authorization && { Authorization: authorization }),
+      },
+      body: JSON.stringify({ type, ...body }),
+    });
+
+  /**
+   * Signs in as the owner of the itinerary, recording the AI usage the route writes
+   */
+  const useOwner = () => {
+    const inserted: Record<string, unknown[]> = {};
+    useFakeSupabase({
+      users: { 'good-token': { id: 'user-1' } },
+      rows: { itineraries: [itinerary], activities: [activity] },
+      role: 'owner',
+      inserted,
+    });
+    return inserted;
+  };
+
+  /**
+   * Splits a server-sent event stream into its events
+   */
+  const parseEvents = (text: string) =>
+    text.trim().split('\n\n').map(block => {
+      const [eventLine, dataLine] = block.split('\n');
+      return { event: eventLine.replace('event: ', ''), data: JSON.parse(dataLine.replace('data: ', '')) };
+    });
+
+  it('responds 401 without a valid token', async () => {
+    useFakeSupabase({});
+
+    const response = await POST(aiRequest(null, 'fill-activity-data', { activity, itinerary }));
+
+    expect(response.status).toBe(401);
+    await expect(response.json()).resolves.toEqual({ error: 'Unauthorized' });
+  });
+
+  it('responds 403 when the caller may only view the itinerary', async () => {
+    useFakeSupabase({
+      users: { 'good-token': { id: 'user-2' } },
+      rows: { itineraries: [itinerary], activities: [activity] },
+      role: 'viewer',
+    });
+
+    const response = await POST(aiRequest('Bearer good-token', 'fill-activity-data', { activity, itinerary }));
+
+    expect(response.status).toBe(403);
+  });
+
+  it('responds 404 for itineraries and activities the caller cannot see', async () => {
+    useFakeSupabase({
+      users: { 'good-token': { id: 'user-2' } },
+      rows: { itineraries: [itinerary], activities: [activity] },
+      role: 'editor',
+    });
+
+    const hiddenItinerary = await POST(
+      aiRequest('Bearer good-token', 'fill-activity-data', { activity, itinerary: { ...itinerary, id: 'itinerary-2' } })
+    );
+    const foreignActivity = await POST(
+      aiRequest('Bearer good-token', 'fill-activity-data', { activity: { ...activity, id: 'activity-2' }, itinerary })
+    );
+
+    expect(hiddenItinerary.status).toBe(404);
+    expect(foreignActivity.status).toBe(404);
+  });
+
+  it('fills in activities the caller can edit and records the usage', async () => {
+    const inserted = useOwner();
+
+    const response = await POST(aiRequest('Bearer good-token', 'fill-activity-data', { activity, itinerary }));
+
+    expect(response.status).toBe(200);
+    const { suggestions } = await response.json();
+    expect(suggestions.title).toContain('Stub title');
+    expect(suggestions.tags).toHaveLength(3);
+    expect(inserted.ai_usage).toEqual([
+      expect.objectContaining({ user_id: 'user-1', request_type: 'fill-activity-data', provider: 'stub', model: 'stub' }),
+    ]);
+  });
+
+  it('generates an activity image and returns its public URL', async () => {
+    useOwner();
+
+    const response = await POST(aiRequest('Bearer good-token', 'generate-activity-image', { activity, itinerary }));
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({
+      image_url: expect.stringMatching(/^https:\/\/storage\.example\.com\/photos\/activities\/.+\.png$/),
+    });
+  });
+
+  it('creates an activity from a prompt with its community sources', async () => {
+    useOwner();
+
+    const response = await POST(
+      aiRequest('Bearer good-token', 'create-activity-from-prompt', { prompt: 'A tram ride', itinerary })
+    );
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({
+      activity: expect.objectContaining({ title: expect.stringContaining('Stub title') }),
+      sources: { tripCount: 0, storyCount: 0, items: [] },
+    });
+  });
+
+  it('fills in draft itineraries without looking them up', async () => {
+    useOwner();
+
+    const response = await POST(aiRequest('Bearer good-token', 'fill-itinerary-data', { itinerary: { title: 'Porto' } }));
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({
+      suggestions: expect.objectContaining({ title: expect.stringContaining('Stub title') }),
+    });
+  });
+
+  it('generates an itinerary cover image and returns its public URL', async () => {
+    useOwner();
+
+    const response = await POST(aiRequest('Bearer good-token', 'generate-itinerary-image', { itinerary }));
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({
+      image_url: expect.stringMatching(/^https:\/\/storage\.example\.com\/photos\/itineraries\/.+\.png$/),
+    });
+  });
+
+  it('creates an itinerary from a prompt', async () => {
+    useOwner();
+
+    const response = await POST(aiRequest('Bearer good-token', 'create-itinerary-from-prompt', { prompt: 'Three days in Porto' }));
+
+    expect(response.status).toBe(200);
+    const { itinerary: created } = await response.json();
+    expect(created.title).toContain('Stub title');
+    expect(created.activities).toHaveLength(3);
+  });
+
+  it('streams an itinerary as server-sent events and records the usage once the stream ends', async () => {
+    const inserted = useOwner();
+
+    const response = await POST(
+      aiRequest('Bearer good-token', 'create-itinerary-from-prompt', { prompt: 'Three days in Porto', stream: true })
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+
+    const events = parseEvents(await response.text());
+    const done = events[events.length - 1];
+
+    expect(events[0]).toEqual({ event: 'sources', data: { sources: { tripCount: 0, storyCount: 0, items: [] } } });
+    expect(events.filter(({ event }) => event === 'activity').map(({ data }) => data.index)).toEqual([0, 1, 2]);
+    expect(events).toContainEqual({ event: 'itinerary', data: { title: done.data.itinerary.title } });
+    expect(done.event).toBe('done');
+    expect(done.data.itinerary.activities).toHaveLength(3);
+    // The prompt's embedding is recorded as the response starts, the generation once it ends
+    expect(inserted.ai_usage).toEqual([
+      expect.objectContaining({ request_type: 'create-itinerary-from-prompt', output_tokens: 0 }),
+      expect.objectContaining({ request_type: 'create-itinerary-from-prompt', output_tokens: expect.any(Number) }),
+    ]);
+  });
+
+  it('calls a tool in answer to an assistant chat message, then replies with its result', async () => {
+    useOwner();
+    const body = { now: '2030-01-01T09:00:00.000Z', timezone: 'Europe/Lisbon' };
+
+    const first = await POST(
+      aiRequest('Bearer good-token', 'assistant-chat', { ...body, messages: [{ role: 'user', content: 'What is planned?' }] })
+    );
+    const { reply: toolReply } = await first.json();
+
+    expect(toolReply).toEqual({
+      content: null,
+      toolCalls: [{ id: expect.any(String), name: 'list_itineraries', arguments: '{}' }],
+    });
+
+    const second = await POST(
+      aiRequest('Bearer good-token', 'assistant-chat', {
+        ...body,
+        messages: [
+          { role: 'user', content: 'What is planned?' },
+          {
+            role: 'assistant',
+            content: null,
+            tool_calls: [{ id: toolReply.toolCalls[0].id, type: 'function', function: { name: 'list_itineraries', arguments: '{}' } }],
+          },
+          { role: 'tool', tool_call_id: toolReply.toolCalls[0].id, content: '[]' },
+        ],
+      })
+    );
+
+    await expect(second.json()).resolves.toEqual({ reply: { content: 'Stub reply after 1 tool result.', toolCalls: [] } });
+  });
+
+  it('captions an image', async () => {
+    useOwner();
+
+    const response = await POST(aiRequest('Bearer good-token', 'generate-image-caption', { image: 'aGVsbG8=' }));
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({ caption: expect.stringContaining('Stub caption') });
+  });
+
+  it('reports usage without counting it against a quota', async () => {
+    const inserted = useOwner();
+
+    const response = await POST(aiRequest('Bearer good-token', 'get-usage'));
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({ usage: expect.any(Object) });
+    expect(inserted.ai_usage).toBeUndefined();
+  });
+
+  it('rejects unknown request types', async () => {
+    useOwner();
+
+    const response = await POST(aiRequest('Bearer good-token', 'write-a-poem'));
+
+    expect(response.status).toBe(400);
+  });
+});
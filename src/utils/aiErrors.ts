@@ -0,0 +1,33 @@
+/**
+ * AI request error handling utilities
+ * Explains used-up daily AI limits to the user instead of showing a generic failure
+ */
+
+import { AIQuotaError } from '@/api/ai';
+import { Alert } from 'react-native';
+
+/**
+ * Alerts the user that an AI request failed
+ * @param error - The error the request failed with
+ * @param fallbackMessage - Message shown for anything other than a used-up daily limit
+ */
+export function alertAIError(error: unknown, fallbackMessage: string): void {
+  if (error instanceof AIQuotaError) {
+    Alert.alert('Daily Limit Reached', error.message);
+  } else {
+    Alert.alert('Error', fallbackMessage);
+  }
+}
+
+/**
+ * Finds a used-up daily limit among settled AI requests, which is worth explaining even when
+ * other requests succeeded
+ */
+export function findQuotaError(results: PromiseSettledResult<unknown>[]): AIQuotaError | null {
+  for (const result of results) {
+    if (result.status === 'rejected' && result.reason instanceof AIQuotaError) {
+      return result.reason;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,223 @@
+/**
+ * @file Server-side accounting and daily quotas for the AI route
+ * Every model call is recorded in the `ai_usage` ledger with its tokens, images and estimated cost.
+ * Quotas limit how many requests of each type a user can make per UTC day; override the defaults
+ * with `AI_DAILY_QUOTAS`, e.g. `{"generate-activity-image": 10}`. A request is reserved against its
+ * quota before any model call, so it counts even if it later fails.
+ */
+
+import type { AIRequestType, AIUsageEntry, AIUsageSummary } from '@/types/aiUsage';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { LLMUsage } from './llm/types';
+
+const DEFAULT_DAILY_QUOTAS: Record<AIRequestType, number> = {
+  'fill-activity-data': 50,
+  'fill-itinerary-data': 50,
+  'create-activity-from-prompt': 30,
+  'create-itinerary-from-prompt': 10,
+  'generate-activity-image': 5,
+  'generate-itinerary-image': 5,
+  // Each assistant message can take several requests while the assistant looks things up
+  'assistant-chat': 200,
+  'generate-image-caption': 30,
+};
+
+/**
+ * US dollars per million tokens, and per image for image models
+ */
+const MODEL_PRICES: Record<string, { input: number; output: number; image: number }> = {
+  'gpt-4.1-nano': { input: 0.1, output: 0.4, image: 0 },
+  'gpt-4o': { input: 2.5, output: 10, image: 0 },
+  'dall-e-3': { input: 0, output: 0, image: 0.08 },
+  'text-embedding-3-small': { input: 0.02, output: 0, image: 0 },
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface UsageSummaryRow {
+  request_type: string;
+  request_count: number;
+  input_tokens: number;
+  output_tokens: number;
+  image_count: number;
+  cost_usd: number;
+}
+
+/**
+ * Result of reserving a request against its daily quota
+ */
+export interface AIQuotaCheck {
+  allowed: boolean;
+  limit: number;
+  used: number;
+  /** Seconds until the quota resets */
+  retryAfter: number;
+}
+
+/**
+ * Checks whether a request type is subject to a quota
+ */
+export function isAIRequestType(type: string): type is AIRequestType {
+  return type in DEFAULT_DAILY_QUOTAS;
+}
+
+/**
+ * Gets the daily quota for each request type, applying any overrides from `AI_DAILY_QUOTAS`
+ */
+export function getDailyQuotas(): Record<AIRequestType, number> {
+  const quotas = { ...DEFAULT_DAILY_QUOTAS };
+  if (!process.env.AI_DAILY_QUOTAS) return quotas;
+
+  try {
+    const overrides = JSON.parse(process.env.AI_DAILY_QUOTAS) as Record<string, unknown>;
+    for (const [type, limit] of Object.entries(overrides)) {
+      if (isAIRequestType(type) && typeof limit === 'number' && limit >= 0) {
+        quotas[type] = limit;
+      }
+    }
+  } catch (error) {
+    console.error('Invalid AI_DAILY_QUOTAS, using the default quotas:', error);
+  }
+  return quotas;
+}
+
+/**
+ * Estimates the cost of a model call in US dollars; models without a price, like the stub, are free
+ */
+export function estimateCost(usage: LLMUsage): number {
+  const price = MODEL_PRICES[usage.model];
+  if (!price) return 0;
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000 + usage.imageCount * price.image;
+}
+
+/**
+ * Summarizes the user's usage today against their quotas, plus their estimated cost over 30 days
+ *
+ * @param supabaseAdmin - Client using the service role
+ */
+export async function getAIUsageSummary(supabaseAdmin: SupabaseClient, userId: string): Promise<AIUsageSummary> {
+  const { start, end } = getQuotaWindow();
+  const [todayRows, monthRows] = await Promise.all([
+    fetchUsageSummary(supabaseAdmin, userId, start),
+    fetchUsageSummary(supabaseAdmin, userId, new Date(Date.now() - 30 * DAY_MS)),
+  ]);
+
+  const quotas = getDailyQuotas();
+  const today: AIUsageEntry[] = (Object.keys(quotas) as AIRequestType[]).map(type => {
+    const row = todayRows.find(candidate => candidate.request_type === type);
+    return {
+      type,
+      used: Number(row?.request_count ?? 0),
+      limit: quotas[type],
+      inputTokens: Number(row?.input_tokens ?? 0),
+      outputTokens: Number(row?.output_tokens ?? 0),
+      imageCount: Number(row?.image_count ?? 0),
+      costUsd: Number(row?.cost_usd ?? 0),
+    };
+  });
+
+  return {
+    today,
+    resetsAt: end.toISOString(),
+    monthCostUsd: monthRows.reduce((total, row) => total + Number(row.cost_usd), 0),
+  };
+}
+
+/**
+ * Collects the model calls made for one request and writes them to the ledger
+ */
+export class AIUsageLedger {
+  private readonly requestId = crypto.randomUUID();
+  private pending: LLMUsage[] = [];
+
+  /**
+   * @param supabaseAdmin - Client using the service role; users cannot write to the ledger
+   */
+  constructor(
+    private readonly supabaseAdmin: SupabaseClient,
+    private readonly userId: string,
+    private readonly type: AIRequestType,
+    private readonly provider: string
+  ) {}
+
+  /**
+   * Reserves this request against the user's quota for its type if they have requests left today.
+   * The check and reservation happen atomically in the database, so concurrent requests cannot
+   * exceed the quota.
+   */
+  async reserve(): Promise<AIQuotaCheck> {
+    const { start, end } = getQuotaWindow();
+    const limit = getDailyQuotas()[this.type];
+
+    const { data, error } = await this.supabaseAdmin.rpc('reserve_ai_request', {
+      p_request_id: this.requestId,
+      p_user_id: this.userId,
+      p_request_type: this.type,
+      p_provider: this.provider,
+      p_limit: limit,
+      p_since: start.toISOString(),
+    });
+
+    if (error) throw error;
+    const result = (data as { allowed: boolean; used: number }[] | null)?.[0];
+
+    return {
+      allowed: !!result?.allowed,
+      limit,
+      used: Number(result?.used ?? 0),
+      retryAfter: Math.ceil((end.getTime() - Date.now()) / 1000),
+    };
+  }
+
+  /** Records a model call; pass as a provider's `onUsage` */
+  track = (usage: LLMUsage) => {
+    this.pending.push(usage);
+  };
+
+  /**
+   * Writes the calls recorded since the last flush. Safe to call more than once, e.g. once when a
+   * streamed response starts and again when it ends. Failures are logged rather than thrown, so
+   * accounting never fails a request the user was already charged for.
+   */
+  async flush(): Promise<void> {
+    const usages = this.pending.splice(0);
+    if (usages.length === 0) return;
+
+    const { error } = await this.supabaseAdmin.from('ai_usage').insert(
+      usages.map(usage => ({
+        request_id: this.requestId,
+        user_id: this.userId,
+        request_type: this.type,
+        provider: this.provider,
+        model: usage.model,
+        input_tokens: usage.inputTokens,
+        output_tokens: usage.outputTokens,
+        image_count: usage.imageCount,
+        cost_usd: estimateCost(usage),
+      }))
+    );
+
+    if (error) {
+      console.error('Error recording AI usage:', error);
+    }
+  }
+}
+
+/**
+ * Quotas reset at midnight UTC
+ */
+function getQuotaWindow(): { start: Date; end: Date } {
+  const now = new Date();
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  return { start, end: new Date(start.getTime() + DAY_MS) };
+}
+
+async function fetchUsageSummary(supabaseAdmin: SupabaseClient, userId: string, since: Date): Promise<UsageSummaryRow[]> {
+  const { data, error } = await supabaseAdmin.rpc('get_ai_usage_summary', {
+    p_user_id: userId,
+    p_since: since.toISOString(),
+  });
+
+  if (error) throw error;
+  return (data || []) as UsageSummaryRow[];
+}
@@ -0,0 +1,109 @@
+/**
+ * @file Tool definitions for the AI trip assistant
+ * Shared by the server route, which offers them to the model, and the client, which runs them
+ * against the user's itineraries. Mutating tools are only run after the user confirms the change.
+ */
+
+import type { AssistantMutatingToolName, AssistantToolName } from '@/types/assistant';
+import type { LLMToolDefinition } from './llm/types';
+
+const TIME_DESCRIPTION = 'ISO 8601 date-time including the UTC offset of the place the activity happens in, or null to clear';
+
+const ACTIVITY_FIELDS = {
+  title: { type: 'string', description: 'Activity title' },
+  description: { type: ['string', 'null'], description: 'Short description of the activity' },
+  location: { type: ['string', 'null'], description: 'City, landmark or point of interest; it is geocoded automatically' },
+  start_time: { type: ['string', 'null'], description: TIME_DESCRIPTION },
+  end_time: { type: ['string', 'null'], description: TIME_DESCRIPTION },
+  tags: { type: 'array', items: { type: 'string' }, description: 'Replaces all existing tags' },
+};
+
+export const ASSISTANT_TOOLS: LLMToolDefinition[] = [
+  {
+    name: 'list_itineraries',
+    description: "Lists the user's itineraries with their ids, titles, dates and the user's role on each",
+    parameters: { type: 'object', properties: {}, additionalProperties: false },
+  },
+  {
+    name: 'get_itinerary_activities',
+    description: 'Gets every activity in an itinerary, with ids, times, locations and tags',
+    parameters: {
+      type: 'object',
+      properties: {
+        itinerary_id: { type: 'string' },
+      },
+      required: ['itinerary_id'],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'create_activity',
+    description: 'Adds an activity to an itinerary. The user is asked to confirm before it is created.',
+    parameters: {
+      type: 'object',
+      properties: {
+        itinerary_id: { type: 'string' },
+        ...ACTIVITY_FIELDS,
+      },
+      required: ['itinerary_id', 'title'],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'update_activity',
+    description: 'Changes fields of an existing activity; omitted fields are left as they are. The user is asked to confirm first.',
+    parameters: {
+      type: 'object',
+      properties: {
+        activity_id: { type: 'string' },
+        ...ACTIVITY_FIELDS,
+      },
+      required: ['activity_id'],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'delete_activity',
+    description: 'Removes an activity from its itinerary. The user is asked to confirm first.',
+    parameters: {
+      type: 'object',
+      properties: {
+        activity_id: { type: 'string' },
+      },
+      required: ['activity_id'],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'update_itinerary',
+    description: "Changes an itinerary's title, description or dates; omitted fields are left as they are. The user is asked to confirm first.",
+    parameters: {
+      type: 'object',
+      properties: {
+        itinerary_id: { type: 'string' },
+        title: { type: 'string' },
+        description: { type: ['string', 'null'] },
+        start_time: { type: ['string', 'null'], description: 'ISO 8601 date-time, or null to clear' },
+        end_time: { type: ['string', 'null'], description: 'ISO 8601 date-time, or null to clear' },
+      },
+      required: ['itinerary_id'],
+      additionalProperties: false,
+    },
+  },
+];
+
+const MUTATING_TOOLS: AssistantMutatingToolName[] = ['create_activity', 'update_activity', 'delete_activity', 'update_itinerary'];
+
+/**
+ * Checks whether a tool name is one of the assistant's tools
+ */
+export function isAssistantTool(name: string): name is AssistantToolName {
+  return ASSISTANT_TOOLS.some(tool => tool.name === name);
+}
+
+/**
+ * Checks whether a tool changes the user's itineraries and so needs confirmation
+ */
+export function isMutatingTool(name: string): name is AssistantMutatingToolName {
+  return (MUTATING_TOOLS as string[]).includes(name);
+}
@@ -0,0 +1,160 @@
+/**
+ * @file Retrieval of other travelers' content to ground AI suggestions
+ * Embeds the searchable text kept in `content_embeddings`, finds the content most similar to a
+ * request and formats it as prompt context plus a citation the UI can show.
+ * Indexing runs in the index-community-content job, search in the AI route; `describeCommunitySources`
+ * is used by the UI.
+ */
+
+import type { CommunitySources, CommunitySourceType } from '@/types/retrieval';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { LLMProvider, LLMUsageHandler } from './llm/types';
+
+/** Pending rows embedded per job run, so a large backlog is worked through gradually */
+const INDEX_BATCH_SIZE = 64;
+
+const MATCH_COUNT = 8;
+const MIN_SIMILARITY = 0.3;
+const EXCERPT_LENGTH = 160;
+
+interface CommunityMatch {
+  source_type: CommunitySourceType;
+  source_id: string;
+  itinerary_id: string | null;
+  content: string;
+  similarity: number;
+}
+
+/**
+ * Retrieved content ready to add to a prompt
+ */
+export interface CommunityContext {
+  /** Prompt section listing the retrieved content, or an empty string if nothing matched */
+  prompt: string;
+  sources: CommunitySources;
+}
+
+const EMPTY_SOURCES: CommunitySources = { tripCount: 0, storyCount: 0, items: [] };
+
+/**
+ * Embeds content whose text changed since it was last embedded
+ *
+ * @param supabaseAdmin - Client using the service role; `content_embeddings` has no user policies
+ * @param provider - Provider used to create the embeddings
+ * @returns The number of rows embedded
+ */
+export async function indexPendingContent(
+  supabaseAdmin: SupabaseClient,
+  provider: LLMProvider
+): Promise<number> {
+  const { data: pending, error } = await supabaseAdmin
+    .from('content_embeddings')
+    .select('id, content')
+    .is('embedding', null)
+    .order('updated_at', { ascending: true })
+    .limit(INDEX_BATCH_SIZE);
+
+  if (error) throw error;
+  if (!pending || pending.length === 0) return 0;
+
+  const embeddings = await provider.embed(pending.map(row => row.content));
+
+  await Promise.all(embeddings.map(async (embedding, index) => {
+    const { error: updateError } = await supabaseAdmin
+      .from('content_embeddings')
+      .update({ embedding: JSON.stringify(embedding) })
+      .eq('id', pending[index].id)
+      // Skip rows whose content changed again while embedding
+      .eq('content', pending[index].content);
+    if (updateError) throw updateError;
+  }));
+
+  return pending.length;
+}
+
+/**
+ * Finds other travelers' content relevant to a request
+ *
+ * @param supabase - Client acting as the requesting user, so their own trips are excluded
+ * @param provider - Provider used to embed the query
+ * @param query - Text describing what the user is looking for
+ * @param onUsage - Receives the embedding usage
+ */
+export async function retrieveCommunityContext(
+  supabase: SupabaseClient,
+  provider: LLMProvider,
+  query: string,
+  onUsage?: LLMUsageHandler
+): Promise<CommunityContext> {
+  const [queryEmbedding] = await provider.embed([query], onUsage);
+
+  const { data, error } = await supabase.rpc('match_community_content', {
+    query_embedding: JSON.stringify(queryEmbedding),
+    match_count: MATCH_COUNT,
+    min_similarity: MIN_SIMILARITY,
+  });
+
+  if (error) throw error;
+
+  const matches = (data || []) as CommunityMatch[];
+  if (matches.length === 0) return { prompt: '', sources: EMPTY_SOURCES };
+
+  const prompt = `Community context - content from other travelers' trips that matches this request:
+${matches.map((match, index) => `[${index + 1}] (${match.source_type}) ${match.content.replace(/\s+/g, ' ')}`).join('\n')}
+
+Ground your suggestions in this context where it fits: prefer the specific places, tips and tags it mentions over generic ideas. Ignore entries that do not fit the request.`;
+
+  const tripIds = new Set(matches.map(match => match.itinerary_id).filter(Boolean));
+
+  return {
+    prompt,
+    sources: {
+      tripCount: tripIds.size,
+      storyCount: matches.filter(match => match.source_type === 'story').length,
+      items: matches.map(match => ({
+        type: match.source_type,
+        excerpt: toExcerpt(match.content),
+        similarity: match.similarity,
+      })),
+    },
+  };
+}
+
+/**
+ * Retrieves context, treating any failure as no context so that generation still works without
+ * retrieval. Content added since the last indexing job run is not found yet.
+ */
+export async function getCommunityContext(
+  supabase: SupabaseClient,
+  provider: LLMProvider,
+  query: string,
+  onUsage?: LLMUsageHandler
+): Promise<CommunityContext> {
+  try {
+    return await retrieveCommunityContext(supabase, provider, query, onUsage);
+  } catch (error) {
+    console.error('Error retrieving community context:', error);
+    return { prompt: '', sources: EMPTY_SOURCES };
+  }
+}
+
+/**
+ * Describes where a suggestion's context came from, e.g. "Based on 3 trips by other travelers"
+ *
+ * @returns The description, or null if no community content was used
+ */
+export function describeCommunitySources(sources?: CommunitySources | null): string | null {
+  if (!sources) return null;
+
+  const parts: string[] = [];
+  if (sources.tripCount > 0) parts.push(`${sources.tripCount} ${sources.tripCount === 1 ? 'trip' : 'trips'}`);
+  if (sources.storyCount > 0) parts.push(`${sources.storyCount} ${sources.storyCount === 1 ? 'story' : 'stories'}`);
+  if (parts.length === 0) return null;
+
+  return `Based on ${parts.join(' and ')} by other travelers`;
+}
+
+function toExcerpt(content: string): string {
+  const text = content.replace(/\s+/g, ' ').trim();
+  return text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH - 1)}…` : text;
+}
@@ -0,0 +1,59 @@
+/**
+ * @file Mute durations for conversations and checks for whether a mute is still on
+ */
+
+import type { ConversationPreferences } from '@/api/messages';
+
+/**
+ * How long a conversation can be muted for
+ */
+export type MuteDuration = '1h' | '8h' | '1w' | 'always';
+
+/**
+ * A mute duration as shown to the user
+ */
+export interface MuteOption {
+  value: MuteDuration;
+  title: string;
+}
+
+export const MUTE_OPTIONS: MuteOption[] = [
+  { value: '1h', title: 'For 1 Hour' },
+  { value: '8h', title: 'For 8 Hours' },
+  { value: '1w', title: 'For 1 Week' },
+  { value: 'always', title: 'Until I Turn It Back On' },
+];
+
+const MUTE_DURATION_MS: Record<Exclude<MuteDuration, 'always'>, number> = {
+  '1h': 60 * 60 * 1000,
+  '8h': 8 * 60 * 60 * 1000,
+  '1w': 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Gets when a mute started now ends
+ *
+ * @param duration - How long to mute for
+ * @returns ISO timestamp the mute ends at, or null for a mute that lasts until it is turned off
+ */
+export function getMutedUntil(duration: MuteDuration): string | null {
+  if (duration === 'always') {
+    return null;
+  }
+
+  return new Date(Date.now() + MUTE_DURATION_MS[duration]).toISOString();
+}
+
+/**
+ * Checks whether a conversation is muted right now; timed mutes end on their own
+ *
+ * @param preferences - The current user's settings for the conversation
+ * @returns Whether the conversation is muted
+ */
+export function isConversationMuted(preferences: Pick<ConversationPreferences, 'isMuted' | 'mutedUntil'>): boolean {
+  if (!preferences.isMuted) {
+    return false;
+  }
+
+  return !preferences.mutedUntil || new Date(preferences.mutedUntil).getTime() > Date.now();
+}
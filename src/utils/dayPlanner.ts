@@ -0,0 +1,320 @@
+/**
+ * @file Travel-time aware planning for a single day of activities
+ * Estimates walking/transit legs between activities from their coordinates and finds the
+ * visiting order with the least travel distance that still respects each activity's time window.
+ * Pure TypeScript with no network or device access.
+ */
+
+import type { Activity } from '@/types/activities';
+import {
+  estimateTravel,
+  MINUTE_MS,
+  roundUpToStep,
+  type ScheduleAdjustment,
+  type TravelEstimate,
+} from './scheduleConflicts';
+
+/** Days with at most this many activities are solved exactly; larger days use a heuristic */
+const EXACT_SEARCH_LIMIT = 8;
+
+/** Activities without an explicit window may start this much earlier or later than they do now */
+const DEFAULT_FLEX_MINUTES = 90;
+
+/**
+ * Estimated travel between two consecutive activities
+ */
+export interface TravelLeg extends TravelEstimate {
+  fromActivityId: string;
+  toActivityId: string;
+  /** Minutes between the end of one activity and the start of the next, when both are scheduled */
+  gapMinutes: number | null;
+}
+
+/**
+ * Range of allowed start times for an activity, in milliseconds since the epoch
+ */
+export interface TimeWindow {
+  earliest: number;
+  latest: number;
+}
+
+export interface DayPlanOptions {
+  /** Earliest time the day can start; defaults to the first activity's start */
+  dayStart?: number;
+  /** Time by which every activity must have ended; defaults to the last activity's end */
+  dayEnd?: number;
+  /** Per-activity start windows; activities without one keep their start within `flexMinutes` */
+  windows?: Record<string, TimeWindow>;
+  /** How far activities without a window may move from their current start; defaults to 90 minutes */
+  flexMinutes?: number;
+}
+
+/**
+ * A planned order for the day with the resulting times and legs
+ */
+export interface DayPlan {
+  /** Activity ids in planned visiting order */
+  order: string[];
+  /** New times for the activities whose times change under the plan */
+  adjustments: ScheduleAdjustment[];
+  legs: TravelLeg[];
+  totalDistanceKm: number;
+  totalTravelMinutes: number;
+  /** False when no order satisfies every time window; the original order is returned unchanged */
+  feasible: boolean;
+}
+
+interface PlannedStop {
+  activity: Activity;
+  start: number;
+  end: number;
+}
+
+/**
+ * Gets the travel legs between consecutive scheduled activities, in chronological order.
+ * Pairs where either activity has no coordinates are skipped.
+ *
+ * @param activities - The activities of a single day
+ */
+export function getTravelLegs(activities: Activity[]): TravelLeg[] {
+  const scheduled = sortByStart(activities.filter(activity => activity.start_time));
+  const legs: TravelLeg[] = [];
+
+  scheduled.slice(1).forEach((activity, index) => {
+    const previous = scheduled[index];
+    const estimate = estimateTravel(previous, activity);
+    if (!estimate) return;
+
+    const previousEnd = getEnd(previous);
+    legs.push({
+      fromActivityId: previous.id,
+      toActivityId: activity.id,
+      ...estimate,
+      gapMinutes: Math.round((new Date(activity.start_time!).getTime() - previousEnd) / MINUTE_MS),
+    });
+  });
+
+  return legs;
+}
+
+/**
+ * Finds the visiting order for a day's activities that minimizes total travel distance while
+ * starting every activity inside its time window and finishing by the end of the day.
+ * Durations are preserved and each activity starts as soon as it can be reached.
+ *
+ * @param activities - The scheduled activities of a single day, e.g. from `groupActivitiesByDay`
+ * @param options - Day bounds and per-activity time windows
+ * @returns The plan, including the time adjustments needed to apply it
+ */
+export function planDay(activities: Activity[], options: DayPlanOptions = {}): DayPlan {
+  const scheduled = sortByStart(activities.filter(activity => activity.start_time));
+  if (scheduled.length === 0) {
+    return { order: [], adjustments: [], legs: [], totalDistanceKm: 0, totalTravelMinutes: 0, feasible: true };
+  }
+
+  const dayStart = options.dayStart ?? new Date(scheduled[0].start_time!).getTime();
+  const dayEnd = options.dayEnd ?? Math.max(...scheduled.map(getEnd));
+  const flexMs = (options.flexMinutes ?? DEFAULT_FLEX_MINUTES) * MINUTE_MS;
+  // Without a window, an activity stays near the time it was booked for, e.g. a dinner reservation
+  const windowFor = (activity: Activity): TimeWindow => {
+    const explicit = options.windows?.[activity.id];
+    if (explicit) return explicit;
+    const start = new Date(activity.start_time!).getTime();
+    return {
+      earliest: Math.max(dayStart, start - flexMs),
+      latest: Math.min(dayEnd - getDuration(activity), start + flexMs),
+    };
+  };
+
+  const simulate = (order: Activity[]) => simulateOrder(order, dayStart, dayEnd, windowFor);
+
+  const best = scheduled.length <= EXACT_SEARCH_LIMIT
+    ? searchExact(scheduled, simulate)
+    : searchHeuristic(scheduled, simulate);
+
+  if (!best) {
+    return { ...describePlan(scheduled, toStops(scheduled)), adjustments: [], feasible: false };
+  }
+
+  return { ...describePlan(best.map(stop => stop.activity), best), feasible: true };
+}
+
+// --- SEARCH ---
+
+type Simulate = (order: Activity[]) => PlannedStop[] | null;
+
+/**
+ * Tries every order with branch-and-bound on distance; suitable for small days
+ */
+function searchExact(activities: Activity[], simulate: Simulate): PlannedStop[] | null {
+  let bestStops: PlannedStop[] | null = null;
+  let bestDistance = Infinity;
+  const used = new Set<number>();
+  const order: Activity[] = [];
+
+  const visit = (distance: number) => {
+    if (distance >= bestDistance) return;
+    if (order.length === activities.length) {
+      const stops = simulate(order);
+      if (stops) {
+        bestStops = stops;
+        bestDistance = distance;
+      }
+      return;
+    }
+    // Prune partial orders that already break a time window
+    if (order.length > 1 && !simulate(order)) return;
+
+    activities.forEach((activity, index) => {
+      if (used.has(index)) return;
+      const previous = order[order.length - 1];
+      used.add(index);
+      order.push(activity);
+      visit(distance + (previous ? legDistance(previous, activity) : 0));
+      order.pop();
+      used.delete(index);
+    });
+  };
+
+  visit(0);
+  return bestStops;
+}
+
+/**
+ * Builds an order by feasible nearest-neighbour and improves it with 2-opt; suitable for busy days
+ */
+function searchHeuristic(activities: Activity[], simulate: Simulate): PlannedStop[] | null {
+  // Nearest neighbour, starting from the chronologically first activity
+  const order: Activity[] = [activities[0]];
+  const remaining = activities.slice(1);
+  while (remaining.length > 0) {
+    const previous = order[order.length - 1];
+    const candidates = remaining
+      .map((activity, index) => ({ activity, index, distance: legDistance(previous, activity) }))
+      .sort((a, b) => a.distance - b.distance);
+    const next = candidates.find(candidate => simulate([...order, candidate.activity])) ?? candidates[0];
+    order.push(next.activity);
+    remaining.splice(next.index, 1);
+  }
+
+  let current = order;
+  let stops = simulate(current);
+  if (!stops) {
+    // Fall back to the chronological order, which may already be feasible
+    current = activities;
+    stops = simulate(current);
+    if (!stops) return null;
+  }
+
+  // 2-opt: reverse segments while doing so shortens the route and keeps it feasible
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 1; i < current.length - 1; i++) {
+      for (let j = i + 1; j < current.length; j++) {
+        const candidate = [...current.slice(0, i), ...current.slice(i, j + 1).reverse(), ...current.slice(j + 1)];
+        if (routeDistance(candidate) >= routeDistance(current) - 1e-9) continue;
+        const candidateStops = simulate(candidate);
+        if (!candidateStops) continue;
+        current = candidate;
+        stops = candidateStops;
+        improved = true;
+      }
+    }
+  }
+
+  return stops;
+}
+
+/**
+ * Lays out an order in time, starting each activity as soon as it is reachable and inside its window
+ *
+ * @returns The stops, or null if a window or the end of the day cannot be met
+ */
+function simulateOrder(
+  order: Activity[],
+  dayStart: number,
+  dayEnd: number,
+  windowFor: (activity: Activity) => TimeWindow
+): PlannedStop[] | null {
+  const stops: PlannedStop[] = [];
+  let previous: PlannedStop | null = null;
+
+  for (const activity of order) {
+    const window = windowFor(activity);
+    const travelMinutes = previous ? estimateTravel(previous.activity, activity)?.minutes ?? 0 : 0;
+    const arrival = previous ? roundUpToStep(previous.end + travelMinutes * MINUTE_MS) : dayStart;
+    const start = Math.max(arrival, window.earliest);
+    const end = start + getDuration(activity);
+
+    if (start > window.latest || end > dayEnd) return null;
+
+    const stop: PlannedStop = { activity, start, end };
+    stops.push(stop);
+    previous = stop;
+  }
+
+  return stops;
+}
+
+// --- HELPERS ---
+
+function describePlan(order: Activity[], stops: PlannedStop[]): Omit<DayPlan, 'feasible'> {
+  const legs = order.slice(1).flatMap((activity, index) => {
+    const estimate = estimateTravel(order[index], activity);
+    if (!estimate) return [];
+    return [{
+      fromActivityId: order[index].id,
+      toActivityId: activity.id,
+      ...estimate,
+      gapMinutes: Math.round((stops[index + 1].start - stops[index].end) / MINUTE_MS),
+    }];
+  });
+
+  const adjustments = stops
+    .filter(stop => stop.start !== new Date(stop.activity.start_time!).getTime())
+    .map(stop => ({
+      activityId: stop.activity.id,
+      start_time: new Date(stop.start).toISOString(),
+      end_time: stop.activity.end_time ? new Date(stop.end).toISOString() : null,
+    }));
+
+  return {
+    order: order.map(activity => activity.id),
+    adjustments,
+    legs,
+    totalDistanceKm: legs.reduce((sum, leg) => sum + leg.distanceKm, 0),
+    totalTravelMinutes: legs.reduce((sum, leg) => sum + leg.minutes, 0),
+  };
+}
+
+function toStops(activities: Activity[]): PlannedStop[] {
+  return activities.map(activity => ({
+    activity,
+    start: new Date(activity.start_time!).getTime(),
+    end: getEnd(activity),
+  }));
+}
+
+function sortByStart(activities: Activity[]): Activity[] {
+  return [...activities].sort(
+    (a, b) => new Date(a.start_time!).getTime() - new Date(b.start_time!).getTime()
+  );
+}
+
+function getEnd(activity: Activity): number {
+  const start = new Date(activity.start_time!).getTime();
+  return activity.end_time ? Math.max(start, new Date(activity.end_time).getTime()) : start;
+}
+
+function getDuration(activity: Activity): number {
+  return getEnd(activity) - new Date(activity.start_time!).getTime();
+}
+
+function legDistance(from: Activity, to: Activity): number {
+  return estimateTravel(from, to)?.distanceKm ?? 0;
+}
+
+function routeDistance(order: Activity[]): number {
+  return order.slice(1).reduce((sum, activity, index) => sum + legDistance(order[index], activity), 0);
+}
@@ -0,0 +1,883 @@
+/**
+ * @file iCalendar (RFC 5545) serialization and parsing for itineraries
+ * Exports an itinerary and its activities as a VCALENDAR, and parses .ics files
+ * from calendar apps back into itinerary and activity data
+ */
+
+import type { Activity, CreateActivityData } from '@/types/activities';
+import type { CreateItineraryData, Itinerary } from '@/types/itineraries';
+
+const PRODUCT_ID = '-//SnapConnect//Itineraries//EN';
+const UID_DOMAIN = 'snapconnect';
+const MAX_LINE_OCTETS = 75;
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Error thrown when an .ics file cannot be parsed
+ */
+export class ICalParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ICalParseError';
+  }
+}
+
+/**
+ * Activity data parsed from a calendar event or to-do.
+ * Includes the coordinates and timezone from the file, which `createActivity` does not accept directly.
+ */
+export interface ParsedCalendarActivity extends Omit<CreateActivityData, 'itinerary_id'> {
+  gps_coords?: [number, number] | null;
+  timezone?: string | null;
+}
+
+/**
+ * Result of parsing an .ics file
+ */
+export interface ParsedCalendar {
+  itinerary: CreateItineraryData;
+  activities: ParsedCalendarActivity[];
+}
+
+// --- SHARED HELPERS ---
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Gets a cached formatter that renders instants as wall-clock fields in a timezone
+ */
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Checks whether a string is an IANA timezone name known to the runtime
+ */
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Gets a timezone's UTC offset in milliseconds at an instant.
+ * date-fns-tz's getTimezoneOffset reads the date's device-local fields as wall-clock time,
+ * so it cannot answer this for an absolute instant on devices outside UTC.
+ */
+function getTimezoneOffset(timeZone: string, date: Date): number {
+  const fields: Record<string, number> = {};
+  getFormatter(timeZone).formatToParts(date).forEach(part => {
+    if (part.type !== 'literal') fields[part.type] = Number(part.value);
+  });
+  const wallClock = Date.UTC(fields.year, fields.month - 1, fields.day, fields.hour % 24, fields.minute, fields.second);
+  return wallClock - (date.getTime() - date.getUTCMilliseconds());
+}
+
+/**
+ * Pads a number with leading zeros
+ */
+function pad(value: number, length = 2): string {
+  return String(Math.abs(value)).padStart(length, '0');
+}
+
+/**
+ * Formats the UTC fields of a date as an iCalendar date-time (without suffix)
+ */
+function formatDateTimeFields(date: Date): string {
+  return (
+    `${pad(date.getUTCFullYear(), 4)}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}`
+  );
+}
+
+/**
+ * Formats an offset in milliseconds as ±HHMM
+ */
+function formatOffset(offsetMs: number): string {
+  const totalMinutes = Math.round(offsetMs / MINUTE_MS);
+  const sign = totalMinutes < 0 ? '-' : '+';
+  return `${sign}${pad(Math.floor(Math.abs(totalMinutes) / 60))}${pad(Math.abs(totalMinutes) % 60)}`;
+}
+
+// --- EXPORT ---
+
+/**
+ * Escapes a TEXT value
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Folds a content line so that no line exceeds 75 octets, without splitting multi-byte characters
+ */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = new TextEncoder().encode(char).length;
+    // Continuation lines start with a space, which counts toward their length
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+/**
+ * Formats a date as a UTC date-time value
+ */
+function formatUtcDateTime(date: Date): string {
+  return `${formatDateTimeFields(date)}Z`;
+}
+
+/**
+ * Formats a date as the wall-clock time in a timezone
+ */
+function formatLocalDateTime(date: Date, timeZone: string): string {
+  return formatDateTimeFields(new Date(date.getTime() + getTimezoneOffset(timeZone, date)));
+}
+
+/**
+ * Builds a date-time property, using the activity's timezone when it has a valid one
+ */
+function dateTimeProperty(name: string, value: string, timeZone: string | null): string {
+  const date = new Date(value);
+  if (timeZone) {
+    return `${name};TZID=${timeZone}:${formatLocalDateTime(date, timeZone)}`;
+  }
+  return `${name}:${formatUtcDateTime(date)}`;
+}
+
+/**
+ * Finds the first instant in (start, end] at which the timezone's offset differs from its offset at start
+ */
+function findTransition(timeZone: string, start: number, end: number): number {
+  const startOffset = getTimezoneOffset(timeZone, new Date(start));
+  let low = start;
+  let high = end;
+  while (high - low > MINUTE_MS) {
+    const mid = low + Math.floor((high - low) / 2 / MINUTE_MS) * MINUTE_MS;
+    if (getTimezoneOffset(timeZone, new Date(mid)) === startOffset) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return high;
+}
+
+/**
+ * Builds a VTIMEZONE block with one observance per offset transition between two years
+ */
+function buildTimezone(timeZone: string, fromYear: number, toYear: number): string[] {
+  const rangeStart = Date.UTC(fromYear, 0, 1);
+  const rangeEnd = Date.UTC(toYear + 1, 0, 1);
+  const initialOffset = getTimezoneOffset(timeZone, new Date(rangeStart));
+
+  // Collect every transition in the range
+  const transitions: { at: number; from: number; to: number }[] = [];
+  let previousOffset = initialOffset;
+  for (let day = rangeStart; day < rangeEnd; day += DAY_MS) {
+    const nextDay = day + DAY_MS;
+    const offset = getTimezoneOffset(timeZone, new Date(nextDay));
+    if (offset !== previousOffset) {
+      transitions.push({ at: findTransition(timeZone, day, nextDay), from: previousOffset, to: offset });
+      previousOffset = offset;
+    }
+  }
+
+  const offsets = new Set([initialOffset, ...transitions.map(t => t.to)]);
+  const standardOffset = Math.min(...offsets);
+  const observanceType = (offset: number) =>
+    offsets.size > 1 && offset > standardOffset ? 'DAYLIGHT' : 'STANDARD';
+
+  const lines = [
+    'BEGIN:VTIMEZONE',
+    `TZID:${timeZone}`,
+    `BEGIN:${observanceType(initialOffset)}`,
+    'DTSTART:19700101T000000',
+    `TZOFFSETFROM:${formatOffset(initialOffset)}`,
+    `TZOFFSETTO:${formatOffset(initialOffset)}`,
+    `END:${observanceType(initialOffset)}`,
+  ];
+
+  transitions.forEach(({ at, from, to }) => {
+    const type = observanceType(to);
+    lines.push(
+      `BEGIN:${type}`,
+      // Observance onsets are expressed in the local time in effect before the transition
+      `DTSTART:${formatDateTimeFields(new Date(at + from))}`,
+      `TZOFFSETFROM:${formatOffset(from)}`,
+      `TZOFFSETTO:${formatOffset(to)}`,
+      `END:${type}`
+    );
+  });
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+/**
+ * Builds the properties shared by exported events and to-dos
+ */
+function activityDetailProperties(activity: Activity): string[] {
+  const lines: string[] = [];
+  if (activity.description) lines.push(`DESCRIPTION:${escapeText(activity.description)}`);
+  if (activity.location) lines.push(`LOCATION:${escapeText(activity.location)}`);
+  if (activity.gps_coords && activity.gps_coords.length === 2) {
+    lines.push(`GEO:${activity.gps_coords[0]};${activity.gps_coords[1]}`);
+  }
+  if (activity.tags && activity.tags.length > 0) {
+    lines.push(`CATEGORIES:${activity.tags.map(escapeText).join(',')}`);
+  }
+  if (activity.image_url) lines.push(`IMAGE;VALUE=URI:${activity.image_url}`);
+  return lines;
+}
+
+/**
+ * Exports an itinerary and its activities as an iCalendar document.
+ * Scheduled activities become VEVENTs in their own timezone (with matching VTIMEZONE blocks);
+ * unscheduled activities become VTODOs so they survive a round trip.
+ *
+ * @param itinerary - The itinerary to export
+ * @param activities - The itinerary's activities
+ * @param now - Timestamp used for DTSTAMP, injectable for deterministic output
+ * @returns The .ics file contents
+ */
+export function exportItineraryToICS(itinerary: Itinerary, activities: Activity[], now = new Date()): string {
+  const dtstamp = `DTSTAMP:${formatUtcDateTime(now)}`;
+  const scheduled = activities
+    .filter(activity => activity.start_time)
+    .sort((a, b) => new Date(a.start_time!).getTime() - new Date(b.start_time!).getTime());
+  const unscheduled = activities.filter(activity => !activity.start_time);
+
+  const timeZoneOf = (activity: Activity) =>
+    activity.timezone && isValidTimeZone(activity.timezone) ? activity.timezone : null;
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `NAME:${escapeText(itinerary.title)}`,
+    `X-WR-CALNAME:${escapeText(itinerary.title)}`,
+  ];
+  if (itinerary.description) {
+    lines.push(`DESCRIPTION:${escapeText(itinerary.description)}`);
+    lines.push(`X-WR-CALDESC:${escapeText(itinerary.description)}`);
+  }
+  if (itinerary.start_time) lines.push(`X-SNAPCONNECT-START:${formatUtcDateTime(new Date(itinerary.start_time))}`);
+  if (itinerary.end_time) lines.push(`X-SNAPCONNECT-END:${formatUtcDateTime(new Date(itinerary.end_time))}`);
+  if (itinerary.cover_image_url) lines.push(`IMAGE;VALUE=URI:${itinerary.cover_image_url}`);
+
+  // One VTIMEZONE per timezone, covering the years of the event times and to-do due dates using it
+  const yearsByTimeZone = new Map<string, { from: number; to: number }>();
+  activities.forEach(activity => {
+    const timeZone = timeZoneOf(activity);
+    if (!timeZone) return;
+    const years = [activity.start_time, activity.end_time]
+      .filter((value): value is string => !!value)
+      .map(value => new Date(value).getUTCFullYear());
+    if (years.length === 0) return;
+    const range = yearsByTimeZone.get(timeZone) || { from: Math.min(...years), to: Math.max(...years) };
+    yearsByTimeZone.set(timeZone, {
+      from: Math.min(range.from, ...years),
+      to: Math.max(range.to, ...years),
+    });
+  });
+  yearsByTimeZone.forEach(({ from, to }, timeZone) => {
+    lines.push(...buildTimezone(timeZone, from, to));
+  });
+
+  scheduled.forEach(activity => {
+    const timeZone = timeZoneOf(activity);
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${activity.id}@${UID_DOMAIN}`,
+      dtstamp,
+      dateTimeProperty('DTSTART', activity.start_time!, timeZone)
+    );
+    if (activity.end_time) lines.push(dateTimeProperty('DTEND', activity.end_time, timeZone));
+    lines.push(`SUMMARY:${escapeText(activity.title)}`, ...activityDetailProperties(activity), 'END:VEVENT');
+  });
+
+  unscheduled.forEach(activity => {
+    lines.push('BEGIN:VTODO', `UID:${activity.id}@${UID_DOMAIN}`, dtstamp);
+    if (activity.end_time) lines.push(dateTimeProperty('DUE', activity.end_time, timeZoneOf(activity)));
+    lines.push(`SUMMARY:${escapeText(activity.title)}`, ...activityDetailProperties(activity), 'END:VTODO');
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// --- IMPORT ---
+
+/**
+ * A parsed content line
+ */
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/**
+ * A parsed component (VCALENDAR, VEVENT, VTIMEZONE, ...)
+ */
+interface Component {
+  name: string;
+  properties: ContentLine[];
+  components: Component[];
+}
+
+/**
+ * Wall-clock date and time fields, not tied to any timezone
+ */
+interface LocalDateTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/**
+ * A parsed date or date-time property value
+ */
+interface ParsedDateTime {
+  local: LocalDateTime;
+  isDate: boolean;
+  isUtc: boolean;
+  tzid: string | null;
+}
+
+/**
+ * A STANDARD or DAYLIGHT observance of a VTIMEZONE
+ */
+interface Observance {
+  start: LocalDateTime;
+  offsetFrom: number;
+  offsetTo: number;
+  rrule: Record<string, string> | null;
+}
+
+/**
+ * Unfolds continuation lines
+ */
+function unfoldLines(text: string): string[] {
+  const lines: string[] = [];
+  text.split(/\r\n|\n|\r/).forEach(line => {
+    if ((line.startsWith(' ') || line.startsWith('\t')) && lines.length > 0) {
+      lines[lines.length - 1] += line.slice(1);
+    } else if (line.length > 0) {
+      lines.push(line);
+    }
+  });
+  return lines;
+}
+
+/**
+ * Parses a content line into its name, parameters and value, honoring quoted parameter values
+ */
+function parseContentLine(line: string): ContentLine {
+  let index = 0;
+  let inQuotes = false;
+  const separators: number[] = [];
+  let valueStart = -1;
+
+  for (; index < line.length; index++) {
+    const char = line[index];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && char === ';') {
+      separators.push(index);
+    } else if (!inQuotes && char === ':') {
+      valueStart = index;
+      break;
+    }
+  }
+
+  if (valueStart === -1) {
+    throw new ICalParseError(`Malformed line: ${line}`);
+  }
+
+  const nameEnd = separators.length > 0 ? separators[0] : valueStart;
+  const params: Record<string, string> = {};
+  separators.forEach((separator, i) => {
+    const end = i + 1 < separators.length ? separators[i + 1] : valueStart;
+    const param = line.slice(separator + 1, end);
+    const equals = param.indexOf('=');
+    if (equals > 0) {
+      params[param.slice(0, equals).toUpperCase()] = param.slice(equals + 1).replace(/^"|"$/g, '');
+    }
+  });
+
+  return {
+    name: line.slice(0, nameEnd).toUpperCase(),
+    params,
+    value: line.slice(valueStart + 1),
+  };
+}
+
+/**
+ * Parses unfolded lines into a component tree
+ */
+function parseComponents(lines: string[]): Component[] {
+  const root: Component = { name: 'ROOT', properties: [], components: [] };
+  const stack: Component[] = [root];
+
+  lines.forEach(line => {
+    const contentLine = parseContentLine(line);
+    const current = stack[stack.length - 1];
+
+    if (contentLine.name === 'BEGIN') {
+      const component: Component = { name: contentLine.value.toUpperCase(), properties: [], components: [] };
+      current.components.push(component);
+      stack.push(component);
+    } else if (contentLine.name === 'END') {
+      if (stack.length === 1 || current.name !== contentLine.value.toUpperCase()) {
+        throw new ICalParseError(`Unexpected END:${contentLine.value}`);
+      }
+      stack.pop();
+    } else {
+      current.properties.push(contentLine);
+    }
+  });
+
+  if (stack.length !== 1) {
+    throw new ICalParseError(`Missing END:${stack[stack.length - 1].name}`);
+  }
+
+  return root.components;
+}
+
+/**
+ * Gets the first property with a name
+ */
+function getProperty(component: Component, name: string): ContentLine | undefined {
+  return component.properties.find(property => property.name === name);
+}
+
+/**
+ * Splits a value on a delimiter that is not escaped with a backslash
+ */
+function splitUnescaped(value: string, delimiter: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '\\' && i + 1 < value.length) {
+      current += value[i] + value[i + 1];
+      i++;
+    } else if (value[i] === delimiter) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += value[i];
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+/**
+ * Unescapes a TEXT value
+ */
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+/**
+ * Gets a TEXT property's unescaped value
+ */
+function getText(component: Component, name: string): string | undefined {
+  const property = getProperty(component, name);
+  const text = property ? unescapeText(property.value).trim() : '';
+  return text.length > 0 ? text : undefined;
+}
+
+/**
+ * Parses a ±HHMM[SS] offset into milliseconds
+ */
+function parseOffset(value: string): number {
+  const match = value.trim().match(/^([+-])(\d{2})(\d{2})(\d{2})?$/);
+  if (!match) {
+    throw new ICalParseError(`Invalid UTC offset: ${value}`);
+  }
+  const [, sign, hours, minutes, seconds] = match;
+  const ms = ((Number(hours) * 60 + Number(minutes)) * 60 + Number(seconds || 0)) * 1000;
+  return sign === '-' ? -ms : ms;
+}
+
+/**
+ * Parses a DATE or DATE-TIME value
+ */
+function parseDateTimeValue(value: string): { local: LocalDateTime; isDate: boolean; isUtc: boolean } {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) {
+    throw new ICalParseError(`Invalid date: ${value}`);
+  }
+  const [, year, month, day, hour, minute, second, utc] = match;
+  return {
+    local: {
+      year: Number(year),
+      month: Number(month),
+      day: Number(day),
+      hour: Number(hour || 0),
+      minute: Number(minute || 0),
+      second: Number(second || 0),
+    },
+    isDate: hour === undefined,
+    isUtc: utc === 'Z',
+  };
+}
+
+/**
+ * Parses a date or date-time property
+ */
+function parseDateTimeProperty(property: ContentLine): ParsedDateTime {
+  const parsed = parseDateTimeValue(property.value);
+  return {
+    ...parsed,
+    isDate: parsed.isDate || property.params.VALUE === 'DATE',
+    // Some producers prefix global TZIDs with a slash
+    tzid: property.params.TZID ? property.params.TZID.replace(/^\//, '') : null,
+  };
+}
+
+/**
+ * Converts wall-clock fields to milliseconds as if they were UTC
+ */
+function localToEpoch(local: LocalDateTime): number {
+  return Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second);
+}
+
+/**
+ * Converts wall-clock time in an IANA timezone to a UTC instant
+ */
+function zonedToUtc(local: LocalDateTime, timeZone: string): Date {
+  const localMs = localToEpoch(local);
+  // Refine once so times near a transition use the offset in effect at the resulting instant
+  const guess = localMs - getTimezoneOffset(timeZone, new Date(localMs));
+  return new Date(localMs - getTimezoneOffset(timeZone, new Date(guess)));
+}
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/**
+ * Finds the day of month for a BYDAY rule such as "2SU" or "-1SU"
+ */
+function resolveByDay(year: number, month: number, byDay: string): number | null {
+  const match = byDay.match(/^([+-]?\d+)?([A-Z]{2})$/);
+  if (!match) return null;
+  const ordinal = Number(match[1] || 1);
+  const weekday = WEEKDAYS.indexOf(match[2]);
+  if (weekday === -1) return null;
+
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const matchingDays: number[] = [];
+  for (let day = 1; day <= daysInMonth; day++) {
+    if (new Date(Date.UTC(year, month - 1, day)).getUTCDay() === weekday) {
+      matchingDays.push(day);
+    }
+  }
+  const day = ordinal > 0 ? matchingDays[ordinal - 1] : matchingDays[matchingDays.length + ordinal];
+  return day ?? null;
+}
+
+/**
+ * Lists an observance's onsets (as local epoch ms) up to and including a given year.
+ * Supports the yearly BYMONTH/BYDAY rules used by calendar apps for daylight saving time.
+ */
+function observanceOnsets(observance: Observance, untilYear: number): number[] {
+  const onsets = [localToEpoch(observance.start)];
+  const rrule = observance.rrule;
+  if (!rrule || rrule.FREQ !== 'YEARLY' || !rrule.BYMONTH) {
+    return onsets;
+  }
+
+  const until = rrule.UNTIL ? localToEpoch(parseDateTimeValue(rrule.UNTIL).local) : Infinity;
+  const month = Number(rrule.BYMONTH);
+  for (let year = observance.start.year + 1; year <= untilYear; year++) {
+    const day = rrule.BYDAY ? resolveByDay(year, month, rrule.BYDAY) : observance.start.day;
+    if (day === null) continue;
+    const onset = localToEpoch({ ...observance.start, year, month, day });
+    if (onset <= until) onsets.push(onset);
+  }
+  return onsets;
+}
+
+/**
+ * Converts wall-clock time in a VTIMEZONE-defined timezone to a UTC instant
+ */
+function vtimezoneToUtc(local: LocalDateTime, observances: Observance[]): Date {
+  const localMs = localToEpoch(local);
+  let latestOnset = -Infinity;
+  let latestObservance: Observance | null = null;
+
+  for (const observance of observances) {
+    for (const onset of observanceOnsets(observance, local.year)) {
+      if (onset <= localMs && onset > latestOnset) {
+        latestOnset = onset;
+        latestObservance = observance;
+      }
+    }
+  }
+
+  // Before the first onset, fall back to the earliest observance's prior offset
+  const earliest = [...observances].sort((a, b) => localToEpoch(a.start) - localToEpoch(b.start))[0];
+  const offset = latestObservance ? latestObservance.offsetTo : earliest.offsetFrom;
+  return new Date(localMs - offset);
+}
+
+/**
+ * Parses the VTIMEZONE components of a calendar
+ */
+function parseTimezones(calendar: Component): Map<string, Observance[]> {
+  const timezones = new Map<string, Observance[]>();
+
+  calendar.components
+    .filter(component => component.name === 'VTIMEZONE')
+    .forEach(vtimezone => {
+      const tzid = getProperty(vtimezone, 'TZID')?.value.replace(/^\//, '');
+      if (!tzid) return;
+
+      const observances = vtimezone.components
+        .filter(component => component.name === 'STANDARD' || component.name === 'DAYLIGHT')
+        .flatMap(component => {
+          const dtstart = getProperty(component, 'DTSTART');
+          const offsetFrom = getProperty(component, 'TZOFFSETFROM');
+          const offsetTo = getProperty(component, 'TZOFFSETTO');
+          if (!dtstart || !offsetFrom || !offsetTo) return [];
+
+          const rruleProperty = getProperty(component, 'RRULE');
+          const rrule = rruleProperty
+            ? Object.fromEntries(
+                rruleProperty.value.split(';').map(part => {
+                  const [key, value] = part.split('=');
+                  return [key.toUpperCase(), value];
+                })
+              )
+            : null;
+
+          return [{
+            start: parseDateTimeValue(dtstart.value).local,
+            offsetFrom: parseOffset(offsetFrom.value),
+            offsetTo: parseOffset(offsetTo.value),
+            rrule,
+          }];
+        });
+
+      timezones.set(tzid, observances);
+    });
+
+  return timezones;
+}
+
+/**
+ * Resolves a parsed date-time to a UTC instant.
+ * UTC values are used as-is; TZID values use the runtime's timezone data when the TZID is an IANA name,
+ * otherwise the calendar's VTIMEZONE definition; floating values use the calendar's default timezone
+ * or, failing that, the device's local time.
+ */
+function resolveDateTime(
+  dateTime: ParsedDateTime,
+  timezones: Map<string, Observance[]>,
+  defaultTimeZone: string | null
+): Date {
+  const { local } = dateTime;
+
+  if (dateTime.isUtc) {
+    return new Date(localToEpoch(local));
+  }
+
+  if (dateTime.tzid) {
+    if (isValidTimeZone(dateTime.tzid)) {
+      return zonedToUtc(local, dateTime.tzid);
+    }
+    const observances = timezones.get(dateTime.tzid);
+    if (observances && observances.length > 0) {
+      return vtimezoneToUtc(local, observances);
+    }
+  }
+
+  if (defaultTimeZone && !dateTime.isDate) {
+    return zonedToUtc(local, defaultTimeZone);
+  }
+
+  return new Date(local.year, local.month - 1, local.day, local.hour, local.minute, local.second);
+}
+
+/**
+ * Parses an ISO 8601 duration such as "PT1H30M" or "P1D" into milliseconds
+ */
+function parseDuration(value: string): number | null {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const ms =
+    (Number(weeks || 0) * 7 + Number(days || 0)) * DAY_MS +
+    ((Number(hours || 0) * 60 + Number(minutes || 0)) * 60 + Number(seconds || 0)) * 1000;
+  return sign === '-' ? -ms : ms;
+}
+
+/**
+ * Converts a VEVENT or VTODO into activity data
+ */
+function parseActivity(
+  component: Component,
+  timezones: Map<string, Observance[]>,
+  defaultTimeZone: string | null
+): ParsedCalendarActivity {
+  const activity: ParsedCalendarActivity = {
+    title: (getText(component, 'SUMMARY') || 'Untitled activity').slice(0, 255),
+  };
+
+  const description = getText(component, 'DESCRIPTION');
+  if (description) activity.description = description;
+
+  const location = getText(component, 'LOCATION');
+  if (location) activity.location = location;
+
+  const geo = getProperty(component, 'GEO');
+  if (geo) {
+    const [lat, lng] = geo.value.split(/[;,]/).map(Number);
+    if (Number.isFinite(lat) && Number.isFinite(lng)) {
+      activity.gps_coords = [lat, lng];
+    }
+  }
+
+  const tags = component.properties
+    .filter(property => property.name === 'CATEGORIES')
+    .flatMap(property => splitUnescaped(property.value, ','))
+    .map(tag => unescapeText(tag).trim())
+    .filter(tag => tag.length > 0);
+  if (tags.length > 0) activity.tags = Array.from(new Set(tags));
+
+  const image = getProperty(component, 'IMAGE');
+  if (image && /^https?:\/\//.test(image.value)) activity.image_url = image.value;
+
+  const startProperty = getProperty(component, 'DTSTART');
+  const endProperty = getProperty(component, component.name === 'VTODO' ? 'DUE' : 'DTEND');
+  const start = startProperty ? parseDateTimeProperty(startProperty) : null;
+  const end = endProperty ? parseDateTimeProperty(endProperty) : null;
+
+  const tzid = start?.tzid || end?.tzid || null;
+  if (tzid && isValidTimeZone(tzid)) {
+    activity.timezone = tzid;
+  } else if (defaultTimeZone && (start || end) && !start?.isUtc) {
+    activity.timezone = defaultTimeZone;
+  }
+
+  const startDate = start ? resolveDateTime(start, timezones, defaultTimeZone) : null;
+  let endDate = end ? resolveDateTime(end, timezones, defaultTimeZone) : null;
+
+  if (startDate && !endDate) {
+    const duration = getProperty(component, 'DURATION');
+    const durationMs = duration ? parseDuration(duration.value) : null;
+    if (durationMs) {
+      endDate = new Date(startDate.getTime() + durationMs);
+    } else if (start?.isDate) {
+      // All-day events without an end last one day
+      endDate = new Date(startDate.getTime() + DAY_MS);
+    }
+  }
+
+  if (startDate) activity.start_time = startDate.toISOString();
+  // Zero-length events have no meaningful end, and activities require end after start
+  if (endDate && (!startDate || endDate > startDate)) activity.end_time = endDate.toISOString();
+
+  return activity;
+}
+
+/**
+ * Parses an iCalendar document into itinerary and activity data.
+ * VEVENTs become scheduled activities and VTODOs become unscheduled ones.
+ * The itinerary's dates come from the file when it was exported by this app,
+ * otherwise from the earliest start and latest end of its activities.
+ *
+ * @param text - The .ics file contents
+ * @returns The parsed itinerary and activities
+ * @throws ICalParseError if the file is not a valid calendar
+ */
+export function parseICS(text: string): ParsedCalendar {
+  const components = parseComponents(unfoldLines(text));
+  const calendar = components.find(component => component.name === 'VCALENDAR');
+  if (!calendar) {
+    throw new ICalParseError('No VCALENDAR found in file');
+  }
+
+  const timezones = parseTimezones(calendar);
+  const calendarTimeZone = getProperty(calendar, 'X-WR-TIMEZONE')?.value.trim() || null;
+  const defaultTimeZone = calendarTimeZone && isValidTimeZone(calendarTimeZone) ? calendarTimeZone : null;
+
+  const activities = calendar.components
+    .filter(component => component.name === 'VEVENT' || component.name === 'VTODO')
+    .map(component => parseActivity(component, timezones, defaultTimeZone));
+
+  const itinerary: CreateItineraryData = {
+    title: (getText(calendar, 'NAME') || getText(calendar, 'X-WR-CALNAME') || 'Imported itinerary').slice(0, 255),
+  };
+
+  const description = getText(calendar, 'DESCRIPTION') || getText(calendar, 'X-WR-CALDESC');
+  if (description) itinerary.description = description;
+
+  const image = getProperty(calendar, 'IMAGE');
+  if (image && /^https?:\/\//.test(image.value)) itinerary.cover_image_url = image.value;
+
+  const exportedStart = getProperty(calendar, 'X-SNAPCONNECT-START');
+  const exportedEnd = getProperty(calendar, 'X-SNAPCONNECT-END');
+  if (exportedStart || exportedEnd) {
+    if (exportedStart) itinerary.start_time = new Date(localToEpoch(parseDateTimeValue(exportedStart.value).local)).toISOString();
+    if (exportedEnd) itinerary.end_time = new Date(localToEpoch(parseDateTimeValue(exportedEnd.value).local)).toISOString();
+  } else {
+    const starts = activities.filter(a => a.start_time).map(a => new Date(a.start_time!).getTime());
+    const ends = activities
+      .map(a => a.end_time || a.start_time)
+      .filter((value): value is string => !!value)
+      .map(value => new Date(value).getTime());
+    if (starts.length > 0) itinerary.start_time = new Date(Math.min(...starts)).toISOString();
+    if (ends.length > 0) {
+      const latestEnd = Math.max(...ends);
+      if (!itinerary.start_time || latestEnd > new Date(itinerary.start_time).getTime()) {
+        itinerary.end_time = new Date(latestEnd).toISOString();
+      }
+    }
+  }
+
+  return { itinerary, activities };
+}
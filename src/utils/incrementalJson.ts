@@ -0,0 +1,158 @@
+/**
+ * @file Incremental parsing of a streamed JSON object
+ * Emits each top-level property as soon as its value is complete, and each element of a
+ * top-level array as soon as that element is complete, so partial model output can be shown early
+ */
+
+/**
+ * A value completed by the latest chunk of input
+ */
+export type IncrementalJsonEvent =
+  | { type: 'property'; key: string; value: unknown }
+  | { type: 'item'; key: string; index: number; value: unknown };
+
+/**
+ * Parser for a single JSON object that arrives in chunks.
+ * Only the structure needed to find value boundaries is tracked; complete values are handed to `JSON.parse`.
+ */
+export class IncrementalJsonParser {
+  private buffer = '';
+  private position = 0;
+  private stack: string[] = [];
+  private inString = false;
+  private escaped = false;
+
+  /** Start of the key string being read at the top level */
+  private keyStart: number | null = null;
+  private currentKey: string | null = null;
+  private awaitingValue = false;
+  /** Start of the current top-level property's value */
+  private valueStart: number | null = null;
+  /** Start of the current element of a top-level array */
+  private itemStart: number | null = null;
+  private itemIndex = 0;
+
+  /**
+   * Adds a chunk of input
+   *
+   * @param chunk - The next piece of the JSON text
+   * @returns Values completed by this chunk, in document order
+   */
+  push(chunk: string): IncrementalJsonEvent[] {
+    const events: IncrementalJsonEvent[] = [];
+    this.buffer += chunk;
+
+    for (; this.position < this.buffer.length; this.position++) {
+      const char = this.buffer[this.position];
+      const index = this.position;
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+          this.endString(index, events);
+        }
+        continue;
+      }
+
+      switch (char) {
+        case ' ':
+        case '\n':
+        case '\r':
+        case '\t':
+          break;
+        case '"':
+          this.inString = true;
+          if (this.stack.length === 1 && !this.awaitingValue) {
+            this.keyStart = index;
+          } else {
+            this.startValue(index);
+          }
+          break;
+        case '{':
+        case '[':
+          if (this.stack.length > 0) this.startValue(index);
+          this.stack.push(char);
+          if (this.stack.length === 2 && char === '[') this.itemIndex = 0;
+          break;
+        case '}':
+        case ']':
+          // Primitives have no closing token, so they end at the bracket that follows them
+          this.endPrimitive(index, events);
+          this.stack.pop();
+          if (this.stack.length === 1 && this.valueStart !== null) {
+            this.emitProperty(this.buffer.slice(this.valueStart, index + 1), events);
+          } else if (this.isInTopLevelArray() && this.itemStart !== null) {
+            this.emitItem(this.buffer.slice(this.itemStart, index + 1), events);
+          }
+          break;
+        case ':':
+          if (this.stack.length === 1) this.awaitingValue = true;
+          break;
+        case ',':
+          this.endPrimitive(index, events);
+          break;
+        default:
+          // First character of a number, boolean or null
+          this.startValue(index);
+      }
+    }
+
+    return events;
+  }
+
+  private isInTopLevelArray(): boolean {
+    return this.stack.length === 2 && this.stack[1] === '[';
+  }
+
+  private startValue(index: number) {
+    if (this.stack.length === 1 && this.awaitingValue) {
+      this.valueStart = index;
+      this.awaitingValue = false;
+    } else if (this.isInTopLevelArray() && this.itemStart === null) {
+      this.itemStart = index;
+    }
+  }
+
+  private endString(index: number, events: IncrementalJsonEvent[]) {
+    if (this.stack.length === 1 && this.keyStart !== null) {
+      this.currentKey = parseOrNull(this.buffer.slice(this.keyStart, index + 1)) as string | null;
+      this.keyStart = null;
+    } else if (this.stack.length === 1 && this.valueStart !== null) {
+      this.emitProperty(this.buffer.slice(this.valueStart, index + 1), events);
+    } else if (this.isInTopLevelArray() && this.itemStart !== null) {
+      this.emitItem(this.buffer.slice(this.itemStart, index + 1), events);
+    }
+  }
+
+  private endPrimitive(index: number, events: IncrementalJsonEvent[]) {
+    if (this.stack.length === 1 && this.valueStart !== null) {
+      this.emitProperty(this.buffer.slice(this.valueStart, index), events);
+    } else if (this.isInTopLevelArray() && this.itemStart !== null) {
+      this.emitItem(this.buffer.slice(this.itemStart, index), events);
+    }
+  }
+
+  private emitProperty(text: string, events: IncrementalJsonEvent[]) {
+    this.valueStart = null;
+    if (this.currentKey === null) return;
+    events.push({ type: 'property', key: this.currentKey, value: parseOrNull(text) });
+  }
+
+  private emitItem(text: string, events: IncrementalJsonEvent[]) {
+    this.itemStart = null;
+    if (this.currentKey === null) return;
+    events.push({ type: 'item', key: this.currentKey, index: this.itemIndex++, value: parseOrNull(text) });
+  }
+}
+
+function parseOrNull(text: string): unknown {
+  try {
+    return JSON.parse(text.trim());
+  } catch {
+    return null;
+  }
+}
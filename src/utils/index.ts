@@ -81,4 +81,17 @@ export function findMostCommon<T>(arr: T[]): T | null {
   }
   
   return mostCommon;
-}
\ No newline at end of file
+}
+
+/**
+ * Generates a random version 4 UUID
+ * 
+ * @returns UUID string (e.g., "3b241101-e2bb-4255-8caf-4136c566a962")
+ */
+export function generateUUID(): string {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (char) => {
+    const random = Math.floor(Math.random() * 16);
+    const value = char === 'x' ? random : (random & 0x3) | 0x8;
+    return value.toString(16);
+  });
+}
@@ -0,0 +1,35 @@
+/**
+ * @file Selects the LLM provider used by the AI route
+ * Set `AI_PROVIDER` to `openai` (the default) or `stub` for deterministic offline output.
+ */
+
+import { OpenAIProvider } from './openaiProvider';
+import { StubProvider } from './stubProvider';
+import type { LLMProvider } from './types';
+
+export type { JsonCompletionRequest, LLMChatMessage, LLMProvider, LLMToolDefinition, LLMUsage, LLMUsageHandler, ToolChatRequest } from './types';
+
+const providers: Record<string, () => LLMProvider> = {
+  openai: () => new OpenAIProvider(),
+  stub: () => new StubProvider(),
+};
+
+let cachedProvider: LLMProvider | null = null;
+
+/**
+ * Gets the configured provider, creating it on first use
+ *
+ * @throws If `AI_PROVIDER` names an unknown provider
+ */
+export function getLLMProvider(): LLMProvider {
+  if (cachedProvider) return cachedProvider;
+
+  const name = process.env.AI_PROVIDER || 'openai';
+  const createProvider = providers[name];
+  if (!createProvider) {
+    throw new Error(`Unknown AI_PROVIDER "${name}". Expected one of: ${Object.keys(providers).join(', ')}`);
+  }
+
+  cachedProvider = createProvider();
+  return cachedProvider;
+}
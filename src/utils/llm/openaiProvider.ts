@@ -0,0 +1,144 @@
+/**
+ * @file OpenAI implementation of the LLM provider
+ */
+
+import type { AssistantReply } from '@/types/assistant';
+import OpenAI from 'openai';
+import type { JsonCompletionRequest, LLMProvider, LLMUsage, LLMUsageHandler, ToolChatRequest } from './types';
+
+const TEXT_MODEL = 'gpt-4.1-nano';
+const VISION_MODEL = 'gpt-4o';
+const IMAGE_MODEL = 'dall-e-3';
+const EMBEDDING_MODEL = 'text-embedding-3-small';
+
+/**
+ * Provider backed by the OpenAI API
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai';
+  private client: OpenAI;
+
+  constructor(apiKey = process.env.OPENAI_API_KEY) {
+    this.client = new OpenAI({ apiKey });
+  }
+
+  async completeJson(request: JsonCompletionRequest, onUsage?: LLMUsageHandler): Promise<unknown> {
+    const response = await this.client.responses.create(this.toJsonParams(request));
+    onUsage?.(toResponseUsage(TEXT_MODEL, response.usage));
+    return JSON.parse(response.output_text || '{}');
+  }
+
+  async *streamJson(request: JsonCompletionRequest, signal?: AbortSignal, onUsage?: LLMUsageHandler): AsyncIterable<string> {
+    // Stop generating as soon as the caller aborts
+    const events = await this.client.responses.create({ ...this.toJsonParams(request), stream: true }, { signal });
+    for await (const event of events) {
+      if (event.type === 'response.output_text.delta') yield event.delta;
+      if (event.type === 'response.completed') onUsage?.(toResponseUsage(TEXT_MODEL, event.response.usage));
+    }
+  }
+
+  async completeText(prompt: string, onUsage?: LLMUsageHandler): Promise<string> {
+    const response = await this.client.responses.create({
+      model: TEXT_MODEL,
+      input: prompt
+    });
+    onUsage?.(toResponseUsage(TEXT_MODEL, response.usage));
+    return response.output_text || '';
+  }
+
+  async chatWithTools(request: ToolChatRequest, onUsage?: LLMUsageHandler): Promise<AssistantReply> {
+    const response = await this.client.chat.completions.create({
+      model: TEXT_MODEL,
+      messages: [
+        { role: 'system', content: request.system },
+        ...request.messages
+      ],
+      tools: request.tools.map(tool => ({ type: 'function' as const, function: tool }))
+    });
+    onUsage?.(toCompletionUsage(TEXT_MODEL, response.usage));
+
+    const message = response.choices[0]?.message;
+    return {
+      content: message?.content || null,
+      toolCalls: (message?.tool_calls || []).map(call => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: call.function.arguments
+      }))
+    };
+  }
+
+  async captionImage(prompt: string, imageBase64: string, onUsage?: LLMUsageHandler): Promise<string> {
+    const response = await this.client.chat.completions.create({
+      model: VISION_MODEL,
+      messages: [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: prompt },
+            { type: 'image_url', image_url: { url: `data:image/jpeg;base64,${imageBase64}` } }
+          ]
+        }
+      ],
+      max_tokens: 150
+    });
+    onUsage?.(toCompletionUsage(VISION_MODEL, response.usage));
+    return response.choices[0]?.message?.content || '';
+  }
+
+  async generateImage(prompt: string, onUsage?: LLMUsageHandler): Promise<Uint8Array> {
+    const response = await this.client.images.generate({
+      model: IMAGE_MODEL,
+      prompt,
+      n: 1,
+      size: '1024x1024',
+      quality: 'hd',
+      style: 'vivid',
+      response_format: 'b64_json'
+    });
+    onUsage?.({ model: IMAGE_MODEL, inputTokens: 0, outputTokens: 0, imageCount: response.data?.length ?? 0 });
+
+    const b64Json = response.data?.[0]?.b64_json;
+    if (!b64Json) {
+      throw new Error('Failed to generate image data from OpenAI.');
+    }
+
+    return new Uint8Array(
+      atob(b64Json)
+        .split('')
+        .map(char => char.charCodeAt(0))
+    );
+  }
+
+  async embed(inputs: string[], onUsage?: LLMUsageHandler): Promise<number[][]> {
+    const response = await this.client.embeddings.create({ model: EMBEDDING_MODEL, input: inputs });
+    onUsage?.({ model: EMBEDDING_MODEL, inputTokens: response.usage.prompt_tokens, outputTokens: 0, imageCount: 0 });
+    return [...response.data].sort((a, b) => a.index - b.index).map(item => item.embedding);
+  }
+
+  private toJsonParams(request: JsonCompletionRequest) {
+    return {
+      model: TEXT_MODEL,
+      input: [
+        { role: 'system' as const, content: request.system },
+        { role: 'user' as const, content: request.prompt }
+      ],
+      text: {
+        format: {
+          type: 'json_schema' as const,
+          name: request.schemaName,
+          strict: false,
+          schema: request.schema
+        }
+      }
+    };
+  }
+}
+
+function toResponseUsage(model: string, usage?: { input_tokens: number; output_tokens: number } | null): LLMUsage {
+  return { model, inputTokens: usage?.input_tokens ?? 0, outputTokens: usage?.output_tokens ?? 0, imageCount: 0 };
+}
+
+function toCompletionUsage(model: string, usage?: { prompt_tokens: number; completion_tokens: number } | null): LLMUsage {
+  return { model, inputTokens: usage?.prompt_tokens ?? 0, outputTokens: usage?.completion_tokens ?? 0, imageCount: 0 };
+}
@@ -0,0 +1,167 @@
+/**
+ * @file Deterministic local implementation of the LLM provider
+ * Needs no network or API key, and returns the same output for the same input, so the AI route
+ * can run offline in development, CI and tests. Output follows the requested shapes but is not meaningful.
+ */
+
+import type { AssistantReply } from '@/types/assistant';
+import type { JsonCompletionRequest, LLMProvider, LLMUsage, LLMUsageHandler, ToolChatRequest } from './types';
+
+/** Fixed start for generated dates so output does not depend on the clock */
+const BASE_TIME = Date.UTC(2030, 0, 1, 9);
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const ARRAY_LENGTH = 3;
+const STREAM_CHUNK_LENGTH = 24;
+const EMBEDDING_DIMENSIONS = 1536;
+const MODEL = 'stub';
+
+/** A 1x1 PNG */
+const PLACEHOLDER_PNG_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+/**
+ * Provider that fabricates deterministic output locally
+ */
+export class StubProvider implements LLMProvider {
+  readonly name = 'stub';
+
+  async completeJson(request: JsonCompletionRequest, onUsage?: LLMUsageHandler): Promise<unknown> {
+    const seed = hashString(`${request.schemaName}\n${request.prompt}`).toString(16).slice(0, 4);
+    const value = sampleFromSchema(request.schema, request.schemaName, seed);
+    onUsage?.(textUsage(request.system + request.prompt, JSON.stringify(value)));
+    return value;
+  }
+
+  async *streamJson(request: JsonCompletionRequest, signal?: AbortSignal, onUsage?: LLMUsageHandler): AsyncIterable<string> {
+    const text = JSON.stringify(await this.completeJson(request, onUsage));
+    for (let i = 0; i < text.length; i += STREAM_CHUNK_LENGTH) {
+      if (signal?.aborted) throw new Error('Request was aborted');
+      yield text.slice(i, i + STREAM_CHUNK_LENGTH);
+    }
+  }
+
+  async completeText(prompt: string, onUsage?: LLMUsageHandler): Promise<string> {
+    const text = `Stub text ${hashString(prompt).toString(16)}: ${prompt.replace(/\s+/g, ' ').trim().slice(0, 80)}`;
+    onUsage?.(textUsage(prompt, text));
+    return text;
+  }
+
+  /**
+   * Calls the first tool that needs no arguments in answer to a user message, and replies
+   * with text once tool results are in, so tool-calling flows can be exercised end to end
+   */
+  async chatWithTools(request: ToolChatRequest, onUsage?: LLMUsageHandler): Promise<AssistantReply> {
+    onUsage?.(textUsage(request.system + JSON.stringify(request.messages), ''));
+
+    const last = request.messages[request.messages.length - 1];
+    const tool = request.tools.find(candidate => {
+      const required = candidate.parameters.required;
+      return !Array.isArray(required) || required.length === 0;
+    });
+
+    if (last?.role === 'user' && tool) {
+      return {
+        content: null,
+        toolCalls: [{ id: `call_stub_${request.messages.length}`, name: tool.name, arguments: '{}' }]
+      };
+    }
+
+    if (last?.role === 'tool') {
+      const results = request.messages.filter(message => message.role === 'tool').length;
+      return { content: `Stub reply after ${results} tool ${results === 1 ? 'result' : 'results'}.`, toolCalls: [] };
+    }
+
+    return { content: `Stub reply to: ${last?.content ?? ''}`, toolCalls: [] };
+  }
+
+  async captionImage(prompt: string, imageBase64: string, onUsage?: LLMUsageHandler): Promise<string> {
+    const caption = `Stub caption ${hashString(imageBase64).toString(16)}`;
+    onUsage?.(textUsage(prompt, caption));
+    return caption;
+  }
+
+  async generateImage(_prompt: string, onUsage?: LLMUsageHandler): Promise<Uint8Array> {
+    onUsage?.({ model: MODEL, inputTokens: 0, outputTokens: 0, imageCount: 1 });
+    return Uint8Array.from(atob(PLACEHOLDER_PNG_BASE64), char => char.charCodeAt(0));
+  }
+
+  /**
+   * Hashes words into a normalized bag-of-words vector, so texts sharing words are similar
+   */
+  async embed(inputs: string[], onUsage?: LLMUsageHandler): Promise<number[][]> {
+    onUsage?.(textUsage(inputs.join(' '), ''));
+    return inputs.map(input => {
+      const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+      for (const word of input.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []) {
+        const hash = hashString(word);
+        vector[hash % EMBEDDING_DIMENSIONS] += hash & 0x80000000 ? -1 : 1;
+      }
+
+      const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+      if (length === 0) {
+        vector[0] = 1;
+        return vector;
+      }
+      return vector.map(value => value / length);
+    });
+  }
+}
+
+/**
+ * Builds a value matching a JSON schema. Strings name their key, date-time fields named
+ * `*_time` get consecutive days from a fixed start, and arrays get a fixed number of items.
+ */
+function sampleFromSchema(schema: any, key: string, seed: string, index?: number): unknown {
+  const type = Array.isArray(schema?.type) ? schema.type.find((t: string) => t !== 'null') : schema?.type;
+
+  switch (type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([property, propertySchema]) => [
+          property,
+          sampleFromSchema(propertySchema, property, seed, index),
+        ])
+      );
+    case 'array':
+      return Array.from({ length: ARRAY_LENGTH }, (_, itemIndex) => sampleFromSchema(schema.items, key, seed, itemIndex));
+    case 'integer':
+    case 'number':
+      return (index ?? 0) + 1;
+    case 'boolean':
+      return true;
+    default:
+      if (key.endsWith('_time')) return sampleTime(key, index);
+      return index === undefined ? `Stub ${key} ${seed}` : `Stub ${key} ${index + 1} ${seed}`;
+  }
+}
+
+/**
+ * Items in an array are placed one per day; a top-level range spans all of those days
+ */
+function sampleTime(key: string, index?: number): string {
+  const isEnd = key.startsWith('end');
+  if (index === undefined) {
+    return new Date(BASE_TIME + (isEnd ? (ARRAY_LENGTH - 1) * DAY_MS + 10 * HOUR_MS : 0)).toISOString();
+  }
+  return new Date(BASE_TIME + index * DAY_MS + (isEnd ? 2 * HOUR_MS : 0)).toISOString();
+}
+
+/**
+ * Reports roughly four characters per token, like OpenAI's rule of thumb
+ */
+function textUsage(input: string, output: string): LLMUsage {
+  return { model: MODEL, inputTokens: Math.ceil(input.length / 4), outputTokens: Math.ceil(output.length / 4), imageCount: 0 };
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
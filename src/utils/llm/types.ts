@@ -0,0 +1,97 @@
+/**
+ * @file Provider-neutral interface for the language, vision, image and embedding models used by the AI route
+ */
+
+import type { AssistantReply } from '@/types/assistant';
+
+/**
+ * Request for a JSON value matching a schema
+ */
+export interface JsonCompletionRequest {
+  /** System instructions */
+  system: string;
+  /** The user's request, including any context */
+  prompt: string;
+  /** Short identifier for the schema, e.g. "new_activity" */
+  schemaName: string;
+  /** JSON schema the result must follow */
+  schema: Record<string, unknown>;
+}
+
+/**
+ * A message in a tool-using chat, in the chat completions wire format the client sends
+ */
+export type LLMChatMessage =
+  | { role: 'user'; content: string }
+  | { role: 'assistant'; content: string | null; tool_calls?: LLMChatToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+export interface LLMChatToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+/**
+ * A function the model may call
+ */
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  /** JSON schema for the function's arguments */
+  parameters: Record<string, unknown>;
+}
+
+/**
+ * Request for the next turn of a chat that may call tools
+ */
+export interface ToolChatRequest {
+  system: string;
+  messages: LLMChatMessage[];
+  tools: LLMToolDefinition[];
+}
+
+/**
+ * Usage reported by a single model call, for cost accounting
+ */
+export interface LLMUsage {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  imageCount: number;
+}
+
+/**
+ * Receives the usage of each model call a provider makes
+ */
+export type LLMUsageHandler = (usage: LLMUsage) => void;
+
+/**
+ * Models behind the AI route. Implementations must not depend on request state,
+ * so one instance can serve every request; each method reports what it used to the optional `onUsage`.
+ */
+export interface LLMProvider {
+  /** Identifier used in logs, e.g. "openai" */
+  readonly name: string;
+
+  /** Generates a JSON value matching the request's schema */
+  completeJson(request: JsonCompletionRequest, onUsage?: LLMUsageHandler): Promise<unknown>;
+
+  /** Generates the same JSON as `completeJson`, yielding the raw text as it is produced */
+  streamJson(request: JsonCompletionRequest, signal?: AbortSignal, onUsage?: LLMUsageHandler): AsyncIterable<string>;
+
+  /** Generates free text for a prompt */
+  completeText(prompt: string, onUsage?: LLMUsageHandler): Promise<string>;
+
+  /** Generates the assistant's next turn in a tool-using chat */
+  chatWithTools(request: ToolChatRequest, onUsage?: LLMUsageHandler): Promise<AssistantReply>;
+
+  /** Describes a base64-encoded JPEG image according to the prompt */
+  captionImage(prompt: string, imageBase64: string, onUsage?: LLMUsageHandler): Promise<string>;
+
+  /** Generates a square PNG image for the prompt */
+  generateImage(prompt: string, onUsage?: LLMUsageHandler): Promise<Uint8Array>;
+
+  /** Embeds each input as a 1536-dimension vector */
+  embed(inputs: string[], onUsage?: LLMUsageHandler): Promise<number[][]>;
+}
@@ -0,0 +1,45 @@
+/**
+ * @file Labels for disappearing message settings
+ * Shared by the settings menu and the system messages that announce a change
+ */
+
+import type { MessageExpiry } from '@/api/messages';
+
+/**
+ * A disappearing messages setting as shown to the user
+ */
+export interface MessageExpiryOption {
+  value: MessageExpiry;
+  title: string;
+  description: string;
+}
+
+export const MESSAGE_EXPIRY_OPTIONS: MessageExpiryOption[] = [
+  { value: 'view_once', title: 'View Once', description: 'Photos can be opened once, messages last 24 hours' },
+  { value: '1h', title: '1 Hour', description: 'Messages disappear 1 hour after sending' },
+  { value: '24h', title: '24 Hours', description: 'Messages disappear 24 hours after sending' },
+  { value: '7d', title: '7 Days', description: 'Messages disappear 7 days after sending' },
+  { value: 'never', title: 'Never', description: 'Messages are kept' },
+];
+
+/**
+ * Describes a change of setting for a system message
+ *
+ * @param expiry - The new setting
+ * @param actorName - Who changed it, e.g. "You" or the participant's name
+ * @returns Description such as "You set messages to disappear after 1 hour"
+ */
+export function describeMessageExpiryChange(expiry: MessageExpiry, actorName: string): string {
+  switch (expiry) {
+    case 'view_once':
+      return `${actorName} turned on view-once photos`;
+    case 'never':
+      return `${actorName} turned off disappearing messages`;
+    case '1h':
+      return `${actorName} set messages to disappear after 1 hour`;
+    case '24h':
+      return `${actorName} set messages to disappear after 24 hours`;
+    case '7d':
+      return `${actorName} set messages to disappear after 7 days`;
+  }
+}
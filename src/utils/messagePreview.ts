@@ -0,0 +1,28 @@
+/**
+ * @file Short descriptions of messages for quoted replies
+ */
+
+import { parseMessageCard, type MessageReplyPreview } from '@/api/messages';
+
+/**
+ * Describes a message in one line, without exposing photo URLs or unsent content
+ *
+ * @param message - The message to describe
+ * @returns Preview text such as the message text, "Photo", "Itinerary: Paris" or "Unsent message"
+ */
+export function getMessagePreviewText(message: Pick<MessageReplyPreview, 'content' | 'type' | 'deletedAt'>): string {
+  if (message.deletedAt) return 'Unsent message';
+  if (message.type === 'photo') return 'Photo';
+
+  const card = parseMessageCard(message);
+  switch (card?.type) {
+    case 'itinerary':
+      return `Itinerary: ${card.content.itinerary.title}`;
+    case 'activity':
+      return `Activity: ${card.content.activity.title}`;
+    case 'location':
+      return `Location: ${card.content.name || card.content.address || 'Pinned location'}`;
+  }
+
+  return message.content;
+}
@@ -0,0 +1,266 @@
+/**
+ * @file Server-side cleanup of expired messages
+ * Row level security only hides expired messages, so the rows and the photos they link to stay
+ * in the database and the photos bucket until this job deletes them. Photos of unsent messages and
+ * of view-once messages, once opened or expired, are queued in `photo_removals` by the database
+ * and removed here too.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getPhotoPathFromUrl, removePhotos } from './photoBucket';
+
+/**
+ * Messages handled per batch; photo URLs go in query strings, so batches stay small
+ */
+const BATCH_SIZE = 100;
+
+interface PhotoRemovalRow {
+  content_url: string;
+}
+
+interface ExpiredMessageRow {
+  id: string;
+  type: string;
+  content: string;
+}
+
+export interface MessagePurgeOptions {
+  /** Report what would be deleted without deleting anything */
+  dryRun?: boolean;
+  /** Messages that expired before this time are purged; defaults to now */
+  now?: Date;
+}
+
+export interface MessagePurgeResult {
+  dryRun: boolean;
+  /** Expired messages deleted, or that would be deleted in a dry run */
+  deletedMessages: number;
+  /** Photo files removed, or that would be removed in a dry run */
+  removedPhotos: number;
+  /** Photos kept because a live message, story or open report still links to them */
+  keptPhotos: number;
+  /** Expired messages left in place because their photo could not be removed; retried on the next run */
+  failedMessages: number;
+  /** Queued photos of unsent and opened messages that could not be removed; retried on the next run */
+  failedPhotos: number;
+  /** Paths of the photos removed, only listed in a dry run */
+  photoPaths?: string[];
+}
+
+/**
+ * Deletes expired messages and removes the photos they link to, along with the queued photos of
+ * unsent messages and of opened or expired view-once messages
+ *
+ * @param supabaseAdmin - Client using the service role
+ * @param options - Dry run and cutoff time
+ */
+export async function purgeExpiredMessages(
+  supabaseAdmin: SupabaseClient,
+  options: MessagePurgeOptions = {}
+): Promise<MessagePurgeResult> {
+  const dryRun = options.dryRun ?? false;
+  const cutoff = (options.now ?? new Date()).toISOString();
+  const result: MessagePurgeResult = {
+    dryRun,
+    deletedMessages: 0,
+    removedPhotos: 0,
+    keptPhotos: 0,
+    failedMessages: 0,
+    failedPhotos: 0,
+    photoPaths: dryRun ? [] : undefined,
+  };
+
+  // Rows left in place (all of them in a dry run) are skipped by paging past them
+  let offset = 0;
+
+  while (true) {
+    const { data, error } = await supabaseAdmin
+      .from('messages')
+      .select('id, type, content')
+      .lt('expires_at', cutoff)
+      .order('expires_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + BATCH_SIZE - 1);
+
+    if (error) throw error;
+
+    const messages = (data || []) as ExpiredMessageRow[];
+    if (messages.length === 0) break;
+
+    const { deletableIds, failedCount, photoPaths, keptCount } = await removeMessagePhotos(
+      supabaseAdmin,
+      messages,
+      cutoff,
+      dryRun
+    );
+
+    if (!dryRun && deletableIds.length > 0) {
+      const { error: deleteError } = await supabaseAdmin
+        .from('messages')
+        .delete()
+        .in('id', deletableIds);
+
+      if (deleteError) throw deleteError;
+    }
+
+    result.deletedMessages += deletableIds.length;
+    result.removedPhotos += photoPaths.length;
+    result.keptPhotos += keptCount;
+    result.failedMessages += failedCount;
+    result.photoPaths?.push(...photoPaths);
+
+    if (messages.length < BATCH_SIZE) break;
+    offset += dryRun ? messages.length : failedCount;
+  }
+
+  await purgeQueuedPhotos(supabaseAdmin, result, cutoff);
+
+  return result;
+}
+
+/**
+ * Removes the photos queued when their message was unsent, opened or deleted, unless something still links
+ * to them; those stay queued and are checked again on the next run
+ */
+async function purgeQueuedPhotos(
+  supabaseAdmin: SupabaseClient,
+  result: MessagePurgeResult,
+  cutoff: string
+): Promise<void> {
+  // Rows left in place (all of them in a dry run) are skipped by paging past them
+  let offset = 0;
+
+  while (true) {
+    const { data, error } = await supabaseAdmin
+      .from('photo_removals')
+      .select('content_url')
+      .order('created_at', { ascending: true })
+      .order('content_url', { ascending: true })
+      .range(offset, offset + BATCH_SIZE - 1);
+
+    if (error) throw error;
+
+    const rows = (data || []) as PhotoRemovalRow[];
+    if (rows.length === 0) break;
+
+    const urls = rows.map(row => row.content_url);
+    const liveUrls = await findLivePhotoUrls(supabaseAdmin, urls, cutoff);
+    const doneUrls = urls.filter(url => !liveUrls.has(url));
+    const photoPaths = doneUrls
+      .map(url => getPhotoPathFromUrl(url))
+      .filter((path): path is string => !!path);
+
+    const keptCount = liveUrls.size;
+    if (!result.dryRun) {
+      const removal = await removePhotos(supabaseAdmin, photoPaths);
+      if (!removal.success) {
+        // Leave the batch queued so the photos are retried on the next run
+        console.error('Error removing photos of unsent and opened messages:', removal.error);
+        result.failedPhotos += rows.length;
+        offset += rows.length;
+        if (rows.length < BATCH_SIZE) break;
+        continue;
+      }
+
+      if (doneUrls.length > 0) {
+        const { error: deleteError } = await supabaseAdmin
+          .from('photo_removals')
+          .delete()
+          .in('content_url', doneUrls);
+
+        if (deleteError) throw deleteError;
+      }
+    }
+
+    result.removedPhotos += photoPaths.length;
+    result.keptPhotos += keptCount;
+    result.photoPaths?.push(...photoPaths);
+
+    if (rows.length < BATCH_SIZE) break;
+    offset += result.dryRun ? rows.length : keptCount;
+  }
+}
+
+/**
+ * Removes the photos of a batch of expired messages, unless another message or a story that is
+ * still live links to the same file
+ *
+ * @returns The messages that can be deleted and the photos removed
+ */
+async function removeMessagePhotos(
+  supabaseAdmin: SupabaseClient,
+  messages: ExpiredMessageRow[],
+  cutoff: string,
+  dryRun: boolean
+): Promise<{ deletableIds: string[]; failedCount: number; photoPaths: string[]; keptCount: number }> {
+  // Unsent and view-once messages have no content; their photos are queued separately
+  const photoMessages = messages.filter(message => message.type === 'photo' && getPhotoPathFromUrl(message.content));
+  const photoUrls = [...new Set(photoMessages.map(message => message.content))];
+
+  const liveUrls = await findLivePhotoUrls(supabaseAdmin, photoUrls, cutoff);
+  const photoPaths = photoUrls
+    .filter(url => !liveUrls.has(url))
+    .map(url => getPhotoPathFromUrl(url)!);
+
+  if (!dryRun) {
+    const removal = await removePhotos(supabaseAdmin, photoPaths);
+    if (!removal.success) {
+      console.error('Error removing photos of expired messages:', removal.error);
+
+      // Keep the photo messages so the photos are retried on the next run
+      const photoMessageIds = new Set(photoMessages.map(message => message.id));
+      return {
+        deletableIds: messages.filter(message => !photoMessageIds.has(message.id)).map(message => message.id),
+        failedCount: photoMessageIds.size,
+        photoPaths: [],
+        keptCount: 0,
+      };
+    }
+  }
+
+  return {
+    deletableIds: messages.map(message => message.id),
+    failedCount: 0,
+    photoPaths,
+    keptCount: photoUrls.length - photoPaths.length,
+  };
+}
+
+/**
+ * Finds which photo URLs are still linked from a message that has not expired, from a story, or
+ * from a report that is waiting for moderation review
+ */
+async function findLivePhotoUrls(
+  supabaseAdmin: SupabaseClient,
+  photoUrls: string[],
+  cutoff: string
+): Promise<Set<string>> {
+  if (photoUrls.length === 0) return new Set();
+
+  const [messagesResult, storiesResult, reportsResult] = await Promise.all([
+    supabaseAdmin
+      .from('messages')
+      .select('content')
+      .in('content', photoUrls)
+      .or(`expires_at.is.null,expires_at.gte.${cutoff}`),
+    supabaseAdmin
+      .from('story_contents')
+      .select('content_url')
+      .in('content_url', photoUrls),
+    supabaseAdmin
+      .from('reports')
+      .select('content')
+      .in('content', photoUrls)
+      .eq('status', 'open'),
+  ]);
+
+  if (messagesResult.error) throw messagesResult.error;
+  if (storiesResult.error) throw storiesResult.error;
+  if (reportsResult.error) throw reportsResult.error;
+
+  return new Set([
+    ...(messagesResult.data || []).map(row => row.content as string),
+    ...(storiesResult.data || []).map(row => row.content_url as string),
+    ...(reportsResult.data || []).map(row => row.content as string),
+  ]);
+}
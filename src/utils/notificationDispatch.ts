@@ -0,0 +1,442 @@
+/**
+ * @file Server-side dispatcher for push notifications
+ * Database triggers queue a notification_events row per recipient for new messages, friend requests
+ * and itinerary invites. The dispatcher claims queued rows, drops the ones the recipient does not
+ * want, sends the rest to each of the recipient's devices and removes tokens of uninstalled apps.
+ */
+
+import type { MessageType } from '@/api/messages';
+import type { NotificationCategory, PushNotificationData } from '@/types/notifications';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { isConversationMuted } from './conversationMute';
+import { PUSH_BATCH_SIZE, PUSH_CHANNEL_ID, type PushGateway, type PushMessage } from './pushGateway';
+
+/**
+ * Queued notifications handled per run
+ */
+const DEFAULT_LIMIT = 500;
+
+/**
+ * Longest message text put in a notification
+ */
+const MAX_BODY_LENGTH = 150;
+
+/**
+ * Profile column holding the recipient's preference for each kind of notification
+ */
+const PREFERENCE_COLUMNS: Record<NotificationCategory, 'notify_messages' | 'notify_friend_requests' | 'notify_trip_updates'> = {
+  message: 'notify_messages',
+  friend_request: 'notify_friend_requests',
+  trip_invite: 'notify_trip_updates',
+};
+
+interface NotificationEventRow {
+  id: string;
+  recipient_id: string;
+  actor_id: string;
+  category: NotificationCategory;
+  message_id: string | null;
+  friend_request_id: string | null;
+  itinerary_id: string | null;
+}
+
+interface ProfileRow {
+  id: string;
+  username: string | null;
+  full_name: string | null;
+  notify_messages: boolean;
+  notify_friend_requests: boolean;
+  notify_trip_updates: boolean;
+}
+
+interface MessageRow {
+  id: string;
+  conversation_id: string;
+  type: MessageType;
+  content: string;
+  view_once: boolean;
+  deleted_at: string | null;
+}
+
+interface ConversationRow {
+  id: string;
+  type: 'direct' | 'group';
+  title: string | null;
+}
+
+interface ParticipantRow {
+  conversation_id: string;
+  user_id: string;
+  is_active: boolean;
+}
+
+interface PreferencesRow {
+  conversation_id: string;
+  user_id: string;
+  is_muted: boolean;
+  muted_until: string | null;
+}
+
+/**
+ * Everything the queued notifications refer to, loaded in a few queries per run
+ */
+interface NotificationContext {
+  profiles: Map<string, ProfileRow>;
+  tokens: Map<string, string[]>;
+  messages: Map<string, MessageRow>;
+  conversations: Map<string, ConversationRow>;
+  /** Keyed by `${conversationId}:${userId}` */
+  participants: Map<string, ParticipantRow>;
+  /** Keyed by `${conversationId}:${userId}`; recipients without a row have not muted the conversation */
+  conversationPreferences: Map<string, PreferencesRow>;
+  /** IDs of friend requests still pending */
+  pendingFriendRequestIds: Set<string>;
+  itineraryTitles: Map<string, string>;
+  /** Keyed by `${itineraryId}:${userId}` */
+  pendingInvites: Set<string>;
+}
+
+export interface NotificationDispatchOptions {
+  /** Report what would be sent without sending, claiming or removing anything */
+  dryRun?: boolean;
+  /** Most queued notifications to handle; defaults to 500 */
+  limit?: number;
+}
+
+export interface NotificationDispatchResult {
+  dryRun: boolean;
+  /** Queued notifications sent to at least one device, or that would be sent in a dry run */
+  sent: number;
+  /** Queued notifications dropped: turned off, muted, no devices, or no longer relevant */
+  skipped: number;
+  /** Queued notifications the gateway did not take; retried on the next run */
+  failed: number;
+  /** Push tokens removed because the app is no longer installed on the device */
+  removedTokens: number;
+  /** Messages that would be sent, only listed in a dry run */
+  messages?: PushMessage[];
+}
+
+/**
+ * Sends queued push notifications
+ *
+ * @param supabaseAdmin - Client using the service role
+ * @param gateway - Where to send push messages
+ * @param options - Dry run and batch size
+ */
+export async function dispatchNotifications(
+  supabaseAdmin: SupabaseClient,
+  gateway: PushGateway,
+  options: NotificationDispatchOptions = {}
+): Promise<NotificationDispatchResult> {
+  const dryRun = options.dryRun ?? false;
+  const limit = options.limit ?? DEFAULT_LIMIT;
+  const result: NotificationDispatchResult = {
+    dryRun,
+    sent: 0,
+    skipped: 0,
+    failed: 0,
+    removedTokens: 0,
+    messages: dryRun ? [] : undefined,
+  };
+
+  const events = await loadEvents(supabaseAdmin, limit, dryRun);
+  if (events.length === 0) return result;
+
+  const context = await loadNotificationContext(supabaseAdmin, events);
+
+  const messagesByEvent = new Map<string, PushMessage[]>();
+  for (const event of events) {
+    const messages = buildPushMessages(event, context);
+    if (messages.length > 0) {
+      messagesByEvent.set(event.id, messages);
+    }
+  }
+
+  const skippedIds = events.filter(event => !messagesByEvent.has(event.id)).map(event => event.id);
+  result.skipped = skippedIds.length;
+
+  if (dryRun) {
+    result.sent = messagesByEvent.size;
+    result.messages = [...messagesByEvent.values()].flat();
+    return result;
+  }
+
+  const outgoing = [...messagesByEvent].flatMap(([eventId, messages]) => messages.map(message => ({ eventId, message })));
+  const deliveredIds = new Set<string>();
+  const failedErrors = new Map<string, string>();
+  const unregisteredTokens = new Set<string>();
+
+  for (let start = 0; start < outgoing.length; start += PUSH_BATCH_SIZE) {
+    const batch = outgoing.slice(start, start + PUSH_BATCH_SIZE);
+
+    try {
+      const tickets = await gateway.send(batch.map(item => item.message));
+
+      tickets.forEach((ticket, index) => {
+        const { eventId, message } = batch[index];
+        if (ticket.status === 'ok') {
+          deliveredIds.add(eventId);
+        } else if (ticket.details?.error === 'DeviceNotRegistered') {
+          unregisteredTokens.add(message.to);
+        } else {
+          // e.g. MessageRateExceeded; retried like a batch the gateway did not take
+          console.error(`Push gateway rejected a notification for ${message.to}:`, ticket.message);
+          failedErrors.set(eventId, ticket.message);
+        }
+      });
+    } catch (error) {
+      console.error('Error sending push notifications:', error);
+      const message = error instanceof Error ? error.message : 'Failed to reach the push gateway';
+      batch.forEach(item => failedErrors.set(item.eventId, message));
+    }
+  }
+
+  // A notification that reached one of the recipient's devices is not sent again to the others
+  const retryIds = [...failedErrors.keys()].filter(eventId => !deliveredIds.has(eventId));
+  const doneIds = [
+    ...skippedIds,
+    ...[...messagesByEvent.keys()].filter(eventId => !failedErrors.has(eventId) || deliveredIds.has(eventId)),
+  ];
+
+  if (unregisteredTokens.size > 0) {
+    const { error } = await supabaseAdmin
+      .from('push_tokens')
+      .delete()
+      .in('token', [...unregisteredTokens]);
+
+    if (error) throw error;
+  }
+
+  if (doneIds.length > 0) {
+    const { error } = await supabaseAdmin
+      .from('notification_events')
+      .delete()
+      .in('id', doneIds);
+
+    if (error) throw error;
+  }
+
+  // Releases the claim so the next run retries right away
+  for (const eventId of retryIds) {
+    const { error } = await supabaseAdmin
+      .from('notification_events')
+      .update({ claimed_at: null, last_error: failedErrors.get(eventId) })
+      .eq('id', eventId);
+
+    if (error) throw error;
+  }
+
+  result.sent = deliveredIds.size;
+  result.failed = retryIds.length;
+  result.removedTokens = unregisteredTokens.size;
+  return result;
+}
+
+/**
+ * Claims the oldest queued notifications, or only looks at them in a dry run
+ */
+async function loadEvents(
+  supabaseAdmin: SupabaseClient,
+  limit: number,
+  dryRun: boolean
+): Promise<NotificationEventRow[]> {
+  const { data, error } = dryRun
+    ? await supabaseAdmin
+        .from('notification_events')
+        .select('*')
+        .lt('attempts', 5)
+        .order('created_at', { ascending: true })
+        .limit(limit)
+    : await supabaseAdmin.rpc('claim_notification_events', { p_limit: limit });
+
+  if (error) throw error;
+  return (data || []) as NotificationEventRow[];
+}
+
+/**
+ * Loads the recipients, their devices and what the notifications are about
+ */
+async function loadNotificationContext(
+  supabaseAdmin: SupabaseClient,
+  events: NotificationEventRow[]
+): Promise<NotificationContext> {
+  const unique = (ids: (string | null)[]) => [...new Set(ids.filter((id): id is string => !!id))];
+  const recipientIds = unique(events.map(event => event.recipient_id));
+  const profileIds = unique(events.flatMap(event => [event.recipient_id, event.actor_id]));
+  const messageIds = unique(events.map(event => event.message_id));
+  const friendRequestIds = unique(events.map(event => event.friend_request_id));
+  const itineraryIds = unique(events.map(event => event.itinerary_id));
+
+  const [profilesResult, tokensResult, messagesResult, friendRequestsResult, itinerariesResult, invitesResult] = await Promise.all([
+    supabaseAdmin
+      .from('profiles')
+      .select('id, username, full_name, notify_messages, notify_friend_requests, notify_trip_updates')
+      .in('id', profileIds),
+    supabaseAdmin
+      .from('push_tokens')
+      .select('token, user_id')
+      .in('user_id', recipientIds),
+    supabaseAdmin
+      .from('messages')
+      .select('id, conversation_id, type, content, view_once, deleted_at')
+      .in('id', messageIds),
+    supabaseAdmin
+      .from('friend_requests')
+      .select('id')
+      .in('id', friendRequestIds)
+      .eq('status', 'pending'),
+    supabaseAdmin
+      .from('itineraries')
+      .select('id, title')
+      .in('id', itineraryIds),
+    supabaseAdmin
+      .from('itinerary_members')
+      .select('itinerary_id, user_id')
+      .in('itinerary_id', itineraryIds)
+      .in('user_id', recipientIds)
+      .eq('status', 'pending'),
+  ]);
+
+  for (const { error } of [profilesResult, tokensResult, messagesResult, friendRequestsResult, itinerariesResult, invitesResult]) {
+    if (error) throw error;
+  }
+
+  const messages = new Map(((messagesResult.data || []) as MessageRow[]).map(message => [message.id, message]));
+  const conversationIds = unique([...messages.values()].map(message => message.conversation_id));
+
+  const [conversationsResult, participantsResult, preferencesResult] = await Promise.all([
+    supabaseAdmin
+      .from('conversations')
+      .select('id, type, title')
+      .in('id', conversationIds),
+    supabaseAdmin
+      .from('conversation_participants')
+      .select('conversation_id, user_id, is_active')
+      .in('conversation_id', conversationIds)
+      .in('user_id', recipientIds),
+    supabaseAdmin
+      .from('conversation_preferences')
+      .select('conversation_id, user_id, is_muted, muted_until')
+      .in('conversation_id', conversationIds)
+      .in('user_id', recipientIds),
+  ]);
+
+  if (conversationsResult.error) throw conversationsResult.error;
+  if (participantsResult.error) throw participantsResult.error;
+  if (preferencesResult.error) throw preferencesResult.error;
+
+  const tokens = new Map<string, string[]>();
+  for (const row of (tokensResult.data || []) as { token: string; user_id: string }[]) {
+    tokens.set(row.user_id, [...(tokens.get(row.user_id) || []), row.token]);
+  }
+
+  return {
+    profiles: new Map(((profilesResult.data || []) as ProfileRow[]).map(profile => [profile.id, profile])),
+    tokens,
+    messages,
+    conversations: new Map(((conversationsResult.data || []) as ConversationRow[]).map(conversation => [conversation.id, conversation])),
+    participants: new Map(((participantsResult.data || []) as ParticipantRow[]).map(participant => [
+      `${participant.conversation_id}:${participant.user_id}`,
+      participant,
+    ])),
+    conversationPreferences: new Map(((preferencesResult.data || []) as PreferencesRow[]).map(preferences => [
+      `${preferences.conversation_id}:${preferences.user_id}`,
+      preferences,
+    ])),
+    pendingFriendRequestIds: new Set((friendRequestsResult.data || []).map(row => row.id as string)),
+    itineraryTitles: new Map((itinerariesResult.data || []).map(row => [row.id as string, row.title as string])),
+    pendingInvites: new Set((invitesResult.data || []).map(row => `${row.itinerary_id}:${row.user_id}`)),
+  };
+}
+
+/**
+ * Builds the push messages for a queued notification, one per device of the recipient
+ *
+ * @returns The messages, or none when the notification should not be sent
+ */
+function buildPushMessages(event: NotificationEventRow, context: NotificationContext): PushMessage[] {
+  const recipient = context.profiles.get(event.recipient_id);
+  const tokens = context.tokens.get(event.recipient_id) || [];
+  if (!recipient || !recipient[PREFERENCE_COLUMNS[event.category]] || tokens.length === 0) {
+    return [];
+  }
+
+  const content = describeNotification(event, context);
+  if (!content) return [];
+
+  return tokens.map(token => ({
+    to: token,
+    title: content.title,
+    body: content.body,
+    data: { category: event.category, url: content.url },
+    sound: 'default',
+    channelId: PUSH_CHANNEL_ID,
+  }));
+}
+
+/**
+ * Writes a queued notification's text and the screen it opens
+ *
+ * @returns The notification, or null when what it is about has gone or the recipient muted it
+ */
+function describeNotification(
+  event: NotificationEventRow,
+  context: NotificationContext
+): { title: string; body: string; url: PushNotificationData['url'] } | null {
+  const actorName = getDisplayName(context.profiles.get(event.actor_id));
+
+  switch (event.category) {
+    case 'message': {
+      const message = event.message_id ? context.messages.get(event.message_id) : undefined;
+      if (!message || message.deleted_at) return null;
+
+      const conversation = context.conversations.get(message.conversation_id);
+      const participant = context.participants.get(`${message.conversation_id}:${event.recipient_id}`);
+      const preferences = context.conversationPreferences.get(`${message.conversation_id}:${event.recipient_id}`);
+      if (!conversation || !participant?.is_active) return null;
+      if (preferences && isConversationMuted({ isMuted: preferences.is_muted, mutedUntil: preferences.muted_until })) {
+        return null;
+      }
+
+      const text = describeMessage(message);
+      return conversation.type === 'group'
+        ? { title: conversation.title || 'Group chat', body: `${actorName}: ${text}`, url: `/chat/${conversation.id}` }
+        : { title: actorName, body: text, url: `/chat/${conversation.id}` };
+    }
+    case 'friend_request':
+      if (!event.friend_request_id || !context.pendingFriendRequestIds.has(event.friend_request_id)) return null;
+
+      return { title: 'New Friend Request', body: `${actorName} wants to be your friend`, url: '/friends' };
+    case 'trip_invite': {
+      const title = event.itinerary_id ? context.itineraryTitles.get(event.itinerary_id) : undefined;
+      if (!title || !context.pendingInvites.has(`${event.itinerary_id}:${event.recipient_id}`)) return null;
+
+      return { title: 'Trip Invite', body: `${actorName} invited you to ${title}`, url: '/itineraries' };
+    }
+  }
+}
+
+/**
+ * Describes a message in a notification without exposing photo URLs
+ */
+function describeMessage(message: MessageRow): string {
+  switch (message.type) {
+    case 'photo':
+      return message.view_once ? 'Sent a view-once photo' : 'Sent a photo';
+    case 'itinerary':
+      return 'Shared an itinerary';
+    case 'activity':
+      return 'Shared an activity';
+    case 'location':
+      return 'Shared a location';
+  }
+
+  return message.content.length > MAX_BODY_LENGTH
+    ? `${message.content.slice(0, MAX_BODY_LENGTH - 1)}…`
+    : message.content;
+}
+
+function getDisplayName(profile: ProfileRow | undefined): string {
+  return profile?.full_name || profile?.username || 'Someone';
+}
@@ -0,0 +1,46 @@
+/**
+ * Photo bucket helpers without React Native dependencies
+ * Shared by the app's photo storage utilities and server routes that clean up photos
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export const PHOTOS_BUCKET = 'photos';
+
+const PUBLIC_URL_MARKER = `/storage/v1/object/public/${PHOTOS_BUCKET}/`;
+
+/**
+ * Gets the file path in the photos bucket from a photo's public URL
+ * @param publicUrl - Public URL returned when the photo was uploaded
+ * @returns File path (e.g., 'user123/user123_1700000000000.jpeg') or null if the URL is not a photo in the bucket
+ */
+export function getPhotoPathFromUrl(publicUrl: string): string | null {
+  const markerIndex = publicUrl.indexOf(PUBLIC_URL_MARKER);
+  if (markerIndex === -1) return null;
+
+  const path = publicUrl.slice(markerIndex + PUBLIC_URL_MARKER.length).split(/[?#]/)[0];
+  return path ? decodeURIComponent(path) : null;
+}
+
+/**
+ * Removes files from the photos bucket
+ * @param client - Supabase client allowed to delete the files
+ * @param filePaths - File paths in the bucket
+ * @returns Promise with removal result
+ */
+export async function removePhotos(
+  client: SupabaseClient,
+  filePaths: string[]
+): Promise<{ success: boolean; error?: string }> {
+  if (filePaths.length === 0) return { success: true };
+
+  const { error } = await client.storage
+    .from(PHOTOS_BUCKET)
+    .remove(filePaths);
+
+  if (error) {
+    return { success: false, error: `Deletion failed: ${error.message}` };
+  }
+
+  return { success: true };
+}
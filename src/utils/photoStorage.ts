@@ -6,6 +6,7 @@
 import { Buffer } from 'buffer';
 import * as FileSystem from 'expo-file-system';
 import * as ImageManipulator from 'expo-image-manipulator';
+import { removePhotos } from './photoBucket';
 import { supabase } from './supabase';
 
 export interface PhotoUploadResult {
@@ -157,24 +158,18 @@ export async function uploadPhoto(
 
 /**
  * Deletes a photo from Supabase Storage
- * @param filePath - The file path in storage (e.g., 'photos/user123/photo.jpeg')
+ * @param filePath - The file path in storage (e.g., 'user123/photo.jpeg'); see getPhotoPathFromUrl for photos sent in messages
  * @returns Promise with deletion result
  */
 export async function deletePhoto(filePath: string): Promise<{ success: boolean; error?: string }> {
   try {
-    const { error } = await supabase.storage
-      .from('photos')
-      .remove([filePath]);
+    const result = await removePhotos(supabase, [filePath]);
 
-    if (error) {
-      console.error('Photo deletion error:', error);
-      return {
-        success: false,
-        error: `Deletion failed: ${error.message}`,
-      };
+    if (!result.success) {
+      console.error('Photo deletion error:', result.error);
     }
 
-    return { success: true };
+    return result;
   } catch (error) {
     console.error('Photo deletion error:', error);
     return {
@@ -0,0 +1,101 @@
+/**
+ * @file Client for the Expo push API, which delivers notifications to iOS and Android devices
+ * The gateway URL can point at the fake gateway dev route to try the dispatcher locally.
+ */
+
+import type { PushNotificationData } from '@/types/notifications';
+
+export const EXPO_PUSH_URL = 'https://exp.host/--/api/v2/push/send';
+
+/**
+ * Most messages the Expo push API accepts in one request
+ */
+export const PUSH_BATCH_SIZE = 100;
+
+/**
+ * Android notification channel the app creates and notifications are posted to
+ */
+export const PUSH_CHANNEL_ID = 'default';
+
+/**
+ * A notification for one device
+ */
+export interface PushMessage {
+  /** Expo push token of the device */
+  to: string;
+  title: string;
+  body: string;
+  data: PushNotificationData;
+  sound?: 'default';
+  channelId?: string;
+}
+
+/**
+ * The gateway's answer for one message, in the order the messages were sent.
+ * `details.error` is e.g. `DeviceNotRegistered` when the app was uninstalled.
+ */
+export type PushTicket =
+  | { status: 'ok'; id: string }
+  | { status: 'error'; message: string; details?: { error?: string } };
+
+/**
+ * Sends push messages; the dispatcher only depends on this, so it can run against any gateway
+ */
+export interface PushGateway {
+  /**
+   * @param messages - At most PUSH_BATCH_SIZE messages
+   * @returns One ticket per message
+   * @throws When the gateway rejects or cannot be reached; none of the messages should be treated as sent
+   */
+  send(messages: PushMessage[]): Promise<PushTicket[]>;
+}
+
+export interface ExpoPushGatewayOptions {
+  /** Push API endpoint; defaults to Expo's */
+  url?: string;
+  /** Access token, needed when enhanced push security is on for the Expo project */
+  accessToken?: string;
+}
+
+/**
+ * Checks whether a string looks like an Expo push token, e.g. `ExponentPushToken[xxxxxxxx]`
+ */
+export function isExpoPushToken(token: string): boolean {
+  return /^Expo(nent)?PushToken\[[^\]]+\]$/.test(token);
+}
+
+/**
+ * Creates a gateway that posts messages to the Expo push API
+ *
+ * @param options - Endpoint and access token
+ */
+export function createExpoPushGateway(options: ExpoPushGatewayOptions = {}): PushGateway {
+  const url = options.url || EXPO_PUSH_URL;
+
+  return {
+    async send(messages) {
+      if (messages.length === 0) return [];
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Accept': 'application/json',
+          'Content-Type': 'application/json',
+          ...(options.accessToken ? { 'Authorization': `Bearer ${options.accessToken}` } : {}),
+        },
+        body: JSON.stringify(messages),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Push gateway responded with ${response.status}: ${await response.text()}`);
+      }
+
+      const { data } = await response.json() as { data?: PushTicket[] };
+      if (!Array.isArray(data) || data.length !== messages.length) {
+        throw new Error('Push gateway returned an unexpected response');
+      }
+
+      return data;
+    },
+  };
+}
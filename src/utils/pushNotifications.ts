@@ -0,0 +1,66 @@
+/**
+ * @file Device setup for push notifications and the screens notifications open
+ */
+
+import type { PushPlatform } from '@/api/notifications';
+import type { PushNotificationData } from '@/types/notifications';
+import Constants from 'expo-constants';
+import * as Device from 'expo-device';
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+import { PUSH_CHANNEL_ID } from './pushGateway';
+
+/**
+ * App paths a notification may open; anything else in a notification's data is ignored
+ */
+const NOTIFICATION_PATHS = [/^\/chat\/[0-9a-f-]+$/i, /^\/friends$/, /^\/itineraries$/];
+
+/**
+ * Gets the Expo push token of this device, asking for permission first if needed
+ *
+ * @returns The token and platform, or null on simulators, on web or when permission is denied
+ */
+export async function getDevicePushToken(): Promise<{ token: string; platform: PushPlatform } | null> {
+  if (!Device.isDevice || (Platform.OS !== 'ios' && Platform.OS !== 'android')) {
+    return null;
+  }
+
+  try {
+    if (Platform.OS === 'android') {
+      await Notifications.setNotificationChannelAsync(PUSH_CHANNEL_ID, {
+        name: 'Notifications',
+        importance: Notifications.AndroidImportance.HIGH,
+      });
+    }
+
+    let { status } = await Notifications.getPermissionsAsync();
+    if (status !== 'granted') {
+      ({ status } = await Notifications.requestPermissionsAsync());
+    }
+    if (status !== 'granted') {
+      return null;
+    }
+
+    const projectId = Constants.expoConfig?.extra?.eas?.projectId;
+    const { data } = await Notifications.getExpoPushTokenAsync({ projectId });
+    return { token: data, platform: Platform.OS };
+  } catch (error) {
+    console.error('Error getting push token:', error);
+    return null;
+  }
+}
+
+/**
+ * Gets the app path a tapped notification should open
+ *
+ * @param data - The notification's data
+ * @returns The path, or null when the notification does not open a screen the app knows
+ */
+export function getNotificationUrl(data: Partial<PushNotificationData> | undefined): string | null {
+  const url = data?.url;
+  if (typeof url !== 'string' || !NOTIFICATION_PATHS.some(path => path.test(url))) {
+    return null;
+  }
+
+  return url;
+}
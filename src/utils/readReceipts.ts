@@ -0,0 +1,65 @@
+/**
+ * @file Read state of messages, derived from how far each participant has read
+ */
+
+import type { ConversationParticipant, MessageWithSender } from '@/api/messages';
+
+/**
+ * Names listed in "Seen by …" before the rest are counted
+ */
+const MAX_LISTED_READERS = 3;
+
+/**
+ * Finds the participants who have read a message, other than its sender and the current user
+ *
+ * @param message - The message
+ * @param participants - The conversation's active participants
+ * @param currentUserId - The current user's ID
+ * @returns The participants whose shared read position is at or after the message
+ */
+export function getMessageReaders(
+  message: Pick<MessageWithSender, 'senderId' | 'createdAt'>,
+  participants: ConversationParticipant[],
+  currentUserId: string
+): ConversationParticipant[] {
+  const sentAt = new Date(message.createdAt).getTime();
+
+  return participants.filter(participant =>
+    participant.userId !== message.senderId &&
+    participant.userId !== currentUserId &&
+    !!participant.readReceiptAt &&
+    new Date(participant.readReceiptAt).getTime() >= sentAt
+  );
+}
+
+/**
+ * Describes who has read a message
+ *
+ * @param message - The message
+ * @param participants - The conversation's active participants
+ * @param currentUserId - The current user's ID
+ * @param isDirect - Whether the conversation is a direct chat
+ * @returns Text such as "Seen", "Seen by everyone" or "Seen by Alex, Sam", or null if nobody has read it
+ */
+export function getSeenByText(
+  message: Pick<MessageWithSender, 'senderId' | 'createdAt'>,
+  participants: ConversationParticipant[],
+  currentUserId: string,
+  isDirect: boolean
+): string | null {
+  const readers = getMessageReaders(message, participants, currentUserId);
+  if (readers.length === 0) return null;
+  if (isDirect) return 'Seen';
+
+  const possibleReaders = participants.filter(participant =>
+    participant.userId !== message.senderId && participant.userId !== currentUserId
+  );
+  if (readers.length === possibleReaders.length) return 'Seen by everyone';
+
+  const names = readers
+    .slice(0, MAX_LISTED_READERS)
+    .map(reader => reader.user.fullName || reader.user.username || 'Unknown User');
+  const remaining = readers.length - names.length;
+
+  return `Seen by ${names.join(', ')}${remaining > 0 ? ` +${remaining}` : ''}`;
+}
@@ -0,0 +1,305 @@
+/**
+ * @file Scheduling conflict analysis for itinerary activities
+ * Flags overlapping activities, activities outside the itinerary's dates and transitions
+ * that leave too little time to travel, and plans time adjustments that resolve them
+ */
+
+import type { Activity } from '@/types/activities';
+import type { Itinerary } from '@/types/itineraries';
+import { groupActivitiesByDay } from './dateHelpers';
+
+export const MINUTE_MS = 60 * 1000;
+const EARTH_RADIUS_KM = 6371;
+
+/** Distances up to this are walked; anything longer uses transit */
+const MAX_WALKING_KM = 1.5;
+const WALKING_SPEED_KMH = 4.8;
+const TRANSIT_SPEED_KMH = 20;
+/** Fixed allowance for getting to a stop and waiting when taking transit */
+const TRANSIT_OVERHEAD_MINUTES = 8;
+
+/**
+ * Distance below which two activities are treated as being in the same place
+ */
+const SAME_PLACE_KM = 0.2;
+
+/**
+ * Granularity that auto-fixed and planned times are rounded up to
+ */
+const ROUND_TO_MINUTES = 5;
+
+export type TravelMode = 'walk' | 'transit';
+
+/**
+ * Estimated travel from one activity to another
+ */
+export interface TravelEstimate {
+  distanceKm: number;
+  minutes: number;
+  mode: TravelMode;
+}
+
+export type ScheduleConflictType = 'overlap' | 'out_of_range' | 'impossible_transition';
+
+/**
+ * A single scheduling problem affecting an activity
+ */
+export interface ScheduleConflict {
+  type: ScheduleConflictType;
+  activityId: string;
+  /** The other activity involved in an overlap or transition */
+  relatedActivityId?: string;
+  /** Short human-readable description for badges */
+  message: string;
+}
+
+/**
+ * Result of analyzing an itinerary's schedule
+ */
+export interface ScheduleAnalysis {
+  conflicts: ScheduleConflict[];
+  /** Conflicts keyed by the affected activity's id */
+  byActivity: Record<string, ScheduleConflict[]>;
+  /** Day keys (YYYY-MM-DD, as used by `groupActivitiesByDay`) that have at least one conflict */
+  conflictedDays: Set<string>;
+}
+
+/**
+ * How auto-fix rearranges a day:
+ * - `shift` only pushes activities later when they collide with the one before
+ * - `compact` packs the day back to back, keeping just the travel time between activities
+ */
+export type ScheduleFixMode = 'shift' | 'compact';
+
+/**
+ * New times for an activity produced by auto-fix
+ */
+export interface ScheduleAdjustment {
+  activityId: string;
+  start_time: string;
+  end_time: string | null;
+}
+
+/**
+ * Auto-fix's plan for a day
+ */
+export interface ScheduleFixPlan {
+  /** New times for the activities whose times change */
+  adjustments: ScheduleAdjustment[];
+  /** False when fixing the day would push an activity past the end of the day or the trip; no adjustments are returned */
+  feasible: boolean;
+}
+
+type Range = Pick<Itinerary, 'start_time' | 'end_time'>;
+
+/**
+ * Calculates the great-circle distance between two [lat, lng] points in kilometres
+ */
+export function distanceKm(from: [number, number], to: [number, number]): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to[0] - from[0]);
+  const dLng = toRadians(to[1] - from[1]);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from[0])) * Math.cos(toRadians(to[0])) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Estimates how long it takes to get from one activity to another, walking short distances and
+ * taking transit otherwise
+ *
+ * @returns The travel estimate, or null if either activity has no coordinates
+ */
+export function estimateTravel(from: Activity, to: Activity): TravelEstimate | null {
+  if (!from.gps_coords || !to.gps_coords) return null;
+
+  const km = distanceKm(from.gps_coords, to.gps_coords);
+  const mode: TravelMode = km <= MAX_WALKING_KM ? 'walk' : 'transit';
+  let minutes = 0;
+  if (mode === 'transit') {
+    minutes = Math.ceil((km / TRANSIT_SPEED_KMH) * 60) + TRANSIT_OVERHEAD_MINUTES;
+  } else if (km >= SAME_PLACE_KM) {
+    minutes = Math.ceil((km / WALKING_SPEED_KMH) * 60);
+  }
+
+  return { distanceKm: km, minutes, mode };
+}
+
+/**
+ * Estimates the minutes needed to travel between two activities, or 0 if either has no coordinates
+ */
+export function estimateTravelMinutes(from: Activity, to: Activity): number {
+  return estimateTravel(from, to)?.minutes ?? 0;
+}
+
+/**
+ * Gets an activity's start and end in milliseconds; activities without an end time are treated as instants
+ */
+function getTimes(activity: Activity): { start: number; end: number } {
+  const start = new Date(activity.start_time!).getTime();
+  const end = activity.end_time ? new Date(activity.end_time).getTime() : start;
+  return { start, end: Math.max(start, end) };
+}
+
+/**
+ * Gets the itinerary's bounds in milliseconds, widened to whole local days since itinerary dates are picked by day
+ */
+function getItineraryBounds(itinerary: Range): { start: number | null; end: number | null } {
+  const start = itinerary.start_time ? new Date(itinerary.start_time) : null;
+  const end = itinerary.end_time ? new Date(itinerary.end_time) : null;
+  start?.setHours(0, 0, 0, 0);
+  end?.setHours(23, 59, 59, 999);
+  return { start: start?.getTime() ?? null, end: end?.getTime() ?? null };
+}
+
+function formatMinutes(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest ? `${hours}h ${rest}m` : `${hours}h`;
+}
+
+/**
+ * Rounds a time in milliseconds up to the next 5-minute step
+ */
+export function roundUpToStep(ms: number): number {
+  const step = ROUND_TO_MINUTES * MINUTE_MS;
+  return Math.ceil(ms / step) * step;
+}
+
+/**
+ * Finds overlapping activities, activities outside the itinerary's dates, and back-to-back
+ * activities that are too far apart to travel between in the time available
+ *
+ * @param activities - All activities in the itinerary; unscheduled ones are ignored
+ * @param itinerary - The itinerary whose dates bound the schedule
+ * @returns Conflicts, both as a flat list and grouped by activity and day
+ */
+export function analyzeScheduleConflicts(activities: Activity[], itinerary: Range): ScheduleAnalysis {
+  const conflicts: ScheduleConflict[] = [];
+  const bounds = getItineraryBounds(itinerary);
+  const titles = new Map(activities.map(activity => [activity.id, activity.title]));
+
+  const scheduled = activities
+    .filter(activity => activity.start_time)
+    .sort((a, b) => getTimes(a).start - getTimes(b).start);
+
+  // Out of range
+  scheduled.forEach(activity => {
+    const { start, end } = getTimes(activity);
+    if ((bounds.start !== null && start < bounds.start) || (bounds.end !== null && end > bounds.end)) {
+      conflicts.push({
+        type: 'out_of_range',
+        activityId: activity.id,
+        message: 'Outside trip dates',
+      });
+    }
+  });
+
+  // Overlaps; sorted by start, so each activity only needs checking against the ones after it
+  scheduled.forEach((activity, index) => {
+    const { end } = getTimes(activity);
+    for (const other of scheduled.slice(index + 1)) {
+      const otherTimes = getTimes(other);
+      if (otherTimes.start >= end) break;
+      conflicts.push(
+        { type: 'overlap', activityId: activity.id, relatedActivityId: other.id, message: `Overlaps ${other.title}` },
+        { type: 'overlap', activityId: other.id, relatedActivityId: activity.id, message: `Overlaps ${activity.title}` }
+      );
+    }
+  });
+
+  // Impossible transitions between consecutive, non-overlapping activities
+  scheduled.slice(1).forEach((activity, index) => {
+    const previous = scheduled[index];
+    const gapMinutes = (getTimes(activity).start - getTimes(previous).end) / MINUTE_MS;
+    if (gapMinutes < 0) return;
+
+    const travelMinutes = estimateTravelMinutes(previous, activity);
+    if (travelMinutes > gapMinutes) {
+      conflicts.push({
+        type: 'impossible_transition',
+        activityId: activity.id,
+        relatedActivityId: previous.id,
+        message: `~${formatMinutes(travelMinutes)} from ${titles.get(previous.id)}`,
+      });
+    }
+  });
+
+  const byActivity: Record<string, ScheduleConflict[]> = {};
+  const conflictedDays = new Set<string>();
+  const dayByActivity = new Map<string, string>();
+  Object.entries(groupActivitiesByDay(scheduled)).forEach(([dateKey, dayActivities]) => {
+    dayActivities.forEach(activity => dayByActivity.set(activity.id, dateKey));
+  });
+
+  conflicts.forEach(conflict => {
+    (byActivity[conflict.activityId] ||= []).push(conflict);
+    const dateKey = dayByActivity.get(conflict.activityId);
+    if (dateKey) conflictedDays.add(dateKey);
+  });
+
+  return { conflicts, byActivity, conflictedDays };
+}
+
+/**
+ * Plans new times for one day's activities so that none overlap and each leaves enough time
+ * to travel to the next. Durations are preserved; activities starting before the itinerary
+ * are moved to its first day's start. Moved activities must still end on the same day and
+ * within the itinerary's dates, otherwise the day cannot be fixed.
+ *
+ * @param dayActivities - The scheduled activities of a single day
+ * @param itinerary - The itinerary whose dates bound the schedule
+ * @param mode - Whether to only push activities later or to pack the whole day
+ * @returns The adjustments for the activities whose times change, or an infeasible plan
+ */
+export function planScheduleFix(
+  dayActivities: Activity[],
+  itinerary: Range,
+  mode: ScheduleFixMode = 'shift'
+): ScheduleFixPlan {
+  const bounds = getItineraryBounds(itinerary);
+  const scheduled = dayActivities
+    .filter(activity => activity.start_time)
+    .sort((a, b) => getTimes(a).start - getTimes(b).start);
+
+  const adjustments: ScheduleAdjustment[] = [];
+  let previous: { activity: Activity; end: number } | null = null;
+  let latestEnd = bounds.end ?? Infinity;
+
+  for (const activity of scheduled) {
+    const { start, end } = getTimes(activity);
+    const duration = end - start;
+
+    let newStart = start;
+    if (previous) {
+      const earliest = roundUpToStep(previous.end + estimateTravelMinutes(previous.activity, activity) * MINUTE_MS);
+      newStart = mode === 'compact' ? earliest : Math.max(start, earliest);
+    } else if (bounds.start !== null && start < bounds.start) {
+      newStart = bounds.start;
+    }
+
+    if (!previous) {
+      // The day ends at midnight after the first activity's (possibly moved) start
+      const dayEnd = new Date(newStart);
+      dayEnd.setHours(23, 59, 59, 999);
+      latestEnd = Math.min(latestEnd, dayEnd.getTime());
+    }
+
+    if (newStart !== start) {
+      if (newStart + duration > latestEnd) {
+        return { adjustments: [], feasible: false };
+      }
+      adjustments.push({
+        activityId: activity.id,
+        start_time: new Date(newStart).toISOString(),
+        end_time: activity.end_time ? new Date(newStart + duration).toISOString() : null,
+      });
+    }
+
+    previous = { activity, end: newStart + duration };
+  }
+
+  return { adjustments, feasible: true };
+}
@@ -0,0 +1,161 @@
+/**
+ * @file Authentication and authorization for server routes
+ * Verifies the caller's Supabase JWT, creates clients for the server runtime and checks that
+ * itineraries and activities named in a request body are ones the caller may edit.
+ */
+
+import type { Activity } from '@/types/activities';
+import type { Itinerary, ItineraryRole } from '@/types/itineraries';
+import { createClient, type SupabaseClient, type User } from '@supabase/supabase-js';
+
+/**
+ * Error for a request the caller is not allowed to make; `status` is the HTTP status to respond with
+ */
+export class ServerAuthError extends Error {
+  constructor(message: string, public status: 401 | 403 | 404) {
+    super(message);
+    this.name = 'ServerAuthError';
+  }
+}
+
+/**
+ * An authenticated caller
+ */
+export interface AuthenticatedRequest {
+  user: User;
+  /** Client acting as the caller, so row level security applies */
+  supabase: SupabaseClient;
+}
+
+const EDITOR_ROLES: ItineraryRole[] = ['owner', 'editor'];
+
+/**
+ * Extracts the access token from a `Bearer` Authorization header
+ */
+export function getBearerToken(authHeader: string | null): string | null {
+  const match = authHeader?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * Creates a _stateless_ client acting as the owner of an access token. With both `persistSession`
+ * and `autoRefreshToken` disabled, the auth library does **not** read from `AsyncStorage`
+ * (which relies on a `window` global) in the Node/Expo "server" runtime.
+ */
+export function createSupabaseClientForServer(accessToken: string): SupabaseClient {
+  return createClient(
+    process.env.EXPO_PUBLIC_SUPABASE_URL!,
+    process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+      global: {
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
+      },
+    }
+  );
+}
+
+/**
+ * Creates a stateless client using the service role, which bypasses row level security
+ */
+export function createSupabaseAdminClient(): SupabaseClient {
+  return createClient(
+    process.env.EXPO_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_KEY!,
+    {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+    }
+  );
+}
+
+/**
+ * Verifies the request's access token with Supabase Auth
+ *
+ * @throws {ServerAuthError} 401 when the token is missing, invalid or expired
+ */
+export async function authenticateRequest(req: Request): Promise<AuthenticatedRequest> {
+  const accessToken = getBearerToken(req.headers.get('Authorization'));
+  if (!accessToken) {
+    throw new ServerAuthError('Unauthorized', 401);
+  }
+
+  const supabase = createSupabaseClientForServer(accessToken);
+  const { data: { user }, error } = await supabase.auth.getUser(accessToken);
+  if (error || !user) {
+    throw new ServerAuthError('Unauthorized', 401);
+  }
+
+  return { user, supabase };
+}
+
+/**
+ * Loads an itinerary the caller owns or edits, so the request uses the stored itinerary rather
+ * than whatever the body claims
+ *
+ * @param supabase - Client acting as the caller
+ * @throws {ServerAuthError} 404 when the itinerary does not exist or is not shared with the caller,
+ * 403 when the caller may only view it
+ */
+export async function authorizeItineraryEdit(
+  supabase: SupabaseClient,
+  itineraryId: string | undefined
+): Promise<Itinerary> {
+  if (!itineraryId) {
+    throw new ServerAuthError('Itinerary not found', 404);
+  }
+
+  // Row level security only returns itineraries shared with the caller
+  const { data: itinerary, error } = await supabase
+    .from('itineraries')
+    .select('*')
+    .eq('id', itineraryId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!itinerary) {
+    throw new ServerAuthError('Itinerary not found', 404);
+  }
+
+  const { data: role, error: roleError } = await supabase.rpc('get_itinerary_role', { p_itinerary_id: itineraryId });
+  if (roleError) throw roleError;
+  if (!EDITOR_ROLES.includes(role)) {
+    throw new ServerAuthError('You do not have permission to edit this itinerary', 403);
+  }
+
+  return { ...itinerary, role } as Itinerary;
+}
+
+/**
+ * Checks that an activity in a request belongs to the itinerary it is sent with. Activities
+ * without an id are drafts that have not been saved yet.
+ *
+ * @param supabase - Client acting as the caller
+ * @throws {ServerAuthError} 404 when the activity does not exist in the itinerary
+ */
+export async function authorizeActivityEdit(
+  supabase: SupabaseClient,
+  activity: Partial<Activity>,
+  itinerary: Itinerary
+): Promise<void> {
+  if (!activity.id) return;
+
+  const { data, error } = await supabase
+    .from('activities')
+    .select('id')
+    .eq('id', activity.id)
+    .eq('itinerary_id', itinerary.id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) {
+    throw new ServerAuthError('Activity not found', 404);
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * @file Descriptions of the system messages that announce changes to a conversation
+ */
+
+import type { SystemMessageEvent, SystemMessageUser } from '@/api/messages';
+import { describeMessageExpiryChange } from './messageExpiry';
+
+/**
+ * Joins names into a readable list, e.g. "Ana, Ben and Cam"
+ */
+function joinNames(names: string[]): string {
+  if (names.length <= 1) {
+    return names[0] || 'someone';
+  }
+
+  return `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+}
+
+/**
+ * Describes a system message
+ *
+ * @param event - The change the message announces
+ * @param actorName - Who made the change, e.g. "You" or the participant's name
+ * @param currentUserId - The current user's ID, so they are called "you" when the change is about them
+ * @returns Description such as "Ana added Ben and Cam"
+ */
+export function describeSystemMessage(
+  event: SystemMessageEvent,
+  actorName: string,
+  currentUserId?: string
+): string {
+  const nameOf = (user: SystemMessageUser) => (user.id === currentUserId ? 'you' : user.name);
+
+  switch (event.event) {
+    case 'message_expiry_changed':
+      return describeMessageExpiryChange(event.expiry, actorName);
+    case 'participants_added':
+      return `${actorName} added ${joinNames(event.users.map(nameOf))}`;
+    case 'participant_removed':
+      return `${actorName} removed ${nameOf(event.user)}`;
+    case 'participant_left':
+      return `${actorName} left the group`;
+    case 'participant_role_changed':
+      return event.role === 'admin'
+        ? `${actorName} made ${nameOf(event.user)} an admin`
+        : `${actorName} removed ${nameOf(event.user)} as an admin`;
+    case 'conversation_renamed':
+      return `${actorName} renamed the group to "${event.title}"`;
+    case 'conversation_avatar_changed':
+      return event.removed
+        ? `${actorName} removed the group photo`
+        : `${actorName} changed the group photo`;
+  }
+}
@@ -0,0 +1,295 @@
+-- =============================================
+-- ITINERARY_MEMBERS TABLE
+-- =============================================
+
+-- Create itinerary members table - shares an itinerary with other users
+-- Roles: 'owner' (full control), 'editor' (can edit itinerary and activities), 'viewer' (read-only)
+-- Status: 'pending' (invited, not yet accepted), 'accepted'
+CREATE TABLE IF NOT EXISTS "public"."itinerary_members" (
+    "itinerary_id" "uuid" NOT NULL,
+    "user_id" "uuid" NOT NULL,
+    "role" "text" DEFAULT 'viewer'::"text" NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+    "status" "text" DEFAULT 'pending'::"text" NOT NULL CHECK (status IN ('pending', 'accepted')),
+    "invited_by" "uuid",
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL
+);
+
+-- Primary key
+ALTER TABLE ONLY "public"."itinerary_members"
+    ADD CONSTRAINT "itinerary_members_itinerary_id_user_id_pk" PRIMARY KEY ("itinerary_id", "user_id");
+
+-- Foreign keys
+ALTER TABLE ONLY "public"."itinerary_members"
+    ADD CONSTRAINT "itinerary_members_itinerary_id_itineraries_id_fk" FOREIGN KEY ("itinerary_id") REFERENCES "public"."itineraries"("id") ON DELETE CASCADE;
+
+ALTER TABLE ONLY "public"."itinerary_members"
+    ADD CONSTRAINT "itinerary_members_user_id_profiles_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."profiles"("id") ON DELETE CASCADE;
+
+ALTER TABLE ONLY "public"."itinerary_members"
+    ADD CONSTRAINT "itinerary_members_invited_by_profiles_id_fk" FOREIGN KEY ("invited_by") REFERENCES "public"."profiles"("id") ON DELETE SET NULL;
+
+-- Indexes
+CREATE INDEX "itinerary_members_user_id_idx" ON "public"."itinerary_members" USING "btree" ("user_id");
+CREATE INDEX "itinerary_members_status_idx" ON "public"."itinerary_members" USING "btree" ("status");
+
+-- =============================================
+-- FUNCTIONS
+-- =============================================
+
+-- Returns the current user's accepted role on an itinerary, or NULL if they are not a member.
+-- SECURITY DEFINER so policies on itineraries/activities/itinerary_members can call it
+-- without recursing into the itinerary_members RLS policies.
+CREATE OR REPLACE FUNCTION public.get_itinerary_role(p_itinerary_id uuid)
+RETURNS text AS $$
+  SELECT role
+  FROM public.itinerary_members
+  WHERE itinerary_id = p_itinerary_id
+    AND user_id = (SELECT auth.uid())
+    AND status = 'accepted';
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
+
+-- Returns true if the current user has a pending invite to an itinerary
+CREATE OR REPLACE FUNCTION public.has_itinerary_invite(p_itinerary_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.itinerary_members
+    WHERE itinerary_id = p_itinerary_id
+      AND user_id = (SELECT auth.uid())
+      AND status = 'pending'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
+
+-- Accepts the current user's pending invite to an itinerary. Invitees cannot update their
+-- membership directly, so accepting keeps the role the owner invited them with.
+CREATE OR REPLACE FUNCTION public.accept_itinerary_invite(p_itinerary_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF (SELECT auth.uid()) IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE public.itinerary_members
+  SET status = 'accepted'
+  WHERE itinerary_id = p_itinerary_id
+    AND user_id = (SELECT auth.uid())
+    AND status = 'pending';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invite not found';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+REVOKE EXECUTE ON FUNCTION public.accept_itinerary_invite(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.accept_itinerary_invite(uuid) TO authenticated;
+
+-- Adds the creator of an itinerary as its owner
+CREATE OR REPLACE FUNCTION public.add_itinerary_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.itinerary_members (itinerary_id, user_id, role, status, invited_by)
+  VALUES (NEW.id, NEW.created_by, 'owner', 'accepted', NEW.created_by);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Trigger to add the owner membership when an itinerary is created
+CREATE TRIGGER add_itinerary_owner_on_insert
+AFTER INSERT ON public.itineraries
+FOR EACH ROW
+EXECUTE FUNCTION public.add_itinerary_owner();
+
+CREATE TRIGGER "update_itinerary_members_updated_at"
+BEFORE UPDATE ON "public"."itinerary_members"
+FOR EACH ROW EXECUTE FUNCTION "public"."update_updated_at_column"();
+
+-- Owners can only change a member's role; the only other change users can make is accepting
+-- their own invite through accept_itinerary_invite()
+CREATE OR REPLACE FUNCTION public.protect_itinerary_member()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (SELECT auth.uid()) IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.itinerary_id IS DISTINCT FROM OLD.itinerary_id
+    OR NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.invited_by IS DISTINCT FROM OLD.invited_by
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'Only a member''s role can be changed';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status AND NOT (
+    OLD.status = 'pending'
+    AND NEW.status = 'accepted'
+    AND NEW.role = OLD.role
+    AND NEW.user_id = (SELECT auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Only a member''s role can be changed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = '';
+
+CREATE TRIGGER protect_itinerary_member
+BEFORE UPDATE ON public.itinerary_members
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_itinerary_member();
+
+-- The creator stays the owner: editors could otherwise make themselves the creator
+CREATE OR REPLACE FUNCTION public.protect_itinerary_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.created_by IS DISTINCT FROM OLD.created_by AND (SELECT auth.uid()) IS NOT NULL THEN
+    RAISE EXCEPTION 'The owner of an itinerary cannot be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = '';
+
+CREATE TRIGGER protect_itinerary_owner
+BEFORE UPDATE OF created_by ON public.itineraries
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_itinerary_owner();
+
+-- Create owner memberships for existing itineraries
+INSERT INTO public.itinerary_members (itinerary_id, user_id, role, status, invited_by)
+SELECT id, created_by, 'owner', 'accepted', created_by FROM public.itineraries
+ON CONFLICT DO NOTHING;
+
+-- =============================================
+-- ROW LEVEL SECURITY
+-- =============================================
+
+ALTER TABLE "public"."itinerary_members" ENABLE ROW LEVEL SECURITY;
+
+-- Itinerary members RLS Policies
+
+-- Members can see everyone on their itineraries, invitees can see their own invite
+CREATE POLICY "Users can view members of their itineraries"
+ON "public"."itinerary_members"
+FOR SELECT
+TO "authenticated"
+USING (
+    "user_id" = (SELECT "auth"."uid"()) OR
+    "public"."get_itinerary_role"("itinerary_id") IS NOT NULL
+);
+
+-- Owners can invite their friends as editors or viewers
+CREATE POLICY "Owners can invite friends to their itineraries"
+ON "public"."itinerary_members"
+FOR INSERT
+TO "authenticated"
+WITH CHECK (
+    "public"."get_itinerary_role"("itinerary_id") = 'owner' AND
+    "invited_by" = (SELECT "auth"."uid"()) AND
+    "role" IN ('editor', 'viewer') AND
+    "status" = 'pending' AND
+    EXISTS (
+        SELECT 1 FROM "public"."friends"
+        WHERE "friends"."user_id" = (SELECT "auth"."uid"())
+        AND "friends"."friend_id" = "itinerary_members"."user_id"
+    )
+);
+
+-- Owners can change the role of other members
+CREATE POLICY "Owners can update member roles"
+ON "public"."itinerary_members"
+FOR UPDATE
+TO "authenticated"
+USING (
+    "public"."get_itinerary_role"("itinerary_id") = 'owner' AND
+    "user_id" <> (SELECT "auth"."uid"())
+)
+WITH CHECK (
+    "public"."get_itinerary_role"("itinerary_id") = 'owner' AND
+    "role" IN ('editor', 'viewer')
+);
+
+-- Invitees accept their own pending invite through accept_itinerary_invite()
+
+-- Owners can remove members, members can leave (or decline an invite), owners cannot leave
+CREATE POLICY "Users can remove members or leave itineraries"
+ON "public"."itinerary_members"
+FOR DELETE
+TO "authenticated"
+USING (
+    "role" <> 'owner' AND (
+        "user_id" = (SELECT "auth"."uid"()) OR
+        "public"."get_itinerary_role"("itinerary_id") = 'owner'
+    )
+);
+
+-- Itineraries RLS Policies (replace owner-only policies with membership-based ones)
+
+DROP POLICY IF EXISTS "Users can view their own itineraries" ON "public"."itineraries";
+DROP POLICY IF EXISTS "Users can update their own itineraries" ON "public"."itineraries";
+DROP POLICY IF EXISTS "Users can delete their own itineraries" ON "public"."itineraries";
+
+-- Members can view itineraries, invitees can view the itinerary they were invited to
+CREATE POLICY "Members can view their itineraries"
+ON "public"."itineraries"
+FOR SELECT
+TO "authenticated"
+USING (
+    "created_by" = (SELECT "auth"."uid"()) OR
+    "public"."get_itinerary_role"("id") IS NOT NULL OR
+    "public"."has_itinerary_invite"("id")
+);
+
+-- Owners and editors can update itineraries
+CREATE POLICY "Owners and editors can update itineraries"
+ON "public"."itineraries"
+FOR UPDATE
+TO "authenticated"
+USING ("public"."get_itinerary_role"("id") IN ('owner', 'editor'))
+WITH CHECK ("public"."get_itinerary_role"("id") IN ('owner', 'editor'));
+
+-- Only owners can delete itineraries
+CREATE POLICY "Owners can delete itineraries"
+ON "public"."itineraries"
+FOR DELETE
+TO "authenticated"
+USING ("public"."get_itinerary_role"("id") = 'owner');
+
+-- Activities RLS Policies (replace owner-only policies with membership-based ones)
+
+DROP POLICY IF EXISTS "Users can view activities from their itineraries" ON "public"."activities";
+DROP POLICY IF EXISTS "Users can create activities in their itineraries" ON "public"."activities";
+DROP POLICY IF EXISTS "Users can update activities in their itineraries" ON "public"."activities";
+DROP POLICY IF EXISTS "Users can delete activities from their itineraries" ON "public"."activities";
+
+-- Members of any role can view activities
+CREATE POLICY "Members can view activities from their itineraries"
+ON "public"."activities"
+FOR SELECT
+TO "authenticated"
+USING ("public"."get_itinerary_role"("itinerary_id") IS NOT NULL);
+
+-- Owners and editors can create activities
+CREATE POLICY "Owners and editors can create activities"
+ON "public"."activities"
+FOR INSERT
+TO "authenticated"
+WITH CHECK (
+    "created_by" = (SELECT "auth"."uid"()) AND
+    "public"."get_itinerary_role"("itinerary_id") IN ('owner', 'editor')
+);
+
+-- Owners and editors can update activities
+CREATE POLICY "Owners and editors can update activities"
+ON "public"."activities"
+FOR UPDATE
+TO "authenticated"
+USING ("public"."get_itinerary_role"("itinerary_id") IN ('owner', 'editor'))
+WITH CHECK ("public"."get_itinerary_role"("itinerary_id") IN ('owner', 'editor'));
+
+-- Owners and editors can delete activities
+CREATE POLICY "Owners and editors can delete activities"
+ON "public"."activities"
+FOR DELETE
+TO "authenticated"
+USING ("public"."get_itinerary_role"("itinerary_id") IN ('owner', 'editor'));
@@ -0,0 +1,7 @@
+-- Enable realtime for itineraries, activities and itinerary members
+-- This migration lets co-planners see each other's edits live
+
+-- Add tables to the publication
+ALTER PUBLICATION supabase_realtime ADD TABLE itineraries;
+ALTER PUBLICATION supabase_realtime ADD TABLE activities;
+ALTER PUBLICATION supabase_realtime ADD TABLE itinerary_members;
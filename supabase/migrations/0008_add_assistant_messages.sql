@@ -0,0 +1,63 @@
+-- =============================================
+-- ASSISTANT_MESSAGES TABLE
+-- =============================================
+
+-- Create assistant messages table - each user's persistent conversation with the AI trip assistant
+-- Roles follow the chat completions format: 'user', 'assistant' (may carry tool calls), 'tool' (a tool call's result)
+-- Tool messages for changes to itineraries carry the proposed action and its confirmation status:
+-- 'pending' (awaiting the user), 'applied', 'declined', 'failed'
+CREATE TABLE IF NOT EXISTS "public"."assistant_messages" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "user_id" "uuid" NOT NULL,
+    "role" "text" NOT NULL CHECK (role IN ('user', 'assistant', 'tool')),
+    "content" "text",
+    "tool_calls" "jsonb",
+    "tool_call_id" "text",
+    "action" "jsonb",
+    "action_status" "text" CHECK (action_status IN ('pending', 'applied', 'declined', 'failed')),
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL
+);
+
+-- Primary key
+ALTER TABLE ONLY "public"."assistant_messages"
+    ADD CONSTRAINT "assistant_messages_pkey" PRIMARY KEY ("id");
+
+-- Foreign keys
+ALTER TABLE ONLY "public"."assistant_messages"
+    ADD CONSTRAINT "assistant_messages_user_id_profiles_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."profiles"("id") ON DELETE CASCADE;
+
+-- Indexes
+CREATE INDEX "assistant_messages_user_created_at_idx" ON "public"."assistant_messages" USING "btree" ("user_id", "created_at");
+
+-- =============================================
+-- ROW LEVEL SECURITY
+-- =============================================
+
+ALTER TABLE "public"."assistant_messages" ENABLE ROW LEVEL SECURITY;
+
+-- Users can only see their own assistant conversation
+CREATE POLICY "Users can view their assistant messages"
+ON "public"."assistant_messages"
+FOR SELECT
+TO "authenticated"
+USING ("user_id" = (SELECT "auth"."uid"()));
+
+CREATE POLICY "Users can create their assistant messages"
+ON "public"."assistant_messages"
+FOR INSERT
+TO "authenticated"
+WITH CHECK ("user_id" = (SELECT "auth"."uid"()));
+
+-- Updates record the outcome of confirming or declining a proposed change
+CREATE POLICY "Users can update their assistant messages"
+ON "public"."assistant_messages"
+FOR UPDATE
+TO "authenticated"
+USING ("user_id" = (SELECT "auth"."uid"()))
+WITH CHECK ("user_id" = (SELECT "auth"."uid"()));
+
+CREATE POLICY "Users can delete their assistant messages"
+ON "public"."assistant_messages"
+FOR DELETE
+TO "authenticated"
+USING ("user_id" = (SELECT "auth"."uid"()));
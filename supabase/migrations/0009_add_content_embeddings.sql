@@ -0,0 +1,256 @@
+-- =============================================
+-- PGVECTOR
+-- =============================================
+
+CREATE EXTENSION IF NOT EXISTS "vector" WITH SCHEMA "extensions";
+
+-- =============================================
+-- STORY CAPTIONS
+-- =============================================
+
+-- Captions are drawn onto story photos; keep the text too so stories can be searched
+ALTER TABLE "public"."story_contents" ADD COLUMN IF NOT EXISTS "caption" "text";
+
+-- =============================================
+-- COMMUNITY SHARING
+-- =============================================
+
+-- Itineraries are private to their members; owners opt in to letting other travelers'
+-- AI suggestions draw on the itinerary and its activities
+ALTER TABLE "public"."itineraries" ADD COLUMN IF NOT EXISTS "share_with_community" boolean DEFAULT false NOT NULL;
+
+-- =============================================
+-- CONTENT_EMBEDDINGS TABLE
+-- =============================================
+
+-- Create content embeddings table - searchable text from activities, itineraries and story captions
+-- Rows are kept in sync with their source by triggers; "embedding" is cleared whenever "content"
+-- changes and filled in by the AI server route before it searches
+-- Only titles, descriptions, locations, tags and captions are indexed - never times or members
+-- Itineraries and activities are only indexed while the itinerary is shared with the community;
+-- story captions are indexed because stories are visible to everyone
+CREATE TABLE IF NOT EXISTS "public"."content_embeddings" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "source_type" "text" NOT NULL CHECK (source_type IN ('activity', 'itinerary', 'story')),
+    "source_id" "uuid" NOT NULL,
+    "user_id" "uuid" NOT NULL,
+    "itinerary_id" "uuid",
+    "content" "text" NOT NULL,
+    "embedding" "extensions"."vector"(1536),
+    "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL
+);
+
+-- Primary key
+ALTER TABLE ONLY "public"."content_embeddings"
+    ADD CONSTRAINT "content_embeddings_pkey" PRIMARY KEY ("id");
+
+-- Unique constraint - one row per source
+ALTER TABLE ONLY "public"."content_embeddings"
+    ADD CONSTRAINT "content_embeddings_source_unique" UNIQUE ("source_type", "source_id");
+
+-- Foreign keys
+ALTER TABLE ONLY "public"."content_embeddings"
+    ADD CONSTRAINT "content_embeddings_user_id_profiles_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."profiles"("id") ON DELETE CASCADE;
+
+ALTER TABLE ONLY "public"."content_embeddings"
+    ADD CONSTRAINT "content_embeddings_itinerary_id_itineraries_id_fk" FOREIGN KEY ("itinerary_id") REFERENCES "public"."itineraries"("id") ON DELETE CASCADE;
+
+-- Indexes
+CREATE INDEX "content_embeddings_embedding_idx" ON "public"."content_embeddings" USING "hnsw" ("embedding" "extensions"."vector_cosine_ops");
+CREATE INDEX "content_embeddings_pending_idx" ON "public"."content_embeddings" USING "btree" ("updated_at") WHERE "embedding" IS NULL;
+
+-- =============================================
+-- ROW LEVEL SECURITY
+-- =============================================
+
+-- No policies: rows hold other users' content, so users only reach them through
+-- match_community_content() and the server indexes them with the service role
+ALTER TABLE "public"."content_embeddings" ENABLE ROW LEVEL SECURITY;
+
+-- =============================================
+-- FUNCTIONS
+-- =============================================
+
+-- Creates or refreshes the searchable content for a source, clearing the embedding if the text changed.
+-- Empty content removes the row.
+CREATE OR REPLACE FUNCTION public.upsert_content_embedding(
+  p_source_type text,
+  p_source_id uuid,
+  p_user_id uuid,
+  p_itinerary_id uuid,
+  p_content text
+)
+RETURNS void AS $$
+BEGIN
+  IF p_content IS NULL OR btrim(p_content) = '' THEN
+    DELETE FROM public.content_embeddings
+    WHERE source_type = p_source_type AND source_id = p_source_id;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.content_embeddings (source_type, source_id, user_id, itinerary_id, content)
+  VALUES (p_source_type, p_source_id, p_user_id, p_itinerary_id, p_content)
+  ON CONFLICT (source_type, source_id) DO UPDATE
+  SET content = EXCLUDED.content,
+      user_id = EXCLUDED.user_id,
+      itinerary_id = EXCLUDED.itinerary_id,
+      embedding = CASE
+        WHEN public.content_embeddings.content = EXCLUDED.content THEN public.content_embeddings.embedding
+        ELSE NULL
+      END,
+      updated_at = now();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+-- Gets the searchable text of an activity
+CREATE OR REPLACE FUNCTION public.activity_search_text(p_activity public.activities)
+RETURNS text AS $$
+  SELECT concat_ws(E'\n',
+    p_activity.title,
+    'Location: ' || p_activity.location,
+    p_activity.description,
+    'Tags: ' || NULLIF(array_to_string(p_activity.tags, ', '), '')
+  );
+$$ LANGUAGE sql IMMUTABLE SET search_path = '';
+
+-- Keeps an activity's searchable content in sync; activities of itineraries that are not shared are not indexed
+CREATE OR REPLACE FUNCTION public.sync_activity_content_embedding()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_shared boolean;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM public.content_embeddings WHERE source_type = 'activity' AND source_id = OLD.id;
+    RETURN OLD;
+  END IF;
+
+  SELECT share_with_community INTO v_shared
+  FROM public.itineraries
+  WHERE id = NEW.itinerary_id;
+
+  PERFORM public.upsert_content_embedding(
+    'activity',
+    NEW.id,
+    NEW.created_by,
+    NEW.itinerary_id,
+    CASE WHEN v_shared THEN public.activity_search_text(NEW) END
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+-- Keeps an itinerary's searchable content in sync. Sharing or unsharing an itinerary
+-- indexes or removes its activities too.
+CREATE OR REPLACE FUNCTION public.sync_itinerary_content_embedding()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM public.content_embeddings WHERE source_type = 'itinerary' AND source_id = OLD.id;
+    RETURN OLD;
+  END IF;
+
+  PERFORM public.upsert_content_embedding(
+    'itinerary',
+    NEW.id,
+    NEW.created_by,
+    NEW.id,
+    CASE WHEN NEW.share_with_community THEN concat_ws(E'\n', NEW.title, NEW.description) END
+  );
+
+  IF TG_OP = 'UPDATE' AND NEW.share_with_community IS DISTINCT FROM OLD.share_with_community THEN
+    PERFORM public.upsert_content_embedding(
+      'activity',
+      a.id,
+      a.created_by,
+      a.itinerary_id,
+      CASE WHEN NEW.share_with_community THEN public.activity_search_text(a) END
+    )
+    FROM public.activities a
+    WHERE a.itinerary_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+-- Only the owner decides whether an itinerary is shared with the community
+CREATE OR REPLACE FUNCTION public.protect_itinerary_sharing()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.share_with_community IS DISTINCT FROM OLD.share_with_community
+    AND (SELECT auth.uid()) IS NOT NULL
+    AND public.get_itinerary_role(NEW.id) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only the owner can change whether an itinerary is shared';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = '';
+
+-- Keeps a story caption's searchable content in sync
+CREATE OR REPLACE FUNCTION public.sync_story_content_embedding()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM public.content_embeddings WHERE source_type = 'story' AND source_id = OLD.id;
+    RETURN OLD;
+  END IF;
+
+  PERFORM public.upsert_content_embedding('story', NEW.id, NEW.user_id, NULL, NEW.caption);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+CREATE TRIGGER sync_activity_content_embedding
+AFTER INSERT OR UPDATE OF title, description, location, tags OR DELETE ON public.activities
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_activity_content_embedding();
+
+CREATE TRIGGER sync_itinerary_content_embedding
+AFTER INSERT OR UPDATE OF title, description, share_with_community OR DELETE ON public.itineraries
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_itinerary_content_embedding();
+
+CREATE TRIGGER protect_itinerary_sharing
+BEFORE UPDATE OF share_with_community ON public.itineraries
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_itinerary_sharing();
+
+CREATE TRIGGER sync_story_content_embedding
+AFTER INSERT OR UPDATE OF caption OR DELETE ON public.story_contents
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_story_content_embedding();
+
+-- Finds the content most similar to a query embedding, excluding the current user's own content
+-- and anything from itineraries they are a member of. Only content its owner shared is indexed,
+-- and only the indexed text is returned.
+CREATE OR REPLACE FUNCTION public.match_community_content(
+  query_embedding extensions.vector(1536),
+  match_count integer DEFAULT 8,
+  min_similarity double precision DEFAULT 0.3
+)
+RETURNS TABLE (
+  source_type text,
+  source_id uuid,
+  itinerary_id uuid,
+  content text,
+  similarity double precision
+) AS $$
+  SELECT
+    ce.source_type,
+    ce.source_id,
+    ce.itinerary_id,
+    ce.content,
+    1 - (ce.embedding OPERATOR(extensions.<=>) query_embedding) AS similarity
+  FROM public.content_embeddings ce
+  WHERE ce.embedding IS NOT NULL
+    AND ce.user_id <> (SELECT auth.uid())
+    AND (ce.itinerary_id IS NULL OR public.get_itinerary_role(ce.itinerary_id) IS NULL)
+    AND 1 - (ce.embedding OPERATOR(extensions.<=>) query_embedding) >= min_similarity
+  ORDER BY ce.embedding OPERATOR(extensions.<=>) query_embedding
+  LIMIT least(match_count, 20);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
+
+REVOKE EXECUTE ON FUNCTION public.upsert_content_embedding(text, uuid, uuid, uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.activity_search_text(public.activities) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.match_community_content(extensions.vector, integer, double precision) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.match_community_content(extensions.vector, integer, double precision) TO authenticated;
@@ -0,0 +1,112 @@
+-- =============================================
+-- AI_USAGE TABLE
+-- =============================================
+
+-- Create AI usage ledger - one row per model call made by the AI route, written by the server
+-- Calls made for the same request share a request_id; daily quotas count distinct requests per type
+-- A request is reserved with an empty row before any call is made, so it counts even if it fails
+-- cost_usd is the estimate at the time of the call, so later price changes do not rewrite history
+CREATE TABLE IF NOT EXISTS "public"."ai_usage" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "request_id" "uuid" NOT NULL,
+    "user_id" "uuid" NOT NULL,
+    "request_type" "text" NOT NULL,
+    "provider" "text" NOT NULL,
+    "model" "text" NOT NULL,
+    "input_tokens" integer DEFAULT 0 NOT NULL,
+    "output_tokens" integer DEFAULT 0 NOT NULL,
+    "image_count" integer DEFAULT 0 NOT NULL,
+    "cost_usd" numeric(12, 6) DEFAULT 0 NOT NULL,
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL
+);
+
+-- Primary key
+ALTER TABLE ONLY "public"."ai_usage"
+    ADD CONSTRAINT "ai_usage_pkey" PRIMARY KEY ("id");
+
+-- Foreign keys
+ALTER TABLE ONLY "public"."ai_usage"
+    ADD CONSTRAINT "ai_usage_user_id_profiles_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."profiles"("id") ON DELETE CASCADE;
+
+-- Indexes
+CREATE INDEX "ai_usage_user_type_created_at_idx" ON "public"."ai_usage" USING "btree" ("user_id", "request_type", "created_at");
+
+-- =============================================
+-- ROW LEVEL SECURITY
+-- =============================================
+
+ALTER TABLE "public"."ai_usage" ENABLE ROW LEVEL SECURITY;
+
+-- Users can see their own usage; only the server (service role) records it
+CREATE POLICY "Users can view their AI usage"
+ON "public"."ai_usage"
+FOR SELECT
+TO "authenticated"
+USING ("user_id" = (SELECT "auth"."uid"()));
+
+-- =============================================
+-- FUNCTIONS
+-- =============================================
+
+-- Totals a user's usage per request type since a point in time
+CREATE OR REPLACE FUNCTION public.get_ai_usage_summary(p_user_id uuid, p_since timestamp with time zone)
+RETURNS TABLE (
+  request_type text,
+  request_count bigint,
+  input_tokens bigint,
+  output_tokens bigint,
+  image_count bigint,
+  cost_usd numeric
+) AS $$
+  SELECT
+    u.request_type,
+    count(DISTINCT u.request_id),
+    sum(u.input_tokens),
+    sum(u.output_tokens),
+    sum(u.image_count),
+    sum(u.cost_usd)
+  FROM public.ai_usage u
+  WHERE u.user_id = p_user_id
+    AND u.created_at >= p_since
+  GROUP BY u.request_type;
+$$ LANGUAGE sql STABLE SET search_path = '';
+
+-- Reserves a request against a user's quota for its type, recording an empty usage row if they have requests left.
+-- Reservations for the same user and type are serialized, so concurrent requests cannot all pass the check.
+CREATE OR REPLACE FUNCTION public.reserve_ai_request(
+  p_request_id uuid,
+  p_user_id uuid,
+  p_request_type text,
+  p_provider text,
+  p_limit integer,
+  p_since timestamp with time zone
+)
+RETURNS TABLE (allowed boolean, used bigint) AS $$
+DECLARE
+  v_used bigint;
+BEGIN
+  PERFORM pg_catalog.pg_advisory_xact_lock(pg_catalog.hashtextextended(p_user_id::text || ':' || p_request_type, 0));
+
+  SELECT count(DISTINCT u.request_id) INTO v_used
+  FROM public.ai_usage u
+  WHERE u.user_id = p_user_id
+    AND u.request_type = p_request_type
+    AND u.created_at >= p_since;
+
+  IF v_used >= p_limit THEN
+    RETURN QUERY SELECT false, v_used;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.ai_usage (request_id, user_id, request_type, provider, model)
+  VALUES (p_request_id, p_user_id, p_request_type, p_provider, '');
+
+  RETURN QUERY SELECT true, v_used;
+END;
+$$ LANGUAGE plpgsql SET search_path = '';
+
+-- Only the server reads summaries and reserves requests; users read their own rows through RLS
+REVOKE EXECUTE ON FUNCTION public.get_ai_usage_summary(uuid, timestamp with time zone) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_ai_usage_summary(uuid, timestamp with time zone) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.reserve_ai_request(uuid, uuid, text, text, integer, timestamp with time zone) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reserve_ai_request(uuid, uuid, text, text, integer, timestamp with time zone) TO service_role;
@@ -0,0 +1,162 @@
+-- =============================================
+-- MESSAGE EDITING AND UNSENDING
+-- =============================================
+
+-- edited_at is set when the sender changes a message's text
+-- deleted_at marks a message the sender unsent; its content is cleared for everyone
+ALTER TABLE "public"."messages"
+    ADD COLUMN IF NOT EXISTS "edited_at" timestamp with time zone,
+    ADD COLUMN IF NOT EXISTS "deleted_at" timestamp with time zone;
+
+-- =============================================
+-- HIDDEN_MESSAGES TABLE
+-- =============================================
+
+-- Create hidden messages table - messages a user deleted for themselves only
+CREATE TABLE IF NOT EXISTS "public"."hidden_messages" (
+    "message_id" "uuid" NOT NULL,
+    "user_id" "uuid" NOT NULL,
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL
+);
+
+-- Primary key
+ALTER TABLE ONLY "public"."hidden_messages"
+    ADD CONSTRAINT "hidden_messages_pkey" PRIMARY KEY ("message_id", "user_id");
+
+-- Foreign keys
+ALTER TABLE ONLY "public"."hidden_messages"
+    ADD CONSTRAINT "hidden_messages_message_id_messages_id_fk" FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE CASCADE;
+
+ALTER TABLE ONLY "public"."hidden_messages"
+    ADD CONSTRAINT "hidden_messages_user_id_profiles_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."profiles"("id") ON DELETE CASCADE;
+
+-- Indexes
+CREATE INDEX "hidden_messages_user_id_idx" ON "public"."hidden_messages" USING "btree" ("user_id");
+
+-- =============================================
+-- ROW LEVEL SECURITY
+-- =============================================
+
+ALTER TABLE "public"."hidden_messages" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their hidden messages"
+ON "public"."hidden_messages"
+FOR SELECT
+TO "authenticated"
+USING ("user_id" = (SELECT "auth"."uid"()));
+
+-- Users can only hide messages they can see
+CREATE POLICY "Users can hide messages"
+ON "public"."hidden_messages"
+FOR INSERT
+TO "authenticated"
+WITH CHECK (
+    "user_id" = (SELECT "auth"."uid"()) AND
+    "message_id" IN (SELECT "id" FROM "public"."messages")
+);
+
+-- Messages hidden by the current user are left out everywhere, including realtime
+DROP POLICY IF EXISTS "Users can view messages from their conversations" ON "public"."messages";
+
+CREATE POLICY "Users can view messages from their conversations" 
+ON "public"."messages" 
+FOR SELECT 
+TO "authenticated" 
+USING (
+  ("conversation_id" IN (
+    SELECT "conversation_participants"."conversation_id"
+    FROM "public"."conversation_participants"
+    WHERE (
+      ("conversation_participants"."user_id" = (SELECT "auth"."uid"() AS "uid")) 
+      AND ("conversation_participants"."is_active" = true)
+    )
+  )) 
+  AND ("expires_at" > "now"())
+  AND NOT EXISTS (
+    SELECT 1
+    FROM "public"."hidden_messages"
+    WHERE "hidden_messages"."message_id" = "messages"."id"
+      AND "hidden_messages"."user_id" = (SELECT "auth"."uid"() AS "uid")
+  )
+);
+
+-- =============================================
+-- FUNCTIONS
+-- =============================================
+
+-- Messages stay closed to direct updates ("Users cannot update messages"); these functions are
+-- the only way to change one, so the sender, time window and tombstone rules cannot be bypassed.
+
+-- Replaces the text of the current user's message within 15 minutes of sending it
+CREATE OR REPLACE FUNCTION public.edit_message(p_message_id uuid, p_content text)
+RETURNS public.messages AS $$
+DECLARE
+  v_message public.messages;
+BEGIN
+  IF p_content IS NULL OR btrim(p_content) = '' THEN
+    RAISE EXCEPTION 'Message content cannot be empty';
+  END IF;
+
+  IF char_length(p_content) > 2000 THEN
+    RAISE EXCEPTION 'Message content cannot exceed 2000 characters';
+  END IF;
+
+  SELECT * INTO v_message
+  FROM public.messages
+  WHERE id = p_message_id
+    AND sender_id = (SELECT auth.uid())
+    AND expires_at > now()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  IF v_message.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Unsent messages cannot be edited';
+  END IF;
+
+  IF v_message.type <> 'text' THEN
+    RAISE EXCEPTION 'Only text messages can be edited';
+  END IF;
+
+  IF v_message.created_at < now() - interval '15 minutes' THEN
+    RAISE EXCEPTION 'Messages can only be edited within 15 minutes of sending';
+  END IF;
+
+  UPDATE public.messages
+  SET content = p_content,
+      edited_at = now()
+  WHERE id = p_message_id
+  RETURNING * INTO v_message;
+
+  RETURN v_message;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+-- Unsends the current user's message for everyone, leaving a tombstone in its place
+CREATE OR REPLACE FUNCTION public.unsend_message(p_message_id uuid)
+RETURNS public.messages AS $$
+DECLARE
+  v_message public.messages;
+BEGIN
+  UPDATE public.messages
+  SET content = '',
+      deleted_at = COALESCE(deleted_at, now())
+  WHERE id = p_message_id
+    AND sender_id = (SELECT auth.uid())
+    AND expires_at > now()
+  RETURNING * INTO v_message;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  RETURN v_message;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+REVOKE EXECUTE ON FUNCTION public.edit_message(uuid, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.unsend_message(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.edit_message(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.unsend_message(uuid) TO authenticated;
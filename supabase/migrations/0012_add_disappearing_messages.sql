@@ -0,0 +1,378 @@
+-- =============================================
+-- DISAPPEARING MESSAGE SETTINGS
+-- =============================================
+
+-- How long messages in a conversation last:
+-- view_once - photos can be opened once by each recipient, other messages last 24 hours
+-- 1h, 24h, 7d - messages disappear that long after they are sent
+-- never - messages are kept
+ALTER TABLE "public"."conversations"
+    ADD COLUMN IF NOT EXISTS "message_expiry" "text" DEFAULT '24h'::"text" NOT NULL;
+
+ALTER TABLE ONLY "public"."conversations"
+    ADD CONSTRAINT "conversations_message_expiry_check" CHECK ("message_expiry" IN ('view_once', '1h', '24h', '7d', 'never'));
+
+-- expires_at is now set by the database from the conversation's setting; NULL means never
+-- view_once marks a photo each recipient can open once; its URL is kept in view_once_photos, not content
+-- opened_at is set once every recipient has opened a view-once photo; the photo is then removed
+ALTER TABLE "public"."messages"
+    ALTER COLUMN "expires_at" DROP NOT NULL,
+    ADD COLUMN IF NOT EXISTS "view_once" boolean DEFAULT false NOT NULL,
+    ADD COLUMN IF NOT EXISTS "opened_at" timestamp with time zone;
+
+-- =============================================
+-- MESSAGE_VIEWS TABLE
+-- =============================================
+
+-- Create message views table - recipients who opened a view-once photo
+CREATE TABLE IF NOT EXISTS "public"."message_views" (
+    "message_id" "uuid" NOT NULL,
+    "user_id" "uuid" NOT NULL,
+    "viewed_at" timestamp with time zone DEFAULT "now"() NOT NULL
+);
+
+-- Primary key
+ALTER TABLE ONLY "public"."message_views"
+    ADD CONSTRAINT "message_views_pkey" PRIMARY KEY ("message_id", "user_id");
+
+-- Foreign keys
+ALTER TABLE ONLY "public"."message_views"
+    ADD CONSTRAINT "message_views_message_id_messages_id_fk" FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE CASCADE;
+
+ALTER TABLE ONLY "public"."message_views"
+    ADD CONSTRAINT "message_views_user_id_profiles_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."profiles"("id") ON DELETE CASCADE;
+
+-- Indexes
+CREATE INDEX "message_views_user_id_idx" ON "public"."message_views" USING "btree" ("user_id");
+
+-- =============================================
+-- VIEW_ONCE_PHOTOS TABLE
+-- =============================================
+
+-- Create view-once photos table - the photo URL of each view-once message until everyone opened it.
+-- Kept out of messages so recipients cannot read the photo without opening it through open_view_once.
+CREATE TABLE IF NOT EXISTS "public"."view_once_photos" (
+    "message_id" "uuid" NOT NULL,
+    "content" "text" NOT NULL
+);
+
+-- Primary key
+ALTER TABLE ONLY "public"."view_once_photos"
+    ADD CONSTRAINT "view_once_photos_pkey" PRIMARY KEY ("message_id");
+
+-- Foreign keys; deferred because the photo is stored before its message row is inserted
+ALTER TABLE ONLY "public"."view_once_photos"
+    ADD CONSTRAINT "view_once_photos_message_id_messages_id_fk" FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE CASCADE DEFERRABLE INITIALLY DEFERRED;
+
+-- =============================================
+-- ROW LEVEL SECURITY
+-- =============================================
+
+ALTER TABLE "public"."message_views" ENABLE ROW LEVEL SECURITY;
+
+-- No policies: photos are only read through open_view_once
+ALTER TABLE "public"."view_once_photos" ENABLE ROW LEVEL SECURITY;
+
+-- Views are visible for messages the user can see, so senders know who opened their photo.
+-- Views are only recorded through open_view_once.
+CREATE POLICY "Users can view views of their messages"
+ON "public"."message_views"
+FOR SELECT
+TO "authenticated"
+USING ("message_id" IN (SELECT "id" FROM "public"."messages"));
+
+-- Messages that never expire have no expires_at
+DROP POLICY IF EXISTS "Users can view messages from their conversations" ON "public"."messages";
+
+CREATE POLICY "Users can view messages from their conversations"
+ON "public"."messages"
+FOR SELECT
+TO "authenticated"
+USING (
+  ("conversation_id" IN (
+    SELECT "conversation_participants"."conversation_id"
+    FROM "public"."conversation_participants"
+    WHERE (
+      ("conversation_participants"."user_id" = (SELECT "auth"."uid"() AS "uid"))
+      AND ("conversation_participants"."is_active" = true)
+    )
+  ))
+  AND ("expires_at" IS NULL OR "expires_at" > "now"())
+  AND NOT EXISTS (
+    SELECT 1
+    FROM "public"."hidden_messages"
+    WHERE "hidden_messages"."message_id" = "messages"."id"
+      AND "hidden_messages"."user_id" = (SELECT "auth"."uid"() AS "uid")
+  )
+);
+
+-- System messages are only written by the functions below
+DROP POLICY IF EXISTS "Users can send messages to their conversations" ON "public"."messages";
+
+CREATE POLICY "Users can send messages to their conversations"
+ON "public"."messages"
+FOR INSERT
+TO "authenticated"
+WITH CHECK (
+  ("sender_id" = (SELECT "auth"."uid"() AS "uid"))
+  AND ("type" <> 'system')
+  AND ("conversation_id" IN (
+    SELECT "conversation_participants"."conversation_id"
+    FROM "public"."conversation_participants"
+    WHERE (
+      ("conversation_participants"."user_id" = (SELECT "auth"."uid"() AS "uid"))
+      AND ("conversation_participants"."is_active" = true)
+    )
+  ))
+);
+
+-- =============================================
+-- FUNCTIONS
+-- =============================================
+
+-- Sets expires_at and view_once from the conversation's setting, whatever the client sent
+CREATE OR REPLACE FUNCTION public.apply_message_expiry()
+RETURNS trigger AS $$
+DECLARE
+  v_expiry text;
+BEGIN
+  SELECT message_expiry INTO v_expiry
+  FROM public.conversations
+  WHERE id = NEW.conversation_id;
+
+  NEW.view_once := v_expiry = 'view_once' AND NEW.type = 'photo';
+  NEW.expires_at := CASE v_expiry
+    WHEN '1h' THEN NEW.created_at + interval '1 hour'
+    WHEN '7d' THEN NEW.created_at + interval '7 days'
+    WHEN 'never' THEN NULL
+    ELSE NEW.created_at + interval '24 hours'
+  END;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = '';
+
+CREATE TRIGGER "messages_apply_expiry"
+BEFORE INSERT ON "public"."messages"
+FOR EACH ROW EXECUTE FUNCTION public.apply_message_expiry();
+
+-- Moves the photo of a view-once message into view_once_photos, so the message row that
+-- recipients can read (and receive over realtime) has no content
+CREATE OR REPLACE FUNCTION public.store_view_once_photo()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.view_once THEN
+    INSERT INTO public.view_once_photos (message_id, content)
+    VALUES (NEW.id, NEW.content);
+    NEW.content := '';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+REVOKE EXECUTE ON FUNCTION public.store_view_once_photo() FROM PUBLIC, anon, authenticated;
+
+-- Runs after messages_apply_expiry, which sets view_once
+CREATE TRIGGER "messages_store_view_once_photo"
+BEFORE INSERT ON "public"."messages"
+FOR EACH ROW EXECUTE FUNCTION public.store_view_once_photo();
+
+-- The expiry is only changed through set_conversation_message_expiry, which announces it
+CREATE OR REPLACE FUNCTION public.protect_message_expiry()
+RETURNS trigger AS $$
+BEGIN
+  IF current_user IN ('authenticated', 'anon') THEN
+    NEW.message_expiry := OLD.message_expiry;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = '';
+
+CREATE TRIGGER "conversations_protect_message_expiry"
+BEFORE UPDATE OF "message_expiry" ON "public"."conversations"
+FOR EACH ROW EXECUTE FUNCTION public.protect_message_expiry();
+
+-- Changes how long messages last in one of the current user's conversations and announces it
+-- with a system message. Messages already sent keep their expiry.
+CREATE OR REPLACE FUNCTION public.set_conversation_message_expiry(p_conversation_id uuid, p_expiry text)
+RETURNS public.messages AS $$
+DECLARE
+  v_message public.messages;
+BEGIN
+  IF p_expiry NOT IN ('view_once', '1h', '24h', '7d', 'never') THEN
+    RAISE EXCEPTION 'Invalid message expiry';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.conversation_participants
+    WHERE conversation_id = p_conversation_id
+      AND user_id = (SELECT auth.uid())
+      AND is_active = true
+  ) THEN
+    RAISE EXCEPTION 'Conversation not found';
+  END IF;
+
+  UPDATE public.conversations
+  SET message_expiry = p_expiry,
+      updated_at = now()
+  WHERE id = p_conversation_id;
+
+  INSERT INTO public.messages (conversation_id, sender_id, content, type)
+  VALUES (
+    p_conversation_id,
+    (SELECT auth.uid()),
+    json_build_object('event', 'message_expiry_changed', 'expiry', p_expiry)::text,
+    'system'
+  )
+  RETURNING * INTO v_message;
+
+  RETURN v_message;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+-- Opens a view-once photo for the current user, recording that they viewed it, and returns its URL.
+-- Each recipient can open it once; once every other participant has, the photo is removed.
+CREATE OR REPLACE FUNCTION public.open_view_once(p_message_id uuid)
+RETURNS text AS $$
+DECLARE
+  v_message public.messages;
+  v_content text;
+BEGIN
+  SELECT m.* INTO v_message
+  FROM public.messages m
+  JOIN public.conversation_participants cp
+    ON cp.conversation_id = m.conversation_id
+   AND cp.user_id = (SELECT auth.uid())
+   AND cp.is_active = true
+  WHERE m.id = p_message_id
+    AND m.view_once = true
+    AND m.sender_id <> (SELECT auth.uid())
+    AND m.deleted_at IS NULL
+    AND (m.expires_at IS NULL OR m.expires_at > now())
+  FOR UPDATE OF m;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  SELECT content INTO v_content
+  FROM public.view_once_photos
+  WHERE message_id = p_message_id;
+
+  IF NOT FOUND OR EXISTS (
+    SELECT 1
+    FROM public.message_views
+    WHERE message_id = p_message_id
+      AND user_id = (SELECT auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'This photo has already been opened';
+  END IF;
+
+  INSERT INTO public.message_views (message_id, user_id)
+  VALUES (p_message_id, (SELECT auth.uid()));
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.conversation_participants cp
+    WHERE cp.conversation_id = v_message.conversation_id
+      AND cp.is_active = true
+      AND cp.user_id <> v_message.sender_id
+      AND NOT EXISTS (
+        SELECT 1
+        FROM public.message_views mv
+        WHERE mv.message_id = p_message_id
+          AND mv.user_id = cp.user_id
+      )
+  ) THEN
+    DELETE FROM public.view_once_photos
+    WHERE message_id = p_message_id;
+
+    UPDATE public.messages
+    SET opened_at = now()
+    WHERE id = p_message_id;
+  END IF;
+
+  RETURN v_content;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+-- Messages that never expire can still be edited and unsent
+CREATE OR REPLACE FUNCTION public.edit_message(p_message_id uuid, p_content text)
+RETURNS public.messages AS $$
+DECLARE
+  v_message public.messages;
+BEGIN
+  IF p_content IS NULL OR btrim(p_content) = '' THEN
+    RAISE EXCEPTION 'Message content cannot be empty';
+  END IF;
+
+  IF char_length(p_content) > 2000 THEN
+    RAISE EXCEPTION 'Message content cannot exceed 2000 characters';
+  END IF;
+
+  SELECT * INTO v_message
+  FROM public.messages
+  WHERE id = p_message_id
+    AND sender_id = (SELECT auth.uid())
+    AND (expires_at IS NULL OR expires_at > now())
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  IF v_message.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Unsent messages cannot be edited';
+  END IF;
+
+  IF v_message.type <> 'text' THEN
+    RAISE EXCEPTION 'Only text messages can be edited';
+  END IF;
+
+  IF v_message.created_at < now() - interval '15 minutes' THEN
+    RAISE EXCEPTION 'Messages can only be edited within 15 minutes of sending';
+  END IF;
+
+  UPDATE public.messages
+  SET content = p_content,
+      edited_at = now()
+  WHERE id = p_message_id
+  RETURNING * INTO v_message;
+
+  RETURN v_message;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+CREATE OR REPLACE FUNCTION public.unsend_message(p_message_id uuid)
+RETURNS public.messages AS $$
+DECLARE
+  v_message public.messages;
+BEGIN
+  UPDATE public.messages
+  SET content = '',
+      deleted_at = COALESCE(deleted_at, now())
+  WHERE id = p_message_id
+    AND sender_id = (SELECT auth.uid())
+    AND type <> 'system'
+    AND (expires_at IS NULL OR expires_at > now())
+  RETURNING * INTO v_message;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  -- Unsent view-once photos can no longer be opened
+  DELETE FROM public.view_once_photos
+  WHERE message_id = p_message_id;
+
+  RETURN v_message;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+REVOKE EXECUTE ON FUNCTION public.set_conversation_message_expiry(uuid, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.open_view_once(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_conversation_message_expiry(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.open_view_once(uuid) TO authenticated;
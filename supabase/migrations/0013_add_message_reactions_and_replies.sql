@@ -0,0 +1,106 @@
+-- =============================================
+-- REPLIES
+-- =============================================
+
+-- reply_to_id is the message being replied to; the reply stays if the original is deleted
+ALTER TABLE "public"."messages"
+    ADD COLUMN IF NOT EXISTS "reply_to_id" "uuid";
+
+ALTER TABLE ONLY "public"."messages"
+    ADD CONSTRAINT "messages_reply_to_id_messages_id_fk" FOREIGN KEY ("reply_to_id") REFERENCES "public"."messages"("id") ON DELETE SET NULL;
+
+CREATE INDEX "messages_reply_to_id_idx" ON "public"."messages" USING "btree" ("reply_to_id");
+
+-- Replies must quote a message from the same conversation
+CREATE OR REPLACE FUNCTION public.check_message_reply()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.reply_to_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1
+    FROM public.messages
+    WHERE id = NEW.reply_to_id
+      AND conversation_id = NEW.conversation_id
+  ) THEN
+    RAISE EXCEPTION 'Replies must be to a message in the same conversation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = '';
+
+CREATE TRIGGER "messages_check_reply"
+BEFORE INSERT ON "public"."messages"
+FOR EACH ROW EXECUTE FUNCTION public.check_message_reply();
+
+-- =============================================
+-- MESSAGE_REACTIONS TABLE
+-- =============================================
+
+-- Create message reactions table - emoji reactions to messages, one row per user and emoji
+-- conversation_id is copied from the message so realtime subscribers can filter by conversation
+CREATE TABLE IF NOT EXISTS "public"."message_reactions" (
+    "message_id" "uuid" NOT NULL,
+    "user_id" "uuid" NOT NULL,
+    "emoji" "text" NOT NULL CHECK (char_length("emoji") BETWEEN 1 AND 16),
+    "conversation_id" "uuid" NOT NULL,
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL
+);
+
+-- Primary key
+ALTER TABLE ONLY "public"."message_reactions"
+    ADD CONSTRAINT "message_reactions_pkey" PRIMARY KEY ("message_id", "user_id", "emoji");
+
+-- Foreign keys
+ALTER TABLE ONLY "public"."message_reactions"
+    ADD CONSTRAINT "message_reactions_message_id_messages_id_fk" FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE CASCADE;
+
+ALTER TABLE ONLY "public"."message_reactions"
+    ADD CONSTRAINT "message_reactions_user_id_profiles_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."profiles"("id") ON DELETE CASCADE;
+
+ALTER TABLE ONLY "public"."message_reactions"
+    ADD CONSTRAINT "message_reactions_conversation_id_conversations_id_fk" FOREIGN KEY ("conversation_id") REFERENCES "public"."conversations"("id") ON DELETE CASCADE;
+
+-- Indexes
+CREATE INDEX "message_reactions_conversation_id_idx" ON "public"."message_reactions" USING "btree" ("conversation_id");
+
+-- =============================================
+-- ROW LEVEL SECURITY
+-- =============================================
+
+ALTER TABLE "public"."message_reactions" ENABLE ROW LEVEL SECURITY;
+
+-- Reactions are visible on messages the user can see
+CREATE POLICY "Users can view reactions to visible messages"
+ON "public"."message_reactions"
+FOR SELECT
+TO "authenticated"
+USING ("message_id" IN (SELECT "id" FROM "public"."messages"));
+
+-- Users can react to messages they can see, under the message's own conversation
+CREATE POLICY "Users can react to visible messages"
+ON "public"."message_reactions"
+FOR INSERT
+TO "authenticated"
+WITH CHECK (
+    "user_id" = (SELECT "auth"."uid"()) AND
+    "message_id" IN (
+        SELECT "id"
+        FROM "public"."messages"
+        WHERE "messages"."conversation_id" = "message_reactions"."conversation_id"
+    )
+);
+
+CREATE POLICY "Users can remove their reactions"
+ON "public"."message_reactions"
+FOR DELETE
+TO "authenticated"
+USING ("user_id" = (SELECT "auth"."uid"()));
+
+-- =============================================
+-- REALTIME
+-- =============================================
+
+ALTER PUBLICATION supabase_realtime ADD TABLE message_reactions;
+
+-- Realtime does not apply filters to DELETE events, and under RLS their old row only carries the
+-- primary key: message_id, user_id and emoji, which is all clients need to remove a reaction.
@@ -0,0 +1,147 @@
+-- =============================================
+-- READ RECEIPTS
+-- =============================================
+
+-- Whether the user shares read receipts with the people they chat with
+ALTER TABLE "public"."profiles"
+    ADD COLUMN IF NOT EXISTS "read_receipts_enabled" boolean DEFAULT true NOT NULL;
+
+-- read_receipt_at is the read position other participants see, for users who share read receipts
+ALTER TABLE "public"."conversation_participants"
+    ADD COLUMN IF NOT EXISTS "read_receipt_at" timestamp with time zone;
+
+-- =============================================
+-- CONVERSATION_READS TABLE
+-- =============================================
+
+-- Create conversation reads table - how far each user has read each conversation, for their unread
+-- counts. Replaces conversation_participants.last_read_at, which every participant could read (and
+-- receive over realtime) even with read receipts off; only the user can see their own row.
+CREATE TABLE IF NOT EXISTS "public"."conversation_reads" (
+    "conversation_id" "uuid" NOT NULL,
+    "user_id" "uuid" NOT NULL,
+    "last_read_at" timestamp with time zone DEFAULT "now"() NOT NULL
+);
+
+-- Primary key
+ALTER TABLE ONLY "public"."conversation_reads"
+    ADD CONSTRAINT "conversation_reads_pkey" PRIMARY KEY ("conversation_id", "user_id");
+
+-- Foreign keys
+ALTER TABLE ONLY "public"."conversation_reads"
+    ADD CONSTRAINT "conversation_reads_conversation_id_conversations_id_fk" FOREIGN KEY ("conversation_id") REFERENCES "public"."conversations"("id") ON DELETE CASCADE;
+
+ALTER TABLE ONLY "public"."conversation_reads"
+    ADD CONSTRAINT "conversation_reads_user_id_profiles_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."profiles"("id") ON DELETE CASCADE;
+
+-- Indexes
+CREATE INDEX "conversation_reads_user_id_idx" ON "public"."conversation_reads" USING "btree" ("user_id");
+
+-- Move existing read positions, sharing them as read receipts since receipts default to on
+INSERT INTO public.conversation_reads (conversation_id, user_id, last_read_at)
+SELECT conversation_id, user_id, last_read_at
+FROM public.conversation_participants
+WHERE last_read_at IS NOT NULL;
+
+UPDATE public.conversation_participants
+SET read_receipt_at = last_read_at;
+
+ALTER TABLE "public"."conversation_participants"
+    DROP COLUMN IF EXISTS "last_read_at";
+
+-- =============================================
+-- ROW LEVEL SECURITY
+-- =============================================
+
+ALTER TABLE "public"."conversation_reads" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own read positions"
+ON "public"."conversation_reads"
+FOR SELECT
+TO "authenticated"
+USING ("user_id" = (SELECT "auth"."uid"()));
+
+-- Users record how far they have read in conversations they are part of
+CREATE POLICY "Users can add their own read positions"
+ON "public"."conversation_reads"
+FOR INSERT
+TO "authenticated"
+WITH CHECK (
+    "user_id" = (SELECT "auth"."uid"()) AND
+    "conversation_id" IN (
+        SELECT "conversation_id"
+        FROM "public"."conversation_participants"
+        WHERE "user_id" = (SELECT "auth"."uid"())
+          AND "is_active" = true
+    )
+);
+
+CREATE POLICY "Users can update their own read positions"
+ON "public"."conversation_reads"
+FOR UPDATE
+TO "authenticated"
+USING ("user_id" = (SELECT "auth"."uid"()))
+WITH CHECK ("user_id" = (SELECT "auth"."uid"()));
+
+-- =============================================
+-- FUNCTIONS
+-- =============================================
+
+-- Shares a user's new read position as their read receipt, if they share read receipts
+CREATE OR REPLACE FUNCTION public.sync_read_receipt()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE public.conversation_participants cp
+  SET read_receipt_at = NEW.last_read_at
+  FROM public.profiles p
+  WHERE cp.conversation_id = NEW.conversation_id
+    AND cp.user_id = NEW.user_id
+    AND p.id = NEW.user_id
+    AND p.read_receipts_enabled = true;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+REVOKE EXECUTE ON FUNCTION public.sync_read_receipt() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER "conversation_reads_sync_read_receipt"
+AFTER INSERT OR UPDATE OF "last_read_at" ON "public"."conversation_reads"
+FOR EACH ROW EXECUTE FUNCTION public.sync_read_receipt();
+
+-- Clients cannot set read_receipt_at directly
+CREATE OR REPLACE FUNCTION public.protect_read_receipt()
+RETURNS trigger AS $$
+BEGIN
+  IF current_user IN ('authenticated', 'anon') THEN
+    NEW.read_receipt_at := OLD.read_receipt_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = '';
+
+CREATE TRIGGER "conversation_participants_protect_read_receipt"
+BEFORE UPDATE OF "read_receipt_at" ON "public"."conversation_participants"
+FOR EACH ROW EXECUTE FUNCTION public.protect_read_receipt();
+
+-- Turning read receipts off also withdraws the ones already shared
+CREATE OR REPLACE FUNCTION public.clear_read_receipts()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE public.conversation_participants
+  SET read_receipt_at = NULL
+  WHERE user_id = NEW.id
+    AND read_receipt_at IS NOT NULL;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+REVOKE EXECUTE ON FUNCTION public.clear_read_receipts() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER "profiles_clear_read_receipts"
+AFTER UPDATE OF "read_receipts_enabled" ON "public"."profiles"
+FOR EACH ROW
+WHEN (OLD."read_receipts_enabled" = true AND NEW."read_receipts_enabled" = false)
+EXECUTE FUNCTION public.clear_read_receipts();
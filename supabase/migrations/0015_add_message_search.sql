@@ -0,0 +1,76 @@
+-- =============================================
+-- MESSAGE SEARCH
+-- =============================================
+
+-- Searchable text of a message. Only text messages are indexed: photos hold a URL, cards hold JSON,
+-- and unsent messages have no content left.
+ALTER TABLE "public"."messages"
+    ADD COLUMN IF NOT EXISTS "search_vector" tsvector GENERATED ALWAYS AS (
+      CASE
+        WHEN "type" = 'text' AND "deleted_at" IS NULL THEN to_tsvector('english'::regconfig, "content")
+      END
+    ) STORED;
+
+CREATE INDEX "messages_search_vector_idx" ON "public"."messages" USING "gin" ("search_vector");
+
+-- =============================================
+-- FUNCTIONS
+-- =============================================
+
+-- Finds the messages matching a search, newest first, with a snippet of each where matched words are
+-- wrapped in <mark></mark>. Runs as the caller, so the messages RLS policy limits results to
+-- conversations they are an active participant in, and leaves out expired and hidden messages.
+CREATE OR REPLACE FUNCTION public.search_messages(
+  p_query text,
+  p_conversation_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 30
+)
+RETURNS TABLE (
+  message_id uuid,
+  conversation_id uuid,
+  conversation_type text,
+  conversation_title text,
+  sender_id uuid,
+  sender_username text,
+  sender_full_name text,
+  sender_avatar_url text,
+  created_at timestamp with time zone,
+  snippet text
+) AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english'::regconfig, p_query) AS tsquery
+  ),
+  matches AS (
+    SELECT m.id, m.conversation_id, m.sender_id, m.content, m.created_at
+    FROM public.messages m, query q
+    WHERE m.search_vector @@ q.tsquery
+      AND (p_conversation_id IS NULL OR m.conversation_id = p_conversation_id)
+    ORDER BY m.created_at DESC
+    LIMIT LEAST(GREATEST(p_limit, 1), 100)
+  )
+  -- Snippets are only built for the returned messages
+  SELECT
+    m.id,
+    m.conversation_id,
+    c.type,
+    c.title,
+    m.sender_id,
+    p.username,
+    p.full_name,
+    p.avatar_url,
+    m.created_at,
+    ts_headline(
+      'english'::regconfig,
+      m.content,
+      q.tsquery,
+      'StartSel=<mark>, StopSel=</mark>, MinWords=8, MaxWords=24, MaxFragments=2, FragmentDelimiter=" … "'
+    )
+  FROM matches m
+  CROSS JOIN query q
+  JOIN public.conversations c ON c.id = m.conversation_id
+  JOIN public.profiles p ON p.id = m.sender_id
+  ORDER BY m.created_at DESC;
+$$ LANGUAGE sql STABLE SET search_path = '';
+
+REVOKE EXECUTE ON FUNCTION public.search_messages(text, uuid, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.search_messages(text, uuid, integer) TO authenticated;
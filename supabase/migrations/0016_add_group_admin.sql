@@ -0,0 +1,375 @@
+-- =============================================
+-- GROUP ADMINISTRATION
+-- =============================================
+
+-- Group photo, stored in the avatars bucket
+ALTER TABLE "public"."conversations"
+    ADD COLUMN IF NOT EXISTS "avatar_url" "text";
+
+-- admin - can add, remove and promote members, and rename the group or change its photo
+-- member - can chat and leave
+ALTER TABLE "public"."conversation_participants"
+    ADD COLUMN IF NOT EXISTS "role" "text" DEFAULT 'member'::"text" NOT NULL;
+
+ALTER TABLE ONLY "public"."conversation_participants"
+    ADD CONSTRAINT "conversation_participants_role_check" CHECK ("role" IN ('admin', 'member'));
+
+-- Existing groups are run by whoever has been in them longest
+UPDATE public.conversation_participants cp
+SET role = 'admin'
+FROM (
+  SELECT DISTINCT ON (p.conversation_id) p.conversation_id, p.user_id
+  FROM public.conversation_participants p
+  JOIN public.conversations c ON c.id = p.conversation_id
+  WHERE c.type = 'group'
+    AND p.is_active = true
+  ORDER BY p.conversation_id, p.joined_at, p.user_id
+) first_member
+WHERE cp.conversation_id = first_member.conversation_id
+  AND cp.user_id = first_member.user_id;
+
+-- =============================================
+-- ROW LEVEL SECURITY
+-- =============================================
+
+-- Participants can only be inserted directly while creating a conversation; only its creator
+-- can be an admin. Members are added to existing groups through add_conversation_participants().
+-- Rows inserted by the same statement are not visible to the check, so creating a conversation
+-- with all its participants at once passes.
+DROP POLICY IF EXISTS "Allow adding conversation participants" ON "public"."conversation_participants";
+
+CREATE POLICY "Users can add participants to new conversations"
+ON "public"."conversation_participants"
+FOR INSERT
+TO "authenticated"
+WITH CHECK (
+  NOT EXISTS (
+    SELECT 1
+    FROM "public"."conversation_participants" "existing"
+    WHERE "existing"."conversation_id" = "conversation_participants"."conversation_id"
+  )
+  AND ("role" = 'member' OR "user_id" = (SELECT "auth"."uid"() AS "uid"))
+);
+
+-- Leaving goes through leave_conversation(), which announces it and hands over the admin role;
+-- deleting the participant row directly would skip both
+DROP POLICY IF EXISTS "Users can leave conversations" ON "public"."conversation_participants";
+
+-- =============================================
+-- FUNCTIONS
+-- =============================================
+
+-- Clients can still update their own participation and a conversation's updated_at, but roles,
+-- membership, the group's name and photo, and its settings only change through the functions below
+CREATE OR REPLACE FUNCTION public.protect_participant_membership()
+RETURNS trigger AS $$
+BEGIN
+  IF current_user IN ('authenticated', 'anon') THEN
+    NEW.role := OLD.role;
+    NEW.is_active := OLD.is_active;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = '';
+
+CREATE TRIGGER "conversation_participants_protect_membership"
+BEFORE UPDATE ON "public"."conversation_participants"
+FOR EACH ROW EXECUTE FUNCTION public.protect_participant_membership();
+
+CREATE OR REPLACE FUNCTION public.protect_conversation_details()
+RETURNS trigger AS $$
+BEGIN
+  IF current_user IN ('authenticated', 'anon') THEN
+    NEW.type := OLD.type;
+    NEW.title := OLD.title;
+    NEW.avatar_url := OLD.avatar_url;
+    NEW.message_expiry := OLD.message_expiry;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = '';
+
+CREATE TRIGGER "conversations_protect_details"
+BEFORE UPDATE ON "public"."conversations"
+FOR EACH ROW EXECUTE FUNCTION public.protect_conversation_details();
+
+-- Name shown for a user in system messages
+CREATE OR REPLACE FUNCTION public.get_display_name(p_user_id uuid)
+RETURNS text AS $$
+  SELECT COALESCE(NULLIF(full_name, ''), NULLIF(username, ''), 'Someone')
+  FROM public.profiles
+  WHERE id = p_user_id;
+$$ LANGUAGE sql STABLE SET search_path = '';
+
+-- Checks that the current user is an active admin of a group, raising an error otherwise
+CREATE OR REPLACE FUNCTION public.require_group_admin(p_conversation_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.conversation_participants cp
+    JOIN public.conversations c ON c.id = cp.conversation_id
+    WHERE cp.conversation_id = p_conversation_id
+      AND cp.user_id = (SELECT auth.uid())
+      AND cp.is_active = true
+      AND cp.role = 'admin'
+      AND c.type = 'group'
+  ) THEN
+    RAISE EXCEPTION 'Only group admins can do this';
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = '';
+
+-- Announces a change to a group with a system message from the current user
+CREATE OR REPLACE FUNCTION public.insert_group_system_message(p_conversation_id uuid, p_event jsonb)
+RETURNS public.messages AS $$
+DECLARE
+  v_message public.messages;
+BEGIN
+  UPDATE public.conversations
+  SET updated_at = now()
+  WHERE id = p_conversation_id;
+
+  INSERT INTO public.messages (conversation_id, sender_id, content, type)
+  VALUES (p_conversation_id, (SELECT auth.uid()), p_event::text, 'system')
+  RETURNING * INTO v_message;
+
+  RETURN v_message;
+END;
+$$ LANGUAGE plpgsql SET search_path = '';
+
+-- Adds members to a group, or brings back ones who left or were removed. Admins only.
+CREATE OR REPLACE FUNCTION public.add_conversation_participants(p_conversation_id uuid, p_user_ids uuid[])
+RETURNS void AS $$
+DECLARE
+  v_added jsonb;
+BEGIN
+  PERFORM public.require_group_admin(p_conversation_id);
+
+  IF (
+    SELECT count(*)
+    FROM (
+      SELECT user_id
+      FROM public.conversation_participants
+      WHERE conversation_id = p_conversation_id
+        AND is_active = true
+      UNION
+      SELECT unnest(p_user_ids)
+    ) members
+  ) > 50 THEN
+    RAISE EXCEPTION 'Groups cannot have more than 50 members';
+  END IF;
+
+  WITH added AS (
+    INSERT INTO public.conversation_participants (conversation_id, user_id, role, is_active)
+    SELECT p_conversation_id, new_user.id, 'member', true
+    FROM (SELECT DISTINCT unnest(p_user_ids) AS id) new_user
+    JOIN public.profiles p ON p.id = new_user.id
+    ON CONFLICT (conversation_id, user_id) DO UPDATE
+    SET is_active = true,
+        role = 'member',
+        joined_at = now()
+    WHERE public.conversation_participants.is_active = false
+    RETURNING user_id
+  )
+  SELECT jsonb_agg(jsonb_build_object('id', user_id, 'name', public.get_display_name(user_id)))
+  INTO v_added
+  FROM added;
+
+  IF v_added IS NOT NULL THEN
+    PERFORM public.insert_group_system_message(
+      p_conversation_id,
+      jsonb_build_object('event', 'participants_added', 'users', v_added)
+    );
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+-- Removes another member from a group. Admins only.
+CREATE OR REPLACE FUNCTION public.remove_conversation_participant(p_conversation_id uuid, p_user_id uuid)
+RETURNS void AS $$
+BEGIN
+  PERFORM public.require_group_admin(p_conversation_id);
+
+  IF p_user_id = (SELECT auth.uid()) THEN
+    RAISE EXCEPTION 'Leave the group to remove yourself';
+  END IF;
+
+  UPDATE public.conversation_participants
+  SET is_active = false,
+      role = 'member'
+  WHERE conversation_id = p_conversation_id
+    AND user_id = p_user_id
+    AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Member not found';
+  END IF;
+
+  PERFORM public.insert_group_system_message(
+    p_conversation_id,
+    jsonb_build_object(
+      'event', 'participant_removed',
+      'user', jsonb_build_object('id', p_user_id, 'name', public.get_display_name(p_user_id))
+    )
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+-- Makes another member an admin, or a member again. Admins only.
+CREATE OR REPLACE FUNCTION public.set_conversation_participant_role(
+  p_conversation_id uuid,
+  p_user_id uuid,
+  p_role text
+)
+RETURNS void AS $$
+BEGIN
+  PERFORM public.require_group_admin(p_conversation_id);
+
+  IF p_role NOT IN ('admin', 'member') THEN
+    RAISE EXCEPTION 'Invalid role';
+  END IF;
+
+  -- Otherwise the last admin could leave the group without one
+  IF p_user_id = (SELECT auth.uid()) THEN
+    RAISE EXCEPTION 'Admins cannot change their own role';
+  END IF;
+
+  UPDATE public.conversation_participants
+  SET role = p_role
+  WHERE conversation_id = p_conversation_id
+    AND user_id = p_user_id
+    AND is_active = true
+    AND role <> p_role;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  PERFORM public.insert_group_system_message(
+    p_conversation_id,
+    jsonb_build_object(
+      'event', 'participant_role_changed',
+      'user', jsonb_build_object('id', p_user_id, 'name', public.get_display_name(p_user_id)),
+      'role', p_role
+    )
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+-- Renames a group. Admins only.
+CREATE OR REPLACE FUNCTION public.rename_conversation(p_conversation_id uuid, p_title text)
+RETURNS void AS $$
+DECLARE
+  v_title text := btrim(p_title);
+BEGIN
+  PERFORM public.require_group_admin(p_conversation_id);
+
+  IF v_title IS NULL OR v_title = '' THEN
+    RAISE EXCEPTION 'Group name cannot be empty';
+  END IF;
+
+  IF char_length(v_title) > 100 THEN
+    RAISE EXCEPTION 'Group name cannot exceed 100 characters';
+  END IF;
+
+  UPDATE public.conversations
+  SET title = v_title
+  WHERE id = p_conversation_id
+    AND title IS DISTINCT FROM v_title;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  PERFORM public.insert_group_system_message(
+    p_conversation_id,
+    jsonb_build_object('event', 'conversation_renamed', 'title', v_title)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+-- Changes or removes a group's photo. Admins only.
+CREATE OR REPLACE FUNCTION public.set_conversation_avatar(p_conversation_id uuid, p_avatar_url text)
+RETURNS void AS $$
+BEGIN
+  PERFORM public.require_group_admin(p_conversation_id);
+
+  UPDATE public.conversations
+  SET avatar_url = NULLIF(btrim(p_avatar_url), '')
+  WHERE id = p_conversation_id;
+
+  PERFORM public.insert_group_system_message(
+    p_conversation_id,
+    jsonb_build_object('event', 'conversation_avatar_changed', 'removed', NULLIF(btrim(p_avatar_url), '') IS NULL)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+-- Leaves a group. If the last admin leaves, the member who has been there longest takes over.
+CREATE OR REPLACE FUNCTION public.leave_conversation(p_conversation_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.conversations
+    WHERE id = p_conversation_id
+      AND type = 'group'
+  ) THEN
+    RAISE EXCEPTION 'Can only leave group conversations';
+  END IF;
+
+  -- Announced while the user is still a member
+  PERFORM public.insert_group_system_message(
+    p_conversation_id,
+    jsonb_build_object('event', 'participant_left')
+  );
+
+  UPDATE public.conversation_participants
+  SET is_active = false,
+      role = 'member'
+  WHERE conversation_id = p_conversation_id
+    AND user_id = (SELECT auth.uid())
+    AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Conversation not found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.conversation_participants
+    WHERE conversation_id = p_conversation_id
+      AND is_active = true
+      AND role = 'admin'
+  ) THEN
+    UPDATE public.conversation_participants
+    SET role = 'admin'
+    WHERE (conversation_id, user_id) IN (
+      SELECT conversation_id, user_id
+      FROM public.conversation_participants
+      WHERE conversation_id = p_conversation_id
+        AND is_active = true
+      ORDER BY joined_at, user_id
+      LIMIT 1
+    );
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+REVOKE EXECUTE ON FUNCTION public.require_group_admin(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.insert_group_system_message(uuid, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.add_conversation_participants(uuid, uuid[]) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.remove_conversation_participant(uuid, uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.set_conversation_participant_role(uuid, uuid, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.rename_conversation(uuid, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.set_conversation_avatar(uuid, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.leave_conversation(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.add_conversation_participants(uuid, uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.remove_conversation_participant(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_conversation_participant_role(uuid, uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rename_conversation(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_conversation_avatar(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.leave_conversation(uuid) TO authenticated;
@@ -0,0 +1,78 @@
+-- =============================================
+-- CONVERSATION_PREFERENCES TABLE
+-- =============================================
+
+-- Create conversation preferences table - each user's own settings for a conversation. Kept out of
+-- conversation_participants, which every participant can read (and receive over realtime); only the
+-- user can see their own row. A missing row means the defaults below.
+-- is_pinned - kept at the top of the chat list
+-- is_archived - moved out of the chat list into the archived section
+-- is_muted - left out of the unread badge and notifications until muted_until, or until unmuted
+--   when muted_until is null
+CREATE TABLE IF NOT EXISTS "public"."conversation_preferences" (
+    "conversation_id" "uuid" NOT NULL,
+    "user_id" "uuid" NOT NULL,
+    "is_pinned" boolean DEFAULT false NOT NULL,
+    "is_archived" boolean DEFAULT false NOT NULL,
+    "is_muted" boolean DEFAULT false NOT NULL,
+    "muted_until" timestamp with time zone
+);
+
+-- Primary key
+ALTER TABLE ONLY "public"."conversation_preferences"
+    ADD CONSTRAINT "conversation_preferences_pkey" PRIMARY KEY ("conversation_id", "user_id");
+
+-- Foreign keys
+ALTER TABLE ONLY "public"."conversation_preferences"
+    ADD CONSTRAINT "conversation_preferences_conversation_id_conversations_id_fk" FOREIGN KEY ("conversation_id") REFERENCES "public"."conversations"("id") ON DELETE CASCADE;
+
+ALTER TABLE ONLY "public"."conversation_preferences"
+    ADD CONSTRAINT "conversation_preferences_user_id_profiles_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."profiles"("id") ON DELETE CASCADE;
+
+-- An end time only applies while the conversation is muted
+ALTER TABLE ONLY "public"."conversation_preferences"
+    ADD CONSTRAINT "conversation_preferences_muted_until_check" CHECK ("is_muted" OR "muted_until" IS NULL);
+
+-- Indexes
+CREATE INDEX "conversation_preferences_user_id_idx" ON "public"."conversation_preferences" USING "btree" ("user_id");
+
+-- =============================================
+-- ROW LEVEL SECURITY
+-- =============================================
+
+ALTER TABLE "public"."conversation_preferences" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own conversation preferences"
+ON "public"."conversation_preferences"
+FOR SELECT
+TO "authenticated"
+USING ("user_id" = (SELECT "auth"."uid"()));
+
+-- Users set preferences for conversations they are part of
+CREATE POLICY "Users can add their own conversation preferences"
+ON "public"."conversation_preferences"
+FOR INSERT
+TO "authenticated"
+WITH CHECK (
+    "user_id" = (SELECT "auth"."uid"()) AND
+    "conversation_id" IN (
+        SELECT "conversation_id"
+        FROM "public"."conversation_participants"
+        WHERE "user_id" = (SELECT "auth"."uid"())
+          AND "is_active" = true
+    )
+);
+
+CREATE POLICY "Users can update their own conversation preferences"
+ON "public"."conversation_preferences"
+FOR UPDATE
+TO "authenticated"
+USING ("user_id" = (SELECT "auth"."uid"()))
+WITH CHECK ("user_id" = (SELECT "auth"."uid"()));
+
+-- =============================================
+-- REALTIME
+-- =============================================
+
+-- Lets the user's other devices pick up changes; RLS limits each change to the row's owner
+ALTER PUBLICATION supabase_realtime ADD TABLE conversation_preferences;
@@ -0,0 +1,218 @@
+-- =============================================
+-- PUSH NOTIFICATIONS
+-- =============================================
+
+-- Which notifications the user wants pushed to their devices
+-- notify_messages - new messages in their conversations, unless the conversation is muted
+-- notify_friend_requests - friend requests sent to them
+-- notify_trip_updates - invites to itineraries
+ALTER TABLE "public"."profiles"
+    ADD COLUMN IF NOT EXISTS "notify_messages" boolean DEFAULT true NOT NULL,
+    ADD COLUMN IF NOT EXISTS "notify_friend_requests" boolean DEFAULT true NOT NULL,
+    ADD COLUMN IF NOT EXISTS "notify_trip_updates" boolean DEFAULT true NOT NULL;
+
+-- =============================================
+-- PUSH_TOKENS TABLE
+-- =============================================
+
+-- Expo push tokens of the devices a user is signed in on. A token belongs to one device, so
+-- signing in with another account on the same device moves the token to that account.
+CREATE TABLE IF NOT EXISTS "public"."push_tokens" (
+    "token" "text" NOT NULL,
+    "user_id" "uuid" NOT NULL,
+    "platform" "text" NOT NULL CHECK (platform IN ('ios', 'android')),
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL
+);
+
+-- Primary key
+ALTER TABLE ONLY "public"."push_tokens"
+    ADD CONSTRAINT "push_tokens_pkey" PRIMARY KEY ("token");
+
+-- Foreign keys
+ALTER TABLE ONLY "public"."push_tokens"
+    ADD CONSTRAINT "push_tokens_user_id_profiles_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."profiles"("id") ON DELETE CASCADE;
+
+-- Indexes
+CREATE INDEX "push_tokens_user_id_idx" ON "public"."push_tokens" USING "btree" ("user_id");
+
+-- =============================================
+-- NOTIFICATION_EVENTS TABLE
+-- =============================================
+
+-- Queue of notifications waiting for the dispatcher, one row per recipient, filled by the triggers
+-- below. The row links to what it is about, so it goes away with the message, request or itinerary.
+-- claimed_at - set while a dispatcher run is sending it; claims older than 5 minutes are retried
+-- attempts - runs that have claimed it; it is given up on after 5
+-- Rows are deleted once sent, or once the recipient turns out not to want them.
+CREATE TABLE IF NOT EXISTS "public"."notification_events" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "recipient_id" "uuid" NOT NULL,
+    "actor_id" "uuid" NOT NULL,
+    "category" "text" NOT NULL CHECK (category IN ('message', 'friend_request', 'trip_invite')),
+    "message_id" "uuid",
+    "friend_request_id" "uuid",
+    "itinerary_id" "uuid",
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "claimed_at" timestamp with time zone,
+    "attempts" integer DEFAULT 0 NOT NULL,
+    "last_error" "text"
+);
+
+-- Primary key
+ALTER TABLE ONLY "public"."notification_events"
+    ADD CONSTRAINT "notification_events_pkey" PRIMARY KEY ("id");
+
+-- Foreign keys
+ALTER TABLE ONLY "public"."notification_events"
+    ADD CONSTRAINT "notification_events_recipient_id_profiles_id_fk" FOREIGN KEY ("recipient_id") REFERENCES "public"."profiles"("id") ON DELETE CASCADE;
+
+ALTER TABLE ONLY "public"."notification_events"
+    ADD CONSTRAINT "notification_events_actor_id_profiles_id_fk" FOREIGN KEY ("actor_id") REFERENCES "public"."profiles"("id") ON DELETE CASCADE;
+
+ALTER TABLE ONLY "public"."notification_events"
+    ADD CONSTRAINT "notification_events_message_id_messages_id_fk" FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE CASCADE;
+
+ALTER TABLE ONLY "public"."notification_events"
+    ADD CONSTRAINT "notification_events_friend_request_id_friend_requests_id_fk" FOREIGN KEY ("friend_request_id") REFERENCES "public"."friend_requests"("id") ON DELETE CASCADE;
+
+ALTER TABLE ONLY "public"."notification_events"
+    ADD CONSTRAINT "notification_events_itinerary_id_itineraries_id_fk" FOREIGN KEY ("itinerary_id") REFERENCES "public"."itineraries"("id") ON DELETE CASCADE;
+
+-- Each category links to the row it is about
+ALTER TABLE ONLY "public"."notification_events"
+    ADD CONSTRAINT "notification_events_source_check" CHECK (
+      (category = 'message' AND message_id IS NOT NULL)
+      OR (category = 'friend_request' AND friend_request_id IS NOT NULL)
+      OR (category = 'trip_invite' AND itinerary_id IS NOT NULL)
+    );
+
+-- Indexes
+CREATE INDEX "notification_events_created_at_idx" ON "public"."notification_events" USING "btree" ("created_at");
+
+-- =============================================
+-- ROW LEVEL SECURITY
+-- =============================================
+
+ALTER TABLE "public"."push_tokens" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "public"."notification_events" ENABLE ROW LEVEL SECURITY;
+
+-- Users can see and remove their own tokens; tokens are registered through register_push_token()
+CREATE POLICY "Users can view their push tokens"
+ON "public"."push_tokens"
+FOR SELECT
+TO "authenticated"
+USING ("user_id" = (SELECT "auth"."uid"()));
+
+CREATE POLICY "Users can remove their push tokens"
+ON "public"."push_tokens"
+FOR DELETE
+TO "authenticated"
+USING ("user_id" = (SELECT "auth"."uid"()));
+
+-- notification_events has no policies; only the dispatcher (service role) reads it
+
+-- =============================================
+-- FUNCTIONS
+-- =============================================
+
+-- Registers the current device's push token for the current user
+CREATE OR REPLACE FUNCTION public.register_push_token(p_token text, p_platform text)
+RETURNS void AS $$
+BEGIN
+  IF (SELECT auth.uid()) IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.push_tokens (token, user_id, platform)
+  VALUES (p_token, (SELECT auth.uid()), p_platform)
+  ON CONFLICT (token) DO UPDATE
+  SET user_id = EXCLUDED.user_id,
+      platform = EXCLUDED.platform,
+      updated_at = now();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+-- Queues a notification for every other active participant of a new message's conversation.
+-- System messages announce changes the members already see in the chat, so they are not pushed.
+CREATE OR REPLACE FUNCTION public.queue_message_notifications()
+RETURNS trigger AS $$
+BEGIN
+  INSERT INTO public.notification_events (recipient_id, actor_id, category, message_id)
+  SELECT cp.user_id, NEW.sender_id, 'message', NEW.id
+  FROM public.conversation_participants cp
+  WHERE cp.conversation_id = NEW.conversation_id
+    AND cp.user_id <> NEW.sender_id
+    AND cp.is_active = true;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+CREATE TRIGGER "messages_queue_notifications"
+AFTER INSERT ON "public"."messages"
+FOR EACH ROW
+WHEN (NEW."type" <> 'system')
+EXECUTE FUNCTION public.queue_message_notifications();
+
+-- Queues a notification for the user a friend request was sent to
+CREATE OR REPLACE FUNCTION public.queue_friend_request_notification()
+RETURNS trigger AS $$
+BEGIN
+  INSERT INTO public.notification_events (recipient_id, actor_id, category, friend_request_id)
+  VALUES (NEW.addressee_id, NEW.requester_id, 'friend_request', NEW.id);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+CREATE TRIGGER "friend_requests_queue_notification"
+AFTER INSERT ON "public"."friend_requests"
+FOR EACH ROW
+WHEN (NEW."status" = 'pending')
+EXECUTE FUNCTION public.queue_friend_request_notification();
+
+-- Queues a notification for the user invited to an itinerary
+CREATE OR REPLACE FUNCTION public.queue_trip_invite_notification()
+RETURNS trigger AS $$
+BEGIN
+  INSERT INTO public.notification_events (recipient_id, actor_id, category, itinerary_id)
+  VALUES (NEW.user_id, NEW.invited_by, 'trip_invite', NEW.itinerary_id);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+CREATE TRIGGER "itinerary_members_queue_invite_notification"
+AFTER INSERT ON "public"."itinerary_members"
+FOR EACH ROW
+WHEN (NEW."status" = 'pending' AND NEW."invited_by" IS NOT NULL)
+EXECUTE FUNCTION public.queue_trip_invite_notification();
+
+-- Claims the oldest queued notifications for a dispatcher run. Rows claimed by a run that is
+-- still going are skipped, so runs that overlap do not send the same notification twice.
+CREATE OR REPLACE FUNCTION public.claim_notification_events(p_limit integer)
+RETURNS SETOF public.notification_events AS $$
+  UPDATE public.notification_events e
+  SET claimed_at = now(),
+      attempts = e.attempts + 1
+  WHERE e.id IN (
+    SELECT q.id
+    FROM public.notification_events q
+    WHERE q.attempts < 5
+      AND (q.claimed_at IS NULL OR q.claimed_at < now() - interval '5 minutes')
+    ORDER BY q.created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING e.*;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = '';
+
+-- The queue functions only run from their triggers, and only the dispatcher claims notifications
+REVOKE EXECUTE ON FUNCTION public.queue_message_notifications() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.queue_friend_request_notification() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.queue_trip_invite_notification() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.claim_notification_events(integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.register_push_token(text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.claim_notification_events(integer) TO service_role;
+GRANT EXECUTE ON FUNCTION public.register_push_token(text, text) TO authenticated;
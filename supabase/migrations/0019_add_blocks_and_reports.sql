@@ -0,0 +1,406 @@
+-- =============================================
+-- BLOCKS TABLE
+-- =============================================
+
+-- Users a user has blocked. Blocked users cannot find the blocker in search, send them friend
+-- requests or direct messages, or see their story. Blocking works both ways for all of these,
+-- so the blocker does not see the blocked user either.
+CREATE TABLE IF NOT EXISTS "public"."blocks" (
+    "blocker_id" "uuid" NOT NULL,
+    "blocked_id" "uuid" NOT NULL,
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "blocks_not_self_check" CHECK ("blocker_id" <> "blocked_id")
+);
+
+-- Primary key
+ALTER TABLE ONLY "public"."blocks"
+    ADD CONSTRAINT "blocks_blocker_id_blocked_id_pk" PRIMARY KEY ("blocker_id", "blocked_id");
+
+-- Foreign keys
+ALTER TABLE ONLY "public"."blocks"
+    ADD CONSTRAINT "blocks_blocker_id_profiles_id_fk" FOREIGN KEY ("blocker_id") REFERENCES "public"."profiles"("id") ON DELETE CASCADE;
+
+ALTER TABLE ONLY "public"."blocks"
+    ADD CONSTRAINT "blocks_blocked_id_profiles_id_fk" FOREIGN KEY ("blocked_id") REFERENCES "public"."profiles"("id") ON DELETE CASCADE;
+
+-- Indexes
+CREATE INDEX "blocks_blocked_id_idx" ON "public"."blocks" USING "btree" ("blocked_id");
+
+-- =============================================
+-- REPORTS TABLE
+-- =============================================
+
+-- Reports of users for moderation review. The reported message or story item is copied into
+-- content_type and content when the report is made, so it can be reviewed after it has expired
+-- or been unsent. Moderators work through open reports with the service role and set the status.
+CREATE TABLE IF NOT EXISTS "public"."reports" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "reporter_id" "uuid" NOT NULL,
+    "reported_user_id" "uuid" NOT NULL,
+    "reason" "text" NOT NULL CHECK (reason IN ('spam', 'harassment', 'inappropriate_content', 'impersonation', 'other')),
+    "details" "text",
+    "message_id" "uuid",
+    "story_content_id" "uuid",
+    "content_type" "text",
+    "content" "text",
+    "status" "text" DEFAULT 'open'::"text" NOT NULL CHECK (status IN ('open', 'actioned', 'dismissed')),
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "reviewed_at" timestamp with time zone,
+    CONSTRAINT "reports_not_self_check" CHECK ("reporter_id" <> "reported_user_id"),
+    CONSTRAINT "reports_details_length_check" CHECK (char_length("details") <= 1000)
+);
+
+-- Primary key
+ALTER TABLE ONLY "public"."reports"
+    ADD CONSTRAINT "reports_pkey" PRIMARY KEY ("id");
+
+-- Foreign keys
+ALTER TABLE ONLY "public"."reports"
+    ADD CONSTRAINT "reports_reporter_id_profiles_id_fk" FOREIGN KEY ("reporter_id") REFERENCES "public"."profiles"("id") ON DELETE CASCADE;
+
+ALTER TABLE ONLY "public"."reports"
+    ADD CONSTRAINT "reports_reported_user_id_profiles_id_fk" FOREIGN KEY ("reported_user_id") REFERENCES "public"."profiles"("id") ON DELETE CASCADE;
+
+ALTER TABLE ONLY "public"."reports"
+    ADD CONSTRAINT "reports_message_id_messages_id_fk" FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE SET NULL;
+
+ALTER TABLE ONLY "public"."reports"
+    ADD CONSTRAINT "reports_story_content_id_story_contents_id_fk" FOREIGN KEY ("story_content_id") REFERENCES "public"."story_contents"("id") ON DELETE SET NULL;
+
+-- Indexes
+CREATE INDEX "reports_status_created_at_idx" ON "public"."reports" USING "btree" ("status", "created_at");
+CREATE INDEX "reports_reported_user_id_idx" ON "public"."reports" USING "btree" ("reported_user_id");
+
+-- =============================================
+-- ROW LEVEL SECURITY
+-- =============================================
+
+ALTER TABLE "public"."blocks" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "public"."reports" ENABLE ROW LEVEL SECURITY;
+
+-- Users see who they have blocked, but not who has blocked them. Blocks are made through block_user().
+CREATE POLICY "Users can view their blocks"
+ON "public"."blocks"
+FOR SELECT
+TO "authenticated"
+USING ("blocker_id" = (SELECT "auth"."uid"()));
+
+CREATE POLICY "Users can unblock"
+ON "public"."blocks"
+FOR DELETE
+TO "authenticated"
+USING ("blocker_id" = (SELECT "auth"."uid"()));
+
+-- Users see the reports they made. Reports are made through report_user().
+CREATE POLICY "Users can view their reports"
+ON "public"."reports"
+FOR SELECT
+TO "authenticated"
+USING ("reporter_id" = (SELECT "auth"."uid"()));
+
+-- =============================================
+-- FUNCTIONS
+-- =============================================
+
+-- Whether either user has blocked the other. Runs as the owner, since users cannot see blocks against them.
+-- Internal, so users cannot find out who blocked whom; clients use cannot_contact().
+CREATE OR REPLACE FUNCTION public.is_blocked_between(p_user_id uuid, p_other_user_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.blocks
+    WHERE (blocker_id = p_user_id AND blocked_id = p_other_user_id)
+       OR (blocker_id = p_other_user_id AND blocked_id = p_user_id)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
+
+-- Whether the current user and another user cannot contact each other, without saying which of them blocked the other
+CREATE OR REPLACE FUNCTION public.cannot_contact(p_user_id uuid)
+RETURNS boolean AS $$
+  SELECT public.is_blocked_between(p_user_id, (SELECT auth.uid()));
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
+
+-- Whether the current user is an active participant in a conversation with another user
+CREATE OR REPLACE FUNCTION public.shares_conversation_with(p_user_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.conversation_participants own
+    JOIN public.conversation_participants other
+      ON other.conversation_id = own.conversation_id
+     AND other.user_id = p_user_id
+     AND other.is_active = true
+    WHERE own.user_id = (SELECT auth.uid())
+      AND own.is_active = true
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
+
+-- Blocks a user. Any friendship and friend requests between the two users are removed.
+CREATE OR REPLACE FUNCTION public.block_user(p_user_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_user_id uuid := (SELECT auth.uid());
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_user_id = v_user_id THEN
+    RAISE EXCEPTION 'You cannot block yourself';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = p_user_id) THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  INSERT INTO public.blocks (blocker_id, blocked_id)
+  VALUES (v_user_id, p_user_id)
+  ON CONFLICT (blocker_id, blocked_id) DO NOTHING;
+
+  DELETE FROM public.friends
+  WHERE (user_id = v_user_id AND friend_id = p_user_id)
+     OR (user_id = p_user_id AND friend_id = v_user_id);
+
+  DELETE FROM public.friend_requests
+  WHERE (requester_id = v_user_id AND addressee_id = p_user_id)
+     OR (requester_id = p_user_id AND addressee_id = v_user_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+-- Reports a user, optionally for a message they sent or an item in their story. The reporter must
+-- be able to see the message or story item; its content is copied into the report.
+CREATE OR REPLACE FUNCTION public.report_user(
+  p_user_id uuid,
+  p_reason text,
+  p_details text,
+  p_message_id uuid,
+  p_story_content_id uuid
+)
+RETURNS uuid AS $$
+DECLARE
+  v_user_id uuid := (SELECT auth.uid());
+  v_content_type text;
+  v_content text;
+  v_report_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_user_id = v_user_id THEN
+    RAISE EXCEPTION 'You cannot report yourself';
+  END IF;
+
+  IF p_message_id IS NOT NULL THEN
+    SELECT m.type, m.content
+    INTO v_content_type, v_content
+    FROM public.messages m
+    JOIN public.conversation_participants cp
+      ON cp.conversation_id = m.conversation_id
+     AND cp.user_id = v_user_id
+    WHERE m.id = p_message_id
+      AND m.sender_id = p_user_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Message not found';
+    END IF;
+  ELSIF p_story_content_id IS NOT NULL THEN
+    SELECT sc.type, sc.content_url
+    INTO v_content_type, v_content
+    FROM public.story_contents sc
+    WHERE sc.id = p_story_content_id
+      AND sc.user_id = p_user_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Story not found';
+    END IF;
+  ELSIF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = p_user_id) THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  INSERT INTO public.reports (
+    reporter_id,
+    reported_user_id,
+    reason,
+    details,
+    message_id,
+    story_content_id,
+    content_type,
+    content
+  )
+  VALUES (
+    v_user_id,
+    p_user_id,
+    p_reason,
+    NULLIF(btrim(p_details), ''),
+    p_message_id,
+    CASE WHEN p_message_id IS NULL THEN p_story_content_id END,
+    v_content_type,
+    v_content
+  )
+  RETURNING id INTO v_report_id;
+
+  RETURN v_report_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+-- Blocked users cannot send each other friend requests
+CREATE OR REPLACE FUNCTION public.prevent_blocked_friend_request()
+RETURNS trigger AS $$
+BEGIN
+  IF public.is_blocked_between(NEW.requester_id, NEW.addressee_id) THEN
+    RAISE EXCEPTION 'You cannot send a friend request to this user';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+CREATE TRIGGER "friend_requests_prevent_blocked"
+BEFORE INSERT ON "public"."friend_requests"
+FOR EACH ROW EXECUTE FUNCTION public.prevent_blocked_friend_request();
+
+-- Blocked users cannot add each other to conversations, whether creating one or adding members to a group.
+-- This also covers add_conversation_participants(), which inserts as the calling user.
+CREATE OR REPLACE FUNCTION public.prevent_blocked_participant()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.user_id <> (SELECT auth.uid()) AND public.is_blocked_between((SELECT auth.uid()), NEW.user_id) THEN
+    RAISE EXCEPTION 'You cannot add this user to a conversation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+CREATE TRIGGER "conversation_participants_prevent_blocked"
+BEFORE INSERT ON "public"."conversation_participants"
+FOR EACH ROW EXECUTE FUNCTION public.prevent_blocked_participant();
+
+-- Blocked users cannot message each other in direct conversations. Groups someone else put them both
+-- in keep working, but their messages there are not pushed to whoever blocked them.
+CREATE OR REPLACE FUNCTION public.prevent_blocked_direct_message()
+RETURNS trigger AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM public.conversations c
+    JOIN public.conversation_participants cp ON cp.conversation_id = c.id
+    WHERE c.id = NEW.conversation_id
+      AND c.type = 'direct'
+      AND cp.user_id <> NEW.sender_id
+      AND public.is_blocked_between(NEW.sender_id, cp.user_id)
+  ) THEN
+    RAISE EXCEPTION 'You cannot message this user';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+CREATE TRIGGER "messages_prevent_blocked"
+BEFORE INSERT ON "public"."messages"
+FOR EACH ROW
+WHEN (NEW."type" <> 'system')
+EXECUTE FUNCTION public.prevent_blocked_direct_message();
+
+-- Replaces the version from 0018 to leave out recipients who blocked the sender
+CREATE OR REPLACE FUNCTION public.queue_message_notifications()
+RETURNS trigger AS $$
+BEGIN
+  INSERT INTO public.notification_events (recipient_id, actor_id, category, message_id)
+  SELECT cp.user_id, NEW.sender_id, 'message', NEW.id
+  FROM public.conversation_participants cp
+  WHERE cp.conversation_id = NEW.conversation_id
+    AND cp.user_id <> NEW.sender_id
+    AND cp.is_active = true
+    AND NOT public.is_blocked_between(NEW.sender_id, cp.user_id);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+-- =============================================
+-- PROFILE VISIBILITY
+-- =============================================
+
+-- Users cannot find anyone they cannot contact in search. They still see the users they blocked, to
+-- unblock them, and anyone they are already in a conversation with, so existing chats keep their names.
+DROP POLICY IF EXISTS "Public profiles are viewable by everyone." ON "public"."profiles";
+
+CREATE POLICY "Profiles are viewable by users who are not blocked"
+ON "public"."profiles"
+FOR SELECT
+TO authenticated
+USING (
+  NOT public.cannot_contact(id)
+  OR id IN (SELECT blocked_id FROM public.blocks WHERE blocker_id = (SELECT auth.uid()))
+  OR public.shares_conversation_with(id)
+);
+
+-- =============================================
+-- STORY VISIBILITY
+-- =============================================
+
+-- Stories are viewable by everyone except users blocked by, or blocking, their owner
+DROP POLICY IF EXISTS "Stories are viewable by everyone" ON "public"."stories";
+
+CREATE POLICY "Stories are viewable by users who are not blocked"
+ON "public"."stories"
+FOR SELECT
+TO authenticated
+USING (NOT public.cannot_contact(user_id));
+
+DROP POLICY IF EXISTS "Story contents are viewable by everyone" ON "public"."story_contents";
+
+CREATE POLICY "Story contents are viewable by users who are not blocked"
+ON "public"."story_contents"
+FOR SELECT
+TO authenticated
+USING (NOT public.cannot_contact(user_id));
+
+-- =============================================
+-- COMMUNITY CONTENT
+-- =============================================
+
+-- Replaces the version from 0009 to leave out content from users blocked by, or blocking, the current user
+CREATE OR REPLACE FUNCTION public.match_community_content(
+  query_embedding extensions.vector(1536),
+  match_count integer DEFAULT 8,
+  min_similarity double precision DEFAULT 0.3
+)
+RETURNS TABLE (
+  source_type text,
+  source_id uuid,
+  itinerary_id uuid,
+  content text,
+  similarity double precision
+) AS $$
+  SELECT
+    ce.source_type,
+    ce.source_id,
+    ce.itinerary_id,
+    ce.content,
+    1 - (ce.embedding OPERATOR(extensions.<=>) query_embedding) AS similarity
+  FROM public.content_embeddings ce
+  WHERE ce.embedding IS NOT NULL
+    AND ce.user_id <> (SELECT auth.uid())
+    AND (ce.itinerary_id IS NULL OR public.get_itinerary_role(ce.itinerary_id) IS NULL)
+    AND NOT public.is_blocked_between(ce.user_id, (SELECT auth.uid()))
+    AND 1 - (ce.embedding OPERATOR(extensions.<=>) query_embedding) >= min_similarity
+  ORDER BY ce.embedding OPERATOR(extensions.<=>) query_embedding
+  LIMIT least(match_count, 20);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
+
+REVOKE EXECUTE ON FUNCTION public.is_blocked_between(uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.cannot_contact(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.shares_conversation_with(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.block_user(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.report_user(uuid, text, text, uuid, uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.prevent_blocked_friend_request() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.prevent_blocked_participant() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.prevent_blocked_direct_message() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.cannot_contact(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.shares_conversation_with(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.block_user(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.report_user(uuid, text, text, uuid, uuid) TO authenticated;
@@ -0,0 +1,73 @@
+-- =============================================
+-- PHOTO_REMOVALS TABLE
+-- =============================================
+
+-- Photos whose message was unsent, or whose view-once message was opened by everyone. The message
+-- keeps no link to the file, so the URL is queued here until the purge job removes the file.
+-- Only the server (service role) reads the queue; participants cannot recover an unsent photo from it.
+CREATE TABLE IF NOT EXISTS "public"."photo_removals" (
+    "content_url" "text" NOT NULL,
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL
+);
+
+-- Primary key
+ALTER TABLE ONLY "public"."photo_removals"
+    ADD CONSTRAINT "photo_removals_pkey" PRIMARY KEY ("content_url");
+
+-- Indexes
+CREATE INDEX "photo_removals_created_at_idx" ON "public"."photo_removals" USING "btree" ("created_at");
+
+-- =============================================
+-- ROW LEVEL SECURITY
+-- =============================================
+
+-- No policies: only the service role reads and deletes queued photos
+ALTER TABLE "public"."photo_removals" ENABLE ROW LEVEL SECURITY;
+
+-- =============================================
+-- FUNCTIONS
+-- =============================================
+
+-- Queues the photo of a message whose content was cleared by unsend_message()
+CREATE OR REPLACE FUNCTION public.queue_cleared_photo_removal()
+RETURNS trigger AS $$
+BEGIN
+  INSERT INTO public.photo_removals (content_url)
+  VALUES (OLD.content)
+  ON CONFLICT (content_url) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+REVOKE EXECUTE ON FUNCTION public.queue_cleared_photo_removal() FROM PUBLIC, anon, authenticated;
+
+-- Queues a view-once photo once it is gone from view_once_photos: opened by everyone, unsent, or
+-- deleted along with its expired message
+CREATE OR REPLACE FUNCTION public.queue_view_once_photo_removal()
+RETURNS trigger AS $$
+BEGIN
+  INSERT INTO public.photo_removals (content_url)
+  VALUES (OLD.content)
+  ON CONFLICT (content_url) DO NOTHING;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+REVOKE EXECUTE ON FUNCTION public.queue_view_once_photo_removal() FROM PUBLIC, anon, authenticated;
+
+-- =============================================
+-- TRIGGERS
+-- =============================================
+
+CREATE TRIGGER queue_cleared_photo_removal
+AFTER UPDATE OF content ON public.messages
+FOR EACH ROW
+WHEN (OLD.type = 'photo' AND OLD.content <> '' AND NEW.content = '')
+EXECUTE FUNCTION public.queue_cleared_photo_removal();
+
+CREATE TRIGGER queue_view_once_photo_removal
+AFTER DELETE ON public.view_once_photos
+FOR EACH ROW
+EXECUTE FUNCTION public.queue_view_once_photo_removal();
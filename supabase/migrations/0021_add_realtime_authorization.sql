@@ -0,0 +1,39 @@
+-- =============================================
+-- REALTIME AUTHORIZATION
+-- =============================================
+
+-- Typing indicators are broadcast on each conversation's `messages:<conversation_id>` channel and
+-- online presence is tracked on its `presence:<conversation_id>` channel. Both are private channels,
+-- so Realtime only lets active participants of the conversation join, send and receive on them.
+CREATE OR REPLACE FUNCTION public.can_use_conversation_channel(p_topic text)
+RETURNS boolean AS $$
+  SELECT split_part(p_topic, ':', 1) IN ('messages', 'presence')
+    AND EXISTS (
+      SELECT 1
+      FROM public.conversation_participants cp
+      WHERE cp.conversation_id::text = split_part(p_topic, ':', 2)
+        AND cp.user_id = (SELECT auth.uid())
+        AND cp.is_active = true
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
+
+REVOKE EXECUTE ON FUNCTION public.can_use_conversation_channel(text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.can_use_conversation_channel(text) TO authenticated;
+
+CREATE POLICY "Participants can receive typing and presence in their conversations"
+ON "realtime"."messages"
+FOR SELECT
+TO "authenticated"
+USING (
+  "realtime"."messages"."extension" IN ('broadcast', 'presence')
+  AND public.can_use_conversation_channel((SELECT "realtime"."topic"()))
+);
+
+CREATE POLICY "Participants can send typing and presence in their conversations"
+ON "realtime"."messages"
+FOR INSERT
+TO "authenticated"
+WITH CHECK (
+  "realtime"."messages"."extension" IN ('broadcast', 'presence')
+  AND public.can_use_conversation_channel((SELECT "realtime"."topic"()))
+);